@@ -3,6 +3,8 @@ module.exports = {
   testEnvironment: 'node',
   roots: ['<rootDir>/src'],
   testMatch: ['**/__tests__/**/*.ts', '**/?(*.)+(spec|test).ts'],
+  // Helpers shared by test files
+  testPathIgnorePatterns: ['/node_modules/', '/__tests__/support/'],
   transform: {
     '^.+\\.ts$': 'ts-jest',
   },
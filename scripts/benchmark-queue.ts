@@ -0,0 +1,107 @@
+/**
+ * Compares claiming the next eligible job with the indexed JobQueue against the
+ * previous full-scan implementation, while the store holds many terminal jobs.
+ *
+ * Usage: npm run benchmark -- [terminalJobs] [pendingJobs] [claims]
+ */
+import { Job } from '../src/domain/entities/Job';
+import { JobFactory } from '../src/domain/factories/JobFactory';
+import { JobStatus } from '../src/domain/value-objects/JobStatus';
+import { createSuccessResult } from '../src/domain/value-objects/JobResult';
+import { JobQueue } from '../src/application/services/JobQueue';
+
+interface ClaimableQueue {
+  addJob(job: Job): void;
+  updateJob(job: Job): void;
+  getNextEligibleJob(): Job | undefined;
+}
+
+/** The pre-index implementation: scan, filter and sort every stored job on each claim */
+class LinearScanQueue implements ClaimableQueue {
+  private jobs = new Map<string, Job>();
+
+  addJob(job: Job): void {
+    this.jobs.set(job.id, job);
+  }
+
+  updateJob(job: Job): void {
+    this.jobs.set(job.id, job);
+  }
+
+  getNextEligibleJob(): Job | undefined {
+    const eligible = Array.from(this.jobs.values()).filter(
+      (job) => job.status === JobStatus.PENDING && JobFactory.isEligible(job)
+    );
+
+    eligible.sort(
+      (a, b) => b.config.priority - a.config.priority || a.created_at - b.created_at
+    );
+
+    return eligible[0];
+  }
+}
+
+const TYPES = ['email', 'sms', 'notification', 'webhook'];
+
+function buildJobs(terminalJobs: number, pendingJobs: number): Job[] {
+  const jobs: Job[] = [];
+
+  for (let i = 0; i < terminalJobs; i++) {
+    const job = JobFactory.createJob({ type: TYPES[i % TYPES.length], payload: { i } });
+    jobs.push(JobFactory.completeJob(JobFactory.startJob(job), createSuccessResult('Done')));
+  }
+
+  for (let i = 0; i < pendingJobs; i++) {
+    jobs.push(
+      JobFactory.createJob({
+        type: TYPES[i % TYPES.length],
+        payload: { i },
+        config: { priority: i % 10 },
+      })
+    );
+  }
+
+  return jobs;
+}
+
+function measure(name: string, queue: ClaimableQueue, jobs: Job[], claims: number): void {
+  jobs.forEach((job) => queue.addJob(job));
+
+  const start = process.hrtime.bigint();
+  let claimed = 0;
+
+  for (; claimed < claims; claimed++) {
+    const job = queue.getNextEligibleJob();
+
+    if (!job) {
+      break;
+    }
+
+    queue.updateJob(JobFactory.startJob(job));
+  }
+
+  const elapsedMs = Number(process.hrtime.bigint() - start) / 1e6;
+  const perClaimUs = claimed ? (elapsedMs * 1000) / claimed : 0;
+
+  console.log(
+    `${name.padEnd(12)} ${String(claimed).padStart(6)} claims  ` +
+      `${elapsedMs.toFixed(1).padStart(10)} ms  ${perClaimUs.toFixed(2).padStart(10)} µs/claim`
+  );
+}
+
+function main(): void {
+  const [terminalJobs = 100000, pendingJobs = 10000, claims = 1000] = process.argv
+    .slice(2)
+    .map(Number);
+
+  console.log(
+    `Store: ${terminalJobs} terminal jobs, ${pendingJobs} pending jobs; claiming ${claims}\n`
+  );
+
+  const jobs = buildJobs(terminalJobs, pendingJobs);
+
+  measure('linear scan', new LinearScanQueue(), jobs, claims);
+  measure('indexed', new JobQueue(), jobs, claims);
+}
+
+main();
@@ -0,0 +1,75 @@
+import { BatchRepository, JobRepository } from '../../domain';
+import { Job } from '../../domain/entities/Job';
+import { Batch } from '../../domain/entities/Batch';
+import { BatchFactory } from '../../domain/factories/BatchFactory';
+import { JobFactory } from '../../domain/factories/JobFactory';
+
+/**
+ * Counts batch members as they reach a terminal status and submits the batch's
+ * callback job once the last one does. Each count is an atomic update of the batch,
+ * so members finishing together (on any instance) cannot overwrite each other's
+ * count, and only the update that finishes the batch submits the callback.
+ */
+export class BatchTracker {
+  private updates: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly repository: JobRepository,
+    private readonly batchRepository: BatchRepository
+  ) {}
+
+  recordFinished(job: Job): Promise<void> {
+    if (!job.batch_id || !JobFactory.isTerminal(job)) {
+      return Promise.resolve();
+    }
+
+    const update = this.updates.then(() => this.apply(job.batch_id!));
+    this.updates = update.catch((error) => {
+      console.error(`Error tracking batch ${job.batch_id}:`, error);
+    });
+
+    return this.updates;
+  }
+
+  /**
+   * Narrows a batch to the members its submission created. Those may all have
+   * finished already, in which case this update is the one finishing the batch.
+   */
+  async keepMembers(batchId: string, jobIds: string[]): Promise<Batch | null> {
+    const updated = await this.batchRepository.update(batchId, (batch) =>
+      BatchFactory.keepMembers(batch, jobIds)
+    );
+
+    return updated && this.submitCallback(updated);
+  }
+
+  private async apply(batchId: string): Promise<void> {
+    const updated = await this.batchRepository.update(batchId, (batch) =>
+      BatchFactory.recordFinished(batch)
+    );
+
+    if (updated) {
+      await this.submitCallback(updated);
+    }
+  }
+
+  /**
+   * Submits the callback of a batch the caller's update just finished
+   */
+  private async submitCallback(batch: Batch): Promise<Batch> {
+    if (BatchFactory.getStatus(batch) !== 'finished' || !batch.callback) {
+      return batch;
+    }
+
+    const callbackJob = BatchFactory.createCallbackJob(batch);
+    await this.repository.save(callbackJob);
+    const updated = await this.batchRepository.update(batch.id, (current) => ({
+      ...current,
+      callback_job_id: callbackJob.id,
+    }));
+
+    console.log(`Batch ${batch.id} finished, callback job ${callbackJob.id} submitted`);
+
+    return updated ?? batch;
+  }
+}
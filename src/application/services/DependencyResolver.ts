@@ -0,0 +1,112 @@
+import { JobRepository } from '../../domain';
+import { Job } from '../../domain/entities/Job';
+import { JobDependency } from '../../domain/value-objects/JobDependency';
+import { JobStatus } from '../../domain/value-objects/JobStatus';
+import { JobFactory } from '../../domain/factories/JobFactory';
+import { ChainFactory } from '../../domain/factories/ChainFactory';
+import { createErrorResult } from '../../domain/value-objects/JobResult';
+
+/**
+ * Moves BLOCKED jobs forward as their dependencies finish: a job becomes PENDING once
+ * every parent COMPLETED, and is cancelled or skipped (per edge policy) as soon as one
+ * parent ends any other way. Abandoned jobs cascade to their own dependents.
+ * Jobs with a `pipe` get the piped parent's result data in their payload when released;
+ * chain steps are released through `ChainFactory.advanceChain`.
+ */
+export class DependencyResolver {
+  constructor(private readonly repository: JobRepository) {}
+
+  async assertDependenciesExist(dependencies: Array<Pick<JobDependency, 'job_id'>>): Promise<void> {
+    for (const dependency of dependencies) {
+      if (!(await this.repository.exists(dependency.job_id))) {
+        throw new Error(`Unknown dependency job ${dependency.job_id}`);
+      }
+    }
+  }
+
+  /**
+   * Settles a BLOCKED job against the current state of its parents. Several processors
+   * may evaluate the same job at once; only the first to move it out of BLOCKED saves.
+   * @param finished - A parent that just finished, used as is instead of re-reading it
+   * @returns The job after evaluation (saved when its status changed)
+   */
+  async evaluate(job: Job, finished?: Job): Promise<Job> {
+    if (job.status !== JobStatus.BLOCKED) {
+      return job;
+    }
+
+    let allCompleted = true;
+    const parents = new Map<string, Job>();
+
+    for (const dependency of job.depends_on) {
+      const parent =
+        dependency.job_id === finished?.id
+          ? finished
+          : await this.repository.findById(dependency.job_id);
+
+      if (parent?.status === JobStatus.COMPLETED) {
+        parents.set(parent.id, parent);
+        continue;
+      }
+
+      if (!parent || JobFactory.isTerminal(parent)) {
+        return this.settle(job, (blocked) => JobFactory.abandonJob(blocked, dependency.job_id));
+      }
+
+      allCompleted = false;
+    }
+
+    if (!allCompleted) {
+      return job;
+    }
+
+    const piped = job.pipe && parents.get(job.pipe.job_id);
+
+    try {
+      return await this.settle(job, (blocked) =>
+        blocked.chain_id !== undefined && piped
+          ? ChainFactory.advanceChain(piped, blocked)
+          : JobFactory.unblockJob(blocked, piped?.result)
+      );
+    } catch (error) {
+      // The piped result does not fit the payload template: the job can never run
+      const result = createErrorResult(
+        `Cannot pipe result into payload: ${(error as Error).message}`,
+        422,
+        { dependency: job.pipe?.job_id }
+      );
+      return this.settle(job, (blocked) => JobFactory.cancelJob(blocked, result));
+    }
+  }
+
+  /**
+   * Re-evaluates the BLOCKED direct dependents of a job that just reached a terminal status
+   */
+  async resolveDependents(parent: Job): Promise<void> {
+    if (!JobFactory.isTerminal(parent)) {
+      return;
+    }
+
+    for (const job of await this.repository.findDependents(parent.id)) {
+      await this.evaluate(job, parent);
+    }
+  }
+
+  /**
+   * Saves the job as `transition` leaves it, unless it is no longer BLOCKED in storage;
+   * a job that ended this way cascades to its own dependents
+   * @returns The job as stored afterwards
+   */
+  private async settle(job: Job, transition: (blocked: Job) => Job): Promise<Job> {
+    const settled = await this.repository.update(job.id, (stored) =>
+      stored.status === JobStatus.BLOCKED ? transition(stored) : null
+    );
+
+    if (!settled) {
+      return (await this.repository.findById(job.id)) ?? job;
+    }
+
+    await this.resolveDependents(settled);
+    return settled;
+  }
+}
@@ -0,0 +1,177 @@
+import { JobRepository } from '../../domain';
+import { Job } from '../../domain/entities/Job';
+import { JobFactory } from '../../domain/factories/JobFactory';
+import { JobStatus } from '../../domain/value-objects/JobStatus';
+import { JobResult, createErrorResult } from '../../domain/value-objects/JobResult';
+import { evaluateFanIn } from '../../domain/value-objects/FanOut';
+import {
+  ChildJobResult,
+  JobExecutionContext,
+  MapReduceJobHandler,
+} from '../../domain/interfaces/JobHandler.interface';
+import { JobHandlerRegistry } from './JobHandlerRegistry';
+
+/**
+ * Runs the two phases of map-reduce jobs:
+ * - the map step spawns child jobs and parks the parent in WAITING
+ * - children reaching a terminal status update the parent's progress; once its fan-in
+ *   policy is met (or can no longer be met) the parent goes back to PENDING and its
+ *   next execution runs the reduce step
+ * Progress updates are applied one at a time, and each is an atomic update of the
+ * parent, so children finishing together (on any instance) cannot overwrite each
+ * other's count.
+ */
+export class FanOutCoordinator {
+  private updates: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly repository: JobRepository,
+    private readonly handlerRegistry: JobHandlerRegistry
+  ) {}
+
+  /**
+   * Runs the map step of a RUNNING parent and saves its children
+   * @returns The WAITING parent, or undefined when the map step spawned no children
+   */
+  async fanOut(
+    job: Job,
+    handler: MapReduceJobHandler,
+    context: JobExecutionContext
+  ): Promise<Job | undefined> {
+    const childData = await handler.map(job, context);
+
+    // The executor gave up on this attempt (e.g. timeout); nothing may be saved for it
+    context.signal.throwIfAborted();
+
+    if (childData.length === 0) {
+      return undefined;
+    }
+
+    const children = childData.map((data) => {
+      if (!this.handlerRegistry.hasHandler(data.type)) {
+        throw new Error(`Unknown job type '${data.type}' for child job`);
+      }
+
+      return {
+        ...JobFactory.createJob({ type: data.type, payload: data.payload, config: data.config }),
+        parent_id: job.id,
+      };
+    });
+
+    const waiting = JobFactory.waitForChildren(
+      job,
+      children.map((child) => child.id)
+    );
+
+    // The parent must be WAITING before any child can finish and be counted
+    await this.repository.save(waiting);
+
+    for (const child of children) {
+      await this.repository.save(child);
+    }
+
+    return waiting;
+  }
+
+  /**
+   * Runs the reduce step of a resumed parent, unless its fan-in policy failed
+   */
+  async fanIn(job: Job, handler: MapReduceJobHandler, context: JobExecutionContext): Promise<JobResult> {
+    const children = await this.getChildResults(job);
+
+    if (job.fan_out && evaluateFanIn(job.config.fan_in, job.fan_out) === 'fail') {
+      const { completed, failed, child_ids } = job.fan_out;
+
+      return createErrorResult(
+        `Fan-in policy '${job.config.fan_in.strategy}' not met: ` +
+          `${completed} of ${child_ids.length} child jobs completed`,
+        424,
+        { completed, failed, total: child_ids.length }
+      );
+    }
+
+    return handler.reduce(job, children, context);
+  }
+
+  recordChildFinished(child: Job): Promise<void> {
+    if (!child.parent_id || !JobFactory.isTerminal(child)) {
+      return Promise.resolve();
+    }
+
+    const update = this.updates.then(() => this.apply(child));
+    this.updates = update.catch((error) => {
+      console.error(`Error tracking children of job ${child.parent_id}:`, error);
+    });
+
+    return this.updates;
+  }
+
+  private async apply(child: Job): Promise<void> {
+    // Children finishing after the parent stopped waiting are ignored
+    const recorded = await this.repository.update(child.parent_id!, (parent) =>
+      parent.status === JobStatus.WAITING ? JobFactory.recordChildFinished(parent, child) : null
+    );
+
+    if (!recorded) {
+      return;
+    }
+
+    const decision = evaluateFanIn(recorded.config.fan_in, recorded.fan_out!);
+
+    if (decision === 'waiting') {
+      return;
+    }
+
+    const cancelled = decision === 'fail' ? await this.cancelUnstartedChildren(recorded) : 0;
+
+    await this.repository.update(recorded.id, (parent) =>
+      parent.status === JobStatus.WAITING
+        ? JobFactory.resumeWaitingJob({
+            ...parent,
+            fan_out: { ...parent.fan_out!, failed: parent.fan_out!.failed + cancelled },
+          })
+        : null
+    );
+  }
+
+  /**
+   * Cancels children that have not started yet; they count as failed
+   * @returns How many were cancelled
+   */
+  private async cancelUnstartedChildren(parent: Job): Promise<number> {
+    const result = createErrorResult(
+      `Parent job ${parent.id} stopped waiting for its children`,
+      424,
+      { parent: parent.id }
+    );
+    let cancelled = 0;
+
+    for (const childId of parent.fan_out!.child_ids) {
+      const child = await this.repository.update(childId, (stored) =>
+        stored.status === JobStatus.PENDING || stored.status === JobStatus.BLOCKED
+          ? JobFactory.cancelJob(stored, result)
+          : null
+      );
+
+      if (child) {
+        cancelled++;
+      }
+    }
+
+    return cancelled;
+  }
+
+  private async getChildResults(job: Job): Promise<ChildJobResult[]> {
+    const results: ChildJobResult[] = [];
+
+    for (const childId of job.fan_out?.child_ids ?? []) {
+      const child = await this.repository.findById(childId);
+
+      if (child) {
+        results.push({ job_id: child.id, status: child.status, result: child.result });
+      }
+    }
+
+    return results;
+  }
+}
@@ -0,0 +1,163 @@
+import { createHash } from 'crypto';
+import { IdempotencyKeyRepository } from '../../domain';
+import {
+  DEFAULT_IDEMPOTENCY_KEY_TTL,
+  IdempotencyKey,
+  IdempotentResponse,
+  MAX_IDEMPOTENCY_KEY_LENGTH,
+} from '../../domain/entities/IdempotencyKey';
+
+export interface IdempotencyKeyStoreOptions {
+  /**
+   * Milliseconds a key is remembered after its first use
+   * @default DEFAULT_IDEMPOTENCY_KEY_TTL (24 hours)
+   */
+  ttl?: number;
+  /**
+   * Milliseconds between sweeps of the expired keys, while started
+   * @default 60000 (one minute)
+   */
+  sweepInterval?: number;
+}
+
+export type IdempotencyClaim =
+  | { status: 'claimed' }
+  | { status: 'replay'; response: IdempotentResponse };
+
+/**
+ * Remembers the response sent for each `Idempotency-Key`, so a retried request
+ * gets the original response instead of being processed twice. Keys are claimed
+ * through the repository's atomic `create`, which keeps concurrent retries apart
+ * with any repository implementation. Expired keys are swept in the background
+ * between `start` and `stop`, off the request path.
+ */
+export class IdempotencyKeyStore {
+  private readonly ttl: number;
+  private readonly sweepInterval: number;
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly repository: IdempotencyKeyRepository,
+    options: IdempotencyKeyStoreOptions = {}
+  ) {
+    this.ttl = options.ttl ?? DEFAULT_IDEMPOTENCY_KEY_TTL;
+    this.sweepInterval = options.sweepInterval ?? 60 * 1000;
+
+    if (!Number.isInteger(this.ttl) || this.ttl <= 0) {
+      throw new Error('Idempotency key ttl must be a positive integer (milliseconds)');
+    }
+
+    if (!(this.sweepInterval > 0)) {
+      throw new Error('Idempotency key sweep interval must be a positive number');
+    }
+  }
+
+  /**
+   * Starts sweeping expired keys; the timer does not keep the process alive
+   */
+  start(): void {
+    if (this.sweepTimer) {
+      return;
+    }
+
+    this.sweepTimer = setInterval(() => {
+      this.repository.deleteExpired(Date.now()).catch((error) => {
+        console.error('Error sweeping idempotency keys:', error);
+      });
+    }, this.sweepInterval);
+    this.sweepTimer.unref();
+  }
+
+  stop(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  /**
+   * Claims `key` for processing `request`, or returns the response recorded for it
+   * @throws When the key was used with a different request or is still being processed
+   */
+  async claim(key: string, request: unknown, now: number = Date.now()): Promise<IdempotencyClaim> {
+    IdempotencyKeyStore.validateKey(key);
+
+    const record: IdempotencyKey = {
+      key,
+      fingerprint: IdempotencyKeyStore.fingerprint(request),
+      created_at: now,
+      expires_at: now + this.ttl,
+    };
+
+    if (await this.repository.create(record)) {
+      return { status: 'claimed' };
+    }
+
+    const existing = await this.repository.findByKey(key);
+
+    if (!existing) {
+      // Released in between
+      return this.claim(key, request, now);
+    }
+
+    if (existing.fingerprint !== record.fingerprint) {
+      throw new Error(`Idempotency-Key '${key}' was already used with a different request body`);
+    }
+
+    if (!existing.response) {
+      throw new Error(`Idempotency-Key '${key}' is already being processed`);
+    }
+
+    return { status: 'replay', response: existing.response };
+  }
+
+  /**
+   * Records the response of a claimed key, to be replayed until the key expires
+   */
+  async complete(key: string, response: IdempotentResponse): Promise<void> {
+    const record = await this.repository.findByKey(key);
+
+    if (!record) {
+      return;
+    }
+
+    await this.repository.save({ ...record, response });
+  }
+
+  /**
+   * Forgets a claimed key whose request failed, so that it can be retried
+   */
+  async release(key: string): Promise<void> {
+    await this.repository.delete(key);
+  }
+
+  static validateKey(key: string): void {
+    if (typeof key !== 'string' || key.length === 0 || key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+      throw new Error(
+        `Idempotency-Key header must be a non-empty string of at most ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`
+      );
+    }
+  }
+
+  /**
+   * Hashes a request body independently of the order of its object keys
+   */
+  static fingerprint(request: unknown): string {
+    return createHash('sha256').update(canonicalJson(request)).digest('hex');
+  }
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+
+  return JSON.stringify(value) ?? 'null';
+}
@@ -0,0 +1,119 @@
+/**
+ * Binary min-heap whose entries are addressable by key, so an arbitrary entry
+ * can be removed or replaced in O(log n).
+ * `compare(a, b) < 0` means `a` comes out first.
+ */
+export class IndexedHeap<T> {
+  private entries: Array<{ key: string; value: T }> = [];
+  private positions: Map<string, number> = new Map();
+
+  constructor(private readonly compare: (a: T, b: T) => number) {}
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  has(key: string): boolean {
+    return this.positions.has(key);
+  }
+
+  peek(): T | undefined {
+    return this.entries[0]?.value;
+  }
+
+  push(key: string, value: T): void {
+    if (this.positions.has(key)) {
+      this.remove(key);
+    }
+
+    this.entries.push({ key, value });
+    this.positions.set(key, this.entries.length - 1);
+    this.siftUp(this.entries.length - 1);
+  }
+
+  pop(): T | undefined {
+    const top = this.entries[0];
+
+    if (!top) {
+      return undefined;
+    }
+
+    this.remove(top.key);
+    return top.value;
+  }
+
+  remove(key: string): boolean {
+    const index = this.positions.get(key);
+
+    if (index === undefined) {
+      return false;
+    }
+
+    const last = this.entries.length - 1;
+    this.swap(index, last);
+    this.entries.pop();
+    this.positions.delete(key);
+
+    if (index < this.entries.length) {
+      this.siftDown(index);
+      this.siftUp(index);
+    }
+
+    return true;
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.positions.clear();
+  }
+
+  private siftUp(index: number): void {
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+
+      if (this.compare(this.entries[index].value, this.entries[parent].value) >= 0) {
+        return;
+      }
+
+      this.swap(index, parent);
+      index = parent;
+    }
+  }
+
+  private siftDown(index: number): void {
+    const length = this.entries.length;
+
+    while (true) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+
+      if (left < length && this.compare(this.entries[left].value, this.entries[smallest].value) < 0) {
+        smallest = left;
+      }
+
+      if (right < length && this.compare(this.entries[right].value, this.entries[smallest].value) < 0) {
+        smallest = right;
+      }
+
+      if (smallest === index) {
+        return;
+      }
+
+      this.swap(index, smallest);
+      index = smallest;
+    }
+  }
+
+  private swap(i: number, j: number): void {
+    if (i === j) {
+      return;
+    }
+
+    const entry = this.entries[i];
+    this.entries[i] = this.entries[j];
+    this.entries[j] = entry;
+    this.positions.set(this.entries[i].key, i);
+    this.positions.set(this.entries[j].key, j);
+  }
+}
@@ -1,79 +1,292 @@
 import { Job } from '../../domain/entities/Job';
 import { JobFactory } from '../../domain/factories/JobFactory';
 import {
-  createSuccessResult,
+  JobResult,
   createErrorResult,
+  isErrorResult,
 } from '../../domain/value-objects/JobResult';
+import { DEFAULT_JOB_TIMEOUT, validateTimeout } from '../../domain/value-objects/JobConfig';
+import {
+  JobExecutionContext,
+  JobLogger,
+  isMapReduceHandler,
+} from '../../domain/interfaces/JobHandler.interface';
+import { JobLogLevel } from '../../domain/entities/JobLog';
+import { JobProgress, createJobProgress } from '../../domain/value-objects/JobProgress';
+import { JobHandlerRegistry } from './JobHandlerRegistry';
+import { FanOutCoordinator } from './FanOutCoordinator';
+import { ProgressTracker } from './ProgressTracker';
+import { JobLogStore } from './JobLogStore';
+
+export interface JobExecutorOptions {
+  /**
+   * Execution timeout (ms) of jobs without `config.timeout`
+   * @default DEFAULT_JOB_TIMEOUT (5 minutes)
+   */
+  defaultTimeout?: number;
+  /**
+   * Milliseconds a force-cancelled handler is given to stop before its job is cancelled anyway
+   * @default 10000
+   */
+  cancelGracePeriod?: number;
+  /**
+   * Persists the progress handlers report while they run; without it, only the
+   * latest report is kept on the finished job
+   */
+  progressTracker?: ProgressTracker;
+  /**
+   * Stores the lines handlers write through `context.logger`; without it, they are discarded
+   */
+  logStore?: JobLogStore;
+}
+
+/**
+ * A cancellation requested for a RUNNING job
+ */
+export interface JobCancellation {
+  requested_at: number;
+  /** Cancel the job after the grace period even if the handler has not stopped */
+  force: boolean;
+  /** Set when the grace period ran out and the handler was left behind */
+  abandoned: boolean;
+}
+
+/** Bookkeeping of one running attempt */
+interface Execution {
+  controller: AbortController;
+  /** Rejects the pending handler call, so the attempt ends without waiting for it */
+  abandon: (reason: Error) => void;
+  abandoned: Promise<never>;
+  timers: NodeJS.Timeout[];
+  cancellation?: JobCancellation;
+  progress?: JobProgress;
+}
 
 export class JobExecutor {
-  private readonly MIN_EXECUTION_TIME = 100; // milliseconds
-  private readonly MAX_EXECUTION_TIME = 2000; // milliseconds
-  private readonly FAILURE_RATE = 0.1; // 10% failure rate
+  private readonly DEFAULT_CANCEL_GRACE_PERIOD = 10000;
+  private readonly defaultTimeout: number;
+  private readonly cancelGracePeriod: number;
+  private readonly progressTracker?: ProgressTracker;
+  private readonly logStore?: JobLogStore;
+  private readonly executions: Map<string, Execution> = new Map();
 
-  async executeJob(job: Job): Promise<Job> {
-    await this.simulateExecution();
+  /**
+   * @param fanOutCoordinator - Required to run map-reduce handlers
+   */
+  constructor(
+    private readonly handlerRegistry: JobHandlerRegistry,
+    private readonly fanOutCoordinator?: FanOutCoordinator,
+    options: JobExecutorOptions = {}
+  ) {
+    this.defaultTimeout = options.defaultTimeout ?? DEFAULT_JOB_TIMEOUT;
+    this.cancelGracePeriod = options.cancelGracePeriod ?? this.DEFAULT_CANCEL_GRACE_PERIOD;
+    this.progressTracker = options.progressTracker;
+    this.logStore = options.logStore;
+
+    validateTimeout(this.defaultTimeout);
 
-    const shouldFail = this.shouldFail();
+    if (!Number.isInteger(this.cancelGracePeriod) || this.cancelGracePeriod < 0) {
+      throw new Error('Cancel grace period must be a non-negative integer (milliseconds)');
+    }
+  }
+
+  async executeJob(job: Job): Promise<Job> {
+    const handler = this.handlerRegistry.getHandler(job.type);
 
-    if (shouldFail) {
+    if (!handler) {
       const errorResult = createErrorResult(
-        this.generateFailureMessage(job.type),
-        this.generateErrorCode(),
+        `No handler registered for job type '${job.type}'`,
+        501,
         { jobType: job.type, timestamp: Date.now() }
       );
 
       return JobFactory.failJob(job, errorResult);
     }
 
-    const successResult = createSuccessResult(
-      this.generateSuccessMessage(job.type),
-      { jobType: job.type, processedAt: Date.now() }
-    );
+    const timeout = job.config.timeout ?? this.defaultTimeout;
+    const execution = this.startExecution(job, timeout);
+    const context: JobExecutionContext = {
+      signal: execution.controller.signal,
+      reportProgress: (percent, message, data) => this.reportProgress(job.id, execution, percent, message, data),
+      logger: this.createLogger(job, execution),
+    };
+    // The finished job keeps the last progress of the attempt
+    const current = (): Job =>
+      execution.progress ? JobFactory.updateProgress(job, execution.progress) : job;
+    let result: JobResult;
+
+    try {
+      if (!isMapReduceHandler(handler)) {
+        result = await this.settle(execution, handler.handle(job, context));
+      } else if (!this.fanOutCoordinator) {
+        throw new Error(`Job type '${job.type}' is map-reduce but fan-out is not configured`);
+      } else {
+        // First execution runs the map step; the one after the children settle runs reduce
+        const waiting = job.fan_out
+          ? undefined
+          : await this.settle(execution, this.fanOutCoordinator.fanOut(job, handler, context));
+
+        if (waiting) {
+          return waiting;
+        }
+
+        result = await this.settle(execution, this.fanOutCoordinator.fanIn(job, handler, context));
+      }
+    } catch (error) {
+      context.logger.error(
+        error instanceof Error ? error.message : String(error),
+        error instanceof Error && error.stack ? { stack: error.stack } : undefined
+      );
+      result = createErrorResult(
+        error instanceof Error ? error.message : String(error),
+        500,
+        { jobType: job.type, timestamp: Date.now() }
+      );
+
+      if (!execution.cancellation && execution.controller.signal.aborted) {
+        const timeoutResult = createErrorResult(`Job timed out after ${timeout}ms`, 408, {
+          jobType: job.type,
+          timeout,
+          timestamp: Date.now(),
+        });
+
+        // Retried like any retryable failure while attempts remain (408 is retryable by default)
+        return JobFactory.canRetry(job, timeoutResult)
+          ? JobFactory.retryJob(current(), timeoutResult)
+          : JobFactory.timeOutJob(current(), timeoutResult);
+      }
+    } finally {
+      this.endExecution(job.id, execution);
+      await this.progressTracker?.finish(job.id);
+    }
+
+    // Whatever the handler ended with, the user asked for the job to stop
+    if (execution.cancellation) {
+      return JobFactory.cancelRunningJob(
+        current(),
+        createErrorResult('Job was cancelled while running', 499, { ...execution.cancellation })
+      );
+    }
 
-    return JobFactory.completeJob(job, successResult);
+    if (isErrorResult(result)) {
+      return JobFactory.canRetry(job, result)
+        ? JobFactory.retryJob(current(), result)
+        : JobFactory.failJob(current(), result);
+    }
+
+    return JobFactory.completeJob(current(), result);
+  }
+
+  /**
+   * Asks the handler of a RUNNING job to stop by aborting its signal; the job is
+   * cancelled once the handler settles. With `force`, the job is cancelled after the
+   * grace period even if the handler keeps running.
+   * @returns The cancellation, or undefined when the job is not executing here
+   */
+  requestCancellation(jobId: string, options: { force?: boolean } = {}): JobCancellation | undefined {
+    const execution = this.executions.get(jobId);
+
+    if (!execution) {
+      return undefined;
+    }
+
+    if (!execution.cancellation) {
+      execution.cancellation = { requested_at: Date.now(), force: false, abandoned: false };
+      execution.controller.abort(new Error('Job was cancelled'));
+    }
+
+    if (options.force && !execution.cancellation.force) {
+      const cancellation = execution.cancellation;
+      cancellation.force = true;
+
+      execution.timers.push(
+        setTimeout(() => {
+          cancellation.abandoned = true;
+          execution.abandon(new Error('Job was force-cancelled'));
+        }, this.cancelGracePeriod)
+      );
+    }
+
+    return { ...execution.cancellation };
   }
 
-  private async simulateExecution(): Promise<void> {
-    const executionTime = this.generateExecutionTime();
-    return new Promise((resolve) => setTimeout(resolve, executionTime));
+  isExecuting(jobId: string): boolean {
+    return this.executions.has(jobId);
   }
 
-  private generateExecutionTime(): number {
-    return (
-      Math.floor(
-        Math.random() * (this.MAX_EXECUTION_TIME - this.MIN_EXECUTION_TIME + 1)
-      ) + this.MIN_EXECUTION_TIME
+  private startExecution(job: Job, timeout: number): Execution {
+    this.progressTracker?.start(job);
+
+    const controller = new AbortController();
+    let abandon!: (reason: Error) => void;
+    const abandoned = new Promise<never>((_, reject) => {
+      abandon = reject;
+    });
+    abandoned.catch(() => undefined);
+
+    const execution: Execution = { controller, abandon, abandoned, timers: [] };
+
+    execution.timers.push(
+      setTimeout(() => {
+        const error = new Error(`Job timed out after ${timeout}ms`);
+        controller.abort(error);
+        abandon(error);
+      }, timeout)
     );
+
+    this.executions.set(job.id, execution);
+    return execution;
   }
 
-  private shouldFail(): boolean {
-    return Math.random() < this.FAILURE_RATE;
+  private endExecution(jobId: string, execution: Execution): void {
+    execution.timers.forEach((timer) => clearTimeout(timer));
+
+    if (this.executions.get(jobId) === execution) {
+      this.executions.delete(jobId);
+    }
   }
 
-  private generateSuccessMessage(jobType: string): string {
-    const messages: Record<string, string> = {
-      email: 'Email sent successfully!',
-      sms: 'SMS sent successfully!',
-      notification: 'Notification delivered successfully!',
-      webhook: 'Webhook called successfully!',
-    };
+  private reportProgress(
+    jobId: string,
+    execution: Execution,
+    percent: number,
+    message?: string,
+    data?: Record<string, any>
+  ): void {
+    const progress = createJobProgress(percent, message, data);
+
+    // Reports of an abandoned handler arrive after its attempt is over
+    if (this.executions.get(jobId) !== execution) {
+      return;
+    }
 
-    return messages[jobType] || `Job of type '${jobType}' completed successfully!`;
+    execution.progress = progress;
+    this.progressTracker?.report(jobId, progress);
   }
 
-  private generateFailureMessage(jobType: string): string {
-    const messages: Record<string, string> = {
-      email: 'Failed to call SMTP service',
-      sms: 'Failed to call SMS gateway',
-      notification: 'Failed to deliver notification',
-      webhook: 'Failed to call webhook endpoint',
+  private createLogger(job: Job, execution: Execution): JobLogger {
+    const log = (level: JobLogLevel) => (message: string, data?: Record<string, any>) => {
+      // Lines of an abandoned handler arrive after its attempt is over
+      if (!this.logStore || this.executions.get(job.id) !== execution) {
+        return;
+      }
+
+      this.logStore
+        .append(job.id, job.attempts, level, String(message), data)
+        .catch((error) => console.error(`Failed to store log line of job ${job.id}:`, error));
     };
 
-    return messages[jobType] || `Failed to execute job of type '${jobType}'`;
+    return { debug: log('debug'), info: log('info'), warn: log('warn'), error: log('error') };
   }
 
-  private generateErrorCode(): number {
-    const errorCodes = [500, 502, 503, 504];
-    return errorCodes[Math.floor(Math.random() * errorCodes.length)];
+  /**
+   * Settles with `work`, unless the execution is abandoned first (timeout or forced
+   * cancellation); the handler was already notified through the aborted signal
+   */
+  private settle<T>(execution: Execution, work: Promise<T>): Promise<T> {
+    // A handler that settles after being abandoned must not surface as an unhandled rejection
+    work.catch(() => undefined);
+
+    return Promise.race([work, execution.abandoned]);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,40 @@
+import {
+  JobHandler,
+  MapReduceJobHandler,
+} from '../../domain/interfaces/JobHandler.interface';
+
+export class JobHandlerRegistry {
+  private handlers: Map<string, JobHandler | MapReduceJobHandler>;
+
+  constructor() {
+    this.handlers = new Map();
+  }
+
+  register(type: string, handler: JobHandler | MapReduceJobHandler): void {
+    if (!type || type.trim().length === 0) {
+      throw new Error('Job type must be a non-empty string');
+    }
+
+    if (this.handlers.has(type)) {
+      throw new Error(`A handler is already registered for job type '${type}'`);
+    }
+
+    this.handlers.set(type, handler);
+  }
+
+  unregister(type: string): boolean {
+    return this.handlers.delete(type);
+  }
+
+  getHandler(type: string): JobHandler | MapReduceJobHandler | undefined {
+    return this.handlers.get(type);
+  }
+
+  hasHandler(type: string): boolean {
+    return this.handlers.has(type);
+  }
+
+  getRegisteredTypes(): string[] {
+    return Array.from(this.handlers.keys());
+  }
+}
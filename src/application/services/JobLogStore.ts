@@ -0,0 +1,182 @@
+import { JobLogRepository } from '../../domain';
+import {
+  DEFAULT_JOB_LOG_MAX_BYTES,
+  JobLogEntry,
+  JobLogLevel,
+  jobLogEntrySize,
+} from '../../domain/entities/JobLog';
+
+export interface JobLogStoreOptions {
+  /**
+   * Bytes of log lines kept per job; later lines are dropped
+   * @default DEFAULT_JOB_LOG_MAX_BYTES (1 MiB)
+   */
+  maxBytesPerJob?: number;
+  /**
+   * Milliseconds between two reads of a followed job's log and status, so followers see
+   * the lines and the end of jobs running on other instances sharing the storage;
+   * unset only streams what this instance writes
+   */
+  pollInterval?: number;
+}
+
+export type JobLogListener = (entry: JobLogEntry) => void;
+
+/** Per-job write state, loaded from the repository on the first line */
+interface JobLogState {
+  usage: Promise<{ last_sequence: number; bytes: number; truncated: boolean }>;
+}
+
+/**
+ * Appends the lines handlers write through their job-scoped logger and lets
+ * followers receive them as they are stored. Lines of a job are written one at
+ * a time, in the order they were logged.
+ */
+export class JobLogStore {
+  private readonly maxBytesPerJob: number;
+  private readonly pollInterval?: number;
+  private readonly states: Map<string, JobLogState> = new Map();
+  private readonly listeners: Map<string, Set<JobLogListener>> = new Map();
+  private readonly closeListeners: Map<string, Set<() => void>> = new Map();
+
+  constructor(
+    private readonly repository: JobLogRepository,
+    options: JobLogStoreOptions = {}
+  ) {
+    this.maxBytesPerJob = options.maxBytesPerJob ?? DEFAULT_JOB_LOG_MAX_BYTES;
+    this.pollInterval = options.pollInterval;
+
+    if (!Number.isInteger(this.maxBytesPerJob) || this.maxBytesPerJob <= 0) {
+      throw new Error('Job log max bytes must be a positive integer');
+    }
+
+    if (this.pollInterval !== undefined && !(this.pollInterval > 0)) {
+      throw new Error('Job log poll interval must be a positive number');
+    }
+  }
+
+  /**
+   * Stores a line unless the job's log is full; the first dropped line is
+   * replaced with a warning saying so
+   * @returns The stored line, or undefined when it was dropped
+   */
+  append(
+    jobId: string,
+    attempt: number,
+    level: JobLogLevel,
+    message: string,
+    data?: Record<string, any>
+  ): Promise<JobLogEntry | undefined> {
+    const state = this.getState(jobId);
+    const previous = state.usage;
+    const written = previous.then(async (usage) => {
+      if (usage.truncated) {
+        return { usage, entry: undefined };
+      }
+
+      const fits = usage.bytes + jobLogEntrySize({ message, data }) <= this.maxBytesPerJob;
+      const entry: JobLogEntry = {
+        job_id: jobId,
+        sequence: usage.last_sequence + 1,
+        attempt,
+        ...(fits
+          ? { level, message, ...(data !== undefined && { data }) }
+          : {
+              level: 'warn' as const,
+              message: `Log size limit of ${this.maxBytesPerJob} bytes reached; further lines are dropped`,
+            }),
+        timestamp: Date.now(),
+      };
+
+      await this.repository.append(entry);
+      this.listeners.get(jobId)?.forEach((listener) => listener(entry));
+
+      return {
+        usage: {
+          last_sequence: entry.sequence,
+          bytes: usage.bytes + jobLogEntrySize(entry),
+          truncated: !fits,
+        },
+        entry: fits ? entry : undefined,
+      };
+    });
+
+    // A failed write leaves the usage as it was, so later lines still go through
+    state.usage = written.then(
+      ({ usage }) => usage,
+      () => previous
+    );
+
+    return written.then(({ entry }) => entry);
+  }
+
+  read(jobId: string, options: { after?: number; limit: number }): Promise<JobLogEntry[]> {
+    return this.repository.findByJobId(jobId, options);
+  }
+
+  getPollInterval(): number | undefined {
+    return this.pollInterval;
+  }
+
+  /**
+   * Registers a listener called with every line stored for the job from now on,
+   * and one called when the job finishes
+   * @returns Function that removes both listeners
+   */
+  follow(jobId: string, listener: JobLogListener, onClose: () => void): () => void {
+    const listeners = this.listeners.get(jobId) ?? new Set();
+    const closeListeners = this.closeListeners.get(jobId) ?? new Set();
+
+    listeners.add(listener);
+    closeListeners.add(onClose);
+    this.listeners.set(jobId, listeners);
+    this.closeListeners.set(jobId, closeListeners);
+
+    return () => {
+      listeners.delete(listener);
+      closeListeners.delete(onClose);
+
+      if (listeners.size === 0) {
+        this.listeners.delete(jobId);
+        this.closeListeners.delete(jobId);
+      }
+    };
+  }
+
+  /**
+   * Called once the job reached a terminal status: waits for its pending lines,
+   * then ends its followers and forgets its write state
+   */
+  async close(jobId: string): Promise<void> {
+    const state = this.states.get(jobId);
+
+    if (state) {
+      await state.usage.catch(() => undefined);
+
+      if (this.states.get(jobId) === state) {
+        this.states.delete(jobId);
+      }
+    }
+
+    const closeListeners = this.closeListeners.get(jobId);
+    this.listeners.delete(jobId);
+    this.closeListeners.delete(jobId);
+    closeListeners?.forEach((onClose) => onClose());
+  }
+
+  private getState(jobId: string): JobLogState {
+    let state = this.states.get(jobId);
+
+    if (!state) {
+      state = {
+        usage: this.repository.getUsage(jobId).then((usage) => ({
+          ...usage,
+          truncated: usage.bytes >= this.maxBytesPerJob,
+        })),
+      };
+      this.states.set(jobId, state);
+    }
+
+    return state;
+  }
+}
@@ -1,17 +1,102 @@
-import { JobQueue } from './JobQueue';
 import { JobExecutor } from './JobExecutor';
+import { JobTypeLimiter } from './JobTypeLimiter';
+import { DependencyResolver } from './DependencyResolver';
 import { JobFactory } from '../../domain/factories/JobFactory';
+import { DeadLetterFactory } from '../../domain/factories/DeadLetterFactory';
+import { DeadLetterRepository } from '../../domain/interfaces/DeadLetterRepository.interface';
+import { JobRepository } from '../../domain/interfaces/JobRepository.interface';
 import { Job } from '../../domain/entities/Job';
+import { JobStatus } from '../../domain/value-objects/JobStatus';
 
+export interface JobProcessorOptions {
+  /**
+   * Maximum number of jobs executing at the same time
+   * @default 10
+   */
+  concurrency?: number;
+  /**
+   * Per-type concurrency and rate limits
+   * @default no per-type limits
+   */
+  typeLimiter?: JobTypeLimiter;
+  /**
+   * Releases or abandons BLOCKED jobs when the jobs they depend on finish
+   * @default dependent jobs are not resolved by the processor
+   */
+  dependencyResolver?: DependencyResolver;
+  /**
+   * Maximum milliseconds between two passes. Needed when other processes share the
+   * repository, since only saves made through this process wake the processor.
+   * @default undefined (woken by local events and timers only)
+   */
+  pollInterval?: number;
+  /**
+   * Milliseconds between two renewals of the leases on the jobs this processor is
+   * executing. Needed when other processes share the repository, since they take
+   * over RUNNING jobs whose lease ran out.
+   * @default undefined (leases are not renewed)
+   */
+  heartbeatInterval?: number;
+}
+
+/**
+ * Event-driven processing loop. Instead of polling (unless asked to), it runs a pass when:
+ * - a job enters PENDING (submission, replay, retry)
+ * - an execution slot frees up
+ * - the single wake-up timer fires at the earliest delayed `eligible_at`, rate-limit token
+ *   or `expires_at` deadline
+ * - the poll timer fires, when a `pollInterval` is set
+ * With nothing pending and no timer armed, an idle processor does no work at all.
+ * Passes never overlap: a wake-up during a pass runs another one right after it.
+ */
 export class JobProcessor {
   private isRunning: boolean = false;
-  private processingInterval: NodeJS.Timeout | null = null;
-  private readonly POLLING_INTERVAL = 50; // milliseconds
+  private pendingWake: NodeJS.Immediate | null = null;
+  private isPassRunning: boolean = false;
+  private isPassRequested: boolean = false;
+  private wakeTimer: NodeJS.Timeout | null = null;
+  private wakeTimerAt: number | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private readonly MAX_TIMER_DELAY = 2 ** 31 - 1; // setTimeout limit in milliseconds
+  private readonly DEFAULT_CONCURRENCY = 10;
+  private readonly concurrency: number;
+  private readonly typeLimiter: JobTypeLimiter;
+  private readonly dependencyResolver?: DependencyResolver;
+  private readonly pollInterval?: number;
+  private readonly heartbeatInterval?: number;
+  private readonly inFlight: Set<string> = new Set();
 
   constructor(
-    private readonly jobQueue: JobQueue,
-    private readonly jobExecutor: JobExecutor
-  ) {}
+    private readonly repository: JobRepository,
+    private readonly jobExecutor: JobExecutor,
+    private readonly deadLetterRepository: DeadLetterRepository,
+    options: JobProcessorOptions = {}
+  ) {
+    this.concurrency = options.concurrency ?? this.DEFAULT_CONCURRENCY;
+    this.typeLimiter = options.typeLimiter ?? new JobTypeLimiter();
+    this.dependencyResolver = options.dependencyResolver;
+    this.pollInterval = options.pollInterval;
+    this.heartbeatInterval = options.heartbeatInterval;
+
+    if (!Number.isInteger(this.concurrency) || this.concurrency < 1) {
+      throw new Error('Concurrency must be a positive integer');
+    }
+
+    if (
+      this.pollInterval !== undefined &&
+      (!Number.isInteger(this.pollInterval) || this.pollInterval <= 0)
+    ) {
+      throw new Error('Poll interval must be a positive integer (milliseconds)');
+    }
+
+    if (
+      this.heartbeatInterval !== undefined &&
+      (!Number.isInteger(this.heartbeatInterval) || this.heartbeatInterval <= 0)
+    ) {
+      throw new Error('Heartbeat interval must be a positive integer (milliseconds)');
+    }
+  }
 
   start(): void {
     if (this.isRunning) {
@@ -20,12 +105,10 @@ export class JobProcessor {
     }
 
     this.isRunning = true;
-    console.log('JobProcessor started');
+    console.log(`JobProcessor started with ${this.concurrency} execution slots`);
 
-    this.processingInterval = setInterval(
-      () => this.processNextJob(),
-      this.POLLING_INTERVAL
-    );
+    this.unsubscribe = this.repository.onJobPending(() => this.wake());
+    this.runPass();
   }
 
   stop(): void {
@@ -36,30 +119,238 @@ export class JobProcessor {
 
     this.isRunning = false;
 
-    if (this.processingInterval) {
-      clearInterval(this.processingInterval);
-      this.processingInterval = null;
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+
+    if (this.pendingWake) {
+      clearImmediate(this.pendingWake);
+      this.pendingWake = null;
     }
 
+    this.clearWakeTimer();
+
     console.log('JobProcessor stopped');
   }
 
-  private async processNextJob(): Promise<void> {
-    try {
-      const job = this.jobQueue.getNextEligibleJob();
+  /**
+   * Schedules a processing pass on the next tick; repeated calls before it runs coalesce
+   */
+  private wake(): void {
+    if (!this.isRunning || this.pendingWake) {
+      return;
+    }
 
-      if (!job) {
-        return;
+    this.pendingWake = setImmediate(() => {
+      this.pendingWake = null;
+      this.runPass();
+    });
+  }
+
+  private runPass(): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    if (this.isPassRunning) {
+      this.isPassRequested = true;
+      return;
+    }
+
+    this.isPassRunning = true;
+
+    this.processAvailableJobs()
+      .catch((error) => console.error('Error processing jobs:', error))
+      .finally(() => {
+        this.isPassRunning = false;
+
+        if (this.isPassRequested) {
+          this.isPassRequested = false;
+          this.wake();
+        }
+      });
+  }
+
+  /**
+   * Expires jobs past their deadline, claims eligible jobs until every execution slot
+   * is taken or the queue is drained, then arms the wake-up timer
+   */
+  private async processAvailableJobs(): Promise<void> {
+    await this.expireDueJobs();
+    await this.recoverAbandonedJobs();
+
+    while (this.isRunning && this.hasFreeSlot()) {
+      let runningJob: Job | undefined;
+
+      try {
+        runningJob = await this.claimNextJob();
+      } catch (error) {
+        console.error('Error claiming job:', error);
+        break;
+      }
+
+      if (!runningJob) {
+        break;
+      }
+
+      void this.runJob(runningJob);
+    }
+
+    await this.armWakeTimer();
+  }
+
+  /**
+   * Keeps a single timer pointed at the earliest moment a pending job could start
+   * (the next delayed `eligible_at` or the next rate-limit token of a held-back type)
+   * or expire. Slot-bound waits need no timer, since finishing a job wakes the processor,
+   * but deadlines and polling are kept even when every slot is taken.
+   */
+  private async armWakeTimer(): Promise<void> {
+    const candidates = [
+      await this.repository.getNextExpiresAt(),
+      this.hasFreeSlot() ? await this.getNextWakeAt() : undefined,
+      this.pollInterval !== undefined ? Date.now() + this.pollInterval : undefined,
+    ].filter((at): at is number => at !== undefined);
+    const wakeAt = candidates.length > 0 ? Math.min(...candidates) : undefined;
+
+    if (!this.isRunning) {
+      return;
+    }
+
+    if (wakeAt === undefined) {
+      this.clearWakeTimer();
+      return;
+    }
+
+    if (this.wakeTimer && this.wakeTimerAt === wakeAt) {
+      return;
+    }
+
+    this.clearWakeTimer();
+    this.wakeTimerAt = wakeAt;
+    this.wakeTimer = setTimeout(() => {
+      this.wakeTimer = null;
+      this.wakeTimerAt = null;
+      this.runPass();
+    }, Math.min(Math.max(0, wakeAt - Date.now()), this.MAX_TIMER_DELAY));
+  }
+
+  private async getNextWakeAt(): Promise<number | undefined> {
+    const candidates = this.typeLimiter
+      .getBlockedTypes()
+      .map((type) => this.typeLimiter.getNextAvailableAt(type))
+      .concat(await this.repository.getNextEligibleAt())
+      .filter((at): at is number => at !== undefined);
+
+    return candidates.length > 0 ? Math.min(...candidates) : undefined;
+  }
+
+  private clearWakeTimer(): void {
+    if (this.wakeTimer) {
+      clearTimeout(this.wakeTimer);
+      this.wakeTimer = null;
+      this.wakeTimerAt = null;
+    }
+  }
+
+  /**
+   * Moves unstarted jobs past their `expires_at` to EXPIRED and releases their dependents
+   */
+  private async expireDueJobs(): Promise<void> {
+    const now = Date.now();
+
+    for (const job of await this.repository.takeExpiredJobs(now)) {
+      const expiredJob = JobFactory.expireJob(job, now);
+      await this.repository.save(expiredJob);
+
+      console.log(`Job ${job.id} expired before it could start`);
+
+      this.dependencyResolver?.resolveDependents(expiredJob).catch((error) => {
+        console.error(`Error resolving dependents of expired job ${job.id}:`, error);
+      });
+    }
+  }
+
+  /**
+   * Retries or fails RUNNING jobs whose processor stopped before finishing them, then
+   * dead-letters them or releases their dependents like any other finished attempt.
+   * A job is left alone if its attempt ended or started over since it was taken.
+   */
+  private async recoverAbandonedJobs(): Promise<void> {
+    for (const job of await this.repository.takeAbandonedJobs(Date.now())) {
+      if (this.inFlight.has(job.id)) {
+        continue;
+      }
+
+      const interruptedJob = await this.repository.update(job.id, (current) =>
+        current.status === JobStatus.RUNNING && current.started_at === job.started_at
+          ? JobFactory.interruptJob(current)
+          : null
+      );
+
+      if (!interruptedJob) {
+        continue;
       }
 
-      const runningJob = JobFactory.startJob(job);
-      this.jobQueue.updateJob(runningJob);
+      await this.deadLetterIfFailed(interruptedJob);
+      await this.dependencyResolver?.resolveDependents(interruptedJob);
+
+      console.log(
+        `Job ${job.id} was interrupted before it finished, ` +
+        (interruptedJob.status === JobStatus.PENDING ? 'retrying it' : 'failing it')
+      );
+    }
+  }
+
+  /**
+   * Claims the next eligible job of a type that can start and marks it RUNNING.
+   * The slot is taken before the job is saved, so `processJobById` cannot start it too.
+   */
+  private async claimNextJob(): Promise<Job | undefined> {
+    const job = await this.repository.getNextEligible(this.typeLimiter.getBlockedTypes());
 
+    if (!job || this.inFlight.has(job.id)) {
+      return undefined;
+    }
+
+    const runningJob = JobFactory.startJob(job);
+    this.typeLimiter.acquire(runningJob.type);
+    this.track(runningJob);
+
+    try {
+      await this.repository.save(runningJob);
+    } catch (error) {
+      this.untrack(runningJob);
+      this.typeLimiter.release(runningJob.type);
+      throw error;
+    }
+
+    return runningJob;
+  }
+
+  private async runJob(runningJob: Job): Promise<void> {
+    try {
       console.log(`Processing job ${runningJob.id} of type '${runningJob.type}'`);
 
       const finishedJob = await this.jobExecutor.executeJob(runningJob);
 
-      this.jobQueue.updateJob(finishedJob);
+      if (!(await this.store(finishedJob))) {
+        return;
+      }
+
+      if (finishedJob.status === JobStatus.PENDING) {
+        console.log(
+          `Job ${finishedJob.id} failed attempt ${finishedJob.attempts}/` +
+          `${finishedJob.config.retry.max_attempts}, retrying at ${finishedJob.eligible_at}`
+        );
+        return;
+      }
+
+      if (finishedJob.status === JobStatus.WAITING) {
+        console.log(
+          `Job ${finishedJob.id} is waiting for ${finishedJob.fan_out?.child_ids.length} child jobs`
+        );
+        return;
+      }
 
       console.log(
         `Job ${finishedJob.id} finished with status '${finishedJob.status}' ` +
@@ -68,32 +359,157 @@ export class JobProcessor {
 
     } catch (error) {
       console.error('Error processing job:', error);
+    } finally {
+      this.release(runningJob);
     }
   }
 
+  private release(job: Job): void {
+    this.untrack(job);
+    this.typeLimiter.release(job.type);
+    this.wake();
+  }
+
+  /**
+   * Takes an execution slot for the job; the heartbeat runs while any slot is taken
+   */
+  private track(job: Job): void {
+    this.inFlight.add(job.id);
+
+    if (this.heartbeatInterval !== undefined && !this.heartbeatTimer) {
+      this.heartbeatTimer = setInterval(() => {
+        this.heartbeat().catch((error) => {
+          console.error('Error renewing job leases:', error);
+        });
+      }, this.heartbeatInterval);
+    }
+  }
+
+  /**
+   * Renews the leases on the executing jobs and stops those whose cancellation was
+   * requested, possibly through another instance
+   */
+  private async heartbeat(): Promise<void> {
+    const cancelled = await this.repository.renewLeases([...this.inFlight]);
+
+    cancelled.forEach((job) => {
+      this.jobExecutor.requestCancellation(job.id, { force: job.cancel_request?.force });
+    });
+  }
+
+  private untrack(job: Job): void {
+    this.inFlight.delete(job.id);
+
+    if (this.inFlight.size === 0 && this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
 
   isProcessing(): boolean {
     return this.isRunning;
   }
 
+  hasFreeSlot(): boolean {
+    return this.inFlight.size < this.concurrency;
+  }
+
+  getInFlightCount(): number {
+    return this.inFlight.size;
+  }
+
+  getConcurrency(): number {
+    return this.concurrency;
+  }
+
+  getTypeLimiter(): JobTypeLimiter {
+    return this.typeLimiter;
+  }
+
   async processJobById(jobId: string): Promise<Job> {
-    const job = this.jobQueue.getJobById(jobId);
+    const job = await this.repository.findById(jobId);
 
     if (!job) {
       throw new Error(`Job with id ${jobId} not found`);
     }
 
+    if (this.inFlight.has(jobId)) {
+      throw new Error(`Job ${jobId} is already being processed`);
+    }
+
     if (!JobFactory.isEligible(job)) {
       throw new Error(`Job ${jobId} is not eligible yet (delay not fulfilled)`);
     }
 
+    if (!this.hasFreeSlot()) {
+      throw new Error(`No execution slot available (${this.concurrency} in use)`);
+    }
+
+    if (!this.typeLimiter.canStart(job.type)) {
+      throw new Error(`Job type '${job.type}' is at its concurrency or rate limit`);
+    }
+
     const runningJob = JobFactory.startJob(job);
-    this.jobQueue.updateJob(runningJob);
+    this.typeLimiter.acquire(runningJob.type);
+    this.track(runningJob);
+
+    try {
+      await this.repository.save(runningJob);
+      const finishedJob = await this.jobExecutor.executeJob(runningJob);
+
+      await this.store(finishedJob);
+
+      return finishedJob;
+    } finally {
+      this.release(runningJob);
+    }
+  }
+
+  /**
+   * Saves what the executor made of a job, then dead-letters it or releases its
+   * dependents as needed. A WAITING parent is not saved again: the fan-out saved it
+   * before its children, which may have updated or resumed it since.
+   * The result is only saved over the attempt that produced it: once the lease ran out
+   * and another processor took the job over, that processor retried or failed it.
+   * An attempt that would be retried is cancelled instead if a cancellation was requested.
+   * @returns Whether the result was saved
+   */
+  private async store(finishedJob: Job): Promise<boolean> {
+    if (finishedJob.status === JobStatus.WAITING) {
+      return true;
+    }
+
+    const stored = await this.repository.update(finishedJob.id, (current) => {
+      if (current.status !== JobStatus.RUNNING || current.attempts !== finishedJob.attempts) {
+        return null;
+      }
 
-    const finishedJob = await this.jobExecutor.executeJob(runningJob);
+      // Cancelled before the heartbeat passed the request on: no retry either
+      return current.cancel_request && finishedJob.status === JobStatus.PENDING
+        ? JobFactory.cancelJob(finishedJob)
+        : finishedJob;
+    });
 
-    this.jobQueue.updateJob(finishedJob);
+    if (!stored) {
+      console.warn(
+        `Job ${finishedJob.id} was taken over before attempt ${finishedJob.attempts} ` +
+        'finished; its result is dropped'
+      );
+      return false;
+    }
+
+    await this.deadLetterIfFailed(stored);
+    await this.dependencyResolver?.resolveDependents(stored);
+
+    return true;
+  }
+
+  private async deadLetterIfFailed(job: Job): Promise<void> {
+    if (job.status !== JobStatus.FAILED && job.status !== JobStatus.TIMED_OUT) {
+      return;
+    }
 
-    return finishedJob;
+    await this.deadLetterRepository.save(DeadLetterFactory.fromJob(job));
+    console.log(`Job ${job.id} moved to the dead-letter queue`);
   }
 }
\ No newline at end of file
@@ -1,40 +1,157 @@
 import { Job } from '../../domain/entities/Job';
 import { JobStatus } from '../../domain/value-objects/JobStatus';
 import { JobFactory } from '../../domain/factories/JobFactory';
+import { priorityRank } from '../../domain/value-objects/JobPriority';
+import { coalescingKey } from '../../domain/value-objects/UniqueKey';
+import { IndexedHeap } from './IndexedHeap';
 
+export interface JobQueueOptions {
+  /**
+   * Milliseconds of waiting that raise a job's priority by one level.
+   * @default undefined (no aging, strict priority order)
+   */
+  priorityAgingInterval?: number;
+}
 
+/**
+ * In-memory job store with an index over PENDING jobs:
+ * - a delay heap ordered by `eligible_at` for jobs that are not eligible yet
+ * - one ready heap per job type ordered by priority rank, then `created_at`
+ * - an expiry heap ordered by `expires_at` for jobs with a deadline that never started
+ * - the ids of the jobs that depend on each job
+ * Terminal and running jobs live only in the map, so claiming the next job costs
+ * O(log n) plus one comparison per job type, however many jobs are stored.
+ */
 export class JobQueue {
   private jobs: Map<string, Job>;
+  private delayed: IndexedHeap<Job>;
+  private expiring: IndexedHeap<Job>;
+  private ready: Map<string, IndexedHeap<Job>>;
+  private counts: Record<JobStatus, number>;
+  /** Insertion order, to keep FIFO among jobs created in the same millisecond */
+  private sequence: Map<string, number>;
+  /** Job ids by type and unique, debounce or throttle key */
+  private uniqueKeys: Map<string, Set<string>>;
+  /** Ids of the jobs listing each job in `depends_on` */
+  private dependents: Map<string, Set<string>>;
+  private nextSequence: number = 0;
+  private pendingListeners: Set<() => void>;
+  private finishedListeners: Set<(job: Job) => void>;
+  private readonly priorityAgingInterval?: number;
 
-  constructor() {
+  constructor(options: JobQueueOptions = {}) {
+    if (
+      options.priorityAgingInterval !== undefined &&
+      !(options.priorityAgingInterval > 0)
+    ) {
+      throw new Error('Priority aging interval must be a positive number');
+    }
+
+    this.priorityAgingInterval = options.priorityAgingInterval;
     this.jobs = new Map();
+    this.delayed = new IndexedHeap((a, b) => a.eligible_at - b.eligible_at);
+    this.expiring = new IndexedHeap((a, b) => a.config.expires_at! - b.config.expires_at!);
+    this.ready = new Map();
+    this.counts = JobQueue.emptyCounts();
+    this.sequence = new Map();
+    this.uniqueKeys = new Map();
+    this.dependents = new Map();
+    this.pendingListeners = new Set();
+    this.finishedListeners = new Set();
   }
 
   addJob(job: Job): void {
-    this.jobs.set(job.id, job);
+    this.setJob(job);
   }
 
-  getNextEligibleJob(): Job | undefined {    
-    const eligibleJobs = Array.from(this.jobs.values()).filter(
-      (job) =>
-        job.status === JobStatus.PENDING &&
-        JobFactory.isEligible(job)
-    );
+  /**
+   * Returns the eligible job with the highest (aged) priority, oldest first on ties
+   * @param canStartType - Optional predicate; job types it rejects stay PENDING and are skipped
+   */
+  getNextEligibleJob(canStartType?: (type: string) => boolean): Job | undefined {
+    this.promoteDueJobs(Date.now());
+
+    let next: Job | undefined;
+
+    for (const [type, heap] of this.ready) {
+      const head = heap.peek();
+
+      if (!head || (canStartType && !canStartType(type))) {
+        continue;
+      }
+
+      if (!next || this.compareReady(head, next) < 0) {
+        next = head;
+      }
+    }
+
+    return next;
+  }
+
+  /**
+   * Timestamp (ms) at which the earliest delayed job becomes eligible
+   */
+  getNextEligibleAt(): number | undefined {
+    return this.delayed.peek()?.eligible_at;
+  }
+
+  /**
+   * Timestamp (ms) at which the earliest unstarted job with a deadline expires
+   */
+  getNextExpiresAt(): number | undefined {
+    return this.expiring.peek()?.config.expires_at;
+  }
 
-    if (eligibleJobs.length === 0) {
-      return undefined;
+  /**
+   * Removes and returns the BLOCKED or PENDING jobs whose deadline is at or before `now`;
+   * the caller is expected to move them to EXPIRED
+   */
+  takeExpiredJobs(now: number): Job[] {
+    const expired: Job[] = [];
+    let head = this.expiring.peek();
+
+    while (head && head.config.expires_at! <= now) {
+      expired.push(this.expiring.pop()!);
+      head = this.expiring.peek();
     }
 
-    eligibleJobs.sort((a, b) => a.created_at - b.created_at);
+    return expired;
+  }
+
+  /**
+   * Job types that currently have eligible PENDING jobs
+   */
+  getReadyTypes(): string[] {
+    return Array.from(this.ready.keys());
+  }
+
+  /**
+   * Registers a listener called whenever a job enters (or re-enters) PENDING
+   * @returns Function that removes the listener
+   */
+  onJobPending(listener: () => void): () => void {
+    this.pendingListeners.add(listener);
+    return () => {
+      this.pendingListeners.delete(listener);
+    };
+  }
 
-    return eligibleJobs[0];
+  /**
+   * Registers a listener called once per job, when it reaches a terminal status
+   * @returns Function that removes the listener
+   */
+  onJobFinished(listener: (job: Job) => void): () => void {
+    this.finishedListeners.add(listener);
+    return () => {
+      this.finishedListeners.delete(listener);
+    };
   }
 
   updateJob(job: Job): void {
     if (!this.jobs.has(job.id)) {
       throw new Error(`Job with id ${job.id} not found`);
     }
-    this.jobs.set(job.id, job);
+    this.setJob(job);
   }
 
   getJobById(jobId: string): Job | undefined {
@@ -51,20 +168,20 @@ export class JobQueue {
     return allJobs.filter((job) => job.status === filter.status);
   }
 
-  getJobCounts(): Record<JobStatus, number> {
-    const counts = {
-      [JobStatus.PENDING]: 0,
-      [JobStatus.RUNNING]: 0,
-      [JobStatus.COMPLETED]: 0,
-      [JobStatus.FAILED]: 0,
-      [JobStatus.CANCELLED]: 0,
-    };
+  getJobsByUniqueKey(type: string, uniqueKey: string): Job[] {
+    const ids = this.uniqueKeys.get(JobQueue.uniqueKeyIndex(type, uniqueKey)) ?? [];
+    return Array.from(ids, (id) => this.jobs.get(id)!);
+  }
 
-    for (const job of this.jobs.values()) {
-      counts[job.status]++;
-    }
+  /**
+   * Jobs that list `jobId` among their dependencies, in submission order
+   */
+  getDependents(jobId: string): Job[] {
+    return Array.from(this.dependents.get(jobId) ?? [], (id) => this.jobs.get(id)!);
+  }
 
-    return counts;
+  getJobCounts(): Record<JobStatus, number> {
+    return { ...this.counts };
   }
 
   getTotalJobs(): number {
@@ -73,6 +190,13 @@ export class JobQueue {
 
   clear(): void {
     this.jobs.clear();
+    this.delayed.clear();
+    this.expiring.clear();
+    this.ready.clear();
+    this.counts = JobQueue.emptyCounts();
+    this.sequence.clear();
+    this.uniqueKeys.clear();
+    this.dependents.clear();
   }
 
   hasJob(jobId: string): boolean {
@@ -92,4 +216,118 @@ export class JobQueue {
       JobFactory.isTerminal(job)
     );
   }
-}
\ No newline at end of file
+
+  private setJob(job: Job): void {
+    const previous = this.jobs.get(job.id);
+
+    if (previous) {
+      this.counts[previous.status]--;
+      this.unindex(previous);
+    } else {
+      this.sequence.set(job.id, this.nextSequence++);
+      this.indexUniqueKey(job);
+      this.indexDependencies(job);
+    }
+
+    this.jobs.set(job.id, job);
+    this.counts[job.status]++;
+
+    if (JobFactory.isTerminal(job) && !(previous && JobFactory.isTerminal(previous))) {
+      this.finishedListeners.forEach((listener) => listener(job));
+    }
+
+    if (JobFactory.canExpire(job)) {
+      this.expiring.push(job.id, job);
+    }
+
+    if (job.status !== JobStatus.PENDING) {
+      return;
+    }
+
+    if (JobFactory.isEligible(job)) {
+      this.pushReady(job);
+    } else {
+      this.delayed.push(job.id, job);
+    }
+
+    this.pendingListeners.forEach((listener) => listener());
+  }
+
+  private indexUniqueKey(job: Job): void {
+    const key = coalescingKey(job.config);
+
+    if (key === undefined) {
+      return;
+    }
+
+    const index = JobQueue.uniqueKeyIndex(job.type, key);
+    const ids = this.uniqueKeys.get(index) ?? new Set<string>();
+    ids.add(job.id);
+    this.uniqueKeys.set(index, ids);
+  }
+
+  private indexDependencies(job: Job): void {
+    for (const dependency of job.depends_on) {
+      const ids = this.dependents.get(dependency.job_id) ?? new Set<string>();
+      ids.add(job.id);
+      this.dependents.set(dependency.job_id, ids);
+    }
+  }
+
+  private static uniqueKeyIndex(type: string, uniqueKey: string): string {
+    return JSON.stringify([type, uniqueKey]);
+  }
+
+  private unindex(job: Job): void {
+    this.delayed.remove(job.id);
+    this.expiring.remove(job.id);
+
+    const heap = this.ready.get(job.type);
+
+    if (heap?.remove(job.id) && heap.size === 0) {
+      this.ready.delete(job.type);
+    }
+  }
+
+  private promoteDueJobs(now: number): void {
+    let head = this.delayed.peek();
+
+    while (head && head.eligible_at <= now) {
+      this.delayed.pop();
+      this.pushReady(head);
+      head = this.delayed.peek();
+    }
+  }
+
+  private pushReady(job: Job): void {
+    let heap = this.ready.get(job.type);
+
+    if (!heap) {
+      heap = new IndexedHeap((a, b) => this.compareReady(a, b));
+      this.ready.set(job.type, heap);
+    }
+
+    heap.push(job.id, job);
+  }
+
+  private compareReady(a: Job, b: Job): number {
+    const rankA = priorityRank(a.config.priority, a.eligible_at, this.priorityAgingInterval);
+    const rankB = priorityRank(b.config.priority, b.eligible_at, this.priorityAgingInterval);
+
+    return (
+      rankB - rankA ||
+      a.created_at - b.created_at ||
+      this.sequence.get(a.id)! - this.sequence.get(b.id)!
+    );
+  }
+
+  private static emptyCounts(): Record<JobStatus, number> {
+    const counts = {} as Record<JobStatus, number>;
+
+    for (const status of Object.values(JobStatus)) {
+      counts[status] = 0;
+    }
+
+    return counts;
+  }
+}
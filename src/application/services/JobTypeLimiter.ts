@@ -0,0 +1,117 @@
+import { JobTypeLimit, normalizeJobTypeLimit } from '../../domain/value-objects/JobTypeLimit';
+import { TokenBucket } from './TokenBucket';
+
+export interface JobTypeLimitStatus extends JobTypeLimit {
+  type: string;
+  running: number;
+  available_tokens?: number;
+}
+
+/**
+ * Enforces per-type concurrency caps and token-bucket rate limits.
+ * Types without a configured limit are never held back.
+ */
+export class JobTypeLimiter {
+  private limits: Map<string, JobTypeLimit>;
+  private buckets: Map<string, TokenBucket>;
+  private running: Map<string, number>;
+
+  constructor(limits: Record<string, JobTypeLimit> = {}) {
+    this.limits = new Map();
+    this.buckets = new Map();
+    this.running = new Map();
+
+    for (const [type, limit] of Object.entries(limits)) {
+      this.setLimit(type, limit);
+    }
+  }
+
+  setLimit(type: string, limit: JobTypeLimit): void {
+    const normalized = normalizeJobTypeLimit(type, limit);
+
+    this.limits.set(type, normalized);
+
+    if (normalized.rate_per_second !== undefined) {
+      this.buckets.set(type, new TokenBucket(normalized.rate_per_second, normalized.burst!));
+    } else {
+      this.buckets.delete(type);
+    }
+  }
+
+  canStart(type: string): boolean {
+    const limit = this.limits.get(type);
+
+    if (!limit) {
+      return true;
+    }
+
+    if (limit.max_concurrent !== undefined && this.getRunning(type) >= limit.max_concurrent) {
+      return false;
+    }
+
+    const bucket = this.buckets.get(type);
+    return !bucket || bucket.hasToken();
+  }
+
+  /**
+   * Limited types that cannot start a job right now
+   */
+  getBlockedTypes(): string[] {
+    return Array.from(this.limits.keys()).filter((type) => !this.canStart(type));
+  }
+
+  /**
+   * Timestamp (ms) at which a rate-limited type gets its next token.
+   * Undefined when the type can start now or is waiting for a running job to finish.
+   */
+  getNextAvailableAt(type: string): number | undefined {
+    const limit = this.limits.get(type);
+
+    if (limit?.max_concurrent !== undefined && this.getRunning(type) >= limit.max_concurrent) {
+      return undefined;
+    }
+
+    const bucket = this.buckets.get(type);
+
+    if (!bucket || bucket.hasToken()) {
+      return undefined;
+    }
+
+    return bucket.nextTokenAt();
+  }
+
+  /**
+   * Reserves a concurrency slot and a rate token for a job that is about to start
+   */
+  acquire(type: string): void {
+    if (!this.canStart(type)) {
+      throw new Error(`Job type '${type}' is at its concurrency or rate limit`);
+    }
+
+    this.buckets.get(type)?.tryTake();
+    this.running.set(type, this.getRunning(type) + 1);
+  }
+
+  release(type: string): void {
+    const running = this.getRunning(type);
+
+    if (running <= 1) {
+      this.running.delete(type);
+    } else {
+      this.running.set(type, running - 1);
+    }
+  }
+
+  getRunning(type: string): number {
+    return this.running.get(type) ?? 0;
+  }
+
+  getStatus(): JobTypeLimitStatus[] {
+    return Array.from(this.limits.entries()).map(([type, limit]) => ({
+      type,
+      ...limit,
+      running: this.getRunning(type),
+      available_tokens: this.buckets.get(type)?.getAvailableTokens(),
+    }));
+  }
+}
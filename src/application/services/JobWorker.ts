@@ -1,22 +1,237 @@
-import { JobRepository } from '../../domain';
+import {
+  BatchRepository,
+  ChainRepository,
+  DeadLetterRepository,
+  IdempotencyKeyRepository,
+  JobLogRepository,
+  JobRepository,
+  ScheduleRepository,
+  WorkflowRepository,
+} from '../../domain';
 import { InMemoryJobRepository } from '../../infrastructure/repositories/InMemoryJobRepository';
+import { FileJobRepository } from '../../infrastructure/repositories/FileJobRepository';
+import { SqliteJobRepository } from '../../infrastructure/repositories/SqliteJobRepository';
+import { RedisJobRepository } from '../../infrastructure/repositories/RedisJobRepository';
+import { InMemoryDeadLetterRepository } from '../../infrastructure/repositories/InMemoryDeadLetterRepository';
+import { InMemoryScheduleRepository } from '../../infrastructure/repositories/InMemoryScheduleRepository';
+import { InMemoryWorkflowRepository } from '../../infrastructure/repositories/InMemoryWorkflowRepository';
+import { InMemoryChainRepository } from '../../infrastructure/repositories/InMemoryChainRepository';
+import { InMemoryBatchRepository } from '../../infrastructure/repositories/InMemoryBatchRepository';
+import { InMemoryIdempotencyKeyRepository } from '../../infrastructure/repositories/InMemoryIdempotencyKeyRepository';
+import { InMemoryJobLogRepository } from '../../infrastructure/repositories/InMemoryJobLogRepository';
+import { RecordStore } from '../../infrastructure/repositories/RecordStore';
+import { FileRecordStore } from '../../infrastructure/repositories/FileRecordStore';
+import { SqliteRecordStore } from '../../infrastructure/repositories/SqliteRecordStore';
+import { RedisRecordStore } from '../../infrastructure/repositories/RedisRecordStore';
+import { StoredDeadLetterRepository } from '../../infrastructure/repositories/StoredDeadLetterRepository';
+import { StoredWorkflowRepository } from '../../infrastructure/repositories/StoredWorkflowRepository';
+import { StoredChainRepository } from '../../infrastructure/repositories/StoredChainRepository';
+import { StoredBatchRepository } from '../../infrastructure/repositories/StoredBatchRepository';
+import { StoredScheduleRepository } from '../../infrastructure/repositories/StoredScheduleRepository';
+import { StoredIdempotencyKeyRepository } from '../../infrastructure/repositories/StoredIdempotencyKeyRepository';
+import { StoredJobLogRepository } from '../../infrastructure/repositories/StoredJobLogRepository';
 import { JobExecutor } from './JobExecutor';
+import { ProgressTracker } from './ProgressTracker';
+import { JobLogStore } from './JobLogStore';
+import { JobHandlerRegistry } from './JobHandlerRegistry';
 import { JobProcessor } from './JobProcessor';
+import { JobTypeLimiter } from './JobTypeLimiter';
+import { DependencyResolver } from './DependencyResolver';
+import { BatchTracker } from './BatchTracker';
+import { FanOutCoordinator } from './FanOutCoordinator';
+import { IdempotencyKeyStore } from './IdempotencyKeyStore';
+import { Scheduler, SchedulerOptions } from './Scheduler';
+import { SubmitJobUseCase } from '../usecases/SubmitJobUseCase';
+import { JobTypeLimit } from '../../domain/value-objects/JobTypeLimit';
+
+/**
+ * Where jobs, and the dead letters, workflows, chains and batches next to them, are stored:
+ * - memory: lost on restart
+ * - file: write-ahead logs and snapshots in `directory`, recovered on restart
+ * - sqlite: database file, which processes on the same host can share
+ * - redis: Redis server, which any number of processes can share
+ */
+export type JobStorageOptions =
+  | { type: 'memory' }
+  | { type: 'file'; directory: string; snapshotEvery?: number; fsync?: boolean }
+  | { type: 'sqlite'; filename: string; claimTimeout?: number }
+  | { type: 'redis'; url: string; keyPrefix?: string; claimTimeout?: number };
+
+export interface JobWorkerOptions {
+  /**
+   * Job storage backend, ignored when `repository` is given
+   * @default { type: 'memory' }
+   */
+  storage?: JobStorageOptions;
+  /**
+   * Job repository to use instead of building one from `storage`
+   */
+  repository?: JobRepository;
+  /**
+   * Store of the records kept next to the jobs (dead letters, schedules, workflows, chains,
+   * batches, idempotency keys and job logs), used instead of building one from `storage`;
+   * with a `repository` and no store, they are kept in memory
+   */
+  recordStore?: RecordStore;
+  /**
+   * Maximum milliseconds between two processing passes, so jobs saved by other
+   * processes sharing the repository are picked up; also the scheduler's (unless
+   * `scheduler.pollInterval` is set) and the one of job log followers
+   * @default 1000 for sqlite and redis storage, no polling otherwise
+   */
+  pollInterval?: number;
+  /**
+   * Milliseconds between two renewals of the leases on running jobs, which shared
+   * storage takes over once their lease (the claim timeout) runs out
+   * @default a third of the claim timeout for sqlite and redis storage, 10000 with a
+   * `repository`, no renewals otherwise
+   */
+  heartbeatInterval?: number;
+  /**
+   * Number of execution slots shared by all job types
+   */
+  concurrency?: number;
+  /**
+   * Per-type concurrency and rate limits, keyed by job type
+   */
+  typeLimits?: Record<string, JobTypeLimit>;
+  /**
+   * Milliseconds of waiting that raise a pending job's priority by one level
+   */
+  priorityAgingInterval?: number;
+  /**
+   * Misfire grace time, catch-up bound and poll interval for cron schedules
+   */
+  scheduler?: SchedulerOptions;
+  /**
+   * Execution timeout (ms) of jobs without `config.timeout`
+   */
+  defaultTimeout?: number;
+  /**
+   * Milliseconds a force-cancelled running job is given to stop before it is cancelled anyway
+   */
+  cancelGracePeriod?: number;
+  /**
+   * Minimum milliseconds between two progress writes of the same job
+   */
+  progressInterval?: number;
+  /**
+   * Bytes of log lines kept per job
+   */
+  jobLogMaxBytes?: number;
+  /**
+   * Milliseconds an `Idempotency-Key` is remembered after its first use
+   */
+  idempotencyKeyTtl?: number;
+}
+
+export interface JobWorkerStats {
+  in_flight: number;
+  capacity: number;
+}
+
+/** Storage the worker opened itself, and closes in `close` */
+interface OwnedStorage {
+  close(): void | Promise<void>;
+}
 
 export class JobWorker {
+  private static readonly DEFAULT_SHARED_POLL_INTERVAL = 1000;
+  private static readonly DEFAULT_CLAIM_TIMEOUT = 30000;
+  private static readonly DEFAULT_HEARTBEAT_INTERVAL = 10000;
   private repository: JobRepository;
+  private deadLetterRepository: DeadLetterRepository;
+  private scheduleRepository: ScheduleRepository;
+  private workflowRepository: WorkflowRepository;
+  private chainRepository: ChainRepository;
+  private batchRepository: BatchRepository;
+  private idempotencyKeyRepository: IdempotencyKeyRepository;
+  private idempotencyKeyStore: IdempotencyKeyStore;
+  private jobLogRepository: JobLogRepository;
+  private jobLogStore: JobLogStore;
+  private handlerRegistry: JobHandlerRegistry;
+  private typeLimiter: JobTypeLimiter;
+  private dependencyResolver: DependencyResolver;
+  private batchTracker: BatchTracker;
+  private fanOutCoordinator: FanOutCoordinator;
+  private progressTracker: ProgressTracker;
   private executor: JobExecutor;
   private processor: JobProcessor;
+  private scheduler: Scheduler;
   private isInitialized: boolean = false;
+  private readonly ownedStorage: OwnedStorage[] = [];
+
+  constructor(options: JobWorkerOptions = {}) {
+    this.repository = options.repository ?? this.own(JobWorker.createJobRepository(options));
+
+    const recordStore = options.recordStore ?? this.own(JobWorker.createRecordStore(options));
+    const pollInterval = options.pollInterval ?? JobWorker.defaultPollInterval(options);
+    this.deadLetterRepository = recordStore
+      ? new StoredDeadLetterRepository(recordStore)
+      : new InMemoryDeadLetterRepository();
+    this.scheduleRepository = recordStore
+      ? new StoredScheduleRepository(recordStore)
+      : new InMemoryScheduleRepository();
+    this.workflowRepository = recordStore
+      ? new StoredWorkflowRepository(recordStore)
+      : new InMemoryWorkflowRepository();
+    this.chainRepository = recordStore
+      ? new StoredChainRepository(recordStore)
+      : new InMemoryChainRepository();
+    this.batchRepository = recordStore
+      ? new StoredBatchRepository(recordStore)
+      : new InMemoryBatchRepository();
+    this.idempotencyKeyRepository = recordStore
+      ? new StoredIdempotencyKeyRepository(recordStore)
+      : new InMemoryIdempotencyKeyRepository();
+    this.idempotencyKeyStore = new IdempotencyKeyStore(this.idempotencyKeyRepository, {
+      ttl: options.idempotencyKeyTtl,
+    });
+    this.jobLogRepository = recordStore
+      ? new StoredJobLogRepository(recordStore)
+      : new InMemoryJobLogRepository();
+    this.jobLogStore = new JobLogStore(this.jobLogRepository, {
+      maxBytesPerJob: options.jobLogMaxBytes,
+      pollInterval,
+    });
+    this.handlerRegistry = new JobHandlerRegistry();
+    this.fanOutCoordinator = new FanOutCoordinator(this.repository, this.handlerRegistry);
+    this.progressTracker = new ProgressTracker(this.repository, {
+      interval: options.progressInterval,
+    });
+    this.executor = new JobExecutor(this.handlerRegistry, this.fanOutCoordinator, {
+      defaultTimeout: options.defaultTimeout,
+      cancelGracePeriod: options.cancelGracePeriod,
+      progressTracker: this.progressTracker,
+      logStore: this.jobLogStore,
+    });
+    this.typeLimiter = new JobTypeLimiter(options.typeLimits);
+    this.dependencyResolver = new DependencyResolver(this.repository);
+
+    this.batchTracker = new BatchTracker(this.repository, this.batchRepository);
+    this.repository.onJobFinished((job) => {
+      void this.batchTracker.recordFinished(job);
+      void this.fanOutCoordinator.recordChildFinished(job);
+      void this.jobLogStore.close(job.id);
+    });
+
+    this.processor = new JobProcessor(this.repository, this.executor, this.deadLetterRepository, {
+      concurrency: options.concurrency,
+      typeLimiter: this.typeLimiter,
+      dependencyResolver: this.dependencyResolver,
+      pollInterval,
+      heartbeatInterval:
+        options.heartbeatInterval ?? JobWorker.defaultHeartbeatInterval(options),
+    });
 
-  constructor() {
-    this.repository = new InMemoryJobRepository();
-    this.executor = new JobExecutor();
-    
-    const inMemoryRepo = this.repository as InMemoryJobRepository;
-    const queue = inMemoryRepo.getQueue();
-    
-    this.processor = new JobProcessor(queue, this.executor);
+    this.scheduler = new Scheduler(
+      this.scheduleRepository,
+      new SubmitJobUseCase(this.repository, this.handlerRegistry, this.dependencyResolver),
+      {
+        ...options.scheduler,
+        pollInterval: options.scheduler?.pollInterval ?? pollInterval,
+      }
+    );
   }
 
   start(): void {
@@ -28,6 +243,8 @@ export class JobWorker {
     console.log('Starting JobWorker...');
 
     this.processor.start();
+    this.scheduler.start();
+    this.idempotencyKeyStore.start();
 
     this.isInitialized = true;
     console.log('JobWorker started successfully');
@@ -41,20 +258,98 @@ export class JobWorker {
 
     console.log('Stopping JobWorker...');
 
+    this.idempotencyKeyStore.stop();
+    this.scheduler.stop();
     this.processor.stop();
 
     this.isInitialized = false;
     console.log('JobWorker stopped successfully');
   }
 
+  /**
+   * Stops the worker if needed and closes the repositories and record store it opened
+   * from `storage`; those passed in the options are left open for their owner
+   */
+  async close(): Promise<void> {
+    if (this.isInitialized) {
+      this.stop();
+    }
+
+    const storage = this.ownedStorage.splice(0);
+    await Promise.all(storage.map((owned) => owned.close()));
+  }
+
   getRepository(): JobRepository {
     return this.repository;
   }
 
+  getDeadLetterRepository(): DeadLetterRepository {
+    return this.deadLetterRepository;
+  }
+
+  getScheduleRepository(): ScheduleRepository {
+    return this.scheduleRepository;
+  }
+
+  getWorkflowRepository(): WorkflowRepository {
+    return this.workflowRepository;
+  }
+
+  getChainRepository(): ChainRepository {
+    return this.chainRepository;
+  }
+
+  getBatchRepository(): BatchRepository {
+    return this.batchRepository;
+  }
+
+  getIdempotencyKeyRepository(): IdempotencyKeyRepository {
+    return this.idempotencyKeyRepository;
+  }
+
+  getIdempotencyKeyStore(): IdempotencyKeyStore {
+    return this.idempotencyKeyStore;
+  }
+
+  getJobLogRepository(): JobLogRepository {
+    return this.jobLogRepository;
+  }
+
+  getJobLogStore(): JobLogStore {
+    return this.jobLogStore;
+  }
+
+  getDependencyResolver(): DependencyResolver {
+    return this.dependencyResolver;
+  }
+
+  getScheduler(): Scheduler {
+    return this.scheduler;
+  }
+
+  getHandlerRegistry(): JobHandlerRegistry {
+    return this.handlerRegistry;
+  }
+
+  getTypeLimiter(): JobTypeLimiter {
+    return this.typeLimiter;
+  }
+
+  getExecutor(): JobExecutor {
+    return this.executor;
+  }
+
   getProcessor(): JobProcessor {
     return this.processor;
   }
 
+  getStats(): JobWorkerStats {
+    return {
+      in_flight: this.processor.getInFlightCount(),
+      capacity: this.processor.getConcurrency(),
+    };
+  }
+
   isRunning(): boolean {
     return this.isInitialized && this.processor.isProcessing();
   }
@@ -64,4 +359,90 @@ export class JobWorker {
     this.stop();
     this.start();
   }
-}
\ No newline at end of file
+
+  private static createJobRepository(options: JobWorkerOptions): JobRepository {
+    const storage = options.storage ?? { type: 'memory' };
+
+    switch (storage.type) {
+      case 'memory':
+        return new InMemoryJobRepository({
+          priorityAgingInterval: options.priorityAgingInterval,
+        });
+      case 'file':
+        return new FileJobRepository({
+          ...storage,
+          priorityAgingInterval: options.priorityAgingInterval,
+        });
+      case 'sqlite':
+        return new SqliteJobRepository({
+          ...storage,
+          priorityAgingInterval: options.priorityAgingInterval,
+        });
+      case 'redis':
+        return new RedisJobRepository({
+          ...storage,
+          priorityAgingInterval: options.priorityAgingInterval,
+        });
+      default:
+        throw new Error(
+          `Job storage type must be one of: memory, file, sqlite, redis (got '${(storage as { type: string }).type}')`
+        );
+    }
+  }
+
+  /**
+   * Record store on the same storage as the jobs; none with a `repository` or memory storage
+   */
+  private static createRecordStore(options: JobWorkerOptions): RecordStore | undefined {
+    const storage = options.repository ? undefined : options.storage;
+
+    switch (storage?.type) {
+      case 'file':
+        return new FileRecordStore({ directory: storage.directory, fsync: storage.fsync });
+      case 'sqlite':
+        return new SqliteRecordStore({ filename: storage.filename });
+      case 'redis':
+        return new RedisRecordStore({ url: storage.url, keyPrefix: storage.keyPrefix });
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Registers storage the worker opened, to be closed in `close`
+   */
+  private own<T extends object | undefined>(storage: T): T {
+    if (storage && 'close' in storage) {
+      this.ownedStorage.push(storage as OwnedStorage);
+    }
+
+    return storage;
+  }
+
+  /**
+   * Shared storage must be polled for jobs saved by other processes
+   */
+  private static defaultPollInterval(options: JobWorkerOptions): number | undefined {
+    const type = options.repository ? undefined : options.storage?.type;
+
+    return type === 'sqlite' || type === 'redis'
+      ? JobWorker.DEFAULT_SHARED_POLL_INTERVAL
+      : undefined;
+  }
+
+  /**
+   * Renews leases three times per claim timeout, so one late renewal does not cost a
+   * running job its lease
+   */
+  private static defaultHeartbeatInterval(options: JobWorkerOptions): number | undefined {
+    if (options.repository) {
+      return JobWorker.DEFAULT_HEARTBEAT_INTERVAL;
+    }
+
+    const storage = options.storage;
+
+    return storage?.type === 'sqlite' || storage?.type === 'redis'
+      ? Math.ceil((storage.claimTimeout ?? JobWorker.DEFAULT_CLAIM_TIMEOUT) / 3)
+      : undefined;
+  }
+}
@@ -0,0 +1,120 @@
+import { JobRepository } from '../../domain';
+import { Job } from '../../domain/entities/Job';
+import { JobFactory } from '../../domain/factories/JobFactory';
+import { JobProgress } from '../../domain/value-objects/JobProgress';
+import { JobStatus } from '../../domain/value-objects/JobStatus';
+
+export interface ProgressTrackerOptions {
+  /**
+   * Minimum milliseconds between two progress writes of the same job
+   * @default 1000
+   */
+  interval?: number;
+}
+
+interface TrackedExecution {
+  /** Attempt the progress belongs to */
+  attempts: number;
+  latest?: JobProgress;
+  lastWriteAt: number;
+  timer?: NodeJS.Timeout;
+  /** Chain of writes, so they reach the repository in order */
+  writing: Promise<void>;
+}
+
+/**
+ * Persists the progress reported by running handlers. Writes of a job are throttled
+ * to one per interval; reports in between only replace the pending value, which is
+ * written at the end of the interval unless the attempt finishes first.
+ */
+export class ProgressTracker {
+  private readonly DEFAULT_INTERVAL = 1000;
+  private readonly interval: number;
+  private readonly executions: Map<string, TrackedExecution> = new Map();
+
+  constructor(
+    private readonly repository: JobRepository,
+    options: ProgressTrackerOptions = {}
+  ) {
+    this.interval = options.interval ?? this.DEFAULT_INTERVAL;
+
+    if (!Number.isInteger(this.interval) || this.interval < 0) {
+      throw new Error('Progress interval must be a non-negative integer (milliseconds)');
+    }
+  }
+
+  start(job: Job): void {
+    this.executions.set(job.id, {
+      attempts: job.attempts,
+      lastWriteAt: -Infinity,
+      writing: Promise.resolve(),
+    });
+  }
+
+  report(jobId: string, progress: JobProgress): void {
+    const execution = this.executions.get(jobId);
+
+    if (!execution) {
+      return;
+    }
+
+    execution.latest = progress;
+
+    if (execution.timer) {
+      return;
+    }
+
+    const wait = execution.lastWriteAt + this.interval - Date.now();
+
+    if (wait <= 0) {
+      this.write(jobId, execution);
+    } else {
+      execution.timer = setTimeout(() => this.write(jobId, execution), wait);
+    }
+  }
+
+  /**
+   * Stops tracking the job once its attempt is over and waits for writes in flight,
+   * so none of them lands after the final state of the job is saved
+   * @returns The latest progress reported, to be kept on the finished job
+   */
+  async finish(jobId: string): Promise<JobProgress | undefined> {
+    const execution = this.executions.get(jobId);
+
+    if (!execution) {
+      return undefined;
+    }
+
+    clearTimeout(execution.timer);
+    this.executions.delete(jobId);
+    await execution.writing;
+
+    return execution.latest;
+  }
+
+  private write(jobId: string, execution: TrackedExecution): void {
+    execution.timer = undefined;
+
+    if (this.executions.get(jobId) !== execution) {
+      return;
+    }
+
+    const progress = execution.latest!;
+    execution.lastWriteAt = Date.now();
+    execution.writing = execution.writing
+      .then(() => this.persist(jobId, execution.attempts, progress))
+      .catch((error) => console.error(`Failed to save progress of job ${jobId}:`, error));
+  }
+
+  /**
+   * Writes over the attempt that reported the progress only, never over a job another
+   * processor took over or one saved in between with another status
+   */
+  private async persist(jobId: string, attempts: number, progress: JobProgress): Promise<void> {
+    await this.repository.update(jobId, (job) =>
+      job.status === JobStatus.RUNNING && job.attempts === attempts
+        ? JobFactory.updateProgress(job, progress)
+        : null
+    );
+  }
+}
@@ -0,0 +1,232 @@
+import { ScheduleRepository } from '../../domain';
+import { Schedule } from '../../domain/entities/Schedule';
+import { ScheduleStatus } from '../../domain/value-objects/ScheduleStatus';
+import { ScheduleFactory } from '../../domain/factories/ScheduleFactory';
+import { SubmitJobUseCase } from '../usecases/SubmitJobUseCase';
+
+export interface SchedulerOptions {
+  /**
+   * How late (ms) a fire time can be run before it counts as missed
+   * @default 60000
+   */
+  misfireGraceTime?: number;
+  /**
+   * Maximum jobs a single schedule creates in one pass, bounding catch-up after downtime
+   * @default 100
+   */
+  maxRunsPerPass?: number;
+  /**
+   * Longest time (ms) between two passes, so schedules created or changed by other
+   * instances sharing the storage are picked up; unset waits for the next fire time
+   */
+  pollInterval?: number;
+}
+
+/**
+ * Turns cron schedules into jobs, submitted like any other so their unique, debounce
+ * and throttle keys apply. A single timer points at the earliest `next_run_at`
+ * among active schedules; `refresh()` re-arms it after schedules change.
+ * On start, fire times missed while the service was down are handled per schedule
+ * according to its missed-run policy.
+ *
+ * Instances sharing the schedules may all run a scheduler: each fire time is claimed
+ * with an atomic update before its jobs are created, so it fires at most once.
+ */
+export class Scheduler {
+  private isRunning: boolean = false;
+  private timer: NodeJS.Timeout | null = null;
+  private passInProgress: Promise<void> | null = null;
+  private passRequested: boolean = false;
+  private readonly MAX_TIMER_DELAY = 2 ** 31 - 1; // setTimeout limit in milliseconds
+  private readonly misfireGraceTime: number;
+  private readonly maxRunsPerPass: number;
+  private readonly pollInterval?: number;
+
+  constructor(
+    private readonly scheduleRepository: ScheduleRepository,
+    private readonly submitJobUseCase: SubmitJobUseCase,
+    options: SchedulerOptions = {}
+  ) {
+    this.misfireGraceTime = options.misfireGraceTime ?? 60000;
+    this.maxRunsPerPass = options.maxRunsPerPass ?? 100;
+    this.pollInterval = options.pollInterval;
+
+    if (!(this.misfireGraceTime >= 0)) {
+      throw new Error('Misfire grace time must be a non-negative number');
+    }
+
+    if (!Number.isInteger(this.maxRunsPerPass) || this.maxRunsPerPass < 1) {
+      throw new Error('Max runs per pass must be a positive integer');
+    }
+
+    if (this.pollInterval !== undefined && !(this.pollInterval > 0)) {
+      throw new Error('Poll interval must be a positive number');
+    }
+  }
+
+  start(): void {
+    if (this.isRunning) {
+      console.warn('Scheduler is already running');
+      return;
+    }
+
+    this.isRunning = true;
+    console.log('Scheduler started');
+
+    void this.refresh();
+  }
+
+  stop(): void {
+    if (!this.isRunning) {
+      console.warn('Scheduler is not running');
+      return;
+    }
+
+    this.isRunning = false;
+    this.clearTimer();
+
+    console.log('Scheduler stopped');
+  }
+
+  isProcessing(): boolean {
+    return this.isRunning;
+  }
+
+  /**
+   * Fires every due schedule and re-arms the timer; call after schedules are created or changed.
+   * Calls made while a pass is in progress trigger one more pass once it finishes.
+   */
+  refresh(): Promise<void> {
+    if (!this.isRunning) {
+      return Promise.resolve();
+    }
+
+    if (this.passInProgress) {
+      this.passRequested = true;
+      return this.passInProgress;
+    }
+
+    this.passInProgress = this.runPasses().finally(() => {
+      this.passInProgress = null;
+    });
+
+    return this.passInProgress;
+  }
+
+  private async runPasses(): Promise<void> {
+    do {
+      this.passRequested = false;
+
+      try {
+        await this.fireDueSchedules();
+      } catch (error) {
+        console.error('Error firing schedules:', error);
+      }
+    } while (this.passRequested && this.isRunning);
+  }
+
+  private async fireDueSchedules(): Promise<void> {
+    const schedules = await this.scheduleRepository.findAll({ status: ScheduleStatus.ACTIVE });
+    let nextRunAt: number | undefined;
+
+    for (const schedule of schedules) {
+      const updated = await this.fireSchedule(schedule);
+
+      if (updated && (nextRunAt === undefined || updated.next_run_at < nextRunAt)) {
+        nextRunAt = updated.next_run_at;
+      }
+    }
+
+    this.armTimer(nextRunAt);
+  }
+
+  /**
+   * @returns The schedule after this pass, or null if it was paused, deleted or fired by
+   * another instance meanwhile
+   */
+  private async fireSchedule(schedule: Schedule): Promise<Schedule | null> {
+    const plan = ScheduleFactory.planRuns(
+      schedule,
+      Date.now(),
+      this.misfireGraceTime,
+      this.maxRunsPerPass
+    );
+
+    if (plan.next_run_at === schedule.next_run_at) {
+      return schedule;
+    }
+
+    // Claim the fire times first, so an instance sharing the schedule that read the same
+    // version cannot fire them too; a crash before the jobs are saved skips them
+    const claimed = await this.scheduleRepository.update(schedule.id, (current) =>
+      current.status === ScheduleStatus.ACTIVE && current.next_run_at === schedule.next_run_at
+        ? ScheduleFactory.recordRun(current, plan, [])
+        : null
+    );
+
+    if (!claimed) {
+      return null;
+    }
+
+    if (plan.missed > 0) {
+      console.warn(
+        `Schedule ${schedule.id} missed ${plan.missed} run(s); ` +
+        `applying '${schedule.missed_run_policy}' policy`
+      );
+    }
+
+    const jobIds: string[] = [];
+
+    for (const fireTime of plan.fire_times) {
+      try {
+        const { job } = await this.submitJobUseCase.execute(
+          ScheduleFactory.createJobData(claimed, fireTime)
+        );
+        jobIds.push(job.id);
+      } catch (error) {
+        console.error(`Error creating job for schedule ${schedule.id}:`, error);
+      }
+    }
+
+    if (jobIds.length === 0) {
+      return claimed;
+    }
+
+    // Unless the schedule fired again meanwhile, or was deleted
+    const updated = await this.scheduleRepository.update(schedule.id, (current) =>
+      current.last_run_at === claimed.last_run_at
+        ? { ...current, last_job_id: jobIds[jobIds.length - 1] }
+        : null
+    );
+
+    return updated ?? claimed;
+  }
+
+  private armTimer(nextRunAt: number | undefined): void {
+    this.clearTimer();
+
+    const now = Date.now();
+    const wakeAt =
+      this.pollInterval !== undefined
+        ? Math.min(nextRunAt ?? Infinity, now + this.pollInterval)
+        : nextRunAt;
+
+    if (!this.isRunning || wakeAt === undefined) {
+      return;
+    }
+
+    const delay = Math.min(Math.max(0, wakeAt - now), this.MAX_TIMER_DELAY);
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.refresh();
+    }, delay);
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
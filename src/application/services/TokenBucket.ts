@@ -0,0 +1,59 @@
+/**
+ * Classic token bucket: refills continuously at `ratePerSecond`, holds at most `capacity` tokens.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+
+  constructor(
+    private readonly ratePerSecond: number,
+    private readonly capacity: number
+  ) {
+    this.tokens = capacity;
+    this.lastRefill = Date.now();
+  }
+
+  tryTake(): boolean {
+    this.refill();
+
+    if (this.tokens < 1) {
+      return false;
+    }
+
+    this.tokens -= 1;
+    return true;
+  }
+
+  hasToken(): boolean {
+    this.refill();
+    return this.tokens >= 1;
+  }
+
+  getAvailableTokens(): number {
+    this.refill();
+    return Math.floor(this.tokens);
+  }
+
+  /**
+   * Timestamp (ms) at which the next token becomes available
+   */
+  nextTokenAt(): number {
+    this.refill();
+
+    if (this.tokens >= 1) {
+      return this.lastRefill;
+    }
+
+    return this.lastRefill + Math.ceil(((1 - this.tokens) * 1000) / this.ratePerSecond);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = now - this.lastRefill;
+
+    if (elapsed > 0) {
+      this.tokens = Math.min(this.capacity, this.tokens + (elapsed * this.ratePerSecond) / 1000);
+      this.lastRefill = now;
+    }
+  }
+}
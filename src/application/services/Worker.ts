@@ -1,4 +1,53 @@
-import { JobWorker } from './JobWorker';
+import { JobStorageOptions, JobWorker } from './JobWorker';
 
 
-export const jobWorker = new JobWorker();
\ No newline at end of file
+export const jobWorker = new JobWorker({
+  storage: process.env.JOB_STORE
+    ? ({
+        type: process.env.JOB_STORE,
+        directory: process.env.JOB_STORE_DIR ?? './data',
+        snapshotEvery: process.env.JOB_STORE_SNAPSHOT_EVERY
+          ? Number(process.env.JOB_STORE_SNAPSHOT_EVERY)
+          : undefined,
+        fsync: process.env.JOB_STORE_FSYNC ? process.env.JOB_STORE_FSYNC !== 'false' : undefined,
+        filename: process.env.JOB_STORE_FILE ?? './data/jobs.db',
+        url: process.env.REDIS_URL ?? 'redis://localhost:6379',
+        keyPrefix: process.env.REDIS_KEY_PREFIX,
+        claimTimeout: process.env.JOB_CLAIM_TIMEOUT
+          ? Number(process.env.JOB_CLAIM_TIMEOUT)
+          : undefined,
+      } as JobStorageOptions)
+    : undefined,
+  pollInterval: process.env.POLL_INTERVAL
+    ? Number(process.env.POLL_INTERVAL)
+    : undefined,
+  concurrency: process.env.WORKER_CONCURRENCY
+    ? Number(process.env.WORKER_CONCURRENCY)
+    : undefined,
+  typeLimits: process.env.JOB_TYPE_LIMITS
+    ? JSON.parse(process.env.JOB_TYPE_LIMITS)
+    : undefined,
+  priorityAgingInterval: process.env.PRIORITY_AGING_INTERVAL
+    ? Number(process.env.PRIORITY_AGING_INTERVAL)
+    : undefined,
+  defaultTimeout: process.env.JOB_TIMEOUT
+    ? Number(process.env.JOB_TIMEOUT)
+    : undefined,
+  cancelGracePeriod: process.env.CANCEL_GRACE_PERIOD
+    ? Number(process.env.CANCEL_GRACE_PERIOD)
+    : undefined,
+  progressInterval: process.env.PROGRESS_INTERVAL
+    ? Number(process.env.PROGRESS_INTERVAL)
+    : undefined,
+  jobLogMaxBytes: process.env.JOB_LOG_MAX_BYTES
+    ? Number(process.env.JOB_LOG_MAX_BYTES)
+    : undefined,
+  idempotencyKeyTtl: process.env.IDEMPOTENCY_KEY_TTL
+    ? Number(process.env.IDEMPOTENCY_KEY_TTL)
+    : undefined,
+  scheduler: {
+    misfireGraceTime: process.env.SCHEDULE_MISFIRE_GRACE_TIME
+      ? Number(process.env.SCHEDULE_MISFIRE_GRACE_TIME)
+      : undefined,
+  },
+});
\ No newline at end of file
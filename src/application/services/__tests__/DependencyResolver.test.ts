@@ -0,0 +1,149 @@
+import { DependencyResolver } from '../DependencyResolver';
+import { JobFactory } from '../../../domain/factories/JobFactory';
+import { JobStatus } from '../../../domain/value-objects/JobStatus';
+import { Job } from '../../../domain/entities/Job';
+import { createErrorResult, createSuccessResult } from '../../../domain/value-objects/JobResult';
+import { InMemoryJobRepository } from '../../../infrastructure/repositories/InMemoryJobRepository';
+
+jest.mock('uuid', () => {
+  let counter = 0;
+  return {
+    v4: jest.fn(() => `test-uuid-${String(counter++ % 10000).padStart(4, '0')}`),
+  };
+});
+
+describe('DependencyResolver', () => {
+  let repository: InMemoryJobRepository;
+  let resolver: DependencyResolver;
+
+  beforeEach(() => {
+    repository = new InMemoryJobRepository();
+    resolver = new DependencyResolver(repository);
+  });
+
+  async function submit(dependsOn: Array<{ job_id: string; on_failure?: 'cancel' | 'skip' }> = []) {
+    const job = JobFactory.createJob({ type: 'task', payload: { n: 1 }, depends_on: dependsOn });
+    await repository.save(job);
+    return job;
+  }
+
+  async function finish(job: Job, success: boolean, data?: any) {
+    const running = JobFactory.startJob(job);
+    const finished = success
+      ? JobFactory.completeJob(running, createSuccessResult('ok', data))
+      : JobFactory.failJob(running, createErrorResult('boom', 500));
+    await repository.save(finished);
+    await resolver.resolveDependents(finished);
+    return finished;
+  }
+
+  async function statusOf(job: Job) {
+    return (await repository.findById(job.id))?.status;
+  }
+
+  it('should unblock a job once every parent completed', async () => {
+    const first = await submit();
+    const second = await submit();
+    const child = await submit([{ job_id: first.id }, { job_id: second.id }]);
+
+    await finish(first, true);
+    expect(await statusOf(child)).toBe(JobStatus.BLOCKED);
+
+    await finish(second, true);
+    expect(await statusOf(child)).toBe(JobStatus.PENDING);
+  });
+
+  it('should cancel or skip dependents per edge policy when a parent fails', async () => {
+    const parent = await submit();
+    const cancelled = await submit([{ job_id: parent.id, on_failure: 'cancel' }]);
+    const skipped = await submit([{ job_id: parent.id, on_failure: 'skip' }]);
+
+    await finish(parent, false);
+
+    expect(await statusOf(cancelled)).toBe(JobStatus.CANCELLED);
+    expect(await statusOf(skipped)).toBe(JobStatus.SKIPPED);
+    expect((await repository.findById(skipped.id))?.result).toMatchObject({ code: 424 });
+  });
+
+  it('should cascade through abandoned jobs', async () => {
+    const root = await submit();
+    const middle = await submit([{ job_id: root.id }]);
+    const leaf = await submit([{ job_id: middle.id, on_failure: 'skip' }]);
+
+    await finish(root, false);
+
+    expect(await statusOf(middle)).toBe(JobStatus.CANCELLED);
+    expect(await statusOf(leaf)).toBe(JobStatus.SKIPPED);
+  });
+
+  it('should settle a new job whose parents already finished', async () => {
+    const parent = await finish(await submit(), true);
+    const child = await submit([{ job_id: parent.id }]);
+
+    const evaluated = await resolver.evaluate(child);
+
+    expect(evaluated.status).toBe(JobStatus.PENDING);
+  });
+
+  it('should leave a job that another processor already released', async () => {
+    const parent = await submit();
+    const child = await submit([{ job_id: parent.id }]);
+    await finish(parent, true);
+    const running = await repository.save(
+      JobFactory.startJob((await repository.findById(child.id))!)
+    );
+
+    const evaluated = await resolver.evaluate(child);
+
+    expect(evaluated).toEqual(running);
+    expect(await statusOf(child)).toBe(JobStatus.RUNNING);
+  });
+
+  it('should pipe the parent result into the payload when unblocking', async () => {
+    const parent = await submit();
+    const child: Job = {
+      ...JobFactory.createJob({
+        type: 'task',
+        payload: { greeting: 'Hello {{result.name}}' },
+        depends_on: [{ job_id: parent.id }],
+      }),
+      pipe: { job_id: parent.id, mode: 'template' },
+    };
+    await repository.save(child);
+
+    await finish(parent, true, { name: 'Ana' });
+
+    const unblocked = await repository.findById(child.id);
+    expect(unblocked?.status).toBe(JobStatus.PENDING);
+    expect(unblocked?.payload).toEqual({ greeting: 'Hello Ana' });
+  });
+
+  it('should cancel a job whose payload template does not fit the piped result', async () => {
+    const parent = await submit();
+    const child: Job = {
+      ...JobFactory.createJob({
+        type: 'task',
+        payload: { id: '{{result.id}}' },
+        depends_on: [{ job_id: parent.id }],
+      }),
+      pipe: { job_id: parent.id, mode: 'template' },
+    };
+    await repository.save(child);
+    const grandchild = await submit([{ job_id: child.id, on_failure: 'skip' }]);
+
+    await finish(parent, true, { name: 'Ana' });
+
+    expect((await repository.findById(child.id))?.result).toMatchObject({
+      message: "Cannot pipe result into payload: Result has no value at 'result.id'",
+      code: 422,
+    });
+    expect(await statusOf(child)).toBe(JobStatus.CANCELLED);
+    expect(await statusOf(grandchild)).toBe(JobStatus.SKIPPED);
+  });
+
+  it('should reject unknown dependencies', async () => {
+    await expect(
+      resolver.assertDependenciesExist([{ job_id: 'missing-job' }])
+    ).rejects.toThrow('Unknown dependency job missing-job');
+  });
+});
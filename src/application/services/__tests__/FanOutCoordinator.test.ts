@@ -0,0 +1,170 @@
+import { FanOutCoordinator } from '../FanOutCoordinator';
+import { JobExecutor } from '../JobExecutor';
+import { JobHandlerRegistry } from '../JobHandlerRegistry';
+import { JobProcessor } from '../JobProcessor';
+import { JobFactory } from '../../../domain/factories/JobFactory';
+import { JobStatus } from '../../../domain/value-objects/JobStatus';
+import { JobConfig } from '../../../domain/value-objects/JobConfig';
+import { createErrorResult, createSuccessResult } from '../../../domain/value-objects/JobResult';
+import { Job } from '../../../domain/entities/Job';
+import { MapReduceJobHandler } from '../../../domain/interfaces/JobHandler.interface';
+import { InMemoryJobRepository } from '../../../infrastructure/repositories/InMemoryJobRepository';
+import { InMemoryDeadLetterRepository } from '../../../infrastructure/repositories/InMemoryDeadLetterRepository';
+
+jest.mock('uuid', () => {
+  let counter = 0;
+  return {
+    v4: jest.fn(() => `test-uuid-${String(counter++ % 10000).padStart(4, '0')}`),
+  };
+});
+
+describe('FanOutCoordinator', () => {
+  let repository: InMemoryJobRepository;
+  let processor: JobProcessor;
+  let reduce: jest.Mock;
+
+  // Shards succeed unless their payload says otherwise
+  const report: MapReduceJobHandler = {
+    map: async (job) =>
+      job.payload.shards.map((shard: { n: number; fail?: boolean }) => ({
+        type: 'shard',
+        payload: shard,
+      })),
+    reduce: (job, children) => reduce(job, children),
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    repository = new InMemoryJobRepository();
+    reduce = jest.fn(async (_job, children) =>
+      createSuccessResult('Reduced', { total: children.length })
+    );
+
+    const registry = new JobHandlerRegistry();
+    registry.register('report', report);
+    registry.register('shard', {
+      handle: async (job: Job) =>
+        job.payload.fail
+          ? createErrorResult('Shard failed', 400)
+          : createSuccessResult('Shard done', { n: job.payload.n }),
+    });
+
+    const coordinator = new FanOutCoordinator(repository, registry);
+    repository.getQueue().onJobFinished((job) => void coordinator.recordChildFinished(job));
+
+    processor = new JobProcessor(
+      repository,
+      new JobExecutor(registry, coordinator),
+      new InMemoryDeadLetterRepository(),
+      { concurrency: 1 }
+    );
+  });
+
+  afterEach(() => {
+    processor.stop();
+    jest.restoreAllMocks();
+  });
+
+  async function run(shards: Array<{ n: number; fail?: boolean }>, config?: JobConfig) {
+    const parent = JobFactory.createJob({ type: 'report', payload: { shards }, config });
+    await repository.save(parent);
+    processor.start();
+
+    for (let i = 0; i < 200; i++) {
+      const job = await repository.findById(parent.id);
+
+      if (job && JobFactory.isTerminal(job)) {
+        return job;
+      }
+
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+
+    throw new Error('Parent job did not finish');
+  }
+
+  it('should reduce the results of every child', async () => {
+    const parent = await run([{ n: 1 }, { n: 2 }, { n: 3 }]);
+
+    expect(parent.status).toBe(JobStatus.COMPLETED);
+    expect(parent.result).toEqual({ message: 'Reduced', data: { total: 3 } });
+    expect(parent.fan_out).toMatchObject({ completed: 3, failed: 0 });
+
+    const [, children] = reduce.mock.calls[0];
+    expect(children.map((child: any) => child.result.data)).toEqual([{ n: 1 }, { n: 2 }, { n: 3 }]);
+  });
+
+  it('should fail fast and cancel children that have not started', async () => {
+    const parent = await run([{ n: 1, fail: true }, { n: 2 }, { n: 3 }]);
+
+    expect(parent.status).toBe(JobStatus.FAILED);
+    expect(parent.result).toMatchObject({ code: 424 });
+    expect(reduce).not.toHaveBeenCalled();
+
+    const children = await Promise.all(
+      parent.fan_out!.child_ids.map((id) => repository.findById(id))
+    );
+    expect(children.map((child) => child?.status)).toEqual([
+      JobStatus.FAILED,
+      JobStatus.CANCELLED,
+      JobStatus.CANCELLED,
+    ]);
+  });
+
+  it('should reduce every result with best_effort', async () => {
+    const parent = await run([{ n: 1, fail: true }, { n: 2 }], {
+      fan_in: { strategy: 'best_effort' },
+    });
+
+    expect(parent.status).toBe(JobStatus.COMPLETED);
+    expect(parent.fan_out).toMatchObject({ completed: 1, failed: 1 });
+    expect(reduce.mock.calls[0][1].map((child: any) => child.status)).toEqual([
+      JobStatus.FAILED,
+      JobStatus.COMPLETED,
+    ]);
+  });
+
+  it('should enforce the minimum success ratio', async () => {
+    const config: JobConfig = { fan_in: { strategy: 'min_success_ratio', min_success_ratio: 0.5 } };
+
+    const met = await run([{ n: 1, fail: true }, { n: 2 }], config);
+    expect(met.status).toBe(JobStatus.COMPLETED);
+
+    const missed = await run([{ n: 1, fail: true }, { n: 2, fail: true }, { n: 3 }], config);
+    expect(missed.status).toBe(JobStatus.FAILED);
+    expect(missed.result?.message).toBe(
+      "Fan-in policy 'min_success_ratio' not met: 0 of 3 child jobs completed"
+    );
+  });
+
+  it('should keep the progress of children that finish before the map step returns', async () => {
+    const save = repository.save.bind(repository);
+
+    // Another instance runs each child as soon as it is saved
+    jest.spyOn(repository, 'save').mockImplementation(async (job: Job) => {
+      await save(job);
+
+      if (job.parent_id && job.status === JobStatus.PENDING) {
+        await save(
+          JobFactory.completeJob(JobFactory.startJob(job), createSuccessResult('Shard done'))
+        );
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+      return job;
+    });
+
+    const parent = await run([{ n: 1 }, { n: 2 }]);
+
+    expect(parent.status).toBe(JobStatus.COMPLETED);
+    expect(parent.fan_out).toMatchObject({ completed: 2, failed: 0 });
+  });
+
+  it('should reduce immediately when the map step spawns no children', async () => {
+    const parent = await run([]);
+
+    expect(parent.status).toBe(JobStatus.COMPLETED);
+    expect(reduce).toHaveBeenCalledWith(expect.anything(), []);
+  });
+});
@@ -0,0 +1,88 @@
+import { IdempotencyKeyStore } from '../IdempotencyKeyStore';
+import { InMemoryIdempotencyKeyRepository } from '../../../infrastructure/repositories/InMemoryIdempotencyKeyRepository';
+
+describe('IdempotencyKeyStore', () => {
+  const request = { type: 'email', payload: { to: 'user@example.com', subject: 'Hi' } };
+  const response = { status_code: 201, body: { id: 'job-1' } };
+
+  let repository: InMemoryIdempotencyKeyRepository;
+  let store: IdempotencyKeyStore;
+
+  beforeEach(() => {
+    repository = new InMemoryIdempotencyKeyRepository();
+    store = new IdempotencyKeyStore(repository, { ttl: 1000 });
+  });
+
+  it('should replay the recorded response for the same request', async () => {
+    expect(await store.claim('key-1', request, 0)).toEqual({ status: 'claimed' });
+    await store.complete('key-1', response);
+
+    const reordered = { payload: { subject: 'Hi', to: 'user@example.com' }, type: 'email' };
+
+    expect(await store.claim('key-1', reordered, 500)).toEqual({ status: 'replay', response });
+  });
+
+  it('should reject a different request with a used key', async () => {
+    await store.claim('key-1', request, 0);
+    await store.complete('key-1', response);
+
+    await expect(
+      store.claim('key-1', { ...request, payload: { to: 'other@example.com' } }, 500)
+    ).rejects.toThrow("Idempotency-Key 'key-1' was already used with a different request body");
+  });
+
+  it('should reject a retry while the first request is being processed', async () => {
+    const claims = await Promise.allSettled([
+      store.claim('key-1', request, 0),
+      store.claim('key-1', request, 0),
+    ]);
+
+    expect(claims[0]).toEqual({ status: 'fulfilled', value: { status: 'claimed' } });
+    expect(claims[1]).toMatchObject({
+      status: 'rejected',
+      reason: new Error("Idempotency-Key 'key-1' is already being processed"),
+    });
+  });
+
+  it('should forget released and expired keys', async () => {
+    await store.claim('key-1', request, 0);
+    await store.release('key-1');
+
+    expect(await store.claim('key-1', { other: true }, 0)).toEqual({ status: 'claimed' });
+    await store.complete('key-1', response);
+
+    expect(await store.claim('key-1', request, 1000)).toEqual({ status: 'claimed' });
+  });
+
+  it('should sweep expired keys in the background between start and stop', async () => {
+    jest.useFakeTimers();
+
+    try {
+      const deleteExpired = jest.spyOn(repository, 'deleteExpired');
+      const sweeping = new IdempotencyKeyStore(repository, { ttl: 1000, sweepInterval: 500 });
+
+      await sweeping.claim('key-1', request);
+      expect(deleteExpired).not.toHaveBeenCalled();
+
+      sweeping.start();
+      jest.advanceTimersByTime(500);
+      expect(deleteExpired).toHaveBeenCalledTimes(1);
+
+      sweeping.stop();
+      jest.advanceTimersByTime(1000);
+      expect(deleteExpired).toHaveBeenCalledTimes(1);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should validate keys and ttl', async () => {
+    await expect(store.claim('', request)).rejects.toThrow('Idempotency-Key header must be');
+    await expect(store.claim('k'.repeat(256), request)).rejects.toThrow(
+      'Idempotency-Key header must be'
+    );
+    expect(() => new IdempotencyKeyStore(repository, { ttl: 0 })).toThrow(
+      'Idempotency key ttl must be a positive integer'
+    );
+  });
+});
@@ -0,0 +1,58 @@
+import { IndexedHeap } from '../IndexedHeap';
+
+describe('IndexedHeap', () => {
+  let heap: IndexedHeap<number>;
+
+  beforeEach(() => {
+    heap = new IndexedHeap((a, b) => a - b);
+  });
+
+  function drain(target: IndexedHeap<number>) {
+    const values = [];
+    let value = target.pop();
+    while (value !== undefined) {
+      values.push(value);
+      value = target.pop();
+    }
+    return values;
+  }
+
+  it('should pop values in comparator order', () => {
+    [5, 3, 8, 1, 9, 2].forEach((value) => heap.push(`k${value}`, value));
+
+    expect(heap.size).toBe(6);
+    expect(heap.peek()).toBe(1);
+    expect(drain(heap)).toEqual([1, 2, 3, 5, 8, 9]);
+  });
+
+  it('should return undefined when empty', () => {
+    expect(heap.peek()).toBeUndefined();
+    expect(heap.pop()).toBeUndefined();
+  });
+
+  it('should remove an arbitrary entry by key', () => {
+    [5, 3, 8, 1, 9, 2].forEach((value) => heap.push(`k${value}`, value));
+
+    expect(heap.remove('k3')).toBe(true);
+    expect(heap.remove('k3')).toBe(false);
+    expect(heap.has('k3')).toBe(false);
+    expect(drain(heap)).toEqual([1, 2, 5, 8, 9]);
+  });
+
+  it('should replace the value of an existing key', () => {
+    heap.push('a', 1);
+    heap.push('b', 2);
+    heap.push('a', 3);
+
+    expect(heap.size).toBe(2);
+    expect(drain(heap)).toEqual([2, 3]);
+  });
+
+  it('should clear all entries', () => {
+    heap.push('a', 1);
+    heap.clear();
+
+    expect(heap.size).toBe(0);
+    expect(heap.has('a')).toBe(false);
+  });
+});
@@ -1,7 +1,16 @@
 import { JobExecutor } from '../JobExecutor';
+import { JobHandlerRegistry } from '../JobHandlerRegistry';
 import { JobFactory } from '../../../domain/factories/JobFactory';
 import { JobStatus } from '../../../domain/value-objects/JobStatus';
-import { isErrorResult, isSuccessResult } from '../../../domain/value-objects/JobResult';
+import {
+  createErrorResult,
+  createSuccessResult,
+  isErrorResult,
+  isSuccessResult,
+} from '../../../domain/value-objects/JobResult';
+import { SimulatedJobHandler } from '../../../infrastructure/handlers/SimulatedJobHandler';
+import { InMemoryJobLogRepository } from '../../../infrastructure/repositories/InMemoryJobLogRepository';
+import { JobLogStore } from '../JobLogStore';
 
 jest.mock('uuid', () => ({
   v4: jest.fn(() => 'test-uuid-executor'),
@@ -9,11 +18,19 @@ jest.mock('uuid', () => ({
 
 describe('JobExecutor', () => {
   let executor: JobExecutor;
+  let registry: JobHandlerRegistry;
 
   beforeEach(() => {
     jest.useFakeTimers();
     jest.setSystemTime(new Date('2024-01-01'));
-    executor = new JobExecutor();
+
+    registry = new JobHandlerRegistry();
+    const simulated = new SimulatedJobHandler();
+    for (const type of ['email', 'sms', 'notification', 'webhook']) {
+      registry.register(type, simulated);
+    }
+
+    executor = new JobExecutor(registry);
   });
 
   afterEach(() => {
@@ -188,6 +205,297 @@ describe('JobExecutor', () => {
     });
   });
 
+  describe('handler dispatch', () => {
+    it('should pass the job to the handler registered for its type', async () => {
+      const handle = jest.fn().mockResolvedValue(createSuccessResult('Report built', { rows: 3 }));
+      registry.register('report', { handle });
+
+      const job = JobFactory.createJob({ type: 'report', payload: { month: '2024-01' } });
+      const runningJob = JobFactory.startJob(job);
+
+      const result = await executor.executeJob(runningJob);
+
+      expect(handle).toHaveBeenCalledWith(runningJob, {
+        signal: expect.any(AbortSignal),
+        reportProgress: expect.any(Function),
+        logger: expect.any(Object),
+      });
+      expect(result.status).toBe(JobStatus.COMPLETED);
+      expect(result.result).toEqual({ message: 'Report built', data: { rows: 3 } });
+    });
+
+    it('should fail the job when the handler resolves with an error result', async () => {
+      registry.register('report', {
+        handle: jest.fn().mockResolvedValue(createErrorResult('Upstream unavailable', 503)),
+      });
+
+      const job = JobFactory.createJob({ type: 'report', payload: { month: '2024-01' } });
+      const result = await executor.executeJob(JobFactory.startJob(job));
+
+      expect(result.status).toBe(JobStatus.FAILED);
+      expect(result.result).toEqual({ message: 'Upstream unavailable', code: 503 });
+    });
+
+    it('should schedule a retry when the failure is retryable', async () => {
+      registry.register('report', {
+        handle: jest.fn().mockResolvedValue(createErrorResult('Upstream unavailable', 503)),
+      });
+
+      const job = JobFactory.createJob({
+        type: 'report',
+        payload: { month: '2024-01' },
+        config: { retry: { max_attempts: 3, backoff: 'exponential', initial_delay: 1000 } },
+      });
+      const result = await executor.executeJob(JobFactory.startJob(job));
+
+      expect(result.status).toBe(JobStatus.PENDING);
+      expect(result.eligible_at).toBe(Date.now() + 1000);
+      expect(result.attempt_history).toHaveLength(1);
+    });
+
+    it('should fail the job when retries are exhausted', async () => {
+      registry.register('report', {
+        handle: jest.fn().mockResolvedValue(createErrorResult('Upstream unavailable', 503)),
+      });
+
+      const job = JobFactory.createJob({
+        type: 'report',
+        payload: { month: '2024-01' },
+        config: { retry: { max_attempts: 2, initial_delay: 0 } },
+      });
+
+      const retried = await executor.executeJob(JobFactory.startJob(job));
+      const result = await executor.executeJob(JobFactory.startJob(retried));
+
+      expect(result.status).toBe(JobStatus.FAILED);
+      expect(result.attempts).toBe(2);
+      expect(result.attempt_history).toHaveLength(2);
+    });
+
+    it('should fail the job with code 500 when the handler throws', async () => {
+      registry.register('report', {
+        handle: jest.fn().mockRejectedValue(new Error('Connection reset')),
+      });
+
+      const job = JobFactory.createJob({ type: 'report', payload: { month: '2024-01' } });
+      const result = await executor.executeJob(JobFactory.startJob(job));
+
+      expect(result.status).toBe(JobStatus.FAILED);
+      expect(isErrorResult(result.result!)).toBe(true);
+      if (isErrorResult(result.result!)) {
+        expect(result.result.code).toBe(500);
+        expect(result.result.message).toBe('Connection reset');
+      }
+    });
+
+    it('should fail the job with code 501 when no handler is registered', async () => {
+      const job = JobFactory.createJob({ type: 'unknown', payload: { data: 'test' } });
+      const result = await executor.executeJob(JobFactory.startJob(job));
+
+      expect(result.status).toBe(JobStatus.FAILED);
+      if (isErrorResult(result.result!)) {
+        expect(result.result.code).toBe(501);
+        expect(result.result.message).toContain("'unknown'");
+      }
+    });
+  });
+
+  describe('timeouts', () => {
+    const hangingHandler = () => {
+      const signals: AbortSignal[] = [];
+      const handle = jest.fn((_job, context: { signal: AbortSignal }) => {
+        signals.push(context.signal);
+        return new Promise<never>(() => {});
+      });
+      return { handle, signals };
+    };
+
+    it('should time out a hung handler and abort its signal', async () => {
+      const { handle, signals } = hangingHandler();
+      registry.register('report', { handle });
+
+      const job = JobFactory.createJob({
+        type: 'report',
+        payload: { month: '2024-01' },
+        config: { timeout: 1000 },
+      });
+      const promise = executor.executeJob(JobFactory.startJob(job));
+
+      await jest.advanceTimersByTimeAsync(999);
+      expect(signals[0].aborted).toBe(false);
+
+      await jest.advanceTimersByTimeAsync(1);
+      const result = await promise;
+
+      expect(signals[0].aborted).toBe(true);
+      expect(result.status).toBe(JobStatus.TIMED_OUT);
+      expect(result.result).toMatchObject({
+        message: 'Job timed out after 1000ms',
+        code: 408,
+        details: { timeout: 1000 },
+      });
+      expect(result.attempt_history[0].status).toBe(JobStatus.TIMED_OUT);
+      expect(JobFactory.isTerminal(result)).toBe(true);
+    });
+
+    it('should retry a timed-out attempt while attempts remain', async () => {
+      registry.register('report', hangingHandler());
+
+      const job = JobFactory.createJob({
+        type: 'report',
+        payload: { month: '2024-01' },
+        config: { timeout: 1000, retry: { max_attempts: 2, initial_delay: 500 } },
+      });
+      const promise = executor.executeJob(JobFactory.startJob(job));
+      await jest.advanceTimersByTimeAsync(1000);
+      const result = await promise;
+
+      expect(result.status).toBe(JobStatus.PENDING);
+      expect(result.attempt_history[0].result).toMatchObject({ code: 408 });
+    });
+
+    it('should apply the service-wide default timeout', async () => {
+      executor = new JobExecutor(registry, undefined, { defaultTimeout: 250 });
+      registry.register('report', hangingHandler());
+
+      const job = JobFactory.createJob({ type: 'report', payload: { month: '2024-01' } });
+      const promise = executor.executeJob(JobFactory.startJob(job));
+      await jest.advanceTimersByTimeAsync(250);
+
+      expect((await promise).status).toBe(JobStatus.TIMED_OUT);
+      expect(() => new JobExecutor(registry, undefined, { defaultTimeout: 0 })).toThrow(
+        'Timeout must be a positive integer'
+      );
+    });
+  });
+
+  describe('cancellation', () => {
+    const cancellableJob = () =>
+      JobFactory.startJob(JobFactory.createJob({ type: 'export', payload: { table: 'orders' } }));
+
+    it('should cancel a running job once its handler stops', async () => {
+      registry.register('export', {
+        handle: (_job, context) =>
+          new Promise((_, reject) => {
+            context.signal.addEventListener('abort', () => reject(context.signal.reason));
+          }),
+      });
+
+      const job = cancellableJob();
+      const promise = executor.executeJob(job);
+
+      expect(executor.isExecuting(job.id)).toBe(true);
+      expect(executor.requestCancellation(job.id)).toMatchObject({ force: false, abandoned: false });
+
+      const result = await promise;
+
+      expect(result.status).toBe(JobStatus.CANCELLED);
+      expect(result.result).toMatchObject({ code: 499, details: { force: false } });
+      expect(result.attempt_history[0].status).toBe(JobStatus.CANCELLED);
+      expect(executor.isExecuting(job.id)).toBe(false);
+    });
+
+    it('should cancel a job even if its handler completes after the request', async () => {
+      registry.register('export', {
+        handle: () => new Promise((resolve) => setTimeout(() => resolve(createSuccessResult('Done')), 100)),
+      });
+
+      const job = cancellableJob();
+      const promise = executor.executeJob(job);
+      executor.requestCancellation(job.id);
+      await jest.advanceTimersByTimeAsync(100);
+
+      expect((await promise).status).toBe(JobStatus.CANCELLED);
+    });
+
+    it('should force-cancel a handler that ignores its signal after the grace period', async () => {
+      executor = new JobExecutor(registry, undefined, { cancelGracePeriod: 500 });
+      registry.register('export', { handle: () => new Promise<never>(() => {}) });
+
+      const job = cancellableJob();
+      const promise = executor.executeJob(job);
+      executor.requestCancellation(job.id, { force: true });
+
+      await jest.advanceTimersByTimeAsync(499);
+      expect(executor.isExecuting(job.id)).toBe(true);
+
+      await jest.advanceTimersByTimeAsync(1);
+      const result = await promise;
+
+      expect(result.status).toBe(JobStatus.CANCELLED);
+      expect(result.result).toMatchObject({ code: 499, details: { force: true, abandoned: true } });
+    });
+
+    it('should ignore jobs that are not executing', () => {
+      expect(executor.requestCancellation('unknown-job')).toBeUndefined();
+      expect(() => new JobExecutor(registry, undefined, { cancelGracePeriod: -1 })).toThrow(
+        'Cancel grace period must be a non-negative integer'
+      );
+    });
+  });
+
+  describe('progress', () => {
+    it('should keep the last reported progress on the finished job', async () => {
+      registry.register('export', {
+        handle: async (_job, context) => {
+          context.reportProgress(50, 'Half way', { rows: 500 });
+          context.reportProgress(100, 'Done');
+          return createSuccessResult('Exported');
+        },
+      });
+
+      const job = JobFactory.startJob(
+        JobFactory.createJob({ type: 'export', payload: { table: 'orders' } })
+      );
+      const result = await executor.executeJob(job);
+
+      expect(result.status).toBe(JobStatus.COMPLETED);
+      expect(result.progress).toEqual({ percent: 100, message: 'Done', updated_at: Date.now() });
+    });
+
+    it('should reject invalid progress reports', async () => {
+      registry.register('export', {
+        handle: async (_job, context) => {
+          context.reportProgress(150);
+          return createSuccessResult('Exported');
+        },
+      });
+
+      const job = JobFactory.startJob(
+        JobFactory.createJob({ type: 'export', payload: { table: 'orders' } })
+      );
+      const result = await executor.executeJob(job);
+
+      expect(result.status).toBe(JobStatus.FAILED);
+      expect(result.result?.message).toBe('Progress percent must be a number between 0 and 100');
+    });
+  });
+
+  describe('logs', () => {
+    it('should store the lines a handler logs, and the error it throws', async () => {
+      const logRepository = new InMemoryJobLogRepository();
+      executor = new JobExecutor(registry, undefined, { logStore: new JobLogStore(logRepository) });
+      registry.register('export', {
+        handle: async (_job, context) => {
+          context.logger.info('Exporting', { table: 'orders' });
+          throw new Error('Disk full');
+        },
+      });
+
+      const job = JobFactory.startJob(
+        JobFactory.createJob({ type: 'export', payload: { table: 'orders' } })
+      );
+      await executor.executeJob(job);
+      await jest.advanceTimersByTimeAsync(0);
+
+      const lines = await logRepository.findByJobId(job.id, { limit: 10 });
+
+      expect(lines).toHaveLength(2);
+      expect(lines[0]).toMatchObject({ attempt: 1, level: 'info', message: 'Exporting', data: { table: 'orders' } });
+      expect(lines[1]).toMatchObject({ level: 'error', message: 'Disk full', data: { stack: expect.any(String) } });
+    });
+  });
+
   describe('failure rate', () => {
     it('should fail approximately 10% of jobs without timing out', async () => {
       const totalJobs = 100;
@@ -0,0 +1,56 @@
+import { JobHandlerRegistry } from '../JobHandlerRegistry';
+import { JobHandler } from '../../../domain/interfaces/JobHandler.interface';
+import { createSuccessResult } from '../../../domain/value-objects/JobResult';
+
+describe('JobHandlerRegistry', () => {
+  let registry: JobHandlerRegistry;
+  let handler: JobHandler;
+
+  beforeEach(() => {
+    registry = new JobHandlerRegistry();
+    handler = {
+      handle: jest.fn().mockResolvedValue(createSuccessResult('ok')),
+    };
+  });
+
+  it('should register and return a handler by type', () => {
+    registry.register('email', handler);
+
+    expect(registry.hasHandler('email')).toBe(true);
+    expect(registry.getHandler('email')).toBe(handler);
+  });
+
+  it('should return undefined for unknown types', () => {
+    expect(registry.hasHandler('email')).toBe(false);
+    expect(registry.getHandler('email')).toBeUndefined();
+  });
+
+  it('should reject duplicate registrations', () => {
+    registry.register('email', handler);
+
+    expect(() => registry.register('email', handler)).toThrow(
+      "A handler is already registered for job type 'email'"
+    );
+  });
+
+  it('should reject empty job types', () => {
+    expect(() => registry.register('  ', handler)).toThrow(
+      'Job type must be a non-empty string'
+    );
+  });
+
+  it('should unregister handlers', () => {
+    registry.register('email', handler);
+
+    expect(registry.unregister('email')).toBe(true);
+    expect(registry.hasHandler('email')).toBe(false);
+    expect(registry.unregister('email')).toBe(false);
+  });
+
+  it('should list registered types', () => {
+    registry.register('email', handler);
+    registry.register('sms', handler);
+
+    expect(registry.getRegisteredTypes()).toEqual(['email', 'sms']);
+  });
+});
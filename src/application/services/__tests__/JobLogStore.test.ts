@@ -0,0 +1,69 @@
+import { JobLogStore } from '../JobLogStore';
+import { InMemoryJobLogRepository } from '../../../infrastructure/repositories/InMemoryJobLogRepository';
+
+describe('JobLogStore', () => {
+  let repository: InMemoryJobLogRepository;
+  let store: JobLogStore;
+
+  beforeEach(() => {
+    repository = new InMemoryJobLogRepository();
+    store = new JobLogStore(repository, { maxBytesPerJob: 100 });
+  });
+
+  it('should number lines per job in the order they were logged', async () => {
+    const writes = [
+      store.append('job-1', 1, 'info', 'first'),
+      store.append('job-2', 1, 'info', 'other job'),
+      store.append('job-1', 1, 'warn', 'second', { retry: true }),
+    ];
+    await Promise.all(writes);
+
+    const lines = await store.read('job-1', { limit: 10 });
+
+    expect(lines.map((line) => [line.sequence, line.level, line.message])).toEqual([
+      [1, 'info', 'first'],
+      [2, 'warn', 'second'],
+    ]);
+    expect(lines[1].data).toEqual({ retry: true });
+    expect(await store.read('job-1', { after: 1, limit: 10 })).toHaveLength(1);
+  });
+
+  it('should drop lines past the size cap after a single warning', async () => {
+    await store.append('job-1', 1, 'info', 'a'.repeat(60));
+    const dropped = await store.append('job-1', 1, 'info', 'b'.repeat(60));
+    await store.append('job-1', 1, 'info', 'c');
+
+    const lines = await store.read('job-1', { limit: 10 });
+
+    expect(dropped).toBeUndefined();
+    expect(lines).toHaveLength(2);
+    expect(lines[1]).toMatchObject({
+      level: 'warn',
+      message: 'Log size limit of 100 bytes reached; further lines are dropped',
+    });
+  });
+
+  it('should pass new lines to followers until the job is closed', async () => {
+    const followed: string[] = [];
+    const onClose = jest.fn();
+    store.follow('job-1', (entry) => followed.push(entry.message), onClose);
+
+    await store.append('job-1', 1, 'info', 'first');
+    await store.append('job-2', 1, 'info', 'other job');
+    await store.close('job-1');
+    await store.append('job-1', 1, 'info', 'late');
+
+    expect(followed).toEqual(['first']);
+    expect(onClose).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep numbering after the write state is reloaded', async () => {
+    await store.append('job-1', 1, 'info', 'first');
+    await store.close('job-1');
+
+    expect(await store.append('job-1', 2, 'info', 'replayed')).toMatchObject({ sequence: 2, attempt: 2 });
+    expect(() => new JobLogStore(repository, { maxBytesPerJob: 0 })).toThrow(
+      'Job log max bytes must be a positive integer'
+    );
+  });
+});
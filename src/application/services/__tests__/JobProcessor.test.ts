@@ -1,9 +1,14 @@
 import { JobProcessor } from '../JobProcessor';
 import { JobQueue } from '../JobQueue';
+import { InMemoryJobRepository } from '../../../infrastructure/repositories/InMemoryJobRepository';
 import { JobExecutor } from '../JobExecutor';
+import { JobTypeLimiter } from '../JobTypeLimiter';
 import { JobFactory } from '../../../domain/factories/JobFactory';
 import { JobStatus } from '../../../domain/value-objects/JobStatus';
-import { createSuccessResult } from '../../../domain/value-objects/JobResult';
+import { createErrorResult, createSuccessResult } from '../../../domain/value-objects/JobResult';
+import { DeadLetterRepository } from '../../../domain/interfaces/DeadLetterRepository.interface';
+import { JobRepository } from '../../../domain/interfaces/JobRepository.interface';
+import { Job } from '../../../domain/entities/Job';
 
 jest.mock('uuid', () => ({
   v4: jest.fn(() => 'test-uuid-processor'),
@@ -11,32 +16,65 @@ jest.mock('uuid', () => ({
 
 describe('JobProcessor', () => {
   let processor: JobProcessor;
-  let mockQueue: jest.Mocked<JobQueue>;
+  let mockRepository: jest.Mocked<JobRepository>;
   let mockExecutor: jest.Mocked<JobExecutor>;
+  let mockDeadLetters: jest.Mocked<DeadLetterRepository>;
 
   beforeEach(() => {
     jest.useFakeTimers();
 
-    mockQueue = {
-      getNextEligibleJob: jest.fn(),
-      updateJob: jest.fn(),
-      addJob: jest.fn(),
-      getJobById: jest.fn(),
-      listJobs: jest.fn(),
+    // Jobs as last saved, for the processor's guarded updates
+    const stored = new Map<string, Job>();
+
+    mockRepository = {
+      save: jest.fn(async (job) => {
+        stored.set(job.id, job);
+        return job;
+      }),
+      update: jest.fn(async (jobId, mutate) => {
+        const current = stored.get(jobId);
+        const updated = current ? mutate(current) : null;
+
+        if (updated) {
+          stored.set(jobId, updated);
+        }
+
+        return updated;
+      }),
+      insert: jest.fn(),
+      findById: jest.fn(),
+      findByIds: jest.fn(),
+      findAll: jest.fn(),
+      findByStatus: jest.fn(),
+      findDependents: jest.fn(async (_jobId) => []),
+      findByUniqueKey: jest.fn(),
+      getNextEligible: jest.fn(),
+      getNextEligibleAt: jest.fn(async () => undefined),
+      getNextExpiresAt: jest.fn(async () => undefined),
+      takeExpiredJobs: jest.fn(async (_now) => []),
+      takeAbandonedJobs: jest.fn(async (_now) => []),
+      renewLeases: jest.fn(async (_jobIds) => []),
+      onJobPending: jest.fn((_listener) => () => {}),
+      onJobFinished: jest.fn((_listener) => () => {}),
       getJobCounts: jest.fn(),
-      getTotalJobs: jest.fn(),
-      hasJob: jest.fn(),
-      clear: jest.fn(),
-      getPendingJobs: jest.fn(),
-      getRunningJobs: jest.fn(),
-      getTerminalJobs: jest.fn(),
-    } as any;
+      exists: jest.fn(),
+      count: jest.fn(),
+    } as jest.Mocked<JobRepository>;
 
     mockExecutor = {
       executeJob: jest.fn(),
     } as any;
 
-    processor = new JobProcessor(mockQueue, mockExecutor);
+    mockDeadLetters = {
+      save: jest.fn(async (deadLetter) => deadLetter),
+      findById: jest.fn(),
+      findAll: jest.fn(),
+      delete: jest.fn(),
+      purge: jest.fn(),
+      count: jest.fn(),
+    } as jest.Mocked<DeadLetterRepository>;
+
+    processor = new JobProcessor(mockRepository, mockExecutor, mockDeadLetters);
   });
 
   afterEach(() => {
@@ -84,7 +122,7 @@ describe('JobProcessor', () => {
   describe('processNextJob with fake timers', () => {
     it('should not process if no eligible job', async () => {
 
-      mockQueue.getNextEligibleJob.mockReturnValue(undefined);
+      mockRepository.getNextEligible.mockResolvedValue(null);
 
       processor.start();
       await jest.advanceTimersByTimeAsync(100); // Avanzar varios ciclos
@@ -100,9 +138,9 @@ describe('JobProcessor', () => {
       });
 
       let callCount = 0;
-      mockQueue.getNextEligibleJob.mockImplementation(() => {
+      mockRepository.getNextEligible.mockImplementation(async () => {
         callCount++;
-        return callCount === 1 ? job : undefined;
+        return callCount === 1 ? job : null;
       });
 
       const completedJob = JobFactory.completeJob(
@@ -115,7 +153,8 @@ describe('JobProcessor', () => {
       await jest.advanceTimersByTimeAsync(100);
 
       expect(mockExecutor.executeJob).toHaveBeenCalledTimes(1);
-      expect(mockQueue.updateJob).toHaveBeenCalledTimes(2); // RUNNING + COMPLETED
+      expect(mockRepository.save).toHaveBeenCalledTimes(1); // RUNNING
+      expect(mockRepository.update).toHaveBeenCalledTimes(1); // COMPLETED
     });
 
     it('should mark job as RUNNING before execution', async () => {
@@ -126,9 +165,9 @@ describe('JobProcessor', () => {
       });
 
       let callCount = 0;
-      mockQueue.getNextEligibleJob.mockImplementation(() => {
+      mockRepository.getNextEligible.mockImplementation(async () => {
         callCount++;
-        return callCount === 1 ? job : undefined;
+        return callCount === 1 ? job : null;
       });
 
       const completedJob = JobFactory.completeJob(
@@ -140,7 +179,7 @@ describe('JobProcessor', () => {
       processor.start();
       await jest.advanceTimersByTimeAsync(100);
 
-      const firstUpdateCall = (mockQueue.updateJob as jest.Mock).mock.calls[0][0];
+      const firstUpdateCall = mockRepository.save.mock.calls[0][0];
       expect(firstUpdateCall.status).toBe(JobStatus.RUNNING);
     });
 
@@ -152,9 +191,9 @@ describe('JobProcessor', () => {
       });
 
       let callCount = 0;
-      mockQueue.getNextEligibleJob.mockImplementation(() => {
+      mockRepository.getNextEligible.mockImplementation(async () => {
         callCount++;
-        return callCount === 1 ? job : undefined;
+        return callCount === 1 ? job : null;
       });
 
       const runningJob = JobFactory.startJob(job);
@@ -167,10 +206,144 @@ describe('JobProcessor', () => {
       processor.start();
       await jest.advanceTimersByTimeAsync(100);
 
-      const secondUpdateCall = (mockQueue.updateJob as jest.Mock).mock.calls[1][0];
+      const secondUpdateCall = await mockRepository.update.mock.results[0].value;
       expect(secondUpdateCall.status).toBe(JobStatus.COMPLETED);
       expect(secondUpdateCall.result).toBeDefined();
-      expect(secondUpdateCall.result.message).toBe('Email sent!');
+      expect(secondUpdateCall.result?.message).toBe('Email sent!');
+    });
+
+    it('should move failed jobs to the dead-letter queue', async () => {
+      const job = JobFactory.createJob({
+        type: 'email',
+        payload: { to: 'test@example.com' },
+      });
+
+      let callCount = 0;
+      mockRepository.getNextEligible.mockImplementation(async () => {
+        callCount++;
+        return callCount === 1 ? job : null;
+      });
+
+      const failedJob = JobFactory.failJob(
+        JobFactory.startJob(job),
+        createErrorResult('SMTP unavailable', 503)
+      );
+      mockExecutor.executeJob.mockResolvedValue(failedJob);
+      jest.spyOn(console, 'log').mockImplementation();
+
+      processor.start();
+      await jest.advanceTimersByTimeAsync(100);
+
+      expect(mockDeadLetters.save).toHaveBeenCalledTimes(1);
+      expect(mockDeadLetters.save.mock.calls[0][0]).toMatchObject({
+        id: job.id,
+        reason: { message: 'SMTP unavailable', code: 503 },
+      });
+    });
+
+    it('should not dead-letter completed jobs', async () => {
+      const job = JobFactory.createJob({
+        type: 'email',
+        payload: { to: 'test@example.com' },
+      });
+
+      let callCount = 0;
+      mockRepository.getNextEligible.mockImplementation(async () => {
+        callCount++;
+        return callCount === 1 ? job : null;
+      });
+
+      mockExecutor.executeJob.mockResolvedValue(
+        JobFactory.completeJob(JobFactory.startJob(job), createSuccessResult('Success'))
+      );
+
+      processor.start();
+      await jest.advanceTimersByTimeAsync(100);
+
+      expect(mockDeadLetters.save).not.toHaveBeenCalled();
+    });
+
+    it('should retry or dead-letter jobs abandoned by another processor', async () => {
+      const startJob = (id: string, config = {}) => ({
+        ...JobFactory.startJob(JobFactory.createJob({ type: 'email', payload: { id }, config })),
+        id,
+      });
+      const retryable = startJob('retryable', { retry: { max_attempts: 2 } });
+      const singleAttempt = startJob('single-attempt');
+      const finishedLate = startJob('finished-late');
+      const stored = [
+        retryable,
+        singleAttempt,
+        JobFactory.completeJob(finishedLate, createSuccessResult('Sent')),
+      ];
+      mockRepository.takeAbandonedJobs.mockResolvedValueOnce([
+        retryable,
+        singleAttempt,
+        finishedLate,
+      ]);
+      mockRepository.update.mockImplementation(async (jobId, mutate) =>
+        mutate(stored.find((job) => job.id === jobId)!)
+      );
+      mockRepository.getNextEligible.mockResolvedValue(null);
+      jest.spyOn(console, 'log').mockImplementation();
+
+      processor.start();
+      await jest.advanceTimersByTimeAsync(100);
+
+      const updated = await Promise.all(
+        mockRepository.update.mock.results.map((result) => result.value)
+      );
+
+      expect(updated.map((job) => job?.status)).toEqual([
+        JobStatus.PENDING,
+        JobStatus.FAILED,
+        undefined, // its processor finished it after all
+      ]);
+      expect(updated[1].result).toMatchObject({
+        message: 'Job was interrupted before it finished',
+        code: 503,
+      });
+      expect(mockDeadLetters.save).toHaveBeenCalledTimes(1);
+      expect(mockDeadLetters.save.mock.calls[0][0].id).toBe(singleAttempt.id);
+    });
+
+    it('should drop the result of an attempt another processor took over', async () => {
+      const job = JobFactory.createJob({ type: 'email', payload: { to: 'test@example.com' } });
+      mockRepository.getNextEligible.mockResolvedValueOnce(job).mockResolvedValue(null);
+      mockExecutor.executeJob.mockImplementation(async (runningJob) => {
+        // Its lease ran out meanwhile, and another processor failed the attempt
+        await mockRepository.save(JobFactory.interruptJob(runningJob));
+        return JobFactory.failJob(runningJob, createErrorResult('SMTP unavailable', 503));
+      });
+      jest.spyOn(console, 'log').mockImplementation();
+      jest.spyOn(console, 'warn').mockImplementation();
+
+      processor.start();
+      await jest.advanceTimersByTimeAsync(100);
+
+      expect(await mockRepository.update.mock.results[0].value).toBeNull();
+      expect(mockDeadLetters.save).not.toHaveBeenCalled();
+    });
+
+    it('should cancel instead of retrying an attempt whose cancellation was requested', async () => {
+      const job = JobFactory.createJob({
+        type: 'email',
+        payload: { to: 'test@example.com' },
+        config: { retry: { max_attempts: 3 } },
+      });
+      mockRepository.getNextEligible.mockResolvedValueOnce(job).mockResolvedValue(null);
+      mockExecutor.executeJob.mockImplementation(async (runningJob) => {
+        // Requested through another instance, before the next heartbeat
+        await mockRepository.save(JobFactory.requestCancellation(runningJob));
+        return JobFactory.retryJob(runningJob, createErrorResult('SMTP unavailable', 503));
+      });
+      jest.spyOn(console, 'log').mockImplementation();
+
+      processor.start();
+      await jest.advanceTimersByTimeAsync(100);
+
+      const stored = await mockRepository.update.mock.results[0].value;
+      expect(stored?.status).toBe(JobStatus.CANCELLED);
     });
 
     it('should continue processing after errors', async () => {
@@ -186,11 +359,11 @@ describe('JobProcessor', () => {
       });
 
       let callCount = 0;
-      mockQueue.getNextEligibleJob.mockImplementation(() => {
+      mockRepository.getNextEligible.mockImplementation(async () => {
         callCount++;
         if (callCount === 1) return job1;
         if (callCount === 2) return job2;
-        return undefined;
+        return null;
       });
 
       mockExecutor.executeJob
@@ -210,7 +383,8 @@ describe('JobProcessor', () => {
 
 
       expect(processor.isProcessing()).toBe(true);
-      expect(mockQueue.getNextEligibleJob).toHaveBeenCalledTimes(3);
+      expect(mockExecutor.executeJob).toHaveBeenCalledTimes(2);
+      expect(processor.getInFlightCount()).toBe(0);
       
       consoleSpy.mockRestore();
     });
@@ -221,17 +395,17 @@ describe('JobProcessor', () => {
         type: 'email',
         payload: { to: 'test1@example.com' },
       });
-      const job2 = JobFactory.createJob({
-        type: 'sms',
-        payload: { to: '+1234567890' },
-      });
+      const job2 = {
+        ...JobFactory.createJob({ type: 'sms', payload: { to: '+1234567890' } }),
+        id: 'test-uuid-processor-2',
+      };
 
       let callCount = 0;
-      mockQueue.getNextEligibleJob.mockImplementation(() => {
+      mockRepository.getNextEligible.mockImplementation(async () => {
         callCount++;
         if (callCount === 1) return job1;
         if (callCount === 2) return job2;
-        return undefined;
+        return null;
       });
 
       const completedJob1 = JobFactory.completeJob(
@@ -253,7 +427,351 @@ describe('JobProcessor', () => {
 
 
       expect(mockExecutor.executeJob).toHaveBeenCalledTimes(2);
-      expect(mockQueue.updateJob).toHaveBeenCalledTimes(4);
+      expect(mockRepository.save).toHaveBeenCalledTimes(2);
+      expect(mockRepository.update).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('execution slots', () => {
+    function createPendingJobs(queue: JobQueue, count: number) {
+      const jobs = [];
+      for (let i = 0; i < count; i++) {
+        const job = { ...JobFactory.createJob({ type: 'email', payload: { n: i } }), id: `job-${i}` };
+        queue.addJob(job);
+        jobs.push(job);
+      }
+      return jobs;
+    }
+
+    function executeAfter(ms: number) {
+      return async (job: any) => {
+        await new Promise((resolve) => setTimeout(resolve, ms));
+        return JobFactory.completeJob(job, createSuccessResult('Success'));
+      };
+    }
+
+    beforeEach(() => {
+      jest.spyOn(console, 'log').mockImplementation();
+    });
+
+    it('should reject invalid concurrency', () => {
+      expect(() => new JobProcessor(mockRepository, mockExecutor, mockDeadLetters, { concurrency: 0 }))
+        .toThrow('Concurrency must be a positive integer');
+    });
+
+    it('should never run more jobs than execution slots', async () => {
+      const repository = new InMemoryJobRepository();
+      const queue = repository.getQueue();
+      createPendingJobs(queue, 5);
+      mockExecutor.executeJob.mockImplementation(() => new Promise(() => {}));
+
+      processor = new JobProcessor(repository, mockExecutor, mockDeadLetters, { concurrency: 2 });
+      processor.start();
+      await jest.advanceTimersByTimeAsync(500);
+
+      expect(mockExecutor.executeJob).toHaveBeenCalledTimes(2);
+      expect(processor.getInFlightCount()).toBe(2);
+      expect(processor.hasFreeSlot()).toBe(false);
+      expect(queue.getRunningJobs()).toHaveLength(2);
+      expect(queue.getPendingJobs()).toHaveLength(3);
+    });
+
+    it('should claim the next job as soon as a slot frees up', async () => {
+      const repository = new InMemoryJobRepository();
+      const queue = repository.getQueue();
+      createPendingJobs(queue, 3);
+      mockExecutor.executeJob.mockImplementation(executeAfter(100));
+
+      processor = new JobProcessor(repository, mockExecutor, mockDeadLetters, { concurrency: 2 });
+      processor.start();
+
+      await jest.advanceTimersByTimeAsync(50);
+      expect(mockExecutor.executeJob).toHaveBeenCalledTimes(2);
+
+      await jest.advanceTimersByTimeAsync(150);
+      expect(mockExecutor.executeJob).toHaveBeenCalledTimes(3);
+
+      await jest.advanceTimersByTimeAsync(200);
+      expect(queue.getJobCounts()[JobStatus.COMPLETED]).toBe(3);
+      expect(processor.getInFlightCount()).toBe(0);
+    });
+
+    it('should never start the same PENDING job twice', async () => {
+      const repository = new InMemoryJobRepository();
+      const queue = repository.getQueue();
+      const jobs = createPendingJobs(queue, 20);
+      mockExecutor.executeJob.mockImplementation(executeAfter(75));
+
+      processor = new JobProcessor(repository, mockExecutor, mockDeadLetters, { concurrency: 4 });
+      processor.start();
+      await jest.advanceTimersByTimeAsync(2000);
+
+      const startedIds = mockExecutor.executeJob.mock.calls.map(([job]) => job.id);
+
+      expect(startedIds).toHaveLength(jobs.length);
+      expect(new Set(startedIds).size).toBe(jobs.length);
+      expect(queue.getJobCounts()[JobStatus.COMPLETED]).toBe(jobs.length);
+    });
+
+    it('should renew the leases of running jobs until they finish', async () => {
+      const repository = new InMemoryJobRepository();
+      const jobs = createPendingJobs(repository.getQueue(), 2);
+      const renewLeases = jest.spyOn(repository, 'renewLeases');
+      mockExecutor.executeJob.mockImplementation(executeAfter(2500));
+
+      processor = new JobProcessor(repository, mockExecutor, mockDeadLetters, {
+        heartbeatInterval: 1000,
+      });
+      processor.start();
+      await jest.advanceTimersByTimeAsync(2000);
+
+      expect(renewLeases).toHaveBeenCalledTimes(2);
+      expect(renewLeases).toHaveBeenLastCalledWith(jobs.map((job) => job.id));
+
+      await jest.advanceTimersByTimeAsync(5000);
+
+      expect(renewLeases).toHaveBeenCalledTimes(2);
+      expect(jest.getTimerCount()).toBe(0);
+    });
+
+    it('should pass on a cancellation requested through another instance', async () => {
+      const repository = new InMemoryJobRepository();
+      const [job] = createPendingJobs(repository.getQueue(), 1);
+      mockExecutor.executeJob.mockImplementation(executeAfter(2500));
+      mockExecutor.requestCancellation = jest.fn();
+
+      processor = new JobProcessor(repository, mockExecutor, mockDeadLetters, {
+        heartbeatInterval: 1000,
+      });
+      processor.start();
+      await jest.advanceTimersByTimeAsync(500);
+      await repository.update(job.id, (current) => JobFactory.requestCancellation(current, true));
+      await jest.advanceTimersByTimeAsync(500);
+
+      expect(mockExecutor.requestCancellation).toHaveBeenCalledWith(job.id, { force: true });
+    });
+
+    it('should free the slot when execution throws', async () => {
+      const repository = new InMemoryJobRepository();
+      const queue = repository.getQueue();
+      createPendingJobs(queue, 1);
+      mockExecutor.executeJob.mockRejectedValue(new Error('Execution failed'));
+      jest.spyOn(console, 'error').mockImplementation();
+
+      processor = new JobProcessor(repository, mockExecutor, mockDeadLetters, { concurrency: 1 });
+      processor.start();
+      await jest.advanceTimersByTimeAsync(50);
+
+      expect(processor.getInFlightCount()).toBe(0);
+    });
+
+    it('should hold back types at their limit without blocking other types', async () => {
+      const repository = new InMemoryJobRepository();
+      const queue = repository.getQueue();
+      for (let i = 0; i < 3; i++) {
+        queue.addJob({ ...JobFactory.createJob({ type: 'webhook', payload: { n: i } }), id: `webhook-${i}` });
+      }
+      queue.addJob({ ...JobFactory.createJob({ type: 'email', payload: { n: 0 } }), id: 'email-0' });
+      mockExecutor.executeJob.mockImplementation(() => new Promise(() => {}));
+
+      processor = new JobProcessor(repository, mockExecutor, mockDeadLetters, {
+        concurrency: 10,
+        typeLimiter: new JobTypeLimiter({ webhook: { max_concurrent: 1 } }),
+      });
+      processor.start();
+      await jest.advanceTimersByTimeAsync(200);
+
+      const startedIds = mockExecutor.executeJob.mock.calls.map(([job]) => job.id);
+      expect(startedIds).toEqual(['webhook-0', 'email-0']);
+      expect(queue.getPendingJobs().map((job) => job.id)).toEqual(['webhook-1', 'webhook-2']);
+    });
+
+    it('should release the type slot when a job finishes', async () => {
+      const repository = new InMemoryJobRepository();
+      const queue = repository.getQueue();
+      for (let i = 0; i < 2; i++) {
+        queue.addJob({ ...JobFactory.createJob({ type: 'webhook', payload: { n: i } }), id: `webhook-${i}` });
+      }
+      mockExecutor.executeJob.mockImplementation(executeAfter(100));
+      const typeLimiter = new JobTypeLimiter({ webhook: { max_concurrent: 1 } });
+
+      processor = new JobProcessor(repository, mockExecutor, mockDeadLetters, { typeLimiter });
+      processor.start();
+      await jest.advanceTimersByTimeAsync(400);
+
+      expect(mockExecutor.executeJob).toHaveBeenCalledTimes(2);
+      expect(typeLimiter.getRunning('webhook')).toBe(0);
+    });
+
+    it('should refuse processJobById when every slot is taken', async () => {
+      const repository = new InMemoryJobRepository();
+      const queue = repository.getQueue();
+      const [first, second] = createPendingJobs(queue, 2);
+      mockExecutor.executeJob.mockImplementation(() => new Promise(() => {}));
+
+      processor = new JobProcessor(repository, mockExecutor, mockDeadLetters, { concurrency: 1 });
+      void processor.processJobById(first.id);
+
+      await expect(processor.processJobById(second.id)).rejects.toThrow(
+        'No execution slot available'
+      );
+    });
+  });
+
+  describe('event-driven scheduling', () => {
+    beforeEach(() => {
+      jest.spyOn(console, 'log').mockImplementation();
+      mockExecutor.executeJob.mockImplementation(async (job) =>
+        JobFactory.completeJob(job, createSuccessResult('Success'))
+      );
+    });
+
+    it('should start a submitted job without waiting for a timer', async () => {
+      const repository = new InMemoryJobRepository();
+      const queue = repository.getQueue();
+      processor = new JobProcessor(repository, mockExecutor, mockDeadLetters);
+      processor.start();
+
+      queue.addJob(JobFactory.createJob({ type: 'email', payload: { n: 0 } }));
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(mockExecutor.executeJob).toHaveBeenCalledTimes(1);
+    });
+
+    it('should start a delayed job when its eligible_at arrives', async () => {
+      jest.setSystemTime(new Date('2024-01-01'));
+      const repository = new InMemoryJobRepository();
+      const queue = repository.getQueue();
+      processor = new JobProcessor(repository, mockExecutor, mockDeadLetters);
+      processor.start();
+
+      queue.addJob(JobFactory.createJob({ type: 'email', payload: { n: 0 }, config: { delay: 1000 } }));
+
+      await jest.advanceTimersByTimeAsync(999);
+      expect(mockExecutor.executeJob).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(1);
+      expect(mockExecutor.executeJob).toHaveBeenCalledTimes(1);
+    });
+
+    it('should re-arm the timer when an earlier delayed job is submitted', async () => {
+      jest.setSystemTime(new Date('2024-01-01'));
+      const repository = new InMemoryJobRepository();
+      const queue = repository.getQueue();
+      processor = new JobProcessor(repository, mockExecutor, mockDeadLetters);
+      processor.start();
+
+      queue.addJob({ ...JobFactory.createJob({ type: 'email', payload: { n: 0 }, config: { delay: 5000 } }), id: 'late' });
+      queue.addJob({ ...JobFactory.createJob({ type: 'email', payload: { n: 0 }, config: { delay: 100 } }), id: 'early' });
+
+      await jest.advanceTimersByTimeAsync(100);
+
+      const startedIds = mockExecutor.executeJob.mock.calls.map(([job]) => job.id);
+      expect(startedIds).toEqual(['early']);
+    });
+
+    it('should wake up when a rate-limited type gets its next token', async () => {
+      jest.setSystemTime(new Date('2024-01-01'));
+      const repository = new InMemoryJobRepository();
+      const queue = repository.getQueue();
+      for (let i = 0; i < 2; i++) {
+        queue.addJob({ ...JobFactory.createJob({ type: 'sms', payload: { n: i } }), id: `sms-${i}` });
+      }
+
+      processor = new JobProcessor(repository, mockExecutor, mockDeadLetters, {
+        typeLimiter: new JobTypeLimiter({ sms: { rate_per_second: 10, burst: 1 } }),
+      });
+      processor.start();
+
+      await jest.advanceTimersByTimeAsync(0);
+      expect(mockExecutor.executeJob).toHaveBeenCalledTimes(1);
+
+      await jest.advanceTimersByTimeAsync(100);
+      expect(mockExecutor.executeJob).toHaveBeenCalledTimes(2);
+    });
+
+    it('should expire a pending job whose deadline passes while every slot is taken', async () => {
+      jest.setSystemTime(new Date('2024-01-01'));
+      const repository = new InMemoryJobRepository();
+      const queue = repository.getQueue();
+      processor = new JobProcessor(repository, mockExecutor, mockDeadLetters, { concurrency: 1 });
+      mockExecutor.executeJob.mockImplementation(
+        (job) =>
+          new Promise((resolve) =>
+            setTimeout(() => resolve(JobFactory.completeJob(job, createSuccessResult('Done'))), 5000)
+          )
+      );
+      processor.start();
+
+      queue.addJob({ ...JobFactory.createJob({ type: 'email', payload: { n: 0 } }), id: 'slow' });
+      queue.addJob({
+        ...JobFactory.createJob({ type: 'sms', payload: { n: 1 }, config: { ttl: 1000 } }),
+        id: 'otp',
+      });
+
+      await jest.advanceTimersByTimeAsync(1000);
+
+      const otp = queue.getJobById('otp')!;
+      expect(otp.status).toBe(JobStatus.EXPIRED);
+      expect(otp.result).toMatchObject({ code: 410 });
+
+      await jest.advanceTimersByTimeAsync(5000);
+      expect(mockExecutor.executeJob.mock.calls.map(([job]) => job.id)).toEqual(['slow']);
+    });
+
+    it('should leave no timers behind when idle', async () => {
+      const repository = new InMemoryJobRepository();
+      const queue = repository.getQueue();
+      processor = new JobProcessor(repository, mockExecutor, mockDeadLetters);
+      processor.start();
+
+      queue.addJob(JobFactory.createJob({ type: 'email', payload: { n: 0 } }));
+      await jest.advanceTimersByTimeAsync(10);
+
+      expect(mockExecutor.executeJob).toHaveBeenCalledTimes(1);
+      expect(jest.getTimerCount()).toBe(0);
+    });
+
+    it('should ignore submissions after being stopped', async () => {
+      const repository = new InMemoryJobRepository();
+      const queue = repository.getQueue();
+      processor = new JobProcessor(repository, mockExecutor, mockDeadLetters);
+      processor.start();
+      processor.stop();
+
+      queue.addJob(JobFactory.createJob({ type: 'email', payload: { n: 0 } }));
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(mockExecutor.executeJob).not.toHaveBeenCalled();
+    });
+
+    it('should poll for jobs saved by other processes when given a poll interval', async () => {
+      const job = JobFactory.createJob({ type: 'email', payload: { n: 0 } });
+      let savedElsewhere = false;
+      mockRepository.getNextEligible.mockImplementation(async () => {
+        if (!savedElsewhere) return null;
+        savedElsewhere = false;
+        return job;
+      });
+
+      processor = new JobProcessor(mockRepository, mockExecutor, mockDeadLetters, {
+        pollInterval: 1000,
+      });
+      processor.start();
+      await jest.advanceTimersByTimeAsync(0);
+
+      savedElsewhere = true;
+      await jest.advanceTimersByTimeAsync(999);
+      expect(mockExecutor.executeJob).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(1);
+      expect(mockExecutor.executeJob).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject an invalid poll interval', () => {
+      expect(
+        () => new JobProcessor(mockRepository, mockExecutor, mockDeadLetters, { pollInterval: 0 })
+      ).toThrow('Poll interval must be a positive integer (milliseconds)');
     });
   });
 
@@ -265,7 +783,7 @@ describe('JobProcessor', () => {
         payload: { to: 'test@example.com' },
       });
 
-      mockQueue.getJobById.mockReturnValue(job);
+      mockRepository.findById.mockResolvedValue(job);
       
       const completedJob = JobFactory.completeJob(
         JobFactory.startJob(job),
@@ -277,12 +795,13 @@ describe('JobProcessor', () => {
 
 
       expect(result.status).toBe(JobStatus.COMPLETED);
-      expect(mockQueue.updateJob).toHaveBeenCalledTimes(2);
+      expect(mockRepository.save).toHaveBeenCalledTimes(1);
+      expect(mockRepository.update).toHaveBeenCalledTimes(1);
     });
 
     it('should throw error if job not found', async () => {
 
-      mockQueue.getJobById.mockReturnValue(undefined);
+      mockRepository.findById.mockResolvedValue(null);
 
       await expect(processor.processJobById('non-existent')).rejects.toThrow(
         'Job with id non-existent not found'
@@ -297,7 +816,7 @@ describe('JobProcessor', () => {
         config: { delay: 10000 },
       });
 
-      mockQueue.getJobById.mockReturnValue(job);
+      mockRepository.findById.mockResolvedValue(job);
 
       await expect(processor.processJobById(job.id)).rejects.toThrow(
         'is not eligible yet'
@@ -311,7 +830,7 @@ describe('JobProcessor', () => {
         payload: { to: 'test@example.com' },
       });
 
-      mockQueue.getJobById.mockReturnValue(job);
+      mockRepository.findById.mockResolvedValue(job);
       mockExecutor.executeJob.mockRejectedValue(new Error('Execution failed'));
 
       await expect(processor.processJobById(job.id)).rejects.toThrow('Execution failed');
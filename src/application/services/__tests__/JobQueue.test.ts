@@ -1,6 +1,10 @@
 import { JobQueue } from '../JobQueue';
 import { JobFactory } from '../../../domain/factories/JobFactory';
 import { JobStatus } from '../../../domain/value-objects/JobStatus';
+import {
+  createErrorResult,
+  createSuccessResult,
+} from '../../../domain/value-objects/JobResult';
 
 jest.mock('uuid', () => {
   let counter = 0;
@@ -126,6 +130,251 @@ describe('JobQueue', () => {
 
       expect(eligibleJob).toEqual(job2);
     });
+
+    it('should skip job types rejected by the canStartType predicate', () => {
+      const job1 = JobFactory.createJob({
+        type: 'sms',
+        payload: { to: '+1234567890' },
+      });
+
+      const job2 = JobFactory.createJob({
+        type: 'email',
+        payload: { to: 'test@example.com' },
+      });
+
+      queue.addJob(job1);
+      queue.addJob(job2);
+
+      const eligibleJob = queue.getNextEligibleJob((type) => type !== 'sms');
+
+      expect(eligibleJob).toEqual(job2);
+      expect(queue.getJobById(job1.id)?.status).toBe(JobStatus.PENDING);
+    });
+  });
+
+  describe('priority ordering', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+      jest.setSystemTime(new Date('2024-01-01'));
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    function addJob(target: JobQueue, priority: number) {
+      const job = JobFactory.createJob({
+        type: 'email',
+        payload: { to: 'test@example.com' },
+        config: { priority },
+      });
+      target.addJob(job);
+      jest.advanceTimersByTime(1);
+      return job;
+    }
+
+    function drain(target: JobQueue) {
+      const order = [];
+      let job = target.getNextEligibleJob();
+      while (job) {
+        order.push(job.id);
+        target.updateJob(JobFactory.startJob(job));
+        job = target.getNextEligibleJob();
+      }
+      return order;
+    }
+
+    it('should return the highest priority job first', () => {
+      const low = addJob(queue, -10);
+      const normal = addJob(queue, 0);
+      const high = addJob(queue, 50);
+
+      expect(drain(queue)).toEqual([high.id, normal.id, low.id]);
+    });
+
+    it('should keep FIFO order within the same priority', () => {
+      const first = addJob(queue, 5);
+      const second = addJob(queue, 5);
+      const third = addJob(queue, 5);
+
+      expect(drain(queue)).toEqual([first.id, second.id, third.id]);
+    });
+
+    it('should never let a low priority job overtake without aging', () => {
+      const low = addJob(queue, 0);
+      jest.advanceTimersByTime(24 * 60 * 60 * 1000);
+      const high = addJob(queue, 1);
+
+      expect(queue.getNextEligibleJob()).toEqual(high);
+      expect(queue.getNextEligibleJob()).not.toEqual(low);
+    });
+
+    it('should let an old low priority job overtake newer ones with aging', () => {
+      const agingQueue = new JobQueue({ priorityAgingInterval: 1000 });
+
+      const low = addJob(agingQueue, 0);
+      jest.advanceTimersByTime(10000); // +10 levels
+      const high = addJob(agingQueue, 5);
+
+      expect(agingQueue.getNextEligibleJob()).toEqual(low);
+
+      agingQueue.updateJob(JobFactory.startJob(low));
+      expect(agingQueue.getNextEligibleJob()).toEqual(high);
+    });
+
+    it('should still prefer higher priority before aging catches up', () => {
+      const agingQueue = new JobQueue({ priorityAgingInterval: 1000 });
+
+      addJob(agingQueue, 0);
+      jest.advanceTimersByTime(2000); // +2 levels
+      const high = addJob(agingQueue, 5);
+
+      expect(agingQueue.getNextEligibleJob()).toEqual(high);
+    });
+
+    it('should reject a non-positive aging interval', () => {
+      expect(() => new JobQueue({ priorityAgingInterval: 0 })).toThrow(
+        'Priority aging interval must be a positive number'
+      );
+    });
+  });
+
+  describe('eligible job index', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+      jest.setSystemTime(new Date('2024-01-01'));
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should make a delayed job eligible once its eligible_at passes', () => {
+      const delayed = JobFactory.createJob({
+        type: 'email',
+        payload: { to: 'test@example.com' },
+        config: { delay: 1000 },
+      });
+
+      queue.addJob(delayed);
+      expect(queue.getNextEligibleJob()).toBeUndefined();
+
+      jest.advanceTimersByTime(1000);
+      expect(queue.getNextEligibleJob()).toEqual(delayed);
+    });
+
+    it('should drop jobs from the index when they leave PENDING', () => {
+      const job = JobFactory.createJob({
+        type: 'email',
+        payload: { to: 'test@example.com' },
+      });
+
+      queue.addJob(job);
+      queue.updateJob(JobFactory.cancelJob(job));
+
+      expect(queue.getNextEligibleJob()).toBeUndefined();
+    });
+
+    it('should re-index a job that is retried with a new eligible_at', () => {
+      const job = JobFactory.createJob({
+        type: 'email',
+        payload: { to: 'test@example.com' },
+        config: { retry: { max_attempts: 2, backoff: 'fixed', initial_delay: 500 } },
+      });
+
+      queue.addJob(job);
+      const running = JobFactory.startJob(queue.getNextEligibleJob()!);
+      queue.updateJob(running);
+
+      const retried = JobFactory.retryJob(running, createErrorResult('Unavailable', 503));
+      queue.updateJob(retried);
+
+      expect(queue.getNextEligibleJob()).toBeUndefined();
+
+      jest.advanceTimersByTime(500);
+      expect(queue.getNextEligibleJob()).toEqual(retried);
+    });
+
+    it('should expose the earliest eligible_at among delayed jobs', () => {
+      const now = Date.now();
+      queue.addJob(JobFactory.createJob({ type: 'email', payload: { n: 1 }, config: { delay: 5000 } }));
+      queue.addJob(JobFactory.createJob({ type: 'email', payload: { n: 2 }, config: { delay: 1000 } }));
+      queue.addJob(JobFactory.createJob({ type: 'sms', payload: { n: 3 } }));
+
+      expect(queue.getNextEligibleAt()).toBe(now + 1000);
+      expect(queue.getReadyTypes()).toEqual(['sms']);
+    });
+
+    it('should notify listeners when a job enters PENDING', () => {
+      const listener = jest.fn();
+      const unsubscribe = queue.onJobPending(listener);
+      const job = JobFactory.createJob({ type: 'email', payload: { n: 1 } });
+
+      queue.addJob(job);
+      queue.updateJob(JobFactory.startJob(job));
+      expect(listener).toHaveBeenCalledTimes(1);
+
+      unsubscribe();
+      queue.addJob(JobFactory.createJob({ type: 'email', payload: { n: 2 } }));
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep submission order among jobs created in the same millisecond', () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1700000000000);
+      const jobs = Array.from({ length: 5 }, (_, n) =>
+        JobFactory.createJob({ type: 'email', payload: { n } })
+      );
+      jobs.forEach((job) => queue.addJob(job));
+
+      const claimed = jobs.map(() => {
+        const next = queue.getNextEligibleJob()!;
+        queue.updateJob(JobFactory.startJob(next));
+        return next.payload.n;
+      });
+
+      expect(claimed).toEqual([0, 1, 2, 3, 4]);
+      now.mockRestore();
+    });
+
+    it('should notify listeners once when a job reaches a terminal status', () => {
+      const listener = jest.fn();
+      queue.onJobFinished(listener);
+      const job = JobFactory.createJob({ type: 'email', payload: { n: 1 } });
+
+      queue.addJob(job);
+      const running = JobFactory.startJob(job);
+      queue.updateJob(running);
+      expect(listener).not.toHaveBeenCalled();
+
+      const completed = JobFactory.completeJob(running, createSuccessResult('Done'));
+      queue.updateJob(completed);
+      queue.updateJob(completed);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(completed);
+    });
+
+    it('should ignore terminal jobs when claiming', () => {
+      for (let i = 0; i < 50; i++) {
+        const job = JobFactory.createJob({
+          type: 'email',
+          payload: { to: `test${i}@example.com` },
+        });
+        queue.addJob(
+          JobFactory.completeJob(JobFactory.startJob(job), createSuccessResult('Done'))
+        );
+      }
+
+      const pending = JobFactory.createJob({
+        type: 'sms',
+        payload: { to: '+1234567890' },
+      });
+      queue.addJob(pending);
+
+      expect(queue.getNextEligibleJob()).toEqual(pending);
+      expect(queue.getJobCounts()[JobStatus.COMPLETED]).toBe(50);
+      expect(queue.getJobCounts()[JobStatus.PENDING]).toBe(1);
+    });
   });
 
   describe('updateJob', () => {
@@ -220,6 +469,70 @@ describe('JobQueue', () => {
     });
   });
 
+  describe('takeExpiredJobs', () => {
+    it('should return unstarted jobs whose deadline passed, earliest first', () => {
+      const late = JobFactory.createJob({
+        type: 'sms',
+        payload: { n: 1 },
+        config: { ttl: 2000 },
+      });
+      const early = JobFactory.createJob({
+        type: 'sms',
+        payload: { n: 2 },
+        config: { ttl: 1000 },
+      });
+      const started = JobFactory.createJob({
+        type: 'sms',
+        payload: { n: 3 },
+        config: { ttl: 1000 },
+      });
+
+      queue.addJob(late);
+      queue.addJob(early);
+      queue.addJob(started);
+      queue.updateJob(JobFactory.startJob(started));
+
+      expect(queue.getNextExpiresAt()).toBe(early.config.expires_at);
+      expect(queue.takeExpiredJobs(early.config.expires_at! - 1)).toEqual([]);
+      expect(queue.takeExpiredJobs(late.config.expires_at!).map((job) => job.id)).toEqual([
+        early.id,
+        late.id,
+      ]);
+      expect(queue.getNextExpiresAt()).toBeUndefined();
+    });
+  });
+
+  describe('getJobsByUniqueKey', () => {
+    it('should return jobs of the same type and unique key in any status', () => {
+      const first = JobFactory.createJob({
+        type: 'email',
+        payload: { to: 'test@example.com' },
+        config: { unique_key: 'welcome' },
+      });
+      const second = JobFactory.createJob({
+        type: 'email',
+        payload: { to: 'test@example.com' },
+        config: { unique_key: 'welcome' },
+      });
+      const otherType = JobFactory.createJob({
+        type: 'sms',
+        payload: { to: '+1234567890' },
+        config: { unique_key: 'welcome' },
+      });
+
+      queue.addJob(first);
+      queue.addJob(second);
+      queue.addJob(otherType);
+      queue.updateJob(JobFactory.startJob(first));
+
+      const jobs = queue.getJobsByUniqueKey('email', 'welcome');
+
+      expect(jobs.map((job) => job.id)).toEqual([first.id, second.id]);
+      expect(jobs[0].status).toBe(JobStatus.RUNNING);
+      expect(queue.getJobsByUniqueKey('email', 'other')).toEqual([]);
+    });
+  });
+
   describe('getJobCounts', () => {
     it('should return counts of jobs by status', () => {
 
@@ -0,0 +1,145 @@
+import { JobTypeLimiter } from '../JobTypeLimiter';
+
+describe('JobTypeLimiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2024-01-01'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should never hold back types without a limit', () => {
+    const limiter = new JobTypeLimiter({ sms: { max_concurrent: 1 } });
+
+    for (let i = 0; i < 100; i++) {
+      expect(limiter.canStart('email')).toBe(true);
+      limiter.acquire('email');
+    }
+  });
+
+  describe('max_concurrent', () => {
+    it('should hold back a type once its running count reaches the cap', () => {
+      const limiter = new JobTypeLimiter({ webhook: { max_concurrent: 2 } });
+
+      limiter.acquire('webhook');
+      limiter.acquire('webhook');
+
+      expect(limiter.canStart('webhook')).toBe(false);
+      expect(() => limiter.acquire('webhook')).toThrow(
+        "Job type 'webhook' is at its concurrency or rate limit"
+      );
+    });
+
+    it('should allow the type again after a release', () => {
+      const limiter = new JobTypeLimiter({ webhook: { max_concurrent: 1 } });
+
+      limiter.acquire('webhook');
+      limiter.release('webhook');
+
+      expect(limiter.canStart('webhook')).toBe(true);
+      expect(limiter.getRunning('webhook')).toBe(0);
+    });
+  });
+
+  describe('rate_per_second', () => {
+    it('should allow a burst up to the bucket capacity', () => {
+      const limiter = new JobTypeLimiter({ sms: { rate_per_second: 10 } });
+
+      for (let i = 0; i < 10; i++) {
+        limiter.acquire('sms');
+        limiter.release('sms');
+      }
+
+      expect(limiter.canStart('sms')).toBe(false);
+    });
+
+    it('should refill tokens over time', () => {
+      const limiter = new JobTypeLimiter({ sms: { rate_per_second: 10, burst: 1 } });
+
+      limiter.acquire('sms');
+      expect(limiter.canStart('sms')).toBe(false);
+
+      jest.advanceTimersByTime(99);
+      expect(limiter.canStart('sms')).toBe(false);
+
+      jest.advanceTimersByTime(1);
+      expect(limiter.canStart('sms')).toBe(true);
+    });
+
+    it('should not allow more than the rate over a sustained window', () => {
+      const limiter = new JobTypeLimiter({ sms: { rate_per_second: 10, burst: 1 } });
+      let started = 0;
+
+      for (let ms = 0; ms < 1000; ms += 10) {
+        if (limiter.canStart('sms')) {
+          limiter.acquire('sms');
+          limiter.release('sms');
+          started++;
+        }
+        jest.advanceTimersByTime(10);
+      }
+
+      expect(started).toBe(10);
+    });
+
+    it('should report when the next token becomes available', () => {
+      const limiter = new JobTypeLimiter({
+        sms: { rate_per_second: 10, burst: 1 },
+        webhook: { max_concurrent: 1 },
+      });
+
+      expect(limiter.getNextAvailableAt('sms')).toBeUndefined();
+
+      limiter.acquire('sms');
+      limiter.acquire('webhook');
+
+      expect(limiter.getNextAvailableAt('sms')).toBe(Date.now() + 100);
+      expect(limiter.getNextAvailableAt('webhook')).toBeUndefined();
+    });
+  });
+
+  describe('configuration', () => {
+    it('should reject invalid limits', () => {
+      expect(() => new JobTypeLimiter({ sms: { max_concurrent: 0 } })).toThrow(
+        "Limit max_concurrent for job type 'sms' must be a positive integer"
+      );
+      expect(() => new JobTypeLimiter({ sms: { rate_per_second: -1 } })).toThrow(
+        "Limit rate_per_second for job type 'sms' must be a positive number"
+      );
+      expect(() => new JobTypeLimiter({ sms: { burst: 5 } })).toThrow(
+        "Limit burst for job type 'sms' requires rate_per_second"
+      );
+    });
+
+    it('should report limits with current usage', () => {
+      const limiter = new JobTypeLimiter({
+        sms: { rate_per_second: 10 },
+        webhook: { max_concurrent: 3 },
+      });
+
+      limiter.acquire('sms');
+      limiter.acquire('webhook');
+
+      expect(limiter.getStatus()).toEqual([
+        {
+          type: 'sms',
+          max_concurrent: undefined,
+          rate_per_second: 10,
+          burst: 10,
+          running: 1,
+          available_tokens: 9,
+        },
+        {
+          type: 'webhook',
+          max_concurrent: 3,
+          rate_per_second: undefined,
+          burst: undefined,
+          running: 1,
+          available_tokens: undefined,
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { ProgressTracker } from '../ProgressTracker';
+import { JobFactory } from '../../../domain/factories/JobFactory';
+import { JobStatus } from '../../../domain/value-objects/JobStatus';
+import { createJobProgress } from '../../../domain/value-objects/JobProgress';
+import { createErrorResult, createSuccessResult } from '../../../domain/value-objects/JobResult';
+import { Job } from '../../../domain/entities/Job';
+import { InMemoryJobRepository } from '../../../infrastructure/repositories/InMemoryJobRepository';
+
+jest.mock('uuid', () => ({
+  v4: jest.fn(() => 'test-uuid-progress'),
+}));
+
+describe('ProgressTracker', () => {
+  let repository: InMemoryJobRepository;
+  let tracker: ProgressTracker;
+  let job: Job;
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2024-01-01'));
+
+    repository = new InMemoryJobRepository();
+    tracker = new ProgressTracker(repository, { interval: 1000 });
+
+    job = JobFactory.startJob(JobFactory.createJob({ type: 'export', payload: { table: 'orders' } }));
+    await repository.save(job);
+    tracker.start(job);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const stored = async () => (await repository.findById(job.id))!;
+
+  it('should write the first report right away', async () => {
+    tracker.report(job.id, createJobProgress(10, 'Exporting'));
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect((await stored()).progress).toMatchObject({ percent: 10, message: 'Exporting' });
+  });
+
+  it('should throttle writes and keep only the latest report of an interval', async () => {
+    const update = jest.spyOn(repository, 'update');
+
+    tracker.report(job.id, createJobProgress(10));
+    for (let percent = 11; percent <= 50; percent++) {
+      tracker.report(job.id, createJobProgress(percent));
+    }
+    await jest.advanceTimersByTimeAsync(999);
+
+    expect(update).toHaveBeenCalledTimes(1);
+    expect((await stored()).progress?.percent).toBe(10);
+
+    await jest.advanceTimersByTimeAsync(1);
+
+    expect(update).toHaveBeenCalledTimes(2);
+    expect((await stored()).progress?.percent).toBe(50);
+  });
+
+  it('should drop the pending write when the attempt finishes and return the latest report', async () => {
+    tracker.report(job.id, createJobProgress(10));
+    tracker.report(job.id, createJobProgress(90));
+
+    await expect(tracker.finish(job.id)).resolves.toMatchObject({ percent: 90 });
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect((await stored()).progress?.percent).toBe(10);
+  });
+
+  it('should not write progress over a job that is no longer running', async () => {
+    await repository.save(JobFactory.completeJob(job, createSuccessResult('Done')));
+
+    tracker.report(job.id, createJobProgress(10));
+    await jest.advanceTimersByTimeAsync(0);
+
+    const finished = await stored();
+    expect(finished.status).toBe(JobStatus.COMPLETED);
+    expect(finished.progress).toBeUndefined();
+  });
+
+  it('should not write progress over an attempt another processor took over', async () => {
+    // The lease ran out, and another processor retried the job and started it again
+    const retried = JobFactory.retryJob(job, createErrorResult('Lease expired', 503));
+    await repository.save(JobFactory.startJob(retried));
+
+    tracker.report(job.id, createJobProgress(10));
+    await jest.advanceTimersByTimeAsync(0);
+
+    const current = await stored();
+    expect(current.attempts).toBe(job.attempts + 1);
+    expect(current.progress).toBeUndefined();
+  });
+
+  it('should ignore reports of jobs that are not tracked', async () => {
+    await tracker.finish(job.id);
+    tracker.report(job.id, createJobProgress(10));
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect((await stored()).progress).toBeUndefined();
+    expect(() => new ProgressTracker(repository, { interval: -1 })).toThrow(
+      'Progress interval must be a non-negative integer'
+    );
+  });
+});
@@ -0,0 +1,228 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Scheduler } from '../Scheduler';
+import { JobQueue } from '../JobQueue';
+import { JobHandlerRegistry } from '../JobHandlerRegistry';
+import { DependencyResolver } from '../DependencyResolver';
+import { SubmitJobUseCase } from '../../usecases/SubmitJobUseCase';
+import { ScheduleRepository } from '../../../domain';
+import { ScheduleFactory } from '../../../domain/factories/ScheduleFactory';
+import { InMemoryJobRepository } from '../../../infrastructure/repositories/InMemoryJobRepository';
+import { InMemoryScheduleRepository } from '../../../infrastructure/repositories/InMemoryScheduleRepository';
+import { SqliteRecordStore } from '../../../infrastructure/repositories/SqliteRecordStore';
+import { StoredScheduleRepository } from '../../../infrastructure/repositories/StoredScheduleRepository';
+
+jest.mock('uuid', () => {
+  let counter = 0;
+  return {
+    v4: jest.fn(() => `test-uuid-${String(counter++ % 10000).padStart(4, '0')}`),
+  };
+});
+
+const MINUTE = 60 * 1000;
+
+describe('Scheduler', () => {
+  let schedules: ScheduleRepository;
+  let jobs: InMemoryJobRepository;
+  let submitJobUseCase: SubmitJobUseCase;
+  let scheduler: Scheduler;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2024-01-01T00:00:30Z'));
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'warn').mockImplementation();
+
+    schedules = new InMemoryScheduleRepository();
+    jobs = new InMemoryJobRepository();
+
+    const handlerRegistry = new JobHandlerRegistry();
+    handlerRegistry.register('report', { handle: jest.fn() });
+    submitJobUseCase = new SubmitJobUseCase(jobs, handlerRegistry, new DependencyResolver(jobs));
+    scheduler = new Scheduler(schedules, submitJobUseCase);
+  });
+
+  afterEach(() => {
+    if (scheduler.isProcessing()) {
+      scheduler.stop();
+    }
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  async function addSchedule(policy: 'skip' | 'run_once' | 'run_all' = 'skip') {
+    const schedule = ScheduleFactory.createSchedule({
+      cron: '*/5 * * * *',
+      job_type: 'report',
+      payload: { at: '{{fire_time}}' },
+      missed_run_policy: policy,
+    });
+    await schedules.save(schedule);
+    await scheduler.refresh();
+    return schedule;
+  }
+
+  function queue(): JobQueue {
+    return jobs.getQueue();
+  }
+
+  it('should create a job at each fire time', async () => {
+    scheduler.start();
+    const schedule = await addSchedule();
+
+    await jest.advanceTimersByTimeAsync(4 * MINUTE + 29 * 1000);
+    expect(await jobs.count()).toBe(0);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(await jobs.count()).toBe(1);
+    expect(queue().listJobs()[0].payload).toEqual({ at: '2024-01-01T00:05:00.000Z' });
+
+    await jest.advanceTimersByTimeAsync(5 * MINUTE);
+    expect(await jobs.count()).toBe(2);
+
+    const updated = await schedules.findById(schedule.id);
+    expect(updated?.last_run_at).toBe(Date.parse('2024-01-01T00:10:00Z'));
+    expect(updated?.next_run_at).toBe(Date.parse('2024-01-01T00:15:00Z'));
+  });
+
+  it('should submit the jobs, so their unique key applies', async () => {
+    scheduler.start();
+    const schedule = ScheduleFactory.createSchedule({
+      cron: '*/5 * * * *',
+      job_type: 'report',
+      payload: { at: '{{fire_time}}' },
+      config: { unique_key: 'daily-report' },
+    });
+    await schedules.save(schedule);
+    await scheduler.refresh();
+
+    await jest.advanceTimersByTimeAsync(10 * MINUTE);
+
+    const [job] = queue().listJobs();
+    expect(await jobs.count()).toBe(1);
+    expect((await schedules.findById(schedule.id))?.last_job_id).toBe(job.id);
+  });
+
+  it('should not fire paused schedules', async () => {
+    scheduler.start();
+    const schedule = await addSchedule();
+
+    await schedules.save(ScheduleFactory.pauseSchedule(schedule));
+    await scheduler.refresh();
+    await jest.advanceTimersByTimeAsync(30 * MINUTE);
+
+    expect(await jobs.count()).toBe(0);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('should apply the missed-run policy for runs missed while stopped', async () => {
+    await addSchedule('run_all');
+
+    jest.setSystemTime(new Date('2024-01-01T00:20:10Z'));
+    scheduler.start();
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(await jobs.count()).toBe(4);
+  });
+
+  it('should skip runs missed while stopped by default', async () => {
+    await addSchedule();
+
+    jest.setSystemTime(new Date('2024-01-01T00:20:10Z'));
+    scheduler.start();
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(await jobs.count()).toBe(1);
+  });
+
+  it('should stop firing once stopped', async () => {
+    scheduler.start();
+    await addSchedule();
+    scheduler.stop();
+
+    await jest.advanceTimersByTimeAsync(30 * MINUTE);
+
+    expect(await jobs.count()).toBe(0);
+  });
+
+  it('should reject invalid options', () => {
+    expect(() => new Scheduler(schedules, submitJobUseCase, { maxRunsPerPass: 0 })).toThrow(
+      'Max runs per pass must be a positive integer'
+    );
+  });
+  it('should re-read the schedules every poll interval', async () => {
+    scheduler = new Scheduler(schedules, submitJobUseCase, { pollInterval: 1000 });
+    scheduler.start();
+    await jest.advanceTimersByTimeAsync(0);
+
+    const schedule = ScheduleFactory.createSchedule({
+      cron: '*/5 * * * *',
+      job_type: 'report',
+      payload: { at: '{{fire_time}}' },
+    });
+    await schedules.save(schedule);
+    await jest.advanceTimersByTimeAsync(5 * MINUTE);
+
+    expect(await jobs.count()).toBe(1);
+    expect(() => new Scheduler(schedules, submitJobUseCase, { pollInterval: 0 })).toThrow(
+      'Poll interval must be a positive number'
+    );
+  });
+
+  describe('with stored schedules', () => {
+    let directory: string;
+    let stores: SqliteRecordStore[];
+
+    const openSchedules = () => {
+      const store = new SqliteRecordStore({ filename: path.join(directory, 'jobs.db') });
+      stores.push(store);
+      return new StoredScheduleRepository(store);
+    };
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'scheduler-'));
+      stores = [];
+    });
+
+    afterEach(async () => {
+      await Promise.all(stores.map((store) => store.close()));
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should apply the missed-run policy to runs missed during a restart', async () => {
+      schedules = openSchedules();
+      scheduler = new Scheduler(schedules, submitJobUseCase);
+      scheduler.start();
+      await addSchedule('run_all');
+      scheduler.stop();
+
+      jest.setSystemTime(new Date('2024-01-01T00:20:10Z'));
+      scheduler = new Scheduler(openSchedules(), submitJobUseCase);
+      scheduler.start();
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(await jobs.count()).toBe(4);
+    });
+
+    it('should fire each run on one instance only', async () => {
+      schedules = openSchedules();
+      scheduler = new Scheduler(schedules, submitJobUseCase);
+      await addSchedule('run_all');
+      const instances = [scheduler, new Scheduler(openSchedules(), submitJobUseCase)];
+
+      jest.setSystemTime(new Date('2024-01-01T00:20:10Z'));
+      instances.forEach((instance) => instance.start());
+      await jest.advanceTimersByTimeAsync(5 * MINUTE);
+      instances.forEach((instance) => instance.stop());
+
+      expect(queue().listJobs().map((job) => job.payload.at)).toEqual([
+        '2024-01-01T00:05:00.000Z',
+        '2024-01-01T00:10:00.000Z',
+        '2024-01-01T00:15:00.000Z',
+        '2024-01-01T00:20:00.000Z',
+        '2024-01-01T00:25:00.000Z',
+      ]);
+    });
+  });
+});
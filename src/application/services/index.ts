@@ -1,7 +1,18 @@
 // Services
+export * from './JobHandlerRegistry';
 export * from './JobExecutor';
+export * from './ProgressTracker';
+export * from './JobLogStore';
+export * from './IndexedHeap';
 export * from './JobQueue';
+export * from './TokenBucket';
+export * from './JobTypeLimiter';
+export * from './DependencyResolver';
+export * from './BatchTracker';
+export * from './FanOutCoordinator';
+export * from './IdempotencyKeyStore';
 export * from './JobProcessor';
+export * from './Scheduler';
 export * from './JobWorker';
 
 // Singleton instance
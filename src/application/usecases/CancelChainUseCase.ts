@@ -0,0 +1,43 @@
+import { ChainFactory } from '../../domain/factories/ChainFactory';
+import { JobFactory } from '../../domain/factories/JobFactory';
+import { Job } from '../../domain/entities/Job';
+import { Chain } from '../../domain/entities/Chain';
+import { JobStatus } from '../../domain/value-objects/JobStatus';
+import { ChainRepository, JobRepository } from '../../domain';
+import { DependencyResolver } from '../services/DependencyResolver';
+import { GetChainUseCase } from './GetChainUseCase';
+
+export class CancelChainUseCase {
+  private readonly getChainUseCase: GetChainUseCase;
+
+  constructor(
+    private readonly repository: JobRepository,
+    private readonly chainRepository: ChainRepository,
+    private readonly dependencyResolver: DependencyResolver
+  ) {
+    this.getChainUseCase = new GetChainUseCase(repository, chainRepository);
+  }
+
+  /**
+   * Cancels the first step that has not started; the dependency cascade cancels the rest.
+   * A step that is already running is left to finish.
+   */
+  async execute(id: string): Promise<{ chain: Chain; jobs: Job[] }> {
+    const { chain, jobs } = await this.getChainUseCase.execute(id);
+
+    const cancelledChain = ChainFactory.cancelChain(chain, jobs);
+    await this.chainRepository.save(cancelledChain);
+
+    const next = jobs.find(
+      (job) => job.status === JobStatus.PENDING || job.status === JobStatus.BLOCKED
+    );
+
+    if (next) {
+      const cancelledJob = JobFactory.cancelJob(next);
+      await this.repository.save(cancelledJob);
+      await this.dependencyResolver.resolveDependents(cancelledJob);
+    }
+
+    return this.getChainUseCase.execute(id);
+  }
+}
@@ -2,27 +2,66 @@ import { JobFactory } from '../../domain/factories/JobFactory';
 import { Job } from '../../domain/entities/Job';
 import { JobStatus } from '../../domain/value-objects/JobStatus';
 import { JobRepository } from '../../domain';
+import { DependencyResolver } from '../services/DependencyResolver';
+import { JobExecutor } from '../services/JobExecutor';
+
+export interface CancelJobOptions {
+  /**
+   * For a RUNNING job: cancel it after the executor's grace period even if the handler ignores the signal
+   */
+  force?: boolean;
+}
 
 export class CancelJobUseCase {
-  constructor(private readonly repository: JobRepository) {}
+  /**
+   * @param executor - Asked to stop RUNNING jobs it executes right away, instead of on
+   *   the processor's next heartbeat
+   */
+  constructor(
+    private readonly repository: JobRepository,
+    private readonly dependencyResolver: DependencyResolver,
+    private readonly executor?: JobExecutor
+  ) {}
+
+  /**
+   * Cancels a BLOCKED or PENDING job right away. A RUNNING job only gets a cancellation
+   * request and is returned still RUNNING; the processor executing it, on this instance
+   * or another, saves it as CANCELLED once its handler settles.
+   */
+  async execute(jobId: string, options: CancelJobOptions = {}): Promise<Job> {
+    let status: JobStatus | undefined;
+
+    // Checked and changed in one step, so a job that starts meanwhile is not cancelled as PENDING
+    const updated = await this.repository.update(jobId, (job) => {
+      status = job.status;
 
-  async execute(jobId: string): Promise<Job> {
-    const job = await this.repository.findById(jobId);
+      if (job.status === JobStatus.RUNNING) {
+        return JobFactory.requestCancellation(job, options.force);
+      }
 
-    if (!job) {
+      return job.status === JobStatus.PENDING || job.status === JobStatus.BLOCKED
+        ? JobFactory.cancelJob(job)
+        : null;
+    });
+
+    if (!status) {
       throw new Error(`Job with id ${jobId} not found`);
     }
 
-    if (job.status !== JobStatus.PENDING) {
+    if (!updated) {
       throw new Error(
-        `Cannot cancel job in ${job.status} status. Only PENDING jobs can be cancelled.`
+        `Cannot cancel job in ${status} status. Only PENDING, BLOCKED or RUNNING jobs can be cancelled.`
       );
     }
 
-    const cancelledJob = JobFactory.cancelJob(job);
+    if (updated.status === JobStatus.RUNNING) {
+      this.executor?.requestCancellation(updated.id, { force: options.force });
+
+      return updated;
+    }
 
-    await this.repository.save(cancelledJob);
+    await this.dependencyResolver.resolveDependents(updated);
 
-    return cancelledJob;
+    return updated;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,26 @@
+import { ScheduleFactory } from '../../domain/factories/ScheduleFactory';
+import { Schedule, ScheduleData } from '../../domain/entities/Schedule';
+import { ScheduleRepository } from '../../domain';
+import { JobHandlerRegistry } from '../services/JobHandlerRegistry';
+import { Scheduler } from '../services/Scheduler';
+
+export class CreateScheduleUseCase {
+  constructor(
+    private readonly scheduleRepository: ScheduleRepository,
+    private readonly handlerRegistry: JobHandlerRegistry,
+    private readonly scheduler: Scheduler
+  ) {}
+
+  async execute(data: ScheduleData): Promise<Schedule> {
+    if (!this.handlerRegistry.hasHandler(data.job_type)) {
+      throw new Error(`Unknown job type '${data.job_type}'`);
+    }
+
+    const schedule = ScheduleFactory.createSchedule(data);
+
+    await this.scheduleRepository.save(schedule);
+    await this.scheduler.refresh();
+
+    return schedule;
+  }
+}
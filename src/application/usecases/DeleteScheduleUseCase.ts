@@ -0,0 +1,19 @@
+import { ScheduleRepository } from '../../domain';
+import { Scheduler } from '../services/Scheduler';
+
+export class DeleteScheduleUseCase {
+  constructor(
+    private readonly scheduleRepository: ScheduleRepository,
+    private readonly scheduler: Scheduler
+  ) {}
+
+  async execute(id: string): Promise<void> {
+    const deleted = await this.scheduleRepository.delete(id);
+
+    if (!deleted) {
+      throw new Error(`Schedule with id ${id} not found`);
+    }
+
+    await this.scheduler.refresh();
+  }
+}
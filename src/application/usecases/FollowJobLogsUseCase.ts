@@ -0,0 +1,115 @@
+import { JobRepository } from '../../domain';
+import { JobLogEntry } from '../../domain/entities/JobLog';
+import { JobFactory } from '../../domain/factories/JobFactory';
+import { JobLogStore } from '../services/JobLogStore';
+
+/** Lines read per repository call while catching up */
+const FOLLOW_PAGE_SIZE = 500;
+
+export class FollowJobLogsUseCase {
+  constructor(
+    private readonly repository: JobRepository,
+    private readonly logStore: JobLogStore
+  ) {}
+
+  /**
+   * Passes the job's stored lines after `after` to `onEntry`, then every new line
+   * until the job finishes, when `onEnd` is called
+   * @returns Function that stops following early (e.g. when the client disconnects)
+   */
+  async execute(
+    jobId: string,
+    after: number | undefined,
+    onEntry: (entry: JobLogEntry) => void,
+    onEnd: () => void
+  ): Promise<() => void> {
+    if (!(await this.repository.exists(jobId))) {
+      throw new Error(`Job with id ${jobId} not found`);
+    }
+
+    let cursor = after ?? 0;
+    let catchingUp = true;
+    let ended = false;
+    const buffered: JobLogEntry[] = [];
+
+    const emit = (entry: JobLogEntry) => {
+      if (!ended && entry.sequence > cursor) {
+        cursor = entry.sequence;
+        onEntry(entry);
+      }
+    };
+    const end = () => {
+      if (!ended) {
+        ended = true;
+        stop();
+        onEnd();
+      }
+    };
+
+    // Listen before reading the stored lines, so none is missed in between
+    const unfollow = this.logStore.follow(
+      jobId,
+      (entry) => (catchingUp ? buffered.push(entry) : emit(entry)),
+      end
+    );
+    const pollInterval = this.logStore.getPollInterval();
+    let timer: NodeJS.Timeout | undefined;
+    const stop = () => {
+      unfollow();
+      clearTimeout(timer);
+    };
+
+    const readStored = async () => {
+      let page: JobLogEntry[];
+
+      do {
+        page = await this.logStore.read(jobId, { after: cursor, limit: FOLLOW_PAGE_SIZE });
+        page.forEach(emit);
+      } while (page.length === FOLLOW_PAGE_SIZE && !ended);
+    };
+    const isFinished = async () => {
+      const job = await this.repository.findById(jobId);
+      return !job || JobFactory.isTerminal(job);
+    };
+
+    // Lines and the end of a job running on another instance sharing the storage are only
+    // seen by reading them; the status is read first, so the last lines are not missed
+    const poll = async () => {
+      try {
+        const finished = await isFinished();
+        await readStored();
+
+        if (finished) {
+          end();
+        }
+      } catch (error) {
+        console.error(`Error following the logs of job ${jobId}:`, error);
+      }
+
+      if (!ended) {
+        timer = setTimeout(poll, pollInterval);
+      }
+    };
+
+    try {
+      await readStored();
+
+      catchingUp = false;
+      buffered.forEach(emit);
+
+      if (await isFinished()) {
+        end();
+      } else if (pollInterval !== undefined) {
+        timer = setTimeout(poll, pollInterval);
+      }
+    } catch (error) {
+      stop();
+      throw error;
+    }
+
+    return () => {
+      ended = true;
+      stop();
+    };
+  }
+}
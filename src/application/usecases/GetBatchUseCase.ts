@@ -0,0 +1,20 @@
+import { Job } from '../../domain/entities/Job';
+import { Batch } from '../../domain/entities/Batch';
+import { BatchRepository, JobRepository } from '../../domain';
+
+export class GetBatchUseCase {
+  constructor(
+    private readonly repository: JobRepository,
+    private readonly batchRepository: BatchRepository
+  ) {}
+
+  async execute(id: string): Promise<{ batch: Batch; jobs: Job[] }> {
+    const batch = await this.batchRepository.findById(id);
+
+    if (!batch) {
+      throw new Error(`Batch with id ${id} not found`);
+    }
+
+    return { batch, jobs: await this.repository.findByIds(batch.job_ids) };
+  }
+}
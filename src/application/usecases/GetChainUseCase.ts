@@ -0,0 +1,30 @@
+import { Job } from '../../domain/entities/Job';
+import { Chain } from '../../domain/entities/Chain';
+import { ChainRepository, JobRepository } from '../../domain';
+
+export class GetChainUseCase {
+  constructor(
+    private readonly repository: JobRepository,
+    private readonly chainRepository: ChainRepository
+  ) {}
+
+  async execute(id: string): Promise<{ chain: Chain; jobs: Job[] }> {
+    const chain = await this.chainRepository.findById(id);
+
+    if (!chain) {
+      throw new Error(`Chain with id ${id} not found`);
+    }
+
+    const jobs: Job[] = [];
+
+    for (const jobId of chain.job_ids) {
+      const job = await this.repository.findById(jobId);
+
+      if (job) {
+        jobs.push(job);
+      }
+    }
+
+    return { chain, jobs };
+  }
+}
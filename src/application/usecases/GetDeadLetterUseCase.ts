@@ -0,0 +1,16 @@
+import { DeadLetterRepository } from '../../domain';
+import { DeadLetter } from '../../domain/entities/DeadLetter';
+
+export class GetDeadLetterUseCase {
+  constructor(private readonly deadLetterRepository: DeadLetterRepository) {}
+
+  async execute(id: string): Promise<DeadLetter> {
+    const deadLetter = await this.deadLetterRepository.findById(id);
+
+    if (!deadLetter) {
+      throw new Error(`Dead letter with id ${id} not found`);
+    }
+
+    return deadLetter;
+  }
+}
@@ -0,0 +1,31 @@
+import { JobRepository } from '../../domain';
+import { JobLogEntry } from '../../domain/entities/JobLog';
+import { JobLogStore } from '../services/JobLogStore';
+
+export interface JobLogPage {
+  entries: JobLogEntry[];
+  /** Cursor of the next page, or null when this page reaches the end of the log */
+  next_after: number | null;
+}
+
+export class GetJobLogsUseCase {
+  constructor(
+    private readonly repository: JobRepository,
+    private readonly logStore: JobLogStore
+  ) {}
+
+  async execute(jobId: string, options: { after?: number; limit: number }): Promise<JobLogPage> {
+    if (!(await this.repository.exists(jobId))) {
+      throw new Error(`Job with id ${jobId} not found`);
+    }
+
+    // One extra line tells whether another page follows
+    const entries = await this.logStore.read(jobId, { after: options.after, limit: options.limit + 1 });
+    const page = entries.slice(0, options.limit);
+
+    return {
+      entries: page,
+      next_after: entries.length > options.limit ? page[page.length - 1].sequence : null,
+    };
+  }
+}
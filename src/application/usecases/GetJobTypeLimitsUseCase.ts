@@ -0,0 +1,9 @@
+import { JobTypeLimiter, JobTypeLimitStatus } from '../services/JobTypeLimiter';
+
+export class GetJobTypeLimitsUseCase {
+  constructor(private readonly typeLimiter: JobTypeLimiter) {}
+
+  async execute(): Promise<JobTypeLimitStatus[]> {
+    return this.typeLimiter.getStatus();
+  }
+}
@@ -0,0 +1,16 @@
+import { ScheduleRepository } from '../../domain';
+import { Schedule } from '../../domain/entities/Schedule';
+
+export class GetScheduleUseCase {
+  constructor(private readonly scheduleRepository: ScheduleRepository) {}
+
+  async execute(id: string): Promise<Schedule> {
+    const schedule = await this.scheduleRepository.findById(id);
+
+    if (!schedule) {
+      throw new Error(`Schedule with id ${id} not found`);
+    }
+
+    return schedule;
+  }
+}
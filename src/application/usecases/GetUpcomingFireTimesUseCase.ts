@@ -0,0 +1,16 @@
+import { ScheduleRepository } from '../../domain';
+import { ScheduleFactory } from '../../domain/factories/ScheduleFactory';
+
+export class GetUpcomingFireTimesUseCase {
+  constructor(private readonly scheduleRepository: ScheduleRepository) {}
+
+  async execute(id: string, count: number): Promise<number[]> {
+    const schedule = await this.scheduleRepository.findById(id);
+
+    if (!schedule) {
+      throw new Error(`Schedule with id ${id} not found`);
+    }
+
+    return ScheduleFactory.getUpcomingFireTimes(schedule, count);
+  }
+}
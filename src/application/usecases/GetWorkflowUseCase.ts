@@ -0,0 +1,30 @@
+import { Job } from '../../domain/entities/Job';
+import { Workflow } from '../../domain/entities/Workflow';
+import { JobRepository, WorkflowRepository } from '../../domain';
+
+export class GetWorkflowUseCase {
+  constructor(
+    private readonly repository: JobRepository,
+    private readonly workflowRepository: WorkflowRepository
+  ) {}
+
+  async execute(id: string): Promise<{ workflow: Workflow; jobs: Job[] }> {
+    const workflow = await this.workflowRepository.findById(id);
+
+    if (!workflow) {
+      throw new Error(`Workflow with id ${id} not found`);
+    }
+
+    const jobs: Job[] = [];
+
+    for (const step of workflow.steps) {
+      const job = await this.repository.findById(step.job_id);
+
+      if (job) {
+        jobs.push(job);
+      }
+    }
+
+    return { workflow, jobs };
+  }
+}
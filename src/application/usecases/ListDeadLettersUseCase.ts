@@ -0,0 +1,10 @@
+import { DeadLetterRepository } from '../../domain';
+import { DeadLetter, DeadLetterFilter } from '../../domain/entities/DeadLetter';
+
+export class ListDeadLettersUseCase {
+  constructor(private readonly deadLetterRepository: DeadLetterRepository) {}
+
+  async execute(filter?: DeadLetterFilter): Promise<DeadLetter[]> {
+    return this.deadLetterRepository.findAll(filter);
+  }
+}
@@ -0,0 +1,10 @@
+import { ScheduleRepository } from '../../domain';
+import { Schedule, ScheduleFilter } from '../../domain/entities/Schedule';
+
+export class ListSchedulesUseCase {
+  constructor(private readonly scheduleRepository: ScheduleRepository) {}
+
+  async execute(filter?: ScheduleFilter): Promise<Schedule[]> {
+    return this.scheduleRepository.findAll(filter);
+  }
+}
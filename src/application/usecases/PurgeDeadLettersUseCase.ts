@@ -0,0 +1,10 @@
+import { DeadLetterRepository } from '../../domain';
+import { DeadLetterFilter } from '../../domain/entities/DeadLetter';
+
+export class PurgeDeadLettersUseCase {
+  constructor(private readonly deadLetterRepository: DeadLetterRepository) {}
+
+  async execute(filter?: DeadLetterFilter): Promise<number> {
+    return this.deadLetterRepository.purge(filter);
+  }
+}
@@ -0,0 +1,32 @@
+import { JobFactory } from '../../domain/factories/JobFactory';
+import { DeadLetterFactory } from '../../domain/factories/DeadLetterFactory';
+import { Job } from '../../domain/entities/Job';
+import { DeadLetterRepository, JobRepository } from '../../domain';
+import { JobHandlerRegistry } from '../services/JobHandlerRegistry';
+
+export class ReplayDeadLetterUseCase {
+  constructor(
+    private readonly repository: JobRepository,
+    private readonly deadLetterRepository: DeadLetterRepository,
+    private readonly handlerRegistry: JobHandlerRegistry
+  ) {}
+
+  async execute(id: string): Promise<Job> {
+    const deadLetter = await this.deadLetterRepository.findById(id);
+
+    if (!deadLetter) {
+      throw new Error(`Dead letter with id ${id} not found`);
+    }
+
+    if (!this.handlerRegistry.hasHandler(deadLetter.job.type)) {
+      throw new Error(`Unknown job type '${deadLetter.job.type}'`);
+    }
+
+    const job = JobFactory.replayJob(deadLetter.job);
+
+    await this.repository.save(job);
+    await this.deadLetterRepository.save(DeadLetterFactory.markReplayed(deadLetter, job.id));
+
+    return job;
+  }
+}
@@ -0,0 +1,25 @@
+import { ScheduleRepository } from '../../domain';
+import { Schedule } from '../../domain/entities/Schedule';
+import { ScheduleFactory } from '../../domain/factories/ScheduleFactory';
+import { Scheduler } from '../services/Scheduler';
+
+export class ResumeScheduleUseCase {
+  constructor(
+    private readonly scheduleRepository: ScheduleRepository,
+    private readonly scheduler: Scheduler
+  ) {}
+
+  async execute(id: string): Promise<Schedule> {
+    const resumed = await this.scheduleRepository.update(id, (schedule) =>
+      ScheduleFactory.resumeSchedule(schedule)
+    );
+
+    if (!resumed) {
+      throw new Error(`Schedule with id ${id} not found`);
+    }
+
+    await this.scheduler.refresh();
+
+    return resumed;
+  }
+}
@@ -0,0 +1,110 @@
+import { BatchFactory } from '../../domain/factories/BatchFactory';
+import { JobFactory } from '../../domain/factories/JobFactory';
+import { Job } from '../../domain/entities/Job';
+import { Batch, BatchData, BatchItemDuplicate, BatchItemError } from '../../domain/entities/Batch';
+import { BatchRepository, JobRepository } from '../../domain';
+import { JobHandlerRegistry } from '../services/JobHandlerRegistry';
+import { DependencyResolver } from '../services/DependencyResolver';
+import { BatchTracker } from '../services/BatchTracker';
+import { JobSubmission, SubmitJobUseCase } from './SubmitJobUseCase';
+
+export interface BatchSubmission {
+  /** Undefined when no job was created */
+  batch?: Batch;
+  /** The created members */
+  jobs: Job[];
+  errors: BatchItemError[];
+  deduplicated: BatchItemDuplicate[];
+}
+
+export class SubmitBatchUseCase {
+  private readonly submitJobUseCase: SubmitJobUseCase;
+  private readonly batchTracker: BatchTracker;
+
+  constructor(
+    private readonly repository: JobRepository,
+    private readonly batchRepository: BatchRepository,
+    private readonly handlerRegistry: JobHandlerRegistry,
+    private readonly dependencyResolver: DependencyResolver
+  ) {
+    this.submitJobUseCase = new SubmitJobUseCase(repository, handlerRegistry, dependencyResolver);
+    this.batchTracker = new BatchTracker(repository, batchRepository);
+  }
+
+  /**
+   * Validates every item before saving anything. Atomic batches with any invalid
+   * item create nothing; otherwise only the valid items are created. Items are
+   * deduplicated like single submissions: one matching the unique, debounce or throttle
+   * key of an existing job (or of an earlier item) is not created, nor a batch member.
+   * @param rejected - Items that already failed request validation
+   */
+  async execute(data: BatchData, rejected: BatchItemError[] = []): Promise<BatchSubmission> {
+    if (data.callback && !this.handlerRegistry.hasHandler(data.callback.type)) {
+      throw new Error(`Unknown job type '${data.callback.type}' for batch callback`);
+    }
+
+    const errors = [...rejected];
+    const members: Job[] = [];
+    const indexes: number[] = [];
+
+    for (const item of data.items) {
+      try {
+        if (!this.handlerRegistry.hasHandler(item.data.type)) {
+          throw new Error(`Unknown job type '${item.data.type}'`);
+        }
+
+        const job = JobFactory.createJob(item.data);
+        await this.dependencyResolver.assertDependenciesExist(job.depends_on);
+        members.push(job);
+        indexes.push(item.index);
+      } catch (error) {
+        errors.push({ index: item.index, message: (error as Error).message });
+      }
+    }
+
+    errors.sort((a, b) => a.index - b.index);
+
+    if (members.length === 0 || (errors.length > 0 && data.atomic !== false)) {
+      return { jobs: [], errors, deduplicated: [] };
+    }
+
+    const grouped = BatchFactory.createBatch(members, data.callback);
+    let batch: Batch | null = grouped.batch;
+
+    // The batch must exist before any member can finish and be counted
+    await this.batchRepository.save(batch);
+
+    let submissions: JobSubmission[];
+
+    try {
+      submissions = await this.submitJobUseCase.submitAll(grouped.jobs);
+    } catch (error) {
+      // The members are inserted in one atomic step: either none or all of them exist
+      const created = await this.repository.findByIds(grouped.jobs.map((job) => job.id));
+
+      if (created.length === 0) {
+        await this.batchRepository.delete(batch.id);
+      }
+
+      throw error;
+    }
+
+    const saved = submissions
+      .filter((submission) => !submission.deduplicated)
+      .map((submission) => submission.job);
+
+    // Items collapsed into other jobs are not members
+    if (saved.length === 0) {
+      await this.batchRepository.delete(batch.id);
+      batch = null;
+    } else if (saved.length < grouped.jobs.length) {
+      batch = await this.batchTracker.keepMembers(batch.id, saved.map((job) => job.id));
+    }
+
+    const deduplicated = submissions.flatMap((submission, position) =>
+      submission.deduplicated ? [{ index: indexes[position], job_id: submission.job.id }] : []
+    );
+
+    return { batch: batch ?? undefined, jobs: saved, errors, deduplicated };
+  }
+}
@@ -0,0 +1,45 @@
+import { ChainFactory } from '../../domain/factories/ChainFactory';
+import { Job } from '../../domain/entities/Job';
+import { Chain, ChainData } from '../../domain/entities/Chain';
+import { ChainRepository, JobRepository } from '../../domain';
+import { JobHandlerRegistry } from '../services/JobHandlerRegistry';
+import { DependencyResolver } from '../services/DependencyResolver';
+
+export class SubmitChainUseCase {
+  constructor(
+    private readonly repository: JobRepository,
+    private readonly chainRepository: ChainRepository,
+    private readonly handlerRegistry: JobHandlerRegistry,
+    private readonly dependencyResolver: DependencyResolver
+  ) {}
+
+  /**
+   * Validates every step before saving anything, so an invalid chain creates no jobs
+   */
+  async execute(data: ChainData): Promise<{ chain: Chain; jobs: Job[] }> {
+    data.steps.forEach((step, index) => {
+      if (!this.handlerRegistry.hasHandler(step.type)) {
+        throw new Error(`Unknown job type '${step.type}' in chain step ${index}`);
+      }
+    });
+
+    const { chain, jobs } = ChainFactory.createChain(data);
+
+    await this.chainRepository.save(chain);
+
+    for (const job of jobs) {
+      await this.repository.save(job);
+    }
+
+    // A step may have finished before the next one was saved, when nothing was there
+    // yet to advance: settle every step against the chain as stored
+    const saved: Job[] = [];
+
+    for (const job of jobs) {
+      const current = (await this.repository.findById(job.id)) ?? job;
+      saved.push(await this.dependencyResolver.evaluate(current));
+    }
+
+    return { chain, jobs: saved };
+  }
+}
@@ -1,15 +1,62 @@
 import { JobFactory } from '../../domain/factories/JobFactory';
 import { Job, JobData } from '../../domain/entities/Job';
 import { JobRepository } from '../../domain';
+import { JobHandlerRegistry } from '../services/JobHandlerRegistry';
+import { DependencyResolver } from '../services/DependencyResolver';
+
+export interface JobSubmission {
+  job: Job;
+  /**
+   * Whether `job` is an existing job matching the submission's unique, debounce or
+   * throttle key; a debounced job has taken the submitted payload
+   */
+  deduplicated: boolean;
+}
 
 export class SubmitJobUseCase {
-  constructor(private readonly repository: JobRepository) {}
+  constructor(
+    private readonly repository: JobRepository,
+    private readonly handlerRegistry: JobHandlerRegistry,
+    private readonly dependencyResolver: DependencyResolver
+  ) {}
+
+  async execute(data: JobData): Promise<JobSubmission> {
+    if (!this.handlerRegistry.hasHandler(data.type)) {
+      throw new Error(`Unknown job type '${data.type}'`);
+    }
 
-  async execute(data: JobData): Promise<Job> {
     const job = JobFactory.createJob(data);
+    await this.dependencyResolver.assertDependenciesExist(job.depends_on);
+
+    const [submission] = await this.submitAll([job]);
+
+    return submission;
+  }
+
+  /**
+   * Creates the jobs in one atomic step, collapsing each into the job matching its
+   * unique, debounce or throttle key: an existing one or an earlier job of the call
+   * @returns One submission per job, in order
+   */
+  async submitAll(jobs: Job[]): Promise<JobSubmission[]> {
+    const insertions = await this.repository.insert(jobs, (job, candidates) => {
+      const existing = JobFactory.findDuplicate(job, candidates);
+
+      // Only PENDING jobs are candidates for a debounce, so the insert sees the job unstarted
+      return existing && job.config.debounce
+        ? JobFactory.debounceJob(existing, job.payload)
+        : existing;
+    });
+    const submissions: JobSubmission[] = [];
 
-    await this.repository.save(job);
+    for (const { job, collapsed } of insertions) {
+      submissions.push({
+        // Parents of a created job may already be finished
+        job: collapsed ? job : await this.dependencyResolver.evaluate(job),
+        deduplicated: collapsed,
+      });
+    }
 
-    return job;
+    return submissions;
   }
-}
\ No newline at end of file
+}
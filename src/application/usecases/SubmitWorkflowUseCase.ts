@@ -0,0 +1,46 @@
+import { WorkflowFactory } from '../../domain/factories/WorkflowFactory';
+import { Job } from '../../domain/entities/Job';
+import { Workflow, WorkflowData } from '../../domain/entities/Workflow';
+import { JobRepository, WorkflowRepository } from '../../domain';
+import { JobHandlerRegistry } from '../services/JobHandlerRegistry';
+import { DependencyResolver } from '../services/DependencyResolver';
+
+export class SubmitWorkflowUseCase {
+  constructor(
+    private readonly repository: JobRepository,
+    private readonly workflowRepository: WorkflowRepository,
+    private readonly handlerRegistry: JobHandlerRegistry,
+    private readonly dependencyResolver: DependencyResolver
+  ) {}
+
+  /**
+   * Validates every step before saving anything, so an invalid DAG creates no jobs
+   */
+  async execute(data: WorkflowData): Promise<{ workflow: Workflow; jobs: Job[] }> {
+    for (const step of data.steps) {
+      if (!this.handlerRegistry.hasHandler(step.type)) {
+        throw new Error(`Unknown job type '${step.type}' in workflow step '${step.key}'`);
+      }
+    }
+
+    const { workflow, jobs } = WorkflowFactory.createWorkflow(data);
+
+    await this.workflowRepository.save(workflow);
+
+    // Parents first: a child is never visible before the jobs it waits for
+    for (const job of jobs) {
+      await this.repository.save(job);
+    }
+
+    // A parent may have finished before its children were saved, when nothing was
+    // there yet to resolve: settle every step against the graph as stored
+    const saved: Job[] = [];
+
+    for (const job of jobs) {
+      const current = (await this.repository.findById(job.id)) ?? job;
+      saved.push(await this.dependencyResolver.evaluate(current));
+    }
+
+    return { workflow, jobs: saved };
+  }
+}
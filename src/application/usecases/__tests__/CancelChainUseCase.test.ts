@@ -0,0 +1,89 @@
+import { CancelChainUseCase } from '../CancelChainUseCase';
+import { SubmitChainUseCase } from '../SubmitChainUseCase';
+import { DependencyResolver } from '../../services/DependencyResolver';
+import { JobHandlerRegistry } from '../../services/JobHandlerRegistry';
+import { JobFactory } from '../../../domain/factories/JobFactory';
+import { JobStatus } from '../../../domain/value-objects/JobStatus';
+import { ChainData } from '../../../domain/entities/Chain';
+import { InMemoryJobRepository } from '../../../infrastructure/repositories/InMemoryJobRepository';
+import { InMemoryChainRepository } from '../../../infrastructure/repositories/InMemoryChainRepository';
+
+jest.mock('uuid', () => {
+  let counter = 0;
+  return {
+    v4: jest.fn(() => `test-uuid-${String(counter++ % 10000).padStart(4, '0')}`),
+  };
+});
+
+describe('CancelChainUseCase', () => {
+  let repository: InMemoryJobRepository;
+  let chainRepository: InMemoryChainRepository;
+  let submitChain: SubmitChainUseCase;
+  let cancelChain: CancelChainUseCase;
+
+  const chainData: ChainData = {
+    steps: [
+      { type: 'task', payload: { step: 1 } },
+      { type: 'task', payload: { step: 2 } },
+      { type: 'task', payload: { step: 3 } },
+    ],
+  };
+
+  beforeEach(() => {
+    repository = new InMemoryJobRepository();
+    chainRepository = new InMemoryChainRepository();
+
+    const handlerRegistry = new JobHandlerRegistry();
+    handlerRegistry.register('task', { handle: jest.fn() });
+
+    const dependencyResolver = new DependencyResolver(repository);
+    submitChain = new SubmitChainUseCase(
+      repository,
+      chainRepository,
+      handlerRegistry,
+      dependencyResolver
+    );
+    cancelChain = new CancelChainUseCase(repository, chainRepository, dependencyResolver);
+  });
+
+  it('should cancel every step that has not started', async () => {
+    const { chain } = await submitChain.execute(chainData);
+
+    const result = await cancelChain.execute(chain.id);
+
+    expect(result.chain.cancelled_at).toBeDefined();
+    expect(result.jobs.map((job) => job.status)).toEqual([
+      JobStatus.CANCELLED,
+      JobStatus.CANCELLED,
+      JobStatus.CANCELLED,
+    ]);
+  });
+
+  it('should let a running step finish and cancel the following ones', async () => {
+    const { chain, jobs } = await submitChain.execute(chainData);
+    await repository.save(JobFactory.startJob(jobs[0]));
+
+    const result = await cancelChain.execute(chain.id);
+
+    expect(result.jobs.map((job) => job.status)).toEqual([
+      JobStatus.RUNNING,
+      JobStatus.CANCELLED,
+      JobStatus.CANCELLED,
+    ]);
+  });
+
+  it('should reject chains that already finished', async () => {
+    const { chain } = await submitChain.execute(chainData);
+    await cancelChain.execute(chain.id);
+
+    await expect(cancelChain.execute(chain.id)).rejects.toThrow(
+      'Cannot cancel chain in cancelled status'
+    );
+  });
+
+  it('should throw when the chain does not exist', async () => {
+    await expect(cancelChain.execute('missing')).rejects.toThrow(
+      'Chain with id missing not found'
+    );
+  });
+});
@@ -3,6 +3,8 @@ import { JobFactory } from '../../../domain/factories/JobFactory';
 import { JobStatus } from '../../../domain/value-objects/JobStatus';
 import { createSuccessResult } from '../../../domain/value-objects/JobResult';
 import { JobRepository } from '../../../domain';
+import { DependencyResolver } from '../../services/DependencyResolver';
+import { JobExecutor } from '../../services/JobExecutor';
 
 jest.mock('uuid', () => ({
   v4: jest.fn(() => 'test-uuid-cancel'),
@@ -15,16 +17,33 @@ describe('CancelJobUseCase', () => {
   beforeEach(() => {
     mockRepository = {
       save: jest.fn(),
+      update: jest.fn(async (jobId, mutate) => {
+        const job = await mockRepository.findById(jobId);
+        const updated = job ? mutate(job) : null;
+
+        return updated ? mockRepository.save(updated) : null;
+      }),
+      insert: jest.fn(),
       findById: jest.fn(),
+      findByIds: jest.fn(),
       findAll: jest.fn(),
-      findByStatus: jest.fn(),
+      findByStatus: jest.fn(async (_status) => []),
+      findDependents: jest.fn(async (_jobId) => []),
+      findByUniqueKey: jest.fn(async (_type, _key) => []),
       getNextEligible: jest.fn(),
+      getNextEligibleAt: jest.fn(),
+      getNextExpiresAt: jest.fn(),
+      takeExpiredJobs: jest.fn(),
+      takeAbandonedJobs: jest.fn(),
+      renewLeases: jest.fn(),
+      onJobPending: jest.fn(),
+      onJobFinished: jest.fn(),
       getJobCounts: jest.fn(),
       exists: jest.fn(),
       count: jest.fn(),
     } as jest.Mocked<JobRepository>;
 
-    useCase = new CancelJobUseCase(mockRepository);
+    useCase = new CancelJobUseCase(mockRepository, new DependencyResolver(mockRepository));
   });
 
   it('should cancel a pending job', async () => {
@@ -57,21 +76,38 @@ describe('CancelJobUseCase', () => {
     expect(mockRepository.save).not.toHaveBeenCalled();
   });
 
-  it('should throw error if job is RUNNING', async () => {
-    const job = JobFactory.createJob({
-      type: 'email',
-      payload: {
-        to: 'test@example.com',
-      },
-    });
-
-    const runningJob = JobFactory.startJob(job);
+  it('should record a cancellation request on a RUNNING job', async () => {
+    const runningJob = JobFactory.startJob(
+      JobFactory.createJob({ type: 'email', payload: { to: 'test@example.com' } })
+    );
     mockRepository.findById.mockResolvedValue(runningJob);
+    mockRepository.save.mockImplementation(async (job) => job);
+
+    // Executing on another instance, which sees the request on its next heartbeat
+    const result = await useCase.execute(runningJob.id);
+
+    expect(result.status).toBe(JobStatus.RUNNING);
+    expect(result.cancel_request).toEqual({ requested_at: expect.any(Number), force: false });
+    expect(mockRepository.save).toHaveBeenCalledWith(result);
+  });
+
+  it('should also pass the cancellation to the executor running the job here', async () => {
+    const executor = {
+      requestCancellation: jest.fn(),
+    } as unknown as jest.Mocked<JobExecutor>;
+    useCase = new CancelJobUseCase(mockRepository, new DependencyResolver(mockRepository), executor);
 
-    await expect(useCase.execute(runningJob.id)).rejects.toThrow(
-      'Cannot cancel job in running status'
+    const runningJob = JobFactory.startJob(
+      JobFactory.createJob({ type: 'email', payload: { to: 'test@example.com' } })
     );
-    expect(mockRepository.save).not.toHaveBeenCalled();
+    mockRepository.findById.mockResolvedValue(runningJob);
+    mockRepository.save.mockImplementation(async (job) => job);
+
+    const result = await useCase.execute(runningJob.id, { force: true });
+
+    expect(result.status).toBe(JobStatus.RUNNING);
+    expect(result.cancel_request?.force).toBe(true);
+    expect(executor.requestCancellation).toHaveBeenCalledWith(runningJob.id, { force: true });
   });
 
   it('should throw error if job is COMPLETED', async () => {
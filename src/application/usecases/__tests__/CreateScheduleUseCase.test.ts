@@ -0,0 +1,56 @@
+import { CreateScheduleUseCase } from '../CreateScheduleUseCase';
+import { ScheduleStatus } from '../../../domain/value-objects/ScheduleStatus';
+import { ScheduleRepository } from '../../../domain';
+import { JobHandlerRegistry } from '../../services/JobHandlerRegistry';
+import { Scheduler } from '../../services/Scheduler';
+
+jest.mock('uuid', () => ({
+  v4: jest.fn(() => 'test-uuid-schedule'),
+}));
+
+describe('CreateScheduleUseCase', () => {
+  let useCase: CreateScheduleUseCase;
+  let mockSchedules: jest.Mocked<ScheduleRepository>;
+  let mockScheduler: jest.Mocked<Scheduler>;
+
+  beforeEach(() => {
+    mockSchedules = {
+      save: jest.fn(async (schedule) => schedule),
+      update: jest.fn(),
+      findById: jest.fn(),
+      findAll: jest.fn(),
+      delete: jest.fn(),
+      count: jest.fn(),
+    } as jest.Mocked<ScheduleRepository>;
+
+    mockScheduler = {
+      refresh: jest.fn(async () => undefined),
+    } as any;
+
+    const registry = new JobHandlerRegistry();
+    registry.register('report', { handle: jest.fn() });
+
+    useCase = new CreateScheduleUseCase(mockSchedules, registry, mockScheduler);
+  });
+
+  it('should save an active schedule and re-arm the scheduler', async () => {
+    const schedule = await useCase.execute({
+      cron: '0 * * * *',
+      job_type: 'report',
+      payload: { name: 'hourly' },
+    });
+
+    expect(schedule.id).toBe('test-uuid-schedule');
+    expect(schedule.status).toBe(ScheduleStatus.ACTIVE);
+    expect(mockSchedules.save).toHaveBeenCalledWith(schedule);
+    expect(mockScheduler.refresh).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject job types without a registered handler', async () => {
+    await expect(
+      useCase.execute({ cron: '0 * * * *', job_type: 'video', payload: { id: 1 } })
+    ).rejects.toThrow("Unknown job type 'video'");
+
+    expect(mockSchedules.save).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,108 @@
+import { FollowJobLogsUseCase } from '../FollowJobLogsUseCase';
+import { JobLogStore } from '../../services/JobLogStore';
+import { JobFactory } from '../../../domain/factories/JobFactory';
+import { createSuccessResult } from '../../../domain/value-objects/JobResult';
+import { JobLogEntry } from '../../../domain/entities/JobLog';
+import { InMemoryJobRepository } from '../../../infrastructure/repositories/InMemoryJobRepository';
+import { InMemoryJobLogRepository } from '../../../infrastructure/repositories/InMemoryJobLogRepository';
+
+jest.mock('uuid', () => ({
+  v4: jest.fn(() => 'test-uuid-follow'),
+}));
+
+describe('FollowJobLogsUseCase', () => {
+  let repository: InMemoryJobRepository;
+  let logStore: JobLogStore;
+  let useCase: FollowJobLogsUseCase;
+
+  beforeEach(() => {
+    repository = new InMemoryJobRepository();
+    logStore = new JobLogStore(new InMemoryJobLogRepository());
+    useCase = new FollowJobLogsUseCase(repository, logStore);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const runningJob = async () => {
+    const job = JobFactory.startJob(JobFactory.createJob({ type: 'export', payload: { table: 'orders' } }));
+    await repository.save(job);
+    return job;
+  };
+
+  it('should replay stored lines after the cursor, then stream new ones until the job is closed', async () => {
+    const job = await runningJob();
+    await logStore.append(job.id, 1, 'info', 'first');
+    await logStore.append(job.id, 1, 'info', 'second');
+
+    const lines: JobLogEntry[] = [];
+    const onEnd = jest.fn();
+    await useCase.execute(job.id, 1, (entry) => lines.push(entry), onEnd);
+
+    await logStore.append(job.id, 1, 'info', 'third');
+    expect(onEnd).not.toHaveBeenCalled();
+
+    await repository.save(JobFactory.completeJob(job, createSuccessResult('Done')));
+    await logStore.close(job.id);
+
+    expect(lines.map((line) => line.message)).toEqual(['second', 'third']);
+    expect(onEnd).toHaveBeenCalledTimes(1);
+  });
+
+  it('should end right after the stored lines when the job already finished', async () => {
+    const job = await runningJob();
+    await logStore.append(job.id, 1, 'info', 'only');
+    await repository.save(JobFactory.completeJob(job, createSuccessResult('Done')));
+
+    const lines: JobLogEntry[] = [];
+    const onEnd = jest.fn();
+    await useCase.execute(job.id, undefined, (entry) => lines.push(entry), onEnd);
+
+    expect(lines).toHaveLength(1);
+    expect(onEnd).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop passing lines once stopped', async () => {
+    const job = await runningJob();
+    const onEntry = jest.fn();
+    const onEnd = jest.fn();
+
+    const stop = await useCase.execute(job.id, undefined, onEntry, onEnd);
+    stop();
+    await logStore.append(job.id, 1, 'info', 'after disconnect');
+
+    expect(onEntry).not.toHaveBeenCalled();
+    expect(onEnd).not.toHaveBeenCalled();
+  });
+
+  it('should poll for lines and the end of a job running on another instance', async () => {
+    jest.useFakeTimers();
+    const logs = new InMemoryJobLogRepository();
+    const owner = new JobLogStore(logs);
+    useCase = new FollowJobLogsUseCase(repository, new JobLogStore(logs, { pollInterval: 100 }));
+    const job = await runningJob();
+
+    const lines: JobLogEntry[] = [];
+    const onEnd = jest.fn();
+    await useCase.execute(job.id, undefined, (entry) => lines.push(entry), onEnd);
+
+    await owner.append(job.id, 1, 'info', 'elsewhere');
+    await jest.advanceTimersByTimeAsync(100);
+    expect(lines.map((line) => line.message)).toEqual(['elsewhere']);
+
+    await owner.append(job.id, 1, 'info', 'last');
+    await repository.save(JobFactory.completeJob(job, createSuccessResult('Done')));
+    await jest.advanceTimersByTimeAsync(100);
+
+    expect(lines.map((line) => line.message)).toEqual(['elsewhere', 'last']);
+    expect(onEnd).toHaveBeenCalledTimes(1);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('should throw error if job does not exist', async () => {
+    await expect(useCase.execute('missing-job', undefined, jest.fn(), jest.fn())).rejects.toThrow(
+      'Job with id missing-job not found'
+    );
+  });
+});
@@ -16,10 +16,22 @@ describe('GetJobStatusUseCase', () => {
     // Create mock repository
     mockRepository = {
       save: jest.fn(),
+      update: jest.fn(),
+      insert: jest.fn(),
       findById: jest.fn(),
+      findByIds: jest.fn(),
       findAll: jest.fn(),
       findByStatus: jest.fn(),
+      findDependents: jest.fn(async (_jobId) => []),
+      findByUniqueKey: jest.fn(),
       getNextEligible: jest.fn(),
+      getNextEligibleAt: jest.fn(),
+      getNextExpiresAt: jest.fn(),
+      takeExpiredJobs: jest.fn(),
+      takeAbandonedJobs: jest.fn(),
+      renewLeases: jest.fn(),
+      onJobPending: jest.fn(),
+      onJobFinished: jest.fn(),
       getJobCounts: jest.fn(),
       exists: jest.fn(),
       count: jest.fn(),
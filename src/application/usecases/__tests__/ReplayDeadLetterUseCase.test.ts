@@ -0,0 +1,109 @@
+import { ReplayDeadLetterUseCase } from '../ReplayDeadLetterUseCase';
+import { JobFactory } from '../../../domain/factories/JobFactory';
+import { DeadLetterFactory } from '../../../domain/factories/DeadLetterFactory';
+import { JobStatus } from '../../../domain/value-objects/JobStatus';
+import { createErrorResult } from '../../../domain/value-objects/JobResult';
+import { DeadLetterRepository, JobRepository } from '../../../domain';
+import { JobHandlerRegistry } from '../../services/JobHandlerRegistry';
+
+jest.mock('uuid', () => {
+  let counter = 0;
+  return {
+    v4: jest.fn(() => `test-uuid-${String(counter++ % 10000).padStart(4, '0')}`),
+  };
+});
+
+describe('ReplayDeadLetterUseCase', () => {
+  let useCase: ReplayDeadLetterUseCase;
+  let mockRepository: jest.Mocked<JobRepository>;
+  let mockDeadLetters: jest.Mocked<DeadLetterRepository>;
+  let registry: JobHandlerRegistry;
+
+  beforeEach(() => {
+    mockRepository = {
+      save: jest.fn(async (job) => job),
+      update: jest.fn(),
+      insert: jest.fn(),
+      findById: jest.fn(),
+      findByIds: jest.fn(),
+      findAll: jest.fn(),
+      findByStatus: jest.fn(),
+      findDependents: jest.fn(async (_jobId) => []),
+      findByUniqueKey: jest.fn(),
+      getNextEligible: jest.fn(),
+      getNextEligibleAt: jest.fn(),
+      getNextExpiresAt: jest.fn(),
+      takeExpiredJobs: jest.fn(),
+      takeAbandonedJobs: jest.fn(),
+      renewLeases: jest.fn(),
+      onJobPending: jest.fn(),
+      onJobFinished: jest.fn(),
+      getJobCounts: jest.fn(),
+      exists: jest.fn(),
+      count: jest.fn(),
+    } as jest.Mocked<JobRepository>;
+
+    mockDeadLetters = {
+      save: jest.fn(async (deadLetter) => deadLetter),
+      findById: jest.fn(),
+      findAll: jest.fn(),
+      delete: jest.fn(),
+      purge: jest.fn(),
+      count: jest.fn(),
+    } as jest.Mocked<DeadLetterRepository>;
+
+    registry = new JobHandlerRegistry();
+    registry.register('email', { handle: jest.fn() });
+
+    useCase = new ReplayDeadLetterUseCase(mockRepository, mockDeadLetters, registry);
+  });
+
+  function createDeadLetter(type = 'email') {
+    const job = JobFactory.createJob({ type, payload: { to: 'test@example.com' } });
+    const failedJob = JobFactory.failJob(
+      JobFactory.startJob(job),
+      createErrorResult('SMTP unavailable', 503)
+    );
+    return DeadLetterFactory.fromJob(failedJob);
+  }
+
+  it('should submit a new PENDING job linked to the original', async () => {
+    const deadLetter = createDeadLetter();
+    mockDeadLetters.findById.mockResolvedValue(deadLetter);
+
+    const job = await useCase.execute(deadLetter.id);
+
+    expect(job.status).toBe(JobStatus.PENDING);
+    expect(job.id).not.toBe(deadLetter.id);
+    expect(job.replayed_from).toBe(deadLetter.id);
+    expect(mockRepository.save).toHaveBeenCalledWith(job);
+  });
+
+  it('should record the replay on the dead letter', async () => {
+    const deadLetter = createDeadLetter();
+    mockDeadLetters.findById.mockResolvedValue(deadLetter);
+
+    const job = await useCase.execute(deadLetter.id);
+
+    expect(mockDeadLetters.save).toHaveBeenCalledWith(
+      expect.objectContaining({ id: deadLetter.id, replayed_job_ids: [job.id] })
+    );
+  });
+
+  it('should throw error if dead letter does not exist', async () => {
+    mockDeadLetters.findById.mockResolvedValue(null);
+
+    await expect(useCase.execute('missing-id')).rejects.toThrow(
+      'Dead letter with id missing-id not found'
+    );
+    expect(mockRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to replay job types that no longer have a handler', async () => {
+    const deadLetter = createDeadLetter('fax');
+    mockDeadLetters.findById.mockResolvedValue(deadLetter);
+
+    await expect(useCase.execute(deadLetter.id)).rejects.toThrow("Unknown job type 'fax'");
+    expect(mockRepository.save).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,248 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SubmitBatchUseCase } from '../SubmitBatchUseCase';
+import { JobHandlerRegistry } from '../../services/JobHandlerRegistry';
+import { DependencyResolver } from '../../services/DependencyResolver';
+import { BatchTracker } from '../../services/BatchTracker';
+import { JobFactory } from '../../../domain/factories/JobFactory';
+import { JobStatus } from '../../../domain/value-objects/JobStatus';
+import { createErrorResult, createSuccessResult } from '../../../domain/value-objects/JobResult';
+import { BatchData } from '../../../domain/entities/Batch';
+import { JobData } from '../../../domain/entities/Job';
+import { InMemoryJobRepository } from '../../../infrastructure/repositories/InMemoryJobRepository';
+import { InMemoryBatchRepository } from '../../../infrastructure/repositories/InMemoryBatchRepository';
+import { SqliteJobRepository } from '../../../infrastructure/repositories/SqliteJobRepository';
+import { SqliteRecordStore } from '../../../infrastructure/repositories/SqliteRecordStore';
+import { StoredBatchRepository } from '../../../infrastructure/repositories/StoredBatchRepository';
+
+jest.mock('uuid', () => {
+  let counter = 0;
+  return {
+    v4: jest.fn(() => `test-uuid-${String(counter++ % 10000).padStart(4, '0')}`),
+  };
+});
+
+describe('SubmitBatchUseCase', () => {
+  let repository: InMemoryJobRepository;
+  let batchRepository: InMemoryBatchRepository;
+  let useCase: SubmitBatchUseCase;
+
+  const items = (...data: JobData[]): BatchData['items'] =>
+    data.map((item, index) => ({ index, data: item }));
+
+  beforeEach(() => {
+    repository = new InMemoryJobRepository();
+    batchRepository = new InMemoryBatchRepository();
+
+    const handlerRegistry = new JobHandlerRegistry();
+    handlerRegistry.register('email', { handle: jest.fn() });
+    handlerRegistry.register('report', { handle: jest.fn() });
+
+    useCase = new SubmitBatchUseCase(
+      repository,
+      batchRepository,
+      handlerRegistry,
+      new DependencyResolver(repository)
+    );
+  });
+
+  it('should create every job of a valid batch', async () => {
+    const { batch, jobs, errors } = await useCase.execute({
+      items: items({ type: 'email', payload: { n: 1 } }, { type: 'email', payload: { n: 2 } }),
+    });
+
+    expect(errors).toEqual([]);
+    expect(batch?.job_ids).toHaveLength(2);
+    expect(jobs.every((job) => job.batch_id === batch?.id)).toBe(true);
+    expect(await repository.count()).toBe(2);
+    expect(await batchRepository.findById(batch!.id)).toEqual(batch);
+  });
+
+  it('should create nothing when an atomic batch has invalid items', async () => {
+    const { batch, errors } = await useCase.execute(
+      {
+        items: items(
+          { type: 'email', payload: { n: 1 } },
+          { type: 'unknown', payload: { n: 2 } },
+          { type: 'email', payload: { n: 3 }, config: { priority: 500 } }
+        ),
+      },
+      [{ index: 3, message: 'Field "type" is required and must be a string' }]
+    );
+
+    expect(batch).toBeUndefined();
+    expect(errors.map((error) => error.index)).toEqual([1, 2, 3]);
+    expect(errors[0].message).toBe("Unknown job type 'unknown'");
+    expect(await repository.count()).toBe(0);
+    expect(await batchRepository.count()).toBe(0);
+  });
+
+  it('should create the valid items of a non-atomic batch and report the rest', async () => {
+    const { batch, errors } = await useCase.execute({
+      atomic: false,
+      items: items({ type: 'email', payload: { n: 1 } }, { type: 'unknown', payload: { n: 2 } }),
+    });
+
+    expect(batch?.job_ids).toHaveLength(1);
+    expect(errors).toEqual([{ index: 1, message: "Unknown job type 'unknown'" }]);
+  });
+
+  it('should collapse items into existing jobs and earlier items with the same key', async () => {
+    const existing = JobFactory.createJob({
+      type: 'email',
+      payload: { n: 0 },
+      config: { unique_key: 'welcome' },
+    });
+    await repository.save(existing);
+
+    const { batch, jobs, deduplicated } = await useCase.execute({
+      items: items(
+        { type: 'email', payload: { n: 1 }, config: { unique_key: 'welcome' } },
+        { type: 'email', payload: { n: 2 }, config: { debounce: { key: 'sync', window: 1000 } } },
+        { type: 'email', payload: { n: 3 }, config: { debounce: { key: 'sync', window: 1000 } } },
+        { type: 'email', payload: { n: 4 } }
+      ),
+    });
+
+    expect(jobs.map((job) => job.payload)).toEqual([{ n: 3 }, { n: 4 }]);
+    expect(batch?.job_ids).toEqual(jobs.map((job) => job.id));
+    expect(deduplicated).toEqual([
+      { index: 0, job_id: existing.id },
+      { index: 2, job_id: jobs[0].id },
+    ]);
+    expect(await repository.count()).toBe(3);
+  });
+
+  it('should create no batch when every item matched an existing job', async () => {
+    const existing = JobFactory.createJob({
+      type: 'email',
+      payload: { n: 0 },
+      config: { unique_key: 'welcome' },
+    });
+    await repository.save(existing);
+
+    const { batch, jobs, deduplicated } = await useCase.execute({
+      items: items({ type: 'email', payload: { n: 1 }, config: { unique_key: 'welcome' } }),
+    });
+
+    expect(batch).toBeUndefined();
+    expect(jobs).toEqual([]);
+    expect(deduplicated).toEqual([{ index: 0, job_id: existing.id }]);
+    expect(await batchRepository.count()).toBe(0);
+  });
+
+  it('should delete the batch when its members could not be created', async () => {
+    jest.spyOn(repository, 'insert').mockRejectedValueOnce(new Error('Storage is unavailable'));
+
+    await expect(
+      useCase.execute({
+        items: items({ type: 'email', payload: { n: 1 } }, { type: 'email', payload: { n: 2 } }),
+      })
+    ).rejects.toThrow('Storage is unavailable');
+
+    expect(await repository.count()).toBe(0);
+    expect(await batchRepository.count()).toBe(0);
+  });
+
+  it('should keep the batch when its members were created before a later failure', async () => {
+    const resolver = new DependencyResolver(repository);
+    jest.spyOn(resolver, 'evaluate').mockRejectedValueOnce(new Error('Storage is unavailable'));
+    const handlerRegistry = new JobHandlerRegistry();
+    handlerRegistry.register('email', { handle: jest.fn() });
+
+    await expect(
+      new SubmitBatchUseCase(repository, batchRepository, handlerRegistry, resolver).execute({
+        items: items({ type: 'email', payload: { n: 1 } }),
+      })
+    ).rejects.toThrow('Storage is unavailable');
+
+    const [job] = await repository.findAll();
+    expect(await batchRepository.findById(job.batch_id!)).not.toBeNull();
+  });
+
+  it('should submit the callback once every member is terminal', async () => {
+    const tracker = new BatchTracker(repository, batchRepository);
+    const updates: Array<Promise<void>> = [];
+    repository.getQueue().onJobFinished((job) => updates.push(tracker.recordFinished(job)));
+
+    const { batch, jobs } = await useCase.execute({
+      items: items({ type: 'email', payload: { n: 1 } }, { type: 'email', payload: { n: 2 } }),
+      callback: { type: 'report', payload: { channel: 'ops' } },
+    });
+
+    await repository.save(
+      JobFactory.completeJob(JobFactory.startJob(jobs[0]), createSuccessResult('ok'))
+    );
+    await repository.save(
+      JobFactory.failJob(JobFactory.startJob(jobs[1]), createErrorResult('boom', 500))
+    );
+    await Promise.all(updates);
+
+    const finished = await batchRepository.findById(batch!.id);
+    expect(finished?.finished_count).toBe(2);
+    expect(finished?.finished_at).toBeDefined();
+
+    const callback = await repository.findById(finished!.callback_job_id!);
+    expect(callback?.status).toBe(JobStatus.PENDING);
+    expect(callback?.payload).toEqual({ channel: 'ops', batch_id: batch!.id });
+  });
+
+  it('should count members finishing on different instances once each', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'job-batch-'));
+    const filename = path.join(directory, 'jobs.db');
+    const instances = [1, 2].map(() => {
+      const jobRepository = new SqliteJobRepository({ filename });
+      const recordStore = new SqliteRecordStore({ filename });
+      const batches = new StoredBatchRepository(recordStore);
+
+      return {
+        jobRepository,
+        recordStore,
+        batches,
+        tracker: new BatchTracker(jobRepository, batches),
+      };
+    });
+    const [first, second] = instances;
+
+    try {
+      const handlerRegistry = new JobHandlerRegistry();
+      handlerRegistry.register('email', { handle: jest.fn() });
+      handlerRegistry.register('report', { handle: jest.fn() });
+
+      const { batch, jobs } = await new SubmitBatchUseCase(
+        first.jobRepository,
+        first.batches,
+        handlerRegistry,
+        new DependencyResolver(first.jobRepository)
+      ).execute({
+        items: items(...[1, 2, 3, 4].map((n) => ({ type: 'email', payload: { n } }))),
+        callback: { type: 'report', payload: { channel: 'ops' } },
+      });
+
+      await Promise.all(
+        jobs.map(async (job, n) => {
+          const instance = instances[n % 2];
+          const completed = JobFactory.completeJob(
+            JobFactory.startJob(job),
+            createSuccessResult('ok')
+          );
+          await instance.jobRepository.save(completed);
+          await instance.tracker.recordFinished(completed);
+        })
+      );
+
+      const finished = await second.batches.findById(batch!.id);
+      const callbacks = await second.jobRepository.findByStatus(JobStatus.PENDING);
+
+      expect(finished?.finished_count).toBe(4);
+      expect(callbacks.map((job) => job.id)).toEqual([finished!.callback_job_id]);
+    } finally {
+      for (const instance of instances) {
+        instance.jobRepository.close();
+        await instance.recordStore.close();
+      }
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
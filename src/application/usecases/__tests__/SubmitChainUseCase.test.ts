@@ -0,0 +1,78 @@
+import { SubmitChainUseCase } from '../SubmitChainUseCase';
+import { JobHandlerRegistry } from '../../services/JobHandlerRegistry';
+import { DependencyResolver } from '../../services/DependencyResolver';
+import { Job } from '../../../domain/entities/Job';
+import { ChainData } from '../../../domain/entities/Chain';
+import { JobFactory } from '../../../domain/factories/JobFactory';
+import { JobStatus } from '../../../domain/value-objects/JobStatus';
+import { createSuccessResult } from '../../../domain/value-objects/JobResult';
+import { InMemoryJobRepository } from '../../../infrastructure/repositories/InMemoryJobRepository';
+import { InMemoryChainRepository } from '../../../infrastructure/repositories/InMemoryChainRepository';
+
+jest.mock('uuid', () => {
+  let counter = 0;
+  return {
+    v4: jest.fn(() => `test-uuid-${String(counter++ % 10000).padStart(4, '0')}`),
+  };
+});
+
+describe('SubmitChainUseCase', () => {
+  let repository: InMemoryJobRepository;
+  let chainRepository: InMemoryChainRepository;
+  let resolver: DependencyResolver;
+  let useCase: SubmitChainUseCase;
+
+  const chainData: ChainData = {
+    steps: [
+      { type: 'provision', payload: { user: 1 } },
+      { type: 'email', payload: { template: 'welcome', user: 0 } },
+    ],
+  };
+
+  beforeEach(() => {
+    repository = new InMemoryJobRepository();
+    chainRepository = new InMemoryChainRepository();
+    resolver = new DependencyResolver(repository);
+
+    const handlerRegistry = new JobHandlerRegistry();
+    handlerRegistry.register('provision', { handle: jest.fn() });
+    handlerRegistry.register('email', { handle: jest.fn() });
+
+    useCase = new SubmitChainUseCase(repository, chainRepository, handlerRegistry, resolver);
+  });
+
+  it('should create nothing when a step has an unknown type', async () => {
+    await expect(
+      useCase.execute({
+        steps: [...chainData.steps, { type: 'fax', payload: { n: 1 } }],
+      })
+    ).rejects.toThrow("Unknown job type 'fax' in chain step 2");
+
+    expect(await repository.count()).toBe(0);
+  });
+
+  it('should advance to a step whose predecessor finished before it was saved', async () => {
+    const save = repository.save.bind(repository);
+
+    // A worker picks up the first step as soon as it is saved and finishes it right away
+    jest.spyOn(repository, 'save').mockImplementation(async (job: Job) => {
+      await save(job);
+
+      if (job.status === JobStatus.PENDING && job.depends_on.length === 0) {
+        const completed = JobFactory.completeJob(
+          JobFactory.startJob(job),
+          createSuccessResult('ok', { user: 42 })
+        );
+        await save(completed);
+        await resolver.resolveDependents(completed);
+      }
+      return job;
+    });
+
+    const { jobs } = await useCase.execute(chainData);
+
+    expect(jobs[1].status).toBe(JobStatus.PENDING);
+    expect(jobs[1].payload).toEqual({ template: 'welcome', user: 42 });
+    expect(await repository.findById(jobs[1].id)).toEqual(jobs[1]);
+  });
+});
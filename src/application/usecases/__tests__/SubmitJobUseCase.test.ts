@@ -1,7 +1,10 @@
 import { SubmitJobUseCase } from '../SubmitJobUseCase';
 import { JobStatus } from '../../../domain/value-objects/JobStatus';
-import { JobData } from '../../../domain/entities/Job';
+import { JobFactory } from '../../../domain/factories/JobFactory';
+import { Job, JobData } from '../../../domain/entities/Job';
 import { JobRepository } from '../../../domain';
+import { JobHandlerRegistry } from '../../services/JobHandlerRegistry';
+import { DependencyResolver } from '../../services/DependencyResolver';
 
 jest.mock('uuid', () => ({
   v4: jest.fn(() => 'test-uuid-submit'),
@@ -10,20 +13,57 @@ jest.mock('uuid', () => ({
 describe('SubmitJobUseCase', () => {
   let useCase: SubmitJobUseCase;
   let mockRepository: jest.Mocked<JobRepository>;
+  let registry: JobHandlerRegistry;
+  /** Jobs the mocked insert checks submissions against */
+  let stored: Job[];
 
   beforeEach(() => {
+    stored = [];
     mockRepository = {
       save: jest.fn(),
+      update: jest.fn(),
+      insert: jest.fn(async (jobs, collapse) => {
+        const insertions = [];
+
+        for (const job of jobs) {
+          const match = collapse(job, stored);
+
+          if (match) {
+            insertions.push({ job: match, collapsed: true });
+          } else {
+            await mockRepository.save(job);
+            insertions.push({ job, collapsed: false });
+          }
+        }
+
+        return insertions;
+      }),
       findById: jest.fn(),
+      findByIds: jest.fn(),
       findAll: jest.fn(),
       findByStatus: jest.fn(),
+      findDependents: jest.fn(async (_jobId) => []),
+      findByUniqueKey: jest.fn(),
       getNextEligible: jest.fn(),
+      getNextEligibleAt: jest.fn(),
+      getNextExpiresAt: jest.fn(),
+      takeExpiredJobs: jest.fn(),
+      takeAbandonedJobs: jest.fn(),
+      renewLeases: jest.fn(),
+      onJobPending: jest.fn(),
+      onJobFinished: jest.fn(),
       getJobCounts: jest.fn(),
       exists: jest.fn(),
       count: jest.fn(),
     } as jest.Mocked<JobRepository>;
 
-    useCase = new SubmitJobUseCase(mockRepository);
+    registry = new JobHandlerRegistry();
+    const handler = { handle: jest.fn() };
+    for (const type of ['email', 'sms', 'notification']) {
+      registry.register(type, handler);
+    }
+
+    useCase = new SubmitJobUseCase(mockRepository, registry, new DependencyResolver(mockRepository));
   });
 
   it('should create and save a job with valid data', async () => {
@@ -38,7 +78,7 @@ describe('SubmitJobUseCase', () => {
     mockRepository.save.mockImplementation(async (job) => job);
 
 
-    const job = await useCase.execute(jobData);
+    const { job } = await useCase.execute(jobData);
 
     expect(job).toBeDefined();
     expect(job.id).toBe('test-uuid-submit');
@@ -64,7 +104,7 @@ describe('SubmitJobUseCase', () => {
     mockRepository.save.mockImplementation(async (job) => job);
 
 
-    const job = await useCase.execute(jobData);
+    const { job } = await useCase.execute(jobData);
 
     expect(job.config.delay).toBe(5000);
     expect(job.eligible_at).toBe(job.created_at + 5000);
@@ -121,12 +161,24 @@ describe('SubmitJobUseCase', () => {
 
     mockRepository.save.mockImplementation(async (job) => job);
 
-    const job = await useCase.execute(jobData);
+    const { job } = await useCase.execute(jobData);
 
     expect(job.config.delay).toBe(0);
     expect(job.eligible_at).toBe(job.created_at);
   });
 
+  it('should reject job types without a registered handler', async () => {
+    const jobData: JobData = {
+      type: 'fax',
+      payload: {
+        to: '+1234567890',
+      },
+    };
+
+    await expect(useCase.execute(jobData)).rejects.toThrow("Unknown job type 'fax'");
+    expect(mockRepository.save).not.toHaveBeenCalled();
+  });
+
   it('should handle repository errors', async () => {
     const jobData: JobData = {
       type: 'email',
@@ -139,4 +191,93 @@ describe('SubmitJobUseCase', () => {
 
     await expect(useCase.execute(jobData)).rejects.toThrow('Database error');
   });
-});
\ No newline at end of file
+
+  describe('unique keys', () => {
+    const jobData: JobData = {
+      type: 'email',
+      payload: { to: 'user@example.com' },
+      config: { unique_key: 'welcome-user-1' },
+    };
+
+    it('should return a matching pending job instead of creating one', async () => {
+      const existing = { ...JobFactory.createJob(jobData), id: 'existing-job' };
+      stored = [existing];
+
+      const submission = await useCase.execute(jobData);
+
+      expect(submission).toEqual({ job: existing, deduplicated: true });
+      expect(mockRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should create a job when the match is out of scope', async () => {
+      const existing = { ...JobFactory.startJob(JobFactory.createJob(jobData)), id: 'existing-job' };
+      stored = [existing];
+      mockRepository.save.mockImplementation(async (job) => job);
+
+      const { job, deduplicated } = await useCase.execute(jobData);
+
+      expect(deduplicated).toBe(false);
+      expect(job.id).toBe('test-uuid-submit');
+      expect(job.config.unique_key).toBe('welcome-user-1');
+      expect(mockRepository.save).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('debounce and throttle', () => {
+    it('should fold a debounced submission into the pending job', async () => {
+      const config = { debounce: { key: 'user-1', window: 5000 } };
+      const existing = {
+        ...JobFactory.createJob({ type: 'email', payload: { version: 1 }, config }),
+        id: 'existing-job',
+      };
+      stored = [existing];
+
+      const { job, deduplicated } = await useCase.execute({
+        type: 'email',
+        payload: { version: 2 },
+        config,
+      });
+
+      expect(deduplicated).toBe(true);
+      expect(job.id).toBe('existing-job');
+      expect(job.payload).toEqual({ version: 2 });
+      expect(job.eligible_at).toBeGreaterThanOrEqual(existing.eligible_at);
+      expect(mockRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should create a job when the debounced job already started', async () => {
+      const config = { debounce: { key: 'user-1', window: 5000 } };
+      const existing = {
+        ...JobFactory.createJob({ type: 'email', payload: { version: 1 }, config }),
+        id: 'existing-job',
+      };
+      stored = [JobFactory.startJob(existing)];
+      mockRepository.save.mockImplementation(async (job) => job);
+
+      const { job, deduplicated } = await useCase.execute({
+        type: 'email',
+        payload: { version: 2 },
+        config,
+      });
+
+      expect(deduplicated).toBe(false);
+      expect(job.id).not.toBe('existing-job');
+      expect(job.payload).toEqual({ version: 2 });
+      expect(mockRepository.save).toHaveBeenCalledWith(job);
+    });
+
+    it('should drop a throttled submission inside the window', async () => {
+      const config = { throttle: { key: 'user-1', window: 60000 } };
+      const existing = {
+        ...JobFactory.createJob({ type: 'email', payload: { version: 1 }, config }),
+        id: 'existing-job',
+      };
+      stored = [existing];
+
+      const submission = await useCase.execute({ type: 'email', payload: { version: 2 }, config });
+
+      expect(submission).toEqual({ job: existing, deduplicated: true });
+      expect(mockRepository.save).not.toHaveBeenCalled();
+    });
+  });
+});
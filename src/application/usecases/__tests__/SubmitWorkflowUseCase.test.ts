@@ -0,0 +1,82 @@
+import { SubmitWorkflowUseCase } from '../SubmitWorkflowUseCase';
+import { JobHandlerRegistry } from '../../services/JobHandlerRegistry';
+import { DependencyResolver } from '../../services/DependencyResolver';
+import { Job } from '../../../domain/entities/Job';
+import { JobFactory } from '../../../domain/factories/JobFactory';
+import { JobStatus } from '../../../domain/value-objects/JobStatus';
+import { createSuccessResult } from '../../../domain/value-objects/JobResult';
+import { WorkflowData } from '../../../domain/entities/Workflow';
+import { InMemoryJobRepository } from '../../../infrastructure/repositories/InMemoryJobRepository';
+import { InMemoryWorkflowRepository } from '../../../infrastructure/repositories/InMemoryWorkflowRepository';
+
+jest.mock('uuid', () => {
+  let counter = 0;
+  return {
+    v4: jest.fn(() => `test-uuid-${String(counter++ % 10000).padStart(4, '0')}`),
+  };
+});
+
+describe('SubmitWorkflowUseCase', () => {
+  let repository: InMemoryJobRepository;
+  let workflowRepository: InMemoryWorkflowRepository;
+  let resolver: DependencyResolver;
+  let useCase: SubmitWorkflowUseCase;
+
+  const workflowData: WorkflowData = {
+    steps: [
+      { key: 'invoice', type: 'task', payload: { n: 1 } },
+      {
+        key: 'email',
+        type: 'task',
+        payload: { n: 2 },
+        depends_on: [{ key: 'invoice' }],
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    repository = new InMemoryJobRepository();
+    workflowRepository = new InMemoryWorkflowRepository();
+    resolver = new DependencyResolver(repository);
+
+    const handlerRegistry = new JobHandlerRegistry();
+    handlerRegistry.register('task', { handle: jest.fn() });
+
+    useCase = new SubmitWorkflowUseCase(repository, workflowRepository, handlerRegistry, resolver);
+  });
+
+  it('should create nothing when a step has an unknown type', async () => {
+    await expect(
+      useCase.execute({
+        steps: [...workflowData.steps, { key: 'fax', type: 'fax', payload: { n: 3 } }],
+      })
+    ).rejects.toThrow("Unknown job type 'fax' in workflow step 'fax'");
+
+    expect(await repository.count()).toBe(0);
+    expect(await workflowRepository.findAll()).toEqual([]);
+  });
+
+  it('should release a step whose parent finished before the step was saved', async () => {
+    const save = repository.save.bind(repository);
+
+    // A worker picks up the root as soon as it is saved and finishes it right away
+    jest.spyOn(repository, 'save').mockImplementation(async (job: Job) => {
+      await save(job);
+
+      if (job.status === JobStatus.PENDING && job.depends_on.length === 0) {
+        const completed = JobFactory.completeJob(
+          JobFactory.startJob(job),
+          createSuccessResult('ok')
+        );
+        await save(completed);
+        await resolver.resolveDependents(completed);
+      }
+      return job;
+    });
+
+    const { jobs } = await useCase.execute(workflowData);
+
+    expect(jobs[1].status).toBe(JobStatus.PENDING);
+    expect((await repository.findById(jobs[1].id))?.status).toBe(JobStatus.PENDING);
+  });
+});
@@ -1,3 +1,24 @@
 export * from './SubmitJobUseCase';
 export * from './GetJobStatusUseCase';
-export * from './CancelJobUseCase';
\ No newline at end of file
+export * from './CancelJobUseCase';
+export * from './GetJobLogsUseCase';
+export * from './FollowJobLogsUseCase';
+export * from './ListDeadLettersUseCase';
+export * from './GetDeadLetterUseCase';
+export * from './ReplayDeadLetterUseCase';
+export * from './PurgeDeadLettersUseCase';
+export * from './GetJobTypeLimitsUseCase';
+export * from './CreateScheduleUseCase';
+export * from './ListSchedulesUseCase';
+export * from './GetScheduleUseCase';
+export * from './GetUpcomingFireTimesUseCase';
+export * from './PauseScheduleUseCase';
+export * from './ResumeScheduleUseCase';
+export * from './DeleteScheduleUseCase';
+export * from './SubmitWorkflowUseCase';
+export * from './GetWorkflowUseCase';
+export * from './SubmitChainUseCase';
+export * from './GetChainUseCase';
+export * from './CancelChainUseCase';
+export * from './SubmitBatchUseCase';
+export * from './GetBatchUseCase';
\ No newline at end of file
@@ -0,0 +1,66 @@
+import { BatchFactory } from '../factories/BatchFactory';
+import { JobFactory } from '../factories/JobFactory';
+
+jest.mock('uuid', () => {
+  let counter = 0;
+  return {
+    v4: jest.fn(() => `test-uuid-${String(counter++ % 10000).padStart(4, '0')}`),
+  };
+});
+
+describe('BatchFactory', () => {
+  const members = () => [
+    JobFactory.createJob({ type: 'email', payload: { n: 1 } }),
+    JobFactory.createJob({ type: 'email', payload: { n: 2 } }),
+  ];
+
+  describe('createBatch', () => {
+    it('should tag every member with the batch id', () => {
+      const { batch, jobs } = BatchFactory.createBatch(members());
+
+      expect(batch.job_ids).toEqual(jobs.map((job) => job.id));
+      expect(batch.finished_count).toBe(0);
+      expect(jobs.every((job) => job.batch_id === batch.id)).toBe(true);
+    });
+
+    it('should reject empty batches and invalid callbacks', () => {
+      expect(() => BatchFactory.createBatch([])).toThrow('Batch must contain at least one job');
+      expect(() =>
+        BatchFactory.createBatch(members(), { type: 'report', payload: {} })
+      ).toThrow('Payload cannot be empty');
+    });
+  });
+
+  describe('recordFinished', () => {
+    it('should finish the batch with its last member', () => {
+      const { batch } = BatchFactory.createBatch(members());
+
+      const once = BatchFactory.recordFinished(batch);
+      expect(BatchFactory.getStatus(once)).toBe('running');
+      expect(once.finished_at).toBeUndefined();
+
+      const twice = BatchFactory.recordFinished(once);
+      expect(BatchFactory.getStatus(twice)).toBe('finished');
+      expect(twice.finished_at).toBeDefined();
+
+      expect(() => BatchFactory.recordFinished(twice)).toThrow(
+        `Batch ${batch.id} has already finished`
+      );
+    });
+  });
+
+  describe('createCallbackJob', () => {
+    it('should add the batch id to the callback payload', () => {
+      const { batch } = BatchFactory.createBatch(members(), {
+        type: 'report',
+        payload: { channel: 'ops' },
+      });
+
+      const job = BatchFactory.createCallbackJob(batch);
+
+      expect(job.type).toBe('report');
+      expect(job.payload).toEqual({ channel: 'ops', batch_id: batch.id });
+      expect(job.batch_id).toBeUndefined();
+    });
+  });
+});
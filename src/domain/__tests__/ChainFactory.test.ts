@@ -0,0 +1,174 @@
+import { ChainFactory } from '../factories/ChainFactory';
+import { JobFactory } from '../factories/JobFactory';
+import { JobStatus } from '../value-objects/JobStatus';
+import { pipeResultData } from '../value-objects/PayloadPipe';
+import { createErrorResult, createSuccessResult } from '../value-objects/JobResult';
+import { Job } from '../entities/Job';
+
+jest.mock('uuid', () => {
+  let counter = 0;
+  return {
+    v4: jest.fn(() => `test-uuid-${String(counter++ % 10000).padStart(4, '0')}`),
+  };
+});
+
+describe('ChainFactory', () => {
+  const complete = (job: Job, data?: any) =>
+    JobFactory.completeJob(JobFactory.startJob(job), createSuccessResult('ok', data));
+
+  describe('createChain', () => {
+    it('should block every step on the previous one and pipe its result', () => {
+      const { chain, jobs } = ChainFactory.createChain({
+        name: 'signup',
+        steps: [
+          { type: 'provision', payload: { user: 1 } },
+          { type: 'email', payload: { template: 'welcome' } },
+          { type: 'sms', payload: { text: 'Hi {{result.name}}' }, pipe: 'template' },
+        ],
+      });
+
+      expect(chain.job_ids).toEqual(jobs.map((job) => job.id));
+      expect(jobs.map((job) => job.status)).toEqual([
+        JobStatus.PENDING,
+        JobStatus.BLOCKED,
+        JobStatus.BLOCKED,
+      ]);
+      expect(jobs[0].pipe).toBeUndefined();
+      expect(jobs[1].pipe).toEqual({ job_id: jobs[0].id, mode: 'merge' });
+      expect(jobs[2].pipe).toEqual({ job_id: jobs[1].id, mode: 'template' });
+      expect(jobs[2].depends_on).toEqual([{ job_id: jobs[1].id, on_failure: 'cancel' }]);
+      expect(jobs.every((job) => job.chain_id === chain.id)).toBe(true);
+    });
+
+    it('should reject empty chains and unknown pipe modes', () => {
+      expect(() => ChainFactory.createChain({ steps: [] })).toThrow(
+        'Chain must contain at least one step'
+      );
+      expect(() =>
+        ChainFactory.createChain({
+          pipe: 'append' as any,
+          steps: [{ type: 'email', payload: { to: 'a' } }],
+        })
+      ).toThrow('Pipe mode must be one of: merge, template');
+    });
+  });
+
+  describe('advanceChain', () => {
+    it('should merge the previous result data into the payload', () => {
+      const { jobs } = ChainFactory.createChain({
+        steps: [
+          { type: 'provision', payload: { user: 1 } },
+          { type: 'email', payload: { template: 'welcome', user: 0 } },
+        ],
+      });
+      const first = complete(jobs[0], { user: 42, email: 'a@example.com' });
+
+      const next = ChainFactory.advanceChain(first, jobs[1]);
+
+      expect(next.status).toBe(JobStatus.PENDING);
+      expect(next.payload).toEqual({ template: 'welcome', user: 42, email: 'a@example.com' });
+      expect(next.pipe).toEqual(jobs[1].pipe);
+    });
+
+    it('should require a successful result to pipe', () => {
+      const { jobs } = ChainFactory.createChain({
+        steps: [
+          { type: 'provision', payload: { user: 1 } },
+          { type: 'email', payload: { template: 'welcome' } },
+        ],
+      });
+      const failed = JobFactory.failJob(JobFactory.startJob(jobs[0]), createErrorResult('boom', 500));
+
+      expect(() => ChainFactory.advanceChain(failed, jobs[1])).toThrow(
+        `Chain step ${jobs[0].id} has no successful result to pipe`
+      );
+    });
+
+    it('should only advance to the step after the completed one', () => {
+      const { jobs } = ChainFactory.createChain({
+        steps: [
+          { type: 'provision', payload: { user: 1 } },
+          { type: 'email', payload: { template: 'welcome' } },
+          { type: 'audit', payload: { kind: 'signup' } },
+        ],
+      });
+
+      expect(() => ChainFactory.advanceChain(complete(jobs[0]), jobs[2])).toThrow(
+        `Job ${jobs[2].id} is not the step after ${jobs[0].id}`
+      );
+    });
+  });
+
+  describe('getStatus', () => {
+    const { chain, jobs } = ChainFactory.createChain({
+      steps: [
+        { type: 'provision', payload: { user: 1 } },
+        { type: 'email', payload: { template: 'welcome' } },
+      ],
+    });
+
+    it('should be running until every step is terminal', () => {
+      expect(ChainFactory.getStatus(chain, jobs)).toBe('running');
+    });
+
+    it('should be completed when every step completed', () => {
+      const first = complete(jobs[0], { user: 1 });
+      const second = complete(JobFactory.unblockJob(jobs[1], first.result));
+
+      expect(ChainFactory.getStatus(chain, [first, second])).toBe('completed');
+    });
+
+    it('should be failed when a step did not complete', () => {
+      const first = JobFactory.failJob(JobFactory.startJob(jobs[0]), createErrorResult('boom', 500));
+      const second = JobFactory.abandonJob(jobs[1], first.id);
+
+      expect(ChainFactory.getStatus(chain, [first, second])).toBe('failed');
+    });
+
+    it('should be cancelled once cancelled as a unit', () => {
+      const cancelled = ChainFactory.cancelChain(chain, jobs);
+
+      expect(ChainFactory.getStatus(cancelled, jobs)).toBe('cancelled');
+      expect(() => ChainFactory.cancelChain(cancelled, jobs)).toThrow(
+        'Cannot cancel chain in cancelled status'
+      );
+    });
+  });
+});
+
+describe('pipeResultData', () => {
+  it('should store non-object data under result when merging', () => {
+    expect(pipeResultData({ a: 1 }, 'text', 'merge')).toEqual({ a: 1, result: 'text' });
+    expect(pipeResultData({ a: 1 }, undefined, 'merge')).toEqual({ a: 1 });
+  });
+
+  it('should keep the type of whole-string placeholders', () => {
+    const payload = pipeResultData(
+      { id: '{{result.user.id}}', all: '{{ result }}', tags: ['{{result.user.tags}}'] },
+      { user: { id: 42, tags: ['a'] } },
+      'template'
+    );
+
+    expect(payload).toEqual({
+      id: 42,
+      all: { user: { id: 42, tags: ['a'] } },
+      tags: [['a']],
+    });
+  });
+
+  it('should interpolate placeholders inside longer strings', () => {
+    const payload = pipeResultData(
+      { text: 'User {{result.name}} has {{result.roles}}' },
+      { name: 'Ana', roles: ['admin'] },
+      'template'
+    );
+
+    expect(payload).toEqual({ text: 'User Ana has ["admin"]' });
+  });
+
+  it('should reject placeholders without a value', () => {
+    expect(() => pipeResultData({ id: '{{result.user.id}}' }, { user: {} }, 'template')).toThrow(
+      "Result has no value at 'result.user.id'"
+    );
+  });
+});
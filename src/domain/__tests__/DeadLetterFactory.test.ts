@@ -0,0 +1,103 @@
+import { DeadLetterFactory } from '../factories/DeadLetterFactory';
+import { JobFactory } from '../factories/JobFactory';
+import { JobStatus } from '../value-objects/JobStatus';
+import { createErrorResult, createSuccessResult } from '../value-objects/JobResult';
+
+jest.mock('uuid', () => {
+  let counter = 0;
+  return {
+    v4: jest.fn(() => `test-uuid-${String(counter++ % 10000).padStart(4, '0')}`),
+  };
+});
+
+describe('DeadLetterFactory', () => {
+  function createFailedJob() {
+    const job = JobFactory.createJob({
+      type: 'email',
+      payload: { to: 'test@example.com' },
+      config: { delay: 5000 },
+    });
+    return JobFactory.failJob(JobFactory.startJob(job), createErrorResult('SMTP unavailable', 503));
+  }
+
+  describe('fromJob', () => {
+    it('should keep the failure reason and attempt history', () => {
+      const failedJob = createFailedJob();
+
+      const deadLetter = DeadLetterFactory.fromJob(failedJob);
+
+      expect(deadLetter.id).toBe(failedJob.id);
+      expect(deadLetter.job).toBe(failedJob);
+      expect(deadLetter.reason).toEqual({ message: 'SMTP unavailable', code: 503 });
+      expect(deadLetter.attempt_history).toHaveLength(1);
+      expect(deadLetter.dead_lettered_at).toBeDefined();
+      expect(deadLetter.replayed_job_ids).toEqual([]);
+    });
+
+    it('should accept timed-out jobs', () => {
+      const job = JobFactory.createJob({
+        type: 'email',
+        payload: { to: 'test@example.com' },
+      });
+      const timedOutJob = JobFactory.timeOutJob(
+        JobFactory.startJob(job),
+        createErrorResult('Job timed out after 1000ms', 408, { timeout: 1000 })
+      );
+
+      const deadLetter = DeadLetterFactory.fromJob(timedOutJob);
+
+      expect(deadLetter.reason).toMatchObject({ code: 408, details: { timeout: 1000 } });
+      expect(JobFactory.replayJob(timedOutJob).status).toBe(JobStatus.PENDING);
+    });
+
+    it('should throw error if job is not FAILED', () => {
+      const job = JobFactory.createJob({
+        type: 'email',
+        payload: { to: 'test@example.com' },
+      });
+      const completedJob = JobFactory.completeJob(
+        JobFactory.startJob(job),
+        createSuccessResult('Success')
+      );
+
+      expect(() => DeadLetterFactory.fromJob(completedJob)).toThrow(
+        'Cannot dead-letter job in completed status'
+      );
+    });
+  });
+
+  describe('markReplayed', () => {
+    it('should record the replayed job id', () => {
+      const deadLetter = DeadLetterFactory.fromJob(createFailedJob());
+
+      const replayed = DeadLetterFactory.markReplayed(deadLetter, 'new-job-id');
+
+      expect(replayed.replayed_job_ids).toEqual(['new-job-id']);
+      expect(deadLetter.replayed_job_ids).toEqual([]);
+    });
+  });
+
+  describe('JobFactory.replayJob', () => {
+    it('should create a new PENDING job linked to the original', () => {
+      const failedJob = createFailedJob();
+
+      const replayedJob = JobFactory.replayJob(failedJob);
+
+      expect(replayedJob.id).not.toBe(failedJob.id);
+      expect(replayedJob.status).toBe(JobStatus.PENDING);
+      expect(replayedJob.replayed_from).toBe(failedJob.id);
+      expect(replayedJob.payload).toEqual(failedJob.payload);
+      expect(replayedJob.attempts).toBe(0);
+      expect(replayedJob.eligible_at).toBe(replayedJob.created_at);
+    });
+
+    it('should throw error if job is not FAILED', () => {
+      const job = JobFactory.createJob({
+        type: 'email',
+        payload: { to: 'test@example.com' },
+      });
+
+      expect(() => JobFactory.replayJob(job)).toThrow('Cannot replay job in pending status');
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import {
+  DEFAULT_FAN_IN_POLICY,
+  FanInPolicy,
+  FanOutProgress,
+  evaluateFanIn,
+  normalizeFanInPolicy,
+} from '../value-objects/FanOut';
+
+describe('FanOut', () => {
+  const progress = (completed: number, failed: number, total = 4): FanOutProgress => ({
+    child_ids: Array.from({ length: total }, (_, i) => `child-${i}`),
+    completed,
+    failed,
+  });
+
+  describe('normalizeFanInPolicy', () => {
+    it('should default to fail_fast', () => {
+      expect(normalizeFanInPolicy()).toEqual(DEFAULT_FAN_IN_POLICY);
+    });
+
+    it('should require a ratio in (0, 1] for min_success_ratio', () => {
+      expect(normalizeFanInPolicy({ strategy: 'min_success_ratio', min_success_ratio: 0.5 })).toEqual({
+        strategy: 'min_success_ratio',
+        min_success_ratio: 0.5,
+      });
+      expect(() => normalizeFanInPolicy({ strategy: 'min_success_ratio' })).toThrow(
+        'Fan-in min_success_ratio must be a number in (0, 1]'
+      );
+      expect(() =>
+        normalizeFanInPolicy({ strategy: 'min_success_ratio', min_success_ratio: 1.5 })
+      ).toThrow('Fan-in min_success_ratio must be a number in (0, 1]');
+    });
+
+    it('should reject unknown strategies and stray ratios', () => {
+      expect(() => normalizeFanInPolicy({ strategy: 'majority' as any })).toThrow(
+        'Fan-in strategy must be one of'
+      );
+      expect(() => normalizeFanInPolicy({ min_success_ratio: 0.5 })).toThrow(
+        'Fan-in min_success_ratio is only allowed with the min_success_ratio strategy'
+      );
+    });
+  });
+
+  describe('evaluateFanIn', () => {
+    it('should fail fast on the first failed child', () => {
+      const policy: FanInPolicy = { strategy: 'fail_fast' };
+
+      expect(evaluateFanIn(policy, progress(2, 0))).toBe('waiting');
+      expect(evaluateFanIn(policy, progress(1, 1))).toBe('fail');
+      expect(evaluateFanIn(policy, progress(4, 0))).toBe('reduce');
+    });
+
+    it('should wait for every child with best_effort', () => {
+      const policy: FanInPolicy = { strategy: 'best_effort' };
+
+      expect(evaluateFanIn(policy, progress(0, 3))).toBe('waiting');
+      expect(evaluateFanIn(policy, progress(0, 4))).toBe('reduce');
+    });
+
+    it('should fail once the minimum success ratio is out of reach', () => {
+      const policy: FanInPolicy = { strategy: 'min_success_ratio', min_success_ratio: 0.75 };
+
+      expect(evaluateFanIn(policy, progress(1, 1))).toBe('waiting');
+      expect(evaluateFanIn(policy, progress(3, 1))).toBe('reduce');
+      expect(evaluateFanIn(policy, progress(1, 2))).toBe('fail');
+    });
+  });
+});
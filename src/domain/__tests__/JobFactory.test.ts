@@ -2,6 +2,7 @@ import { JobFactory } from '../factories/JobFactory';
 import { JobStatus } from '../value-objects/JobStatus';
 import { JobData } from '../entities/Job';
 import { createSuccessResult, createErrorResult } from '../value-objects/JobResult';
+import { createJobProgress } from '../value-objects/JobProgress';
 
 jest.mock('uuid', () => ({
   v4: jest.fn(() => 'test-uuid-1234'),
@@ -61,6 +62,22 @@ describe('JobFactory', () => {
       expect(() => JobFactory.createJob(jobData)).toThrow('Payload must be a valid object');
     });
 
+    it('should default priority to 0 and accept custom priorities', () => {
+      expect(JobFactory.createJob({ type: 'email', payload: { a: 1 } }).config.priority).toBe(0);
+      expect(
+        JobFactory.createJob({ type: 'email', payload: { a: 1 }, config: { priority: 10 } }).config.priority
+      ).toBe(10);
+    });
+
+    it('should throw error if priority is out of range', () => {
+      expect(() =>
+        JobFactory.createJob({ type: 'email', payload: { a: 1 }, config: { priority: 101 } })
+      ).toThrow('Priority must be an integer between -100 and 100');
+      expect(() =>
+        JobFactory.createJob({ type: 'email', payload: { a: 1 }, config: { priority: 1.5 } })
+      ).toThrow('Priority must be an integer between -100 and 100');
+    });
+
     it('should throw error if delay is negative', () => {
 
       const jobData: JobData = {
@@ -71,6 +88,208 @@ describe('JobFactory', () => {
 
       expect(() => JobFactory.createJob(jobData)).toThrow('Delay must be a non-negative number');
     });
+
+    describe('run_at', () => {
+      const now = new Date('2024-01-01T00:00:00Z').getTime();
+      const HOUR = 60 * 60 * 1000;
+
+      beforeEach(() => {
+        jest.useFakeTimers();
+        jest.setSystemTime(now);
+      });
+
+      afterEach(() => {
+        jest.useRealTimers();
+      });
+
+      it('should use run_at as eligible_at', () => {
+        const job = JobFactory.createJob({
+          type: 'email',
+          payload: { to: 'test@example.com' },
+          config: { run_at: now + 9 * HOUR },
+        });
+
+        expect(job.eligible_at).toBe(now + 9 * HOUR);
+        expect(job.config.run_at).toBe(now + 9 * HOUR);
+        expect(job.config.delay).toBe(0);
+      });
+
+      it('should reject run_at combined with delay', () => {
+        expect(() =>
+          JobFactory.createJob({
+            type: 'email',
+            payload: { to: 'test@example.com' },
+            config: { delay: 1000, run_at: now + HOUR },
+          })
+        ).toThrow('Delay and run_at are mutually exclusive');
+      });
+
+      it('should accept a slightly past run_at and reject older ones', () => {
+        const job = JobFactory.createJob({
+          type: 'email',
+          payload: { to: 'test@example.com' },
+          config: { run_at: now - 1000 },
+        });
+
+        expect(JobFactory.isEligible(job)).toBe(true);
+        expect(() =>
+          JobFactory.createJob({
+            type: 'email',
+            payload: { to: 'test@example.com' },
+            config: { run_at: now - HOUR },
+          })
+        ).toThrow('Run at must not be more than 60000ms in the past');
+      });
+
+      it('should reject run_at beyond the future horizon', () => {
+        expect(() =>
+          JobFactory.createJob({
+            type: 'email',
+            payload: { to: 'test@example.com' },
+            config: { run_at: now + 400 * 24 * HOUR },
+          })
+        ).toThrow('Run at must be within 365 days from now');
+      });
+
+      it('should make replayed jobs eligible immediately', () => {
+        const job = JobFactory.createJob({
+          type: 'email',
+          payload: { to: 'test@example.com' },
+          config: { run_at: now + HOUR },
+        });
+        jest.setSystemTime(now + HOUR);
+        const failedJob = JobFactory.failJob(
+          JobFactory.startJob(job),
+          createErrorResult('SMTP unavailable', 503)
+        );
+
+        jest.setSystemTime(now + 2 * HOUR);
+        const replayed = JobFactory.replayJob(failedJob);
+
+        expect(replayed.config.run_at).toBeUndefined();
+        expect(replayed.eligible_at).toBe(now + 2 * HOUR);
+      });
+    });
+
+    describe('expiration', () => {
+      const now = new Date('2024-01-01T00:00:00Z').getTime();
+
+      beforeEach(() => {
+        jest.useFakeTimers();
+        jest.setSystemTime(now);
+      });
+
+      afterEach(() => {
+        jest.useRealTimers();
+      });
+
+      it('should resolve ttl into an expires_at deadline', () => {
+        const job = JobFactory.createJob({
+          type: 'sms',
+          payload: { code: '123456' },
+          config: { ttl: 60000 },
+        });
+
+        expect(job.config.expires_at).toBe(now + 60000);
+        expect(job.config.ttl).toBe(60000);
+      });
+
+      it('should reject deadlines that fall before the job becomes eligible', () => {
+        expect(() =>
+          JobFactory.createJob({
+            type: 'sms',
+            payload: { code: '123456' },
+            config: { delay: 5000, ttl: 5000 },
+          })
+        ).toThrow('Expires at must be later than the time the job becomes eligible');
+        expect(() =>
+          JobFactory.createJob({
+            type: 'sms',
+            payload: { code: '123456' },
+            config: { expires_at: now + 1000, ttl: 1000 },
+          })
+        ).toThrow('Expires at and ttl are mutually exclusive');
+      });
+
+      it('should expire an unstarted job once its deadline passes', () => {
+        const job = JobFactory.createJob({
+          type: 'sms',
+          payload: { code: '123456' },
+          config: { expires_at: now + 60000 },
+        });
+
+        expect(() => JobFactory.expireJob(job, now + 59999)).toThrow(
+          'has not reached its expiration deadline'
+        );
+
+        const expiredJob = JobFactory.expireJob(job, now + 60000);
+
+        expect(expiredJob.status).toBe(JobStatus.EXPIRED);
+        expect(expiredJob.result).toEqual({
+          message: 'Job expired before it could start (deadline 2024-01-01T00:01:00.000Z)',
+          code: 410,
+          details: { expires_at: now + 60000 },
+        });
+        expect(expiredJob.finished_at).toBe(now + 60000);
+        expect(JobFactory.isTerminal(expiredJob)).toBe(true);
+        expect(() => JobFactory.expireJob(JobFactory.startJob(job), now + 60000)).toThrow(
+          'Cannot expire job in running status'
+        );
+      });
+
+      it('should not expire a job waiting for a retry', () => {
+        const job = JobFactory.createJob({
+          type: 'sms',
+          payload: { code: '123456' },
+          config: { expires_at: now + 60000 },
+        });
+        const retried = JobFactory.retryJob(
+          JobFactory.startJob(job),
+          createErrorResult('Gateway unavailable', 503)
+        );
+
+        expect(JobFactory.canExpire(job)).toBe(true);
+        expect(JobFactory.canExpire(retried)).toBe(false);
+        expect(() => JobFactory.expireJob(retried, now + 60000)).toThrow('it has already started');
+      });
+
+      it('should restart the ttl of replayed jobs', () => {
+        const job = JobFactory.createJob({
+          type: 'sms',
+          payload: { code: '123456' },
+          config: { ttl: 60000 },
+        });
+        const failedJob = JobFactory.failJob(
+          JobFactory.startJob(job),
+          createErrorResult('Gateway unavailable', 503)
+        );
+
+        jest.setSystemTime(now + 120000);
+        const replayed = JobFactory.replayJob(failedJob);
+
+        expect(replayed.config.expires_at).toBe(now + 180000);
+      });
+
+      it('should drop a passed absolute deadline from replayed jobs', () => {
+        const job = JobFactory.createJob({
+          type: 'sms',
+          payload: { code: '123456' },
+          config: { expires_at: now + 60000 },
+        });
+        const failedJob = JobFactory.failJob(
+          JobFactory.startJob(job),
+          createErrorResult('Gateway unavailable', 503)
+        );
+
+        expect(JobFactory.replayJob(failedJob).config.expires_at).toBe(now + 60000);
+
+        jest.setSystemTime(now + 120000);
+        const replayed = JobFactory.replayJob(failedJob);
+
+        expect(replayed.status).toBe(JobStatus.PENDING);
+        expect(replayed.config.expires_at).toBeUndefined();
+      });
+    });
   });
 
   describe('startJob', () => {
@@ -86,6 +305,7 @@ describe('JobFactory', () => {
 
       expect(runningJob.status).toBe(JobStatus.RUNNING);
       expect(runningJob.started_at).toBeDefined();
+      expect(runningJob.attempts).toBe(1);
     });
 
     it('should throw error if job is not PENDING', () => {
@@ -185,6 +405,120 @@ describe('JobFactory', () => {
     });
   });
 
+  describe('retryJob', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+      jest.setSystemTime(new Date('2024-01-01'));
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should allow retries while attempts remain and the code is retryable', () => {
+      const job = JobFactory.createJob({
+        type: 'email',
+        payload: { to: 'test@example.com' },
+        config: { retry: { max_attempts: 2 } },
+      });
+      const runningJob = JobFactory.startJob(job);
+
+      expect(JobFactory.canRetry(runningJob, createErrorResult('SMTP timeout', 503))).toBe(true);
+      expect(JobFactory.canRetry(runningJob, createErrorResult('Invalid address', 400))).toBe(false);
+    });
+
+    it('should not allow retries once max_attempts is reached', () => {
+      const job = JobFactory.createJob({
+        type: 'email',
+        payload: { to: 'test@example.com' },
+      });
+      const runningJob = JobFactory.startJob(job);
+
+      expect(JobFactory.canRetry(runningJob, createErrorResult('SMTP timeout', 503))).toBe(false);
+    });
+
+    it('should move the job back to PENDING with a backoff eligible_at', () => {
+      const job = JobFactory.createJob({
+        type: 'email',
+        payload: { to: 'test@example.com' },
+        config: { retry: { max_attempts: 3, backoff: 'fixed', initial_delay: 2000 } },
+      });
+      const runningJob = JobFactory.startJob(job);
+      const errorResult = createErrorResult('SMTP timeout', 503);
+
+      const retriedJob = JobFactory.retryJob(runningJob, errorResult);
+
+      expect(retriedJob.status).toBe(JobStatus.PENDING);
+      expect(retriedJob.eligible_at).toBe(Date.now() + 2000);
+      expect(retriedJob.started_at).toBeUndefined();
+      expect(retriedJob.result).toBeUndefined();
+      expect(retriedJob.attempts).toBe(1);
+      expect(retriedJob.attempt_history).toHaveLength(1);
+      expect(retriedJob.attempt_history[0]).toMatchObject({
+        attempt: 1,
+        status: JobStatus.FAILED,
+        result: errorResult,
+      });
+    });
+
+    it('should keep the full attempt history across retries', () => {
+      const job = JobFactory.createJob({
+        type: 'email',
+        payload: { to: 'test@example.com' },
+        config: { retry: { max_attempts: 2, initial_delay: 0 } },
+      });
+
+      const retriedJob = JobFactory.retryJob(
+        JobFactory.startJob(job),
+        createErrorResult('SMTP timeout', 503)
+      );
+      const completedJob = JobFactory.completeJob(
+        JobFactory.startJob(retriedJob),
+        createSuccessResult('Email sent successfully!')
+      );
+
+      expect(completedJob.attempts).toBe(2);
+      expect(completedJob.attempt_history.map((a) => a.status)).toEqual([
+        JobStatus.FAILED,
+        JobStatus.COMPLETED,
+      ]);
+    });
+
+    it('should throw error if job is not RUNNING', () => {
+      const job = JobFactory.createJob({
+        type: 'email',
+        payload: { to: 'test@example.com' },
+      });
+
+      expect(() => JobFactory.retryJob(job, createErrorResult('Error', 500))).toThrow(
+        'Cannot retry job in pending status'
+      );
+    });
+  });
+
+  describe('requestCancellation', () => {
+    it('should keep the first request and only ever add force', () => {
+      const runningJob = JobFactory.startJob(
+        JobFactory.createJob({ type: 'email', payload: { to: 'test@example.com' } })
+      );
+
+      const requested = JobFactory.requestCancellation(runningJob, true);
+      const again = JobFactory.requestCancellation(requested);
+
+      expect(requested.status).toBe(JobStatus.RUNNING);
+      expect(again.cancel_request).toEqual(requested.cancel_request);
+      expect(again.cancel_request?.force).toBe(true);
+    });
+
+    it('should throw error if job is not RUNNING', () => {
+      const job = JobFactory.createJob({ type: 'email', payload: { to: 'test@example.com' } });
+
+      expect(() => JobFactory.requestCancellation(job)).toThrow(
+        'Cannot request cancellation of job in pending status'
+      );
+    });
+  });
+
   describe('cancelJob', () => {
     it('should transition job from PENDING to CANCELLED', () => {
 
@@ -213,6 +547,117 @@ describe('JobFactory', () => {
         'Cannot cancel job in running status'
       );
     });
+
+    it('should cancel a RUNNING job with an attempt record', () => {
+      const runningJob = JobFactory.startJob(
+        JobFactory.createJob({ type: 'email', payload: { to: 'test@example.com' } })
+      );
+      const result = createErrorResult('Job was cancelled while running', 499);
+
+      const cancelledJob = JobFactory.cancelRunningJob(runningJob, result);
+
+      expect(cancelledJob.status).toBe(JobStatus.CANCELLED);
+      expect(cancelledJob.execution_time).toBeDefined();
+      expect(cancelledJob.attempt_history).toHaveLength(1);
+      expect(cancelledJob.attempt_history[0]).toMatchObject({ status: JobStatus.CANCELLED, result });
+      expect(() => JobFactory.cancelRunningJob(cancelledJob, result)).toThrow(
+        'Cannot cancel job in cancelled status'
+      );
+    });
+  });
+
+  describe('progress', () => {
+    it('should record progress on a RUNNING job and reset it on the next attempt', () => {
+      const job = JobFactory.createJob({
+        type: 'export',
+        payload: { table: 'orders' },
+        config: { retry: { max_attempts: 2 } },
+      });
+      const progress = createJobProgress(40, 'Exporting', { rows: 400 });
+
+      const reported = JobFactory.updateProgress(JobFactory.startJob(job), progress);
+      expect(reported.progress).toEqual(progress);
+
+      const retried = JobFactory.retryJob(reported, createErrorResult('Unavailable', 503));
+      expect(retried.progress).toEqual(progress);
+
+      expect(JobFactory.startJob(retried).progress).toBeUndefined();
+      expect(() => JobFactory.updateProgress(retried, progress)).toThrow(
+        'Cannot report progress of job in pending status'
+      );
+    });
+
+    it('should validate progress reports', () => {
+      expect(() => createJobProgress(-1)).toThrow('Progress percent must be a number between 0 and 100');
+      expect(() => createJobProgress(NaN)).toThrow('Progress percent must be a number between 0 and 100');
+      expect(() => createJobProgress(10, 42 as any)).toThrow('Progress message must be a string');
+      expect(() => createJobProgress(10, 'ok', [] as any)).toThrow('Progress data must be an object');
+    });
+  });
+
+  describe('dependencies', () => {
+    const blockedData: JobData = {
+      type: 'email',
+      payload: { to: 'test@example.com' },
+      config: { delay: 5000 },
+      depends_on: [{ job_id: 'parent-1' }, { job_id: 'parent-2', on_failure: 'skip' }],
+    };
+
+    it('should create jobs with dependencies as BLOCKED', () => {
+      const job = JobFactory.createJob(blockedData);
+
+      expect(job.status).toBe(JobStatus.BLOCKED);
+      expect(job.depends_on).toEqual([
+        { job_id: 'parent-1', on_failure: 'cancel' },
+        { job_id: 'parent-2', on_failure: 'skip' },
+      ]);
+    });
+
+    it('should reject duplicated dependencies', () => {
+      expect(() =>
+        JobFactory.createJob({
+          ...blockedData,
+          depends_on: [{ job_id: 'parent-1' }, { job_id: 'parent-1' }],
+        })
+      ).toThrow('Dependency on job parent-1 is listed more than once');
+    });
+
+    it('should apply the delay from the moment the job is unblocked', () => {
+      const job = JobFactory.createJob(blockedData);
+      const before = Date.now();
+
+      const unblockedJob = JobFactory.unblockJob(job);
+
+      expect(unblockedJob.status).toBe(JobStatus.PENDING);
+      expect(unblockedJob.eligible_at).toBeGreaterThanOrEqual(before + 5000);
+    });
+
+    it('should settle an abandoned job according to the dependency policy', () => {
+      const job = JobFactory.createJob(blockedData);
+
+      const cancelledJob = JobFactory.abandonJob(job, 'parent-1');
+      const skippedJob = JobFactory.abandonJob(job, 'parent-2');
+
+      expect(cancelledJob.status).toBe(JobStatus.CANCELLED);
+      expect(skippedJob.status).toBe(JobStatus.SKIPPED);
+      expect(skippedJob.result).toMatchObject({
+        message: 'Dependency parent-2 did not complete',
+        code: 424,
+      });
+      expect(JobFactory.isTerminal(skippedJob)).toBe(true);
+    });
+
+    it('should allow cancelling a BLOCKED job', () => {
+      const job = JobFactory.createJob(blockedData);
+
+      expect(JobFactory.cancelJob(job).status).toBe(JobStatus.CANCELLED);
+    });
+
+    it('should throw error when unblocking a job that is not BLOCKED', () => {
+      const job = JobFactory.createJob({ type: 'email', payload: { to: 'test@example.com' } });
+
+      expect(() => JobFactory.unblockJob(job)).toThrow('Cannot unblock job in pending status');
+    });
   });
 
   describe('isEligible', () => {
@@ -0,0 +1,107 @@
+import {
+  DEFAULT_RETRY_POLICY,
+  RetryPolicy,
+  computeRetryDelay,
+  isRetryableError,
+  normalizeRetryPolicy,
+} from '../value-objects/RetryPolicy';
+import { createErrorResult } from '../value-objects/JobResult';
+
+describe('RetryPolicy', () => {
+  describe('normalizeRetryPolicy', () => {
+    it('should return defaults when no policy is given', () => {
+      expect(normalizeRetryPolicy()).toEqual(DEFAULT_RETRY_POLICY);
+    });
+
+    it('should merge partial policies with defaults', () => {
+      const policy = normalizeRetryPolicy({ max_attempts: 5, backoff: 'linear' });
+
+      expect(policy.max_attempts).toBe(5);
+      expect(policy.backoff).toBe('linear');
+      expect(policy.initial_delay).toBe(DEFAULT_RETRY_POLICY.initial_delay);
+      expect(policy.retryable_codes).toEqual(DEFAULT_RETRY_POLICY.retryable_codes);
+    });
+
+    it('should raise the default max_delay when initial_delay exceeds it', () => {
+      const policy = normalizeRetryPolicy({ initial_delay: 120000 });
+
+      expect(policy.max_delay).toBe(120000);
+    });
+
+    it('should reject invalid max_attempts', () => {
+      expect(() => normalizeRetryPolicy({ max_attempts: 0 })).toThrow(
+        'Retry max_attempts must be a positive integer'
+      );
+      expect(() => normalizeRetryPolicy({ max_attempts: 1.5 })).toThrow(
+        'Retry max_attempts must be a positive integer'
+      );
+    });
+
+    it('should reject unknown backoff strategies', () => {
+      expect(() => normalizeRetryPolicy({ backoff: 'random' as any })).toThrow(
+        'Retry backoff must be one of'
+      );
+    });
+
+    it('should reject max_delay lower than initial_delay', () => {
+      expect(() => normalizeRetryPolicy({ initial_delay: 5000, max_delay: 1000 })).toThrow(
+        'Retry max_delay must be greater than or equal to initial_delay'
+      );
+    });
+
+    it('should reject jitter outside [0, 1]', () => {
+      expect(() => normalizeRetryPolicy({ jitter: 1.5 })).toThrow(
+        'Retry jitter must be between 0 and 1'
+      );
+    });
+  });
+
+  describe('computeRetryDelay', () => {
+    const base: RetryPolicy = { ...DEFAULT_RETRY_POLICY, initial_delay: 1000, max_delay: 10000 };
+
+    it('should keep the same delay with fixed backoff', () => {
+      const policy: RetryPolicy = { ...base, backoff: 'fixed' };
+
+      expect(computeRetryDelay(policy, 1)).toBe(1000);
+      expect(computeRetryDelay(policy, 3)).toBe(1000);
+    });
+
+    it('should grow linearly with linear backoff', () => {
+      const policy: RetryPolicy = { ...base, backoff: 'linear' };
+
+      expect(computeRetryDelay(policy, 1)).toBe(1000);
+      expect(computeRetryDelay(policy, 3)).toBe(3000);
+    });
+
+    it('should double with exponential backoff', () => {
+      const policy: RetryPolicy = { ...base, backoff: 'exponential' };
+
+      expect(computeRetryDelay(policy, 1)).toBe(1000);
+      expect(computeRetryDelay(policy, 2)).toBe(2000);
+      expect(computeRetryDelay(policy, 3)).toBe(4000);
+    });
+
+    it('should cap the delay at max_delay', () => {
+      const policy: RetryPolicy = { ...base, backoff: 'exponential' };
+
+      expect(computeRetryDelay(policy, 10)).toBe(10000);
+    });
+
+    it('should apply jitter within the configured ratio', () => {
+      const policy: RetryPolicy = { ...base, backoff: 'fixed', jitter: 0.2 };
+
+      expect(computeRetryDelay(policy, 1, () => 0)).toBe(800);
+      expect(computeRetryDelay(policy, 1, () => 0.5)).toBe(1000);
+      expect(computeRetryDelay(policy, 1, () => 1)).toBe(1200);
+    });
+  });
+
+  describe('isRetryableError', () => {
+    it('should only retry configured codes', () => {
+      const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, retryable_codes: [503] };
+
+      expect(isRetryableError(policy, createErrorResult('Unavailable', 503))).toBe(true);
+      expect(isRetryableError(policy, createErrorResult('Bad request', 400))).toBe(false);
+    });
+  });
+});
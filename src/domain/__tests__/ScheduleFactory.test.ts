@@ -0,0 +1,197 @@
+import { ScheduleFactory } from '../factories/ScheduleFactory';
+import { ScheduleStatus } from '../value-objects/ScheduleStatus';
+import { Schedule } from '../entities/Schedule';
+
+jest.mock('uuid', () => {
+  let counter = 0;
+  return {
+    v4: jest.fn(() => `test-uuid-${String(counter++ % 10000).padStart(4, '0')}`),
+  };
+});
+
+const MINUTE = 60 * 1000;
+
+describe('ScheduleFactory', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2024-01-01T00:00:30Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  function createSchedule(overrides: Partial<Parameters<typeof ScheduleFactory.createSchedule>[0]> = {}) {
+    return ScheduleFactory.createSchedule({
+      cron: '*/5 * * * *',
+      job_type: 'report',
+      payload: { name: 'daily' },
+      ...overrides,
+    });
+  }
+
+  describe('createSchedule', () => {
+    it('should create an active schedule with its next fire time', () => {
+      const schedule = createSchedule();
+
+      expect(schedule.status).toBe(ScheduleStatus.ACTIVE);
+      expect(schedule.timezone).toBe('UTC');
+      expect(schedule.missed_run_policy).toBe('skip');
+      expect(schedule.next_run_at).toBe(Date.parse('2024-01-01T00:05:00Z'));
+    });
+
+    it('should evaluate the expression in the given timezone', () => {
+      const schedule = createSchedule({ cron: '0 9 * * *', timezone: 'America/New_York' });
+
+      expect(new Date(schedule.next_run_at).toISOString()).toBe('2024-01-01T14:00:00.000Z');
+    });
+
+    it('should reject invalid cron expressions', () => {
+      expect(() => createSchedule({ cron: 'every minute' })).toThrow(
+        "Cron expression 'every minute' is invalid"
+      );
+    });
+
+    it('should reject unknown timezones', () => {
+      expect(() => createSchedule({ timezone: 'Mars/Olympus' })).toThrow(
+        "Timezone 'Mars/Olympus' is not a valid IANA timezone"
+      );
+    });
+
+    it('should reject unknown missed-run policies', () => {
+      expect(() => createSchedule({ missed_run_policy: 'sometimes' as any })).toThrow(
+        'Missed run policy must be one of'
+      );
+    });
+
+    it('should validate the job config up front', () => {
+      expect(() => createSchedule({ config: { priority: 500 } })).toThrow(
+        'Priority must be an integer'
+      );
+      expect(() => createSchedule({ config: { run_at: Date.now() + MINUTE } })).toThrow(
+        'Schedule config cannot set run_at'
+      );
+    });
+  });
+
+  describe('pause and resume', () => {
+    it('should pause an active schedule', () => {
+      const paused = ScheduleFactory.pauseSchedule(createSchedule());
+
+      expect(paused.status).toBe(ScheduleStatus.PAUSED);
+      expect(() => ScheduleFactory.pauseSchedule(paused)).toThrow(
+        'Cannot pause schedule in paused status'
+      );
+    });
+
+    it('should resume from the next fire time after now', () => {
+      const paused = ScheduleFactory.pauseSchedule(createSchedule());
+      jest.advanceTimersByTime(12 * MINUTE);
+
+      const resumed = ScheduleFactory.resumeSchedule(paused);
+
+      expect(resumed.status).toBe(ScheduleStatus.ACTIVE);
+      expect(resumed.next_run_at).toBe(Date.parse('2024-01-01T00:15:00Z'));
+      expect(() => ScheduleFactory.resumeSchedule(resumed)).toThrow(
+        'Cannot resume schedule in active status'
+      );
+    });
+  });
+
+  describe('getUpcomingFireTimes', () => {
+    it('should list the next fire times starting at next_run_at', () => {
+      const upcoming = ScheduleFactory.getUpcomingFireTimes(createSchedule(), 3);
+
+      expect(upcoming.map((time) => new Date(time).toISOString())).toEqual([
+        '2024-01-01T00:05:00.000Z',
+        '2024-01-01T00:10:00.000Z',
+        '2024-01-01T00:15:00.000Z',
+      ]);
+    });
+  });
+
+  describe('planRuns', () => {
+    function overdue(policy: Schedule['missed_run_policy']) {
+      const schedule = createSchedule({ missed_run_policy: policy });
+      // Service was down from 00:05 until just after 00:20
+      jest.setSystemTime(new Date('2024-01-01T00:20:10Z'));
+      return schedule;
+    }
+
+    it('should not plan anything before next_run_at', () => {
+      const plan = ScheduleFactory.planRuns(createSchedule(), Date.now(), MINUTE, 100);
+
+      expect(plan.fire_times).toEqual([]);
+    });
+
+    it('should run an on-time fire and move to the next one', () => {
+      const schedule = createSchedule();
+      jest.setSystemTime(new Date('2024-01-01T00:05:00Z'));
+
+      const plan = ScheduleFactory.planRuns(schedule, Date.now(), MINUTE, 100);
+
+      expect(plan.fire_times).toEqual([Date.parse('2024-01-01T00:05:00Z')]);
+      expect(plan.missed).toBe(0);
+      expect(plan.next_run_at).toBe(Date.parse('2024-01-01T00:10:00Z'));
+    });
+
+    it('should drop missed runs with the skip policy', () => {
+      const plan = ScheduleFactory.planRuns(overdue('skip'), Date.now(), MINUTE, 100);
+
+      expect(plan.fire_times).toEqual([Date.parse('2024-01-01T00:20:00Z')]);
+      expect(plan.missed).toBe(3);
+      expect(plan.next_run_at).toBe(Date.parse('2024-01-01T00:25:00Z'));
+    });
+
+    it('should collapse missed runs into one with the run_once policy', () => {
+      const plan = ScheduleFactory.planRuns(overdue('run_once'), Date.now(), MINUTE, 100);
+
+      expect(plan.fire_times).toEqual([
+        Date.parse('2024-01-01T00:05:00Z'),
+        Date.parse('2024-01-01T00:20:00Z'),
+      ]);
+    });
+
+    it('should run every missed fire time with the run_all policy', () => {
+      const plan = ScheduleFactory.planRuns(overdue('run_all'), Date.now(), MINUTE, 100);
+
+      expect(plan.fire_times).toHaveLength(4);
+    });
+
+    it('should bound catch-up by maxRuns', () => {
+      const plan = ScheduleFactory.planRuns(overdue('run_all'), Date.now(), MINUTE, 2);
+
+      expect(plan.fire_times).toHaveLength(2);
+      expect(plan.next_run_at).toBe(Date.parse('2024-01-01T00:25:00Z'));
+    });
+  });
+
+  describe('createJobData', () => {
+    it('should submit the job type and config with the rendered payload template', () => {
+      const schedule = createSchedule({
+        payload: { report: 'daily', period_end: '{{fire_time}}', source: 'schedule:{{schedule_id}}' },
+        config: { priority: 10 },
+      });
+      const fireTime = Date.parse('2024-01-01T00:05:00Z');
+
+      const data = ScheduleFactory.createJobData(schedule, fireTime);
+
+      expect(data.type).toBe('report');
+      expect(data.config?.priority).toBe(10);
+      expect(data.payload).toEqual({
+        report: 'daily',
+        period_end: '2024-01-01T00:05:00.000Z',
+        source: `schedule:${schedule.id}`,
+      });
+    });
+
+    it('should render nested values and leave unknown placeholders alone', () => {
+      const payload = ScheduleFactory.renderPayload(
+        { items: ['{{fire_timestamp}}', 1], meta: { note: '{{unknown}}' } },
+        { fire_timestamp: '123' }
+      );
+
+      expect(payload).toEqual({ items: ['123', 1], meta: { note: '{{unknown}}' } });
+    });
+  });
+});
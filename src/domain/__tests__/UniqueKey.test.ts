@@ -0,0 +1,171 @@
+import { normalizeKeyedWindow, normalizeUniqueness } from '../value-objects/UniqueKey';
+import { JobFactory } from '../factories/JobFactory';
+import { Job } from '../entities/Job';
+import { JobConfig, normalizeJobConfig } from '../value-objects/JobConfig';
+import { createSuccessResult } from '../value-objects/JobResult';
+import { JobStatus } from '../value-objects/JobStatus';
+
+jest.mock('uuid', () => {
+  let counter = 0;
+  return {
+    v4: jest.fn(() => `test-uuid-${counter++}`),
+  };
+});
+
+describe('UniqueKey', () => {
+  describe('normalizeUniqueness', () => {
+    it('should return undefined without a unique key', () => {
+      expect(normalizeUniqueness()).toBeUndefined();
+      expect(normalizeUniqueness({})).toBeUndefined();
+    });
+
+    it('should default the scope to pending', () => {
+      expect(normalizeUniqueness({ unique_key: 'user-1' })).toEqual({
+        unique_key: 'user-1',
+        unique_scope: 'pending',
+      });
+    });
+
+    it('should require a ttl for the ttl scope', () => {
+      expect(() => normalizeUniqueness({ unique_key: 'user-1', unique_scope: 'ttl' })).toThrow(
+        'Unique ttl must be a positive integer'
+      );
+      expect(
+        normalizeUniqueness({ unique_key: 'user-1', unique_scope: 'ttl', unique_ttl: 60000 })
+      ).toEqual({ unique_key: 'user-1', unique_scope: 'ttl', unique_ttl: 60000 });
+    });
+
+    it('should reject invalid settings', () => {
+      expect(() => normalizeUniqueness({ unique_key: '' })).toThrow('Unique key must be');
+      expect(() => normalizeUniqueness({ unique_key: 'a'.repeat(256) })).toThrow(
+        'Unique key must be'
+      );
+      expect(() => normalizeUniqueness({ unique_key: 'k', unique_scope: 'forever' as any })).toThrow(
+        'Unique scope must be one of'
+      );
+      expect(() => normalizeUniqueness({ unique_key: 'k', unique_ttl: 1000 })).toThrow(
+        'Unique ttl is only allowed with the ttl scope'
+      );
+      expect(() => normalizeUniqueness({ unique_scope: 'ttl', unique_ttl: 1000 })).toThrow(
+        'Unique scope and ttl require a unique_key'
+      );
+    });
+  });
+
+  describe('debounce and throttle', () => {
+    it('should validate keys and windows', () => {
+      expect(normalizeKeyedWindow('debounce', { key: 'user-1', window: 5000 })).toEqual({
+        key: 'user-1',
+        window: 5000,
+      });
+      expect(() => normalizeKeyedWindow('debounce', { key: '', window: 5000 })).toThrow(
+        'Debounce key must be'
+      );
+      expect(() => normalizeKeyedWindow('throttle', { key: 'user-1', window: 0 })).toThrow(
+        'Throttle window must be a positive integer'
+      );
+    });
+
+    it('should use the debounce window as the delay', () => {
+      const config = normalizeJobConfig({ debounce: { key: 'user-1', window: 5000 } });
+
+      expect(config.delay).toBe(5000);
+      expect(config.debounce).toEqual({ key: 'user-1', window: 5000 });
+    });
+
+    it('should reject conflicting settings', () => {
+      const debounce = { key: 'user-1', window: 5000 };
+
+      expect(() => normalizeJobConfig({ debounce, delay: 1000 })).toThrow(
+        'Debounce cannot be combined with delay or run_at'
+      );
+      expect(() => normalizeJobConfig({ debounce, throttle: debounce })).toThrow(
+        'Debounce and throttle are mutually exclusive'
+      );
+      expect(() => normalizeJobConfig({ throttle: debounce, unique_key: 'k' })).toThrow(
+        'Throttle cannot be combined with unique_key'
+      );
+    });
+  });
+
+  describe('JobFactory.findDuplicate', () => {
+    const createJob = (config: JobConfig, type = 'email'): Job =>
+      JobFactory.createJob({ type, payload: { to: 'user@example.com' }, config });
+
+    const complete = (job: Job): Job =>
+      JobFactory.completeJob(JobFactory.startJob(job), createSuccessResult('Sent'));
+
+    it('should match a pending job in the pending scope', () => {
+      const existing = createJob({ unique_key: 'k' });
+      const job = createJob({ unique_key: 'k' });
+
+      expect(JobFactory.findDuplicate(job, [existing])).toBe(existing);
+      expect(JobFactory.findDuplicate(job, [JobFactory.startJob(existing)])).toBeUndefined();
+    });
+
+    it('should match a running job in the pending_or_running scope', () => {
+      const running = JobFactory.startJob(createJob({ unique_key: 'k' }));
+      const job = createJob({ unique_key: 'k', unique_scope: 'pending_or_running' });
+
+      expect(JobFactory.findDuplicate(job, [running])).toBe(running);
+      expect(
+        JobFactory.findDuplicate(job, [JobFactory.completeJob(running, createSuccessResult('Sent'))])
+      ).toBeUndefined();
+    });
+
+    it('should match any job created within the ttl window', () => {
+      const finished = complete(createJob({ unique_key: 'k' }));
+      const job = createJob({ unique_key: 'k', unique_scope: 'ttl', unique_ttl: 1000 });
+
+      expect(JobFactory.findDuplicate(job, [finished], finished.created_at + 999)).toBe(finished);
+      expect(JobFactory.findDuplicate(job, [finished], finished.created_at + 1000)).toBeUndefined();
+    });
+
+    it('should match the pending job of a debounce key', () => {
+      const debounce = { key: 'user-1', window: 5000 };
+      const pending = createJob({ debounce });
+      const job = createJob({ debounce });
+
+      expect(JobFactory.findDuplicate(job, [pending])).toBe(pending);
+      expect(JobFactory.findDuplicate(job, [JobFactory.startJob(pending)])).toBeUndefined();
+      expect(JobFactory.findDuplicate(job, [createJob({ unique_key: 'user-1' })])).toBeUndefined();
+    });
+
+    it('should match the last job of a throttle key inside the window', () => {
+      const throttle = { key: 'user-1', window: 1000 };
+      const finished = complete(createJob({ throttle }));
+      const job = createJob({ throttle });
+
+      expect(JobFactory.findDuplicate(job, [finished], finished.created_at + 999)).toBe(finished);
+      expect(JobFactory.findDuplicate(job, [finished], finished.created_at + 1000)).toBeUndefined();
+    });
+
+    it('should ignore jobs of another type or key', () => {
+      const job = createJob({ unique_key: 'k' });
+
+      expect(
+        JobFactory.findDuplicate(job, [createJob({ unique_key: 'k' }, 'sms'), createJob({ unique_key: 'other' })])
+      ).toBeUndefined();
+    });
+  });
+
+  describe('JobFactory.debounceJob', () => {
+    it('should replace the payload and push back eligible_at', () => {
+      const job = JobFactory.createJob({
+        type: 'reindex',
+        payload: { user_id: 1, version: 1 },
+        config: { debounce: { key: 'user-1', window: 5000 } },
+      });
+
+      const debounced = JobFactory.debounceJob(job, { user_id: 1, version: 2 }, job.created_at + 3000);
+
+      expect(debounced.id).toBe(job.id);
+      expect(debounced.status).toBe(JobStatus.PENDING);
+      expect(debounced.payload).toEqual({ user_id: 1, version: 2 });
+      expect(debounced.eligible_at).toBe(job.created_at + 8000);
+      expect(() => JobFactory.debounceJob(JobFactory.startJob(job), { user_id: 1 })).toThrow(
+        'Cannot debounce job in running status'
+      );
+    });
+  });
+});
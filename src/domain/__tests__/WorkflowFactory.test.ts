@@ -0,0 +1,85 @@
+import { WorkflowFactory } from '../factories/WorkflowFactory';
+import { JobFactory } from '../factories/JobFactory';
+import { JobStatus } from '../value-objects/JobStatus';
+import { createErrorResult, createSuccessResult } from '../value-objects/JobResult';
+import { WorkflowStepData } from '../entities/Workflow';
+
+jest.mock('uuid', () => {
+  let counter = 0;
+  return {
+    v4: jest.fn(() => `test-uuid-${String(counter++ % 10000).padStart(4, '0')}`),
+  };
+});
+
+describe('WorkflowFactory', () => {
+  function step(key: string, depends_on: string[] = []): WorkflowStepData {
+    return {
+      key,
+      type: 'task',
+      payload: { key },
+      depends_on: depends_on.map((parent) => ({ key: parent })),
+    };
+  }
+
+  describe('createWorkflow', () => {
+    it('should create jobs in dependency order linked by job id', () => {
+      const { workflow, jobs } = WorkflowFactory.createWorkflow({
+        name: 'billing',
+        steps: [step('notify', ['email']), step('email', ['invoice']), step('invoice')],
+      });
+
+      expect(workflow.steps.map((s) => s.key)).toEqual(['invoice', 'email', 'notify']);
+      expect(jobs.map((job) => job.status)).toEqual([
+        JobStatus.PENDING,
+        JobStatus.BLOCKED,
+        JobStatus.BLOCKED,
+      ]);
+      expect(jobs[1].depends_on).toEqual([{ job_id: jobs[0].id, on_failure: 'cancel' }]);
+      expect(jobs[2].depends_on).toEqual([{ job_id: jobs[1].id, on_failure: 'cancel' }]);
+      expect(jobs.every((job) => job.workflow_id === workflow.id)).toBe(true);
+    });
+
+    it('should keep per-edge failure policies', () => {
+      const { jobs } = WorkflowFactory.createWorkflow({
+        steps: [step('a'), { ...step('b'), depends_on: [{ key: 'a', on_failure: 'skip' }] }],
+      });
+
+      expect(jobs[1].depends_on[0].on_failure).toBe('skip');
+    });
+
+    it('should reject cycles', () => {
+      expect(() =>
+        WorkflowFactory.createWorkflow({
+          steps: [step('a', ['c']), step('b', ['a']), step('c', ['b']), step('d')],
+        })
+      ).toThrow('Workflow contains a dependency cycle between steps: a, b, c');
+    });
+
+    it('should reject unknown and duplicate step keys', () => {
+      expect(() => WorkflowFactory.createWorkflow({ steps: [step('a', ['missing'])] })).toThrow(
+        "Workflow step 'a' depends on unknown step 'missing'"
+      );
+      expect(() => WorkflowFactory.createWorkflow({ steps: [step('a'), step('a')] })).toThrow(
+        "Workflow step key 'a' is used more than once"
+      );
+    });
+
+    it('should reject empty workflows', () => {
+      expect(() => WorkflowFactory.createWorkflow({ steps: [] })).toThrow(
+        'Workflow must contain at least one step'
+      );
+    });
+  });
+
+  describe('getStatus', () => {
+    it('should derive the workflow status from its jobs', () => {
+      const job = JobFactory.createJob({ type: 'task', payload: { n: 1 } });
+      const completed = JobFactory.completeJob(JobFactory.startJob(job), createSuccessResult('ok'));
+      const failed = JobFactory.failJob(JobFactory.startJob(job), createErrorResult('boom', 500));
+
+      expect(WorkflowFactory.getStatus([completed, job])).toBe('running');
+      expect(WorkflowFactory.getStatus([completed, completed])).toBe('completed');
+      expect(WorkflowFactory.getStatus([completed, failed])).toBe('failed');
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { JobData } from './Job';
+
+/** Upper bound on the number of items in a single batch */
+export const MAX_BATCH_SIZE = 10000;
+
+export interface BatchItem {
+  /** Position of the item in the submitted array */
+  index: number;
+  data: JobData;
+}
+
+export interface BatchItemError {
+  index: number;
+  message: string;
+}
+
+/** An item that collapsed into an existing job with the same unique, debounce or throttle key */
+export interface BatchItemDuplicate {
+  index: number;
+  job_id: string;
+}
+
+export interface BatchData {
+  items: BatchItem[];
+  /** Job submitted once every member reached a terminal status */
+  callback?: JobData;
+  /**
+   * Create every item or none; when false, invalid items are reported and the rest created
+   * @default true
+   */
+  atomic?: boolean;
+}
+
+export interface Batch {
+  readonly id: string;
+  readonly job_ids: string[];
+  readonly callback?: JobData;
+  readonly callback_job_id?: string;
+  /** Members that reached a terminal status */
+  readonly finished_count: number;
+  readonly created_at: number;
+  readonly finished_at?: number;
+}
+
+/**
+ * - running: at least one member has not reached a terminal status
+ * - finished: every member is terminal (whatever the outcome)
+ */
+export type BatchStatus = 'running' | 'finished';
@@ -0,0 +1,36 @@
+import { JobConfig } from '../value-objects/JobConfig';
+import { JobPayload } from '../value-objects/JobPayload';
+import { PipeMode } from '../value-objects/PayloadPipe';
+
+export interface ChainStepData {
+  type: string;
+  /** Payload template; the previous step's result data is piped into it */
+  payload: JobPayload;
+  config?: JobConfig;
+  /** Overrides the chain's pipe mode for this step; ignored for the first step */
+  pipe?: PipeMode;
+}
+
+export interface ChainData {
+  name?: string;
+  /** @default 'merge' */
+  pipe?: PipeMode;
+  steps: ChainStepData[];
+}
+
+export interface Chain {
+  readonly id: string;
+  readonly name?: string;
+  /** One job per step, in execution order */
+  readonly job_ids: string[];
+  readonly created_at: number;
+  readonly cancelled_at?: number;
+}
+
+/**
+ * - running: a step has not reached a terminal status yet
+ * - completed: every step completed
+ * - failed: a step did not complete, so the following steps never ran
+ * - cancelled: the chain was cancelled as a unit
+ */
+export type ChainStatus = 'running' | 'completed' | 'failed' | 'cancelled';
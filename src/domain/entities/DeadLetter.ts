@@ -0,0 +1,18 @@
+import { Job, JobAttempt } from './Job';
+import { ErrorResult } from '../value-objects/JobResult';
+
+export interface DeadLetter {
+  /** Same as the id of the failed job */
+  readonly id: string;
+  readonly job: Job;
+  readonly reason: ErrorResult;
+  readonly attempt_history: JobAttempt[];
+  readonly dead_lettered_at: number;
+  readonly replayed_job_ids: string[];
+}
+
+export interface DeadLetterFilter {
+  type?: string;
+  /** Only entries dead-lettered strictly before this timestamp (ms) */
+  before?: number;
+}
@@ -0,0 +1,20 @@
+/** Upper bound on the length of an `Idempotency-Key` header */
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+/** How long a key is remembered when no window is configured */
+export const DEFAULT_IDEMPOTENCY_KEY_TTL = 24 * 60 * 60 * 1000;
+
+export interface IdempotentResponse {
+  status_code: number;
+  body: unknown;
+}
+
+export interface IdempotencyKey {
+  readonly key: string;
+  /** Hash of the request body first sent with the key */
+  readonly fingerprint: string;
+  /** Response of the first request; absent while that request is still being processed */
+  readonly response?: IdempotentResponse;
+  readonly created_at: number;
+  readonly expires_at: number;
+}
@@ -1,12 +1,40 @@
 import { JobStatus } from '../value-objects/JobStatus';
-import { JobConfig } from '../value-objects/JobConfig';
+import { JobConfig, NormalizedJobConfig } from '../value-objects/JobConfig';
 import { JobPayload } from '../value-objects/JobPayload';
 import { JobResult } from '../value-objects/JobResult';
+import { DependencyFailurePolicy, JobDependency } from '../value-objects/JobDependency';
+import { PayloadPipe } from '../value-objects/PayloadPipe';
+import { FanOutProgress } from '../value-objects/FanOut';
+import { JobProgress } from '../value-objects/JobProgress';
 
 export interface JobData {
   type: string;
   payload: JobPayload;
   config?: JobConfig;
+  /** Jobs that must complete before this one becomes PENDING */
+  depends_on?: Array<{ job_id: string; on_failure?: DependencyFailurePolicy }>;
+}
+
+/**
+ * Outcome of a single execution attempt
+ */
+export interface JobAttempt {
+  attempt: number;
+  status: JobStatus;
+  result: JobResult;
+  started_at: number;
+  finished_at: number;
+  execution_time: number;
+}
+
+/**
+ * A cancellation asked for while the job was RUNNING, applied by the processor
+ * executing it, wherever that runs
+ */
+export interface JobCancelRequest {
+  requested_at: number;
+  /** Cancel the job after the grace period even if the handler has not stopped */
+  force: boolean;
 }
 
 export interface Job {
@@ -14,9 +42,26 @@ export interface Job {
   readonly status: JobStatus;
   readonly type: string;
   readonly payload: JobPayload;
-  readonly config: Required<JobConfig>;
+  readonly config: NormalizedJobConfig;
   readonly execution_time?: number;
   readonly result?: JobResult;
+  readonly attempts: number;
+  readonly attempt_history: JobAttempt[];
+  /** Id of the failed job this one was replayed from */
+  readonly replayed_from?: string;
+  readonly depends_on: JobDependency[];
+  /** Dependency whose result data is piped into the payload when the job is unblocked */
+  readonly pipe?: PayloadPipe;
+  readonly workflow_id?: string;
+  readonly chain_id?: string;
+  readonly batch_id?: string;
+  /** Map-reduce parent that spawned this job */
+  readonly parent_id?: string;
+  /** Children spawned by this job's map step */
+  readonly fan_out?: FanOutProgress;
+  /** Last progress reported by the handler during the latest attempt */
+  readonly progress?: JobProgress;
+  readonly cancel_request?: JobCancelRequest;
   readonly created_at: number;
   readonly eligible_at: number;
   readonly started_at?: number;
@@ -26,11 +71,22 @@ export interface Job {
 export interface JobProps extends JobData {
   id: string;
   status: JobStatus;
-  config: Required<JobConfig>;
+  config: NormalizedJobConfig;
   created_at: number;
   eligible_at: number;
+  attempts: number;
+  attempt_history: JobAttempt[];
+  replayed_from?: string;
+  depends_on: JobDependency[];
+  pipe?: PayloadPipe;
+  workflow_id?: string;
+  chain_id?: string;
+  batch_id?: string;
+  parent_id?: string;
+  fan_out?: FanOutProgress;
+  progress?: JobProgress;
   execution_time?: number;
   result?: JobResult;
   started_at?: number;
   finished_at?: number;
-}
\ No newline at end of file
+}
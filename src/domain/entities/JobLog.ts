@@ -0,0 +1,39 @@
+export type JobLogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export const JOB_LOG_LEVELS: readonly JobLogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/** Bytes of log lines kept per job; lines past it are dropped */
+export const DEFAULT_JOB_LOG_MAX_BYTES = 1024 * 1024;
+
+/**
+ * A line written by a handler through its job-scoped logger
+ */
+export interface JobLogEntry {
+  job_id: string;
+  /** Position in the job's log, starting at 1; used as the pagination cursor */
+  sequence: number;
+  /** Attempt that wrote the line */
+  attempt: number;
+  level: JobLogLevel;
+  message: string;
+  data?: Record<string, any>;
+  timestamp: number;
+}
+
+/**
+ * Lines stored for a job so far
+ */
+export interface JobLogUsage {
+  last_sequence: number;
+  bytes: number;
+}
+
+/**
+ * Size of a line as counted against the per-job cap
+ */
+export function jobLogEntrySize(entry: Pick<JobLogEntry, 'message' | 'data'>): number {
+  return (
+    Buffer.byteLength(entry.message) +
+    (entry.data === undefined ? 0 : Buffer.byteLength(JSON.stringify(entry.data)))
+  );
+}
@@ -0,0 +1,46 @@
+import { JobConfig } from '../value-objects/JobConfig';
+import { JobPayload } from '../value-objects/JobPayload';
+import { MissedRunPolicy } from '../value-objects/MissedRunPolicy';
+import { ScheduleStatus } from '../value-objects/ScheduleStatus';
+
+export interface ScheduleData {
+  cron: string;
+  /** IANA timezone the cron expression is evaluated in (default UTC) */
+  timezone?: string;
+  job_type: string;
+  /** Payload template; see ScheduleFactory.renderPayload for placeholders */
+  payload: JobPayload;
+  config?: JobConfig;
+  missed_run_policy?: MissedRunPolicy;
+}
+
+export interface Schedule {
+  readonly id: string;
+  readonly status: ScheduleStatus;
+  readonly cron: string;
+  readonly timezone: string;
+  readonly job_type: string;
+  readonly payload: JobPayload;
+  readonly config?: JobConfig;
+  readonly missed_run_policy: MissedRunPolicy;
+  /** Next fire time (ms); while paused, the time it would fire if resumed now */
+  readonly next_run_at: number;
+  readonly last_run_at?: number;
+  readonly last_job_id?: string;
+  readonly created_at: number;
+  readonly updated_at: number;
+}
+
+export interface ScheduleFilter {
+  status?: ScheduleStatus;
+}
+
+/**
+ * Fire times a scheduler pass should turn into jobs, after applying the missed-run policy
+ */
+export interface ScheduleRunPlan {
+  fire_times: number[];
+  /** Fire times older than the misfire grace time (counted up to the per-pass limit) */
+  missed: number;
+  next_run_at: number;
+}
@@ -0,0 +1,38 @@
+import { JobConfig } from '../value-objects/JobConfig';
+import { JobPayload } from '../value-objects/JobPayload';
+import { DependencyFailurePolicy } from '../value-objects/JobDependency';
+
+export interface WorkflowStepData {
+  /** Name of the step, unique within the workflow */
+  key: string;
+  type: string;
+  payload: JobPayload;
+  config?: JobConfig;
+  /** Keys of steps that must complete first */
+  depends_on?: Array<{ key: string; on_failure?: DependencyFailurePolicy }>;
+}
+
+export interface WorkflowData {
+  name?: string;
+  steps: WorkflowStepData[];
+}
+
+export interface WorkflowStep {
+  key: string;
+  job_id: string;
+}
+
+export interface Workflow {
+  readonly id: string;
+  readonly name?: string;
+  /** Steps in topological order */
+  readonly steps: WorkflowStep[];
+  readonly created_at: number;
+}
+
+/**
+ * - running: at least one job has not reached a terminal status
+ * - completed: every job completed
+ * - failed: every job is terminal and at least one did not complete
+ */
+export type WorkflowStatus = 'running' | 'completed' | 'failed';
@@ -0,0 +1,90 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Job, JobData } from '../entities/Job';
+import { Batch, BatchStatus } from '../entities/Batch';
+import { validatePayload } from '../value-objects/JobPayload';
+import { normalizeJobConfig } from '../value-objects/JobConfig';
+import { JobFactory } from './JobFactory';
+
+export class BatchFactory {
+  /**
+   * Groups new jobs into a batch and tags each of them with its id
+   */
+  static createBatch(members: Job[], callback?: JobData): { batch: Batch; jobs: Job[] } {
+    if (members.length === 0) {
+      throw new Error('Batch must contain at least one job');
+    }
+
+    if (callback) {
+      // Fail at submission time instead of when the last member finishes
+      validatePayload(callback.payload);
+      normalizeJobConfig(callback.config);
+    }
+
+    const batchId = uuidv4();
+    const jobs = members.map((job) => ({ ...job, batch_id: batchId }));
+
+    return {
+      batch: {
+        id: batchId,
+        job_ids: jobs.map((job) => job.id),
+        callback,
+        finished_count: 0,
+        created_at: Date.now(),
+      },
+      jobs,
+    };
+  }
+
+  /**
+   * Counts one more member as terminal; must be called once per member
+   */
+  static recordFinished(batch: Batch): Batch {
+    if (BatchFactory.getStatus(batch) === 'finished') {
+      throw new Error(`Batch ${batch.id} has already finished`);
+    }
+
+    const finished_count = batch.finished_count + 1;
+
+    return {
+      ...batch,
+      finished_count,
+      ...(finished_count === batch.job_ids.length && { finished_at: Date.now() }),
+    };
+  }
+
+  /**
+   * Narrows the batch to the given members, e.g. those its submission created; it
+   * finishes if the members already counted are all that is left
+   */
+  static keepMembers(batch: Batch, jobIds: string[]): Batch {
+    const job_ids = batch.job_ids.filter((jobId) => jobIds.includes(jobId));
+
+    if (job_ids.length === 0) {
+      throw new Error('Batch must contain at least one job');
+    }
+
+    return {
+      ...batch,
+      job_ids,
+      ...(batch.finished_count >= job_ids.length && { finished_at: Date.now() }),
+    };
+  }
+
+  static getStatus(batch: Batch): BatchStatus {
+    return batch.finished_count >= batch.job_ids.length ? 'finished' : 'running';
+  }
+
+  /**
+   * Builds the callback job; `batch_id` is added to its payload
+   */
+  static createCallbackJob(batch: Batch): Job {
+    if (!batch.callback) {
+      throw new Error(`Batch ${batch.id} has no callback`);
+    }
+
+    return JobFactory.createJob({
+      ...batch.callback,
+      payload: { ...batch.callback.payload, batch_id: batch.id },
+    });
+  }
+}
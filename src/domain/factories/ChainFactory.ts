@@ -0,0 +1,114 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Job } from '../entities/Job';
+import { Chain, ChainData, ChainStatus } from '../entities/Chain';
+import { JobStatus } from '../value-objects/JobStatus';
+import { isSuccessResult } from '../value-objects/JobResult';
+import { DEFAULT_PIPE_MODE, pipeResultData, validatePipeMode } from '../value-objects/PayloadPipe';
+import { JobFactory } from './JobFactory';
+
+export class ChainFactory {
+  /**
+   * Creates one job per step. Every step after the first starts BLOCKED on the previous
+   * one and is released by `advanceChain` when it completes; a step that does not
+   * complete cancels the rest of the chain.
+   */
+  static createChain(data: ChainData): { chain: Chain; jobs: Job[] } {
+    if (!Array.isArray(data.steps) || data.steps.length === 0) {
+      throw new Error('Chain must contain at least one step');
+    }
+
+    const defaultMode = data.pipe ?? DEFAULT_PIPE_MODE;
+    validatePipeMode(defaultMode);
+
+    const chainId = uuidv4();
+    const jobs: Job[] = [];
+
+    for (const step of data.steps) {
+      const previous = jobs[jobs.length - 1];
+      const mode = step.pipe ?? defaultMode;
+      validatePipeMode(mode);
+
+      const job = JobFactory.createJob({
+        type: step.type,
+        payload: step.payload,
+        config: step.config,
+        depends_on: previous ? [{ job_id: previous.id, on_failure: 'cancel' }] : [],
+      });
+
+      jobs.push({
+        ...job,
+        chain_id: chainId,
+        ...(previous && { pipe: { job_id: previous.id, mode } }),
+      });
+    }
+
+    return {
+      chain: {
+        id: chainId,
+        name: data.name,
+        job_ids: jobs.map((job) => job.id),
+        created_at: Date.now(),
+      },
+      jobs,
+    };
+  }
+
+  /**
+   * Releases the step after `completed`, its payload built from the result
+   * `JobFactory.completeJob` recorded on the finished step
+   */
+  static advanceChain(completed: Job, next: Job): Job {
+    if (
+      next.chain_id === undefined ||
+      next.chain_id !== completed.chain_id ||
+      next.pipe?.job_id !== completed.id
+    ) {
+      throw new Error(`Job ${next.id} is not the step after ${completed.id}`);
+    }
+
+    if (
+      completed.status !== JobStatus.COMPLETED ||
+      !completed.result ||
+      !isSuccessResult(completed.result)
+    ) {
+      throw new Error(`Chain step ${completed.id} has no successful result to pipe`);
+    }
+
+    const unblocked = JobFactory.unblockJob({ ...next, pipe: undefined });
+
+    return {
+      ...unblocked,
+      payload: pipeResultData(next.payload, completed.result.data, next.pipe.mode),
+      pipe: next.pipe,
+    };
+  }
+
+  static getStatus(chain: Chain, jobs: Job[]): ChainStatus {
+    if (jobs.every((job) => job.status === JobStatus.COMPLETED)) {
+      return 'completed';
+    }
+
+    if (chain.cancelled_at !== undefined) {
+      return 'cancelled';
+    }
+
+    return jobs.some((job) => !JobFactory.isTerminal(job)) ? 'running' : 'failed';
+  }
+
+  /**
+   * Marks the chain cancelled; the caller cancels its first step that has not started,
+   * which cascades to the remaining ones. A step already running is left to finish.
+   */
+  static cancelChain(chain: Chain, jobs: Job[]): Chain {
+    const status = ChainFactory.getStatus(chain, jobs);
+
+    if (status !== 'running') {
+      throw new Error(`Cannot cancel chain in ${status} status`);
+    }
+
+    return {
+      ...chain,
+      cancelled_at: Date.now(),
+    };
+  }
+}
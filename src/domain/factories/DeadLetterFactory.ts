@@ -0,0 +1,45 @@
+import { DeadLetter, DeadLetterFilter } from '../entities/DeadLetter';
+import { Job } from '../entities/Job';
+import { JobStatus } from '../value-objects/JobStatus';
+import { createErrorResult, isErrorResult } from '../value-objects/JobResult';
+
+export class DeadLetterFactory {
+  static fromJob(job: Job): DeadLetter {
+    if (job.status !== JobStatus.FAILED && job.status !== JobStatus.TIMED_OUT) {
+      throw new Error(`Cannot dead-letter job in ${job.status} status`);
+    }
+
+    const reason =
+      job.result && isErrorResult(job.result)
+        ? job.result
+        : createErrorResult('Job failed without an error result', 500);
+
+    return {
+      id: job.id,
+      job,
+      reason,
+      attempt_history: job.attempt_history,
+      dead_lettered_at: Date.now(),
+      replayed_job_ids: [],
+    };
+  }
+
+  static markReplayed(deadLetter: DeadLetter, replayedJobId: string): DeadLetter {
+    return {
+      ...deadLetter,
+      replayed_job_ids: [...deadLetter.replayed_job_ids, replayedJobId],
+    };
+  }
+
+  static matches(deadLetter: DeadLetter, filter?: DeadLetterFilter): boolean {
+    if (filter?.type !== undefined && deadLetter.job.type !== filter.type) {
+      return false;
+    }
+
+    if (filter?.before !== undefined && deadLetter.dead_lettered_at >= filter.before) {
+      return false;
+    }
+
+    return true;
+  }
+}
@@ -1,32 +1,127 @@
 import { v4 as uuidv4 } from 'uuid';
-import { Job, JobData } from '../entities/Job';
+import { Job, JobAttempt, JobData } from '../entities/Job';
 import { JobStatus } from '../value-objects/JobStatus';
 import { normalizeJobConfig } from '../value-objects/JobConfig';
-import { validatePayload } from '../value-objects/JobPayload';
-import { JobResult } from '../value-objects/JobResult';
+import { JobPayload, validatePayload } from '../value-objects/JobPayload';
+import {
+  ErrorResult,
+  JobResult,
+  createErrorResult,
+  isSuccessResult,
+} from '../value-objects/JobResult';
+import { pipeResultData } from '../value-objects/PayloadPipe';
+import { normalizeDependencies } from '../value-objects/JobDependency';
+import { computeRetryDelay, isRetryableError } from '../value-objects/RetryPolicy';
+import { coalescingKey } from '../value-objects/UniqueKey';
+import { JobProgress } from '../value-objects/JobProgress';
 
 export class JobFactory {
   static createJob(data: JobData): Job {
     // Validate payload
     validatePayload(data.payload);
 
+    const now = Date.now();
+
     // Normalize config with defaults
-    const config = normalizeJobConfig(data.config);
+    const config = normalizeJobConfig(data.config, now);
 
-    const now = Date.now();
-    const eligible_at = now + config.delay;
+    const eligible_at = config.run_at ?? now + config.delay;
+    const depends_on = normalizeDependencies(data.depends_on);
 
     return {
       id: uuidv4(),
-      status: JobStatus.PENDING,
+      status: depends_on.length > 0 ? JobStatus.BLOCKED : JobStatus.PENDING,
       type: data.type,
       payload: data.payload,
       config,
+      attempts: 0,
+      attempt_history: [],
+      depends_on,
       created_at: now,
       eligible_at,
     };
   }
 
+  /**
+   * Creates a fresh PENDING copy of a failed or timed-out job, eligible immediately.
+   * A ttl starts over; an absolute deadline is kept unless it already passed.
+   */
+  static replayJob(job: Job): Job {
+    if (job.status !== JobStatus.FAILED && job.status !== JobStatus.TIMED_OUT) {
+      throw new Error(`Cannot replay job in ${job.status} status`);
+    }
+
+    const { ttl, expires_at } = job.config;
+    const replayedJob = JobFactory.createJob({
+      type: job.type,
+      payload: job.payload,
+      config: {
+        ...job.config,
+        delay: 0,
+        run_at: undefined,
+        debounce: undefined,
+        expires_at:
+          ttl === undefined && expires_at !== undefined && expires_at > Date.now()
+            ? expires_at
+            : undefined,
+      },
+    });
+
+    return {
+      ...replayedJob,
+      replayed_from: job.id,
+    };
+  }
+
+  /**
+   * Releases a BLOCKED job once its dependencies completed.
+   * `delay` counts from the moment it is unblocked; `run_at` is kept unless already passed.
+   * @param pipedResult - Result of the `pipe` dependency, required when the job has one
+   */
+  static unblockJob(job: Job, pipedResult?: JobResult): Job {
+    if (job.status !== JobStatus.BLOCKED) {
+      throw new Error(`Cannot unblock job in ${job.status} status`);
+    }
+
+    const now = Date.now();
+
+    return {
+      ...job,
+      payload: job.pipe ? JobFactory.pipePayload(job, pipedResult) : job.payload,
+      status: JobStatus.PENDING,
+      eligible_at:
+        job.config.run_at !== undefined
+          ? Math.max(job.config.run_at, now)
+          : now + job.config.delay,
+    };
+  }
+
+  /**
+   * Ends a BLOCKED job whose dependency did not complete, following the edge's failure policy
+   */
+  static abandonJob(job: Job, dependencyId: string): Job {
+    const dependency = job.depends_on.find((edge) => edge.job_id === dependencyId);
+
+    if (job.status !== JobStatus.BLOCKED || !dependency) {
+      throw new Error(`Cannot abandon job in ${job.status} status`);
+    }
+
+    const result = createErrorResult(`Dependency ${dependencyId} did not complete`, 424, {
+      dependency: dependencyId,
+    });
+
+    if (dependency.on_failure === 'cancel') {
+      return JobFactory.cancelJob(job, result);
+    }
+
+    return {
+      ...job,
+      status: JobStatus.SKIPPED,
+      result,
+      finished_at: Date.now(),
+    };
+  }
+
   static startJob(job: Job): Job {
     if (job.status !== JobStatus.PENDING) {
       throw new Error(`Cannot start job in ${job.status} status`);
@@ -36,10 +131,79 @@ export class JobFactory {
     return {
       ...job,
       status: JobStatus.RUNNING,
+      attempts: job.attempts + 1,
+      // Progress belongs to a single attempt
+      progress: undefined,
       started_at: now,
     };
   }
 
+  /**
+   * Records the latest progress reported by the handler of a RUNNING job
+   */
+  static updateProgress(job: Job, progress: JobProgress): Job {
+    if (job.status !== JobStatus.RUNNING) {
+      throw new Error(`Cannot report progress of job in ${job.status} status`);
+    }
+
+    return { ...job, progress };
+  }
+
+  /**
+   * Parks a RUNNING map-reduce job after its map step spawned `childIds`
+   */
+  static waitForChildren(job: Job, childIds: string[]): Job {
+    if (job.status !== JobStatus.RUNNING) {
+      throw new Error(`Cannot wait for children of job in ${job.status} status`);
+    }
+
+    return {
+      ...job,
+      status: JobStatus.WAITING,
+      fan_out: { child_ids: childIds, completed: 0, failed: 0 },
+    };
+  }
+
+  /**
+   * Counts a terminal child in its WAITING parent's progress
+   */
+  static recordChildFinished(parent: Job, child: Job): Job {
+    if (parent.status !== JobStatus.WAITING || !parent.fan_out) {
+      throw new Error(`Cannot record child of job in ${parent.status} status`);
+    }
+
+    if (!parent.fan_out.child_ids.includes(child.id) || !JobFactory.isTerminal(child)) {
+      throw new Error(`Job ${child.id} is not a finished child of job ${parent.id}`);
+    }
+
+    const completed = child.status === JobStatus.COMPLETED;
+
+    return {
+      ...parent,
+      fan_out: {
+        ...parent.fan_out,
+        completed: parent.fan_out.completed + (completed ? 1 : 0),
+        failed: parent.fan_out.failed + (completed ? 0 : 1),
+      },
+    };
+  }
+
+  /**
+   * Puts a WAITING job back to PENDING, eligible immediately, so its reduce step can run
+   */
+  static resumeWaitingJob(job: Job): Job {
+    if (job.status !== JobStatus.WAITING) {
+      throw new Error(`Cannot resume job in ${job.status} status`);
+    }
+
+    return {
+      ...job,
+      status: JobStatus.PENDING,
+      started_at: undefined,
+      eligible_at: Date.now(),
+    };
+  }
+
   static completeJob(job: Job, result: JobResult): Job {
     if (job.status !== JobStatus.RUNNING) {
       throw new Error(`Cannot complete job in ${job.status} status`);
@@ -53,6 +217,7 @@ export class JobFactory {
       status: JobStatus.COMPLETED,
       result,
       execution_time,
+      attempt_history: JobFactory.appendAttempt(job, JobStatus.COMPLETED, result, now),
       finished_at: now,
     };
   }
@@ -70,26 +235,238 @@ export class JobFactory {
       status: JobStatus.FAILED,
       result,
       execution_time,
+      attempt_history: JobFactory.appendAttempt(job, JobStatus.FAILED, result, now),
       finished_at: now,
     };
   }
 
-  static cancelJob(job: Job): Job {
-    if (job.status !== JobStatus.PENDING) {
+  /**
+   * Ends a RUNNING job whose last allowed attempt exceeded its execution timeout
+   */
+  static timeOutJob(job: Job, result: ErrorResult): Job {
+    if (job.status !== JobStatus.RUNNING) {
+      throw new Error(`Cannot time out job in ${job.status} status`);
+    }
+
+    const now = Date.now();
+    const execution_time = job.started_at ? now - job.started_at : 0;
+
+    return {
+      ...job,
+      status: JobStatus.TIMED_OUT,
+      result,
+      execution_time,
+      attempt_history: JobFactory.appendAttempt(job, JobStatus.TIMED_OUT, result, now),
+      finished_at: now,
+    };
+  }
+
+  /**
+   * Whether a failed attempt should be retried according to the job's retry policy
+   */
+  static canRetry(job: Job, result: ErrorResult): boolean {
+    return (
+      job.attempts < job.config.retry.max_attempts &&
+      isRetryableError(job.config.retry, result)
+    );
+  }
+
+  /**
+   * Records a failed attempt and puts the job back to PENDING after the backoff delay
+   */
+  static retryJob(job: Job, result: ErrorResult): Job {
+    if (job.status !== JobStatus.RUNNING) {
+      throw new Error(`Cannot retry job in ${job.status} status`);
+    }
+
+    const now = Date.now();
+    const delay = computeRetryDelay(job.config.retry, job.attempts);
+
+    return {
+      ...job,
+      status: JobStatus.PENDING,
+      result: undefined,
+      execution_time: undefined,
+      started_at: undefined,
+      attempt_history: JobFactory.appendAttempt(job, JobStatus.FAILED, result, now),
+      eligible_at: now + delay,
+    };
+  }
+
+  /**
+   * Fails the attempt of a RUNNING job whose processor stopped before finishing it,
+   * and retries the job if its retry policy allows
+   */
+  static interruptJob(job: Job): Job {
+    const result = createErrorResult('Job was interrupted before it finished', 503, {
+      jobType: job.type,
+      timestamp: Date.now(),
+    });
+
+    return JobFactory.canRetry(job, result)
+      ? JobFactory.retryJob(job, result)
+      : JobFactory.failJob(job, result);
+  }
+
+  static cancelJob(
+    job: Job,
+    result: ErrorResult = {
+      message: 'Job was cancelled',
+      code: 499, // Client Closed Request
+    }
+  ): Job {
+    if (job.status !== JobStatus.PENDING && job.status !== JobStatus.BLOCKED) {
       throw new Error(`Cannot cancel job in ${job.status} status`);
     }
 
     return {
       ...job,
       status: JobStatus.CANCELLED,
-      result: {
-        message: 'Job was cancelled',
-        code: 499, // Client Closed Request
-      },
+      result,
       finished_at: Date.now(),
     };
   }
 
+  /**
+   * Records a cancellation of a RUNNING job for the processor executing it; asking
+   * again keeps the first request time and can only add `force`
+   */
+  static requestCancellation(job: Job, force: boolean = false): Job {
+    if (job.status !== JobStatus.RUNNING) {
+      throw new Error(`Cannot request cancellation of job in ${job.status} status`);
+    }
+
+    return {
+      ...job,
+      cancel_request: {
+        requested_at: job.cancel_request?.requested_at ?? Date.now(),
+        force: force || job.cancel_request?.force === true,
+      },
+    };
+  }
+
+  /**
+   * Ends a RUNNING job whose handler stopped (or was abandoned) after a cancellation request
+   */
+  static cancelRunningJob(job: Job, result: ErrorResult): Job {
+    if (job.status !== JobStatus.RUNNING) {
+      throw new Error(`Cannot cancel job in ${job.status} status`);
+    }
+
+    const now = Date.now();
+    const execution_time = job.started_at ? now - job.started_at : 0;
+
+    return {
+      ...job,
+      status: JobStatus.CANCELLED,
+      result,
+      execution_time,
+      attempt_history: JobFactory.appendAttempt(job, JobStatus.CANCELLED, result, now),
+      finished_at: now,
+    };
+  }
+
+  /**
+   * Whether the job's `expires_at` deadline still applies: only BLOCKED or PENDING jobs
+   * that never started, so jobs waiting for a retry or for their reduce step run anyway
+   */
+  static canExpire(job: Job): boolean {
+    return (
+      job.config.expires_at !== undefined &&
+      job.attempts === 0 &&
+      (job.status === JobStatus.PENDING || job.status === JobStatus.BLOCKED)
+    );
+  }
+
+  /**
+   * Ends a BLOCKED or PENDING job whose `expires_at` deadline passed before it could start
+   */
+  static expireJob(job: Job, now: number = Date.now()): Job {
+    if (job.status !== JobStatus.PENDING && job.status !== JobStatus.BLOCKED) {
+      throw new Error(`Cannot expire job in ${job.status} status`);
+    }
+
+    if (job.attempts > 0) {
+      throw new Error(`Cannot expire job ${job.id}: it has already started`);
+    }
+
+    if (job.config.expires_at === undefined || job.config.expires_at > now) {
+      throw new Error(`Job ${job.id} has not reached its expiration deadline`);
+    }
+
+    return {
+      ...job,
+      status: JobStatus.EXPIRED,
+      result: createErrorResult(
+        `Job expired before it could start (deadline ${new Date(job.config.expires_at).toISOString()})`,
+        410, // Gone
+        { expires_at: job.config.expires_at }
+      ),
+      finished_at: now,
+    };
+  }
+
+  /**
+   * Finds the job a new submission should collapse into: one within the new job's
+   * `unique_scope`, the PENDING job of its `debounce` key, or the last job of its
+   * `throttle` key while inside the window. Candidates are expected to share its key.
+   */
+  static findDuplicate(job: Job, candidates: Job[], now: number = Date.now()): Job | undefined {
+    const { unique_key, unique_scope, unique_ttl, debounce, throttle } = job.config;
+
+    if (coalescingKey(job.config) === undefined) {
+      return undefined;
+    }
+
+    const matches = (candidate: Job): boolean => {
+      if (debounce) {
+        return candidate.config.debounce?.key === debounce.key && candidate.status === JobStatus.PENDING;
+      }
+
+      if (throttle) {
+        return (
+          candidate.config.throttle?.key === throttle.key &&
+          now - candidate.created_at < throttle.window
+        );
+      }
+
+      if (candidate.config.unique_key !== unique_key) {
+        return false;
+      }
+
+      switch (unique_scope) {
+        case 'ttl':
+          return now - candidate.created_at < unique_ttl!;
+        case 'pending_or_running':
+          return !JobFactory.isTerminal(candidate);
+        default:
+          return [JobStatus.BLOCKED, JobStatus.PENDING].includes(candidate.status);
+      }
+    };
+
+    return candidates
+      .filter((candidate) => candidate.type === job.type && matches(candidate))
+      .sort((a, b) => b.created_at - a.created_at)[0];
+  }
+
+  /**
+   * Folds a debounced submission into the PENDING job with the same key: the job
+   * takes the new payload and becomes eligible one debounce window from now
+   */
+  static debounceJob(job: Job, payload: JobPayload, now: number = Date.now()): Job {
+    if (job.status !== JobStatus.PENDING || !job.config.debounce) {
+      throw new Error(`Cannot debounce job in ${job.status} status`);
+    }
+
+    validatePayload(payload);
+
+    return {
+      ...job,
+      payload,
+      eligible_at: Math.max(job.eligible_at, now + job.config.debounce.window),
+    };
+  }
+
   static isEligible(job: Job): boolean {
     return Date.now() >= job.eligible_at;
   }
@@ -99,6 +476,41 @@ export class JobFactory {
       JobStatus.COMPLETED,
       JobStatus.FAILED,
       JobStatus.CANCELLED,
+      JobStatus.SKIPPED,
+      JobStatus.EXPIRED,
+      JobStatus.TIMED_OUT,
     ].includes(job.status);
   }
+
+  private static pipePayload(job: Job, pipedResult?: JobResult): JobPayload {
+    if (!pipedResult || !isSuccessResult(pipedResult)) {
+      throw new Error(`Job ${job.pipe!.job_id} has no successful result to pipe`);
+    }
+
+    const payload = pipeResultData(job.payload, pipedResult.data, job.pipe!.mode);
+    validatePayload(payload);
+
+    return payload;
+  }
+
+  private static appendAttempt(
+    job: Job,
+    status: JobStatus,
+    result: JobResult,
+    finished_at: number
+  ): JobAttempt[] {
+    const started_at = job.started_at ?? finished_at;
+
+    return [
+      ...job.attempt_history,
+      {
+        attempt: job.attempts,
+        status,
+        result,
+        started_at,
+        finished_at,
+        execution_time: finished_at - started_at,
+      },
+    ];
+  }
 }
\ No newline at end of file
@@ -0,0 +1,197 @@
+import { v4 as uuidv4 } from 'uuid';
+import { JobData } from '../entities/Job';
+import { Schedule, ScheduleData, ScheduleRunPlan } from '../entities/Schedule';
+import { ScheduleStatus } from '../value-objects/ScheduleStatus';
+import { JobPayload, validatePayload } from '../value-objects/JobPayload';
+import { normalizeJobConfig } from '../value-objects/JobConfig';
+import {
+  DEFAULT_TIMEZONE,
+  getFireTimes,
+  validateCronExpression,
+  validateTimezone,
+} from '../value-objects/CronExpression';
+import {
+  DEFAULT_MISSED_RUN_POLICY,
+  validateMissedRunPolicy,
+} from '../value-objects/MissedRunPolicy';
+
+export class ScheduleFactory {
+  static createSchedule(data: ScheduleData): Schedule {
+    validateCronExpression(data.cron);
+
+    const timezone = data.timezone ?? DEFAULT_TIMEZONE;
+    validateTimezone(timezone);
+
+    const missed_run_policy = data.missed_run_policy ?? DEFAULT_MISSED_RUN_POLICY;
+    validateMissedRunPolicy(missed_run_policy);
+
+    if (data.config?.run_at !== undefined) {
+      throw new Error('Schedule config cannot set run_at; use the cron expression instead');
+    }
+
+    // Fail at creation time instead of on every fire
+    validatePayload(data.payload);
+    normalizeJobConfig(data.config);
+
+    const now = Date.now();
+
+    return {
+      id: uuidv4(),
+      status: ScheduleStatus.ACTIVE,
+      cron: data.cron,
+      timezone,
+      job_type: data.job_type,
+      payload: data.payload,
+      config: data.config,
+      missed_run_policy,
+      next_run_at: ScheduleFactory.nextFireTime(data.cron, timezone, now),
+      created_at: now,
+      updated_at: now,
+    };
+  }
+
+  static pauseSchedule(schedule: Schedule): Schedule {
+    if (schedule.status !== ScheduleStatus.ACTIVE) {
+      throw new Error(`Cannot pause schedule in ${schedule.status} status`);
+    }
+
+    return {
+      ...schedule,
+      status: ScheduleStatus.PAUSED,
+      updated_at: Date.now(),
+    };
+  }
+
+  /**
+   * Fire times that passed while paused are not run; the schedule picks up at the next one
+   */
+  static resumeSchedule(schedule: Schedule): Schedule {
+    if (schedule.status !== ScheduleStatus.PAUSED) {
+      throw new Error(`Cannot resume schedule in ${schedule.status} status`);
+    }
+
+    const now = Date.now();
+
+    return {
+      ...schedule,
+      status: ScheduleStatus.ACTIVE,
+      next_run_at: ScheduleFactory.nextFireTime(schedule.cron, schedule.timezone, now),
+      updated_at: now,
+    };
+  }
+
+  static getUpcomingFireTimes(schedule: Schedule, count: number): number[] {
+    const from =
+      schedule.status === ScheduleStatus.ACTIVE ? schedule.next_run_at - 1 : Date.now();
+
+    return getFireTimes(schedule.cron, schedule.timezone, from, count);
+  }
+
+  /**
+   * Decides which fire times up to `now` should produce jobs.
+   * Fire times within `misfireGraceTime` of `now` are on time and always run;
+   * older ones were missed and are handled by the schedule's missed-run policy.
+   * @param maxRuns - Upper bound on jobs created by a single pass
+   */
+  static planRuns(
+    schedule: Schedule,
+    now: number,
+    misfireGraceTime: number,
+    maxRuns: number
+  ): ScheduleRunPlan {
+    if (schedule.status !== ScheduleStatus.ACTIVE || schedule.next_run_at > now) {
+      return { fire_times: [], missed: 0, next_run_at: schedule.next_run_at };
+    }
+
+    const between = (from: number, to: number): number[] =>
+      from > to ? [] : getFireTimes(schedule.cron, schedule.timezone, from - 1, maxRuns, to);
+
+    const cutoff = now - misfireGraceTime;
+    const missed = between(schedule.next_run_at, cutoff - 1);
+    const onTime = between(Math.max(schedule.next_run_at, cutoff), now);
+
+    let fire_times: number[];
+
+    switch (schedule.missed_run_policy) {
+      case 'run_all':
+        fire_times = [...missed, ...onTime];
+        break;
+      case 'run_once':
+        fire_times = [...missed.slice(0, 1), ...onTime];
+        break;
+      default:
+        fire_times = onTime;
+    }
+
+    return {
+      fire_times: fire_times.slice(0, maxRuns),
+      missed: missed.length,
+      next_run_at: ScheduleFactory.nextFireTime(schedule.cron, schedule.timezone, now),
+    };
+  }
+
+  static recordRun(schedule: Schedule, plan: ScheduleRunPlan, jobIds: string[]): Schedule {
+    const lastFireTime = plan.fire_times[plan.fire_times.length - 1];
+
+    return {
+      ...schedule,
+      next_run_at: plan.next_run_at,
+      last_run_at: lastFireTime ?? schedule.last_run_at,
+      last_job_id: jobIds[jobIds.length - 1] ?? schedule.last_job_id,
+      updated_at: Date.now(),
+    };
+  }
+
+  /**
+   * Builds the submission of the job for one fire time
+   */
+  static createJobData(schedule: Schedule, fireTime: number): JobData {
+    return {
+      type: schedule.job_type,
+      payload: ScheduleFactory.renderPayload(schedule.payload, {
+        schedule_id: schedule.id,
+        fire_time: new Date(fireTime).toISOString(),
+        fire_timestamp: String(fireTime),
+      }),
+      config: schedule.config,
+    };
+  }
+
+  /**
+   * Replaces `{{schedule_id}}`, `{{fire_time}}` (ISO-8601) and `{{fire_timestamp}}` (ms)
+   * placeholders in every string of the payload template
+   */
+  static renderPayload(template: JobPayload, variables: Record<string, string>): JobPayload {
+    const render = (value: any): any => {
+      if (typeof value === 'string') {
+        return value.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name) =>
+          name in variables ? variables[name] : match
+        );
+      }
+
+      if (Array.isArray(value)) {
+        return value.map(render);
+      }
+
+      if (value && typeof value === 'object') {
+        return Object.fromEntries(
+          Object.entries(value).map(([key, nested]) => [key, render(nested)])
+        );
+      }
+
+      return value;
+    };
+
+    return render(template);
+  }
+
+  private static nextFireTime(cron: string, timezone: string, after: number): number {
+    const [next] = getFireTimes(cron, timezone, after, 1);
+
+    if (next === undefined) {
+      throw new Error(`Cron expression '${cron}' has no upcoming fire time`);
+    }
+
+    return next;
+  }
+}
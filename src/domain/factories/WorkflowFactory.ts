@@ -0,0 +1,118 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Job } from '../entities/Job';
+import { Workflow, WorkflowData, WorkflowStatus, WorkflowStepData } from '../entities/Workflow';
+import { JobStatus } from '../value-objects/JobStatus';
+import { JobFactory } from './JobFactory';
+
+export class WorkflowFactory {
+  /**
+   * Validates the DAG and creates one job per step, parents before children.
+   * Steps with dependencies start BLOCKED; the returned jobs are in topological order.
+   */
+  static createWorkflow(data: WorkflowData): { workflow: Workflow; jobs: Job[] } {
+    const ordered = WorkflowFactory.sortSteps(data.steps);
+    const workflowId = uuidv4();
+    const jobIds = new Map<string, string>();
+    const jobs: Job[] = [];
+
+    for (const step of ordered) {
+      const job: Job = {
+        ...JobFactory.createJob({
+          type: step.type,
+          payload: step.payload,
+          config: step.config,
+          depends_on: (step.depends_on ?? []).map((dependency) => ({
+            job_id: jobIds.get(dependency.key)!,
+            on_failure: dependency.on_failure,
+          })),
+        }),
+        workflow_id: workflowId,
+      };
+
+      jobIds.set(step.key, job.id);
+      jobs.push(job);
+    }
+
+    return {
+      workflow: {
+        id: workflowId,
+        name: data.name,
+        steps: ordered.map((step) => ({ key: step.key, job_id: jobIds.get(step.key)! })),
+        created_at: Date.now(),
+      },
+      jobs,
+    };
+  }
+
+  static getStatus(jobs: Job[]): WorkflowStatus {
+    if (jobs.some((job) => !JobFactory.isTerminal(job))) {
+      return 'running';
+    }
+
+    return jobs.every((job) => job.status === JobStatus.COMPLETED) ? 'completed' : 'failed';
+  }
+
+  /**
+   * Kahn's algorithm; keeps submission order among steps that are ready at the same time
+   */
+  private static sortSteps(steps: WorkflowStepData[]): WorkflowStepData[] {
+    if (!Array.isArray(steps) || steps.length === 0) {
+      throw new Error('Workflow must contain at least one step');
+    }
+
+    const byKey = new Map<string, WorkflowStepData>();
+
+    for (const step of steps) {
+      if (!step.key) {
+        throw new Error('Workflow step key cannot be empty');
+      }
+
+      if (byKey.has(step.key)) {
+        throw new Error(`Workflow step key '${step.key}' is used more than once`);
+      }
+
+      byKey.set(step.key, step);
+    }
+
+    const remaining = new Map<string, number>();
+    const children = new Map<string, string[]>();
+
+    for (const step of steps) {
+      const parents = (step.depends_on ?? []).map((dependency) => dependency.key);
+
+      for (const parent of parents) {
+        if (!byKey.has(parent)) {
+          throw new Error(`Workflow step '${step.key}' depends on unknown step '${parent}'`);
+        }
+
+        children.set(parent, [...(children.get(parent) ?? []), step.key]);
+      }
+
+      remaining.set(step.key, parents.length);
+    }
+
+    const ready = steps.filter((step) => remaining.get(step.key) === 0).map((step) => step.key);
+    const ordered: WorkflowStepData[] = [];
+
+    while (ready.length > 0) {
+      const key = ready.shift()!;
+      ordered.push(byKey.get(key)!);
+
+      for (const child of children.get(key) ?? []) {
+        const count = remaining.get(child)! - 1;
+        remaining.set(child, count);
+
+        if (count === 0) {
+          ready.push(child);
+        }
+      }
+    }
+
+    if (ordered.length !== steps.length) {
+      const cyclic = steps.filter((step) => remaining.get(step.key)! > 0).map((step) => step.key);
+      throw new Error(`Workflow contains a dependency cycle between steps: ${cyclic.join(', ')}`);
+    }
+
+    return ordered;
+  }
+}
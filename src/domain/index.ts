@@ -1,14 +1,45 @@
 // Entities
 export * from './entities/Job';
+export * from './entities/DeadLetter';
+export * from './entities/Schedule';
+export * from './entities/Workflow';
+export * from './entities/Chain';
+export * from './entities/Batch';
+export * from './entities/IdempotencyKey';
+export * from './entities/JobLog';
 
 // Value Objects
 export * from './value-objects/JobStatus';
 export * from './value-objects/JobConfig';
 export * from './value-objects/JobPayload';
 export * from './value-objects/JobResult';
+export * from './value-objects/RetryPolicy';
+export * from './value-objects/JobTypeLimit';
+export * from './value-objects/JobPriority';
+export * from './value-objects/JobDependency';
+export * from './value-objects/PayloadPipe';
+export * from './value-objects/FanOut';
+export * from './value-objects/UniqueKey';
+export * from './value-objects/JobProgress';
+export * from './value-objects/ScheduleStatus';
+export * from './value-objects/MissedRunPolicy';
+export * from './value-objects/CronExpression';
 
 // Factories
 export * from './factories/JobFactory';
+export * from './factories/DeadLetterFactory';
+export * from './factories/ScheduleFactory';
+export * from './factories/WorkflowFactory';
+export * from './factories/ChainFactory';
+export * from './factories/BatchFactory';
 
 // Interfaces
-export * from './interfaces/JobRepository.interface';
\ No newline at end of file
+export * from './interfaces/JobRepository.interface';
+export * from './interfaces/JobHandler.interface';
+export * from './interfaces/DeadLetterRepository.interface';
+export * from './interfaces/ScheduleRepository.interface';
+export * from './interfaces/WorkflowRepository.interface';
+export * from './interfaces/ChainRepository.interface';
+export * from './interfaces/BatchRepository.interface';
+export * from './interfaces/IdempotencyKeyRepository.interface';
+export * from './interfaces/JobLogRepository.interface';
\ No newline at end of file
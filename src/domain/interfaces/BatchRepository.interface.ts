@@ -0,0 +1,16 @@
+import { Batch } from '../entities/Batch';
+
+
+export interface BatchRepository {
+  save(batch: Batch): Promise<Batch>;
+  /**
+   * Replaces a batch with `mutate(batch)` atomically, so members finishing on several
+   * instances at once cannot overwrite each other's count; null leaves it as is
+   * @returns The stored batch, or null when it is missing or was left as is
+   */
+  update(id: string, mutate: (batch: Batch) => Batch | null): Promise<Batch | null>;
+  findById(id: string): Promise<Batch | null>;
+  delete(id: string): Promise<boolean>;
+  findAll(): Promise<Batch[]>;
+  count(): Promise<number>;
+}
@@ -0,0 +1,9 @@
+import { Chain } from '../entities/Chain';
+
+
+export interface ChainRepository {
+  save(chain: Chain): Promise<Chain>;
+  findById(id: string): Promise<Chain | null>;
+  findAll(): Promise<Chain[]>;
+  count(): Promise<number>;
+}
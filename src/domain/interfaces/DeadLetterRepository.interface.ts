@@ -0,0 +1,12 @@
+import { DeadLetter, DeadLetterFilter } from '../entities/DeadLetter';
+
+
+export interface DeadLetterRepository {
+  save(deadLetter: DeadLetter): Promise<DeadLetter>;
+  findById(id: string): Promise<DeadLetter | null>;
+  findAll(filter?: DeadLetterFilter): Promise<DeadLetter[]>;
+  delete(id: string): Promise<boolean>;
+  /** Removes every entry matching the filter and returns how many were removed */
+  purge(filter?: DeadLetterFilter): Promise<number>;
+  count(): Promise<number>;
+}
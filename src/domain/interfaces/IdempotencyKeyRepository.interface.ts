@@ -0,0 +1,17 @@
+import { IdempotencyKey } from '../entities/IdempotencyKey';
+
+
+export interface IdempotencyKeyRepository {
+  /**
+   * Stores the record unless its key already exists, replacing a record expired at
+   * `record.created_at`; must be atomic so that only one of several concurrent
+   * requests with the same key gets to process it
+   * @returns Whether the record was stored
+   */
+  create(record: IdempotencyKey): Promise<boolean>;
+  save(record: IdempotencyKey): Promise<IdempotencyKey>;
+  findByKey(key: string): Promise<IdempotencyKey | null>;
+  delete(key: string): Promise<boolean>;
+  /** Removes every record expired at `now` and returns how many were removed */
+  deleteExpired(now: number): Promise<number>;
+}
@@ -0,0 +1,66 @@
+import { Job, JobData } from '../entities/Job';
+import { JobStatus } from '../value-objects/JobStatus';
+import { JobResult } from '../value-objects/JobResult';
+
+/**
+ * Writes lines to the job's log, which is returned by `GET /jobs/:id/logs`
+ */
+export interface JobLogger {
+  debug(message: string, data?: Record<string, any>): void;
+  info(message: string, data?: Record<string, any>): void;
+  warn(message: string, data?: Record<string, any>): void;
+  error(message: string, data?: Record<string, any>): void;
+}
+
+/**
+ * Passed to handlers with every execution
+ */
+export interface JobExecutionContext {
+  /**
+   * Aborted when the execution is abandoned, e.g. after exceeding its timeout;
+   * `signal.reason` tells why. Handlers should stop their work when it fires.
+   */
+  signal: AbortSignal;
+  /**
+   * Publishes the execution's progress on the job (`percent` between 0 and 100).
+   * Calls are cheap: writes to the store are throttled and only the latest report is kept.
+   */
+  reportProgress(percent: number, message?: string, data?: Record<string, any>): void;
+  /** Job-scoped logger; lines are stored with the attempt that wrote them */
+  logger: JobLogger;
+}
+
+/**
+ * Executes jobs of a given type.
+ * Resolve with an ErrorResult (or throw) to mark the job as failed.
+ */
+export interface JobHandler {
+  handle(job: Job, context: JobExecutionContext): Promise<JobResult>;
+}
+
+
+/**
+ * Outcome of one child job, as passed to the reduce step
+ */
+export interface ChildJobResult {
+  job_id: string;
+  status: JobStatus;
+  result?: JobResult;
+}
+
+/**
+ * Executes map-reduce jobs in two steps:
+ * - map: returns the child jobs to spawn from the parent job; the parent then waits
+ * - reduce: combines the children's results once the parent's fan-in policy is met
+ * Throw (or resolve reduce with an ErrorResult) to fail the parent.
+ */
+export interface MapReduceJobHandler {
+  map(job: Job, context: JobExecutionContext): Promise<JobData[]>;
+  reduce(job: Job, children: ChildJobResult[], context: JobExecutionContext): Promise<JobResult>;
+}
+
+export function isMapReduceHandler(
+  handler: JobHandler | MapReduceJobHandler
+): handler is MapReduceJobHandler {
+  return typeof (handler as MapReduceJobHandler).map === 'function';
+}
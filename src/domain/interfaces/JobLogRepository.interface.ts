@@ -0,0 +1,9 @@
+import { JobLogEntry, JobLogUsage } from '../entities/JobLog';
+
+
+export interface JobLogRepository {
+  append(entry: JobLogEntry): Promise<JobLogEntry>;
+  /** Lines of the job with a sequence greater than `after`, oldest first */
+  findByJobId(jobId: string, options: { after?: number; limit: number }): Promise<JobLogEntry[]>;
+  getUsage(jobId: string): Promise<JobLogUsage>;
+}
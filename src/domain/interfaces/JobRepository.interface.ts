@@ -1,14 +1,84 @@
 import { Job } from '../../domain/entities/Job';
 import { JobStatus } from '../../domain/value-objects/JobStatus';
 
+export interface JobInsertion {
+  /** The saved job, or the job it was collapsed into */
+  job: Job;
+  collapsed: boolean;
+}
+
+/**
+ * Given a new job and the jobs sharing its unique, debounce or throttle key, returns
+ * the job it collapses into (changed as needed, e.g. debounced), or undefined to save it
+ */
+export type JobCollapse = (job: Job, candidates: Job[]) => Job | undefined;
+
 
 export interface JobRepository {
   save(job: Job): Promise<Job>;
+  /**
+   * Saves new jobs in one atomic step, each unless `collapse` folds it into a job with
+   * the same key: a stored one, or an earlier job of the call. Processes sharing the
+   * storage thus never both create a job for one key. `collapse` may run again on
+   * fresher jobs after a conflict.
+   * @returns One insertion per job, in order, holding the jobs as saved
+   */
+  insert(jobs: Job[], collapse: JobCollapse): Promise<JobInsertion[]>;
+  /**
+   * Re-reads a job and saves what `mutate` makes of it in one atomic step, so a change
+   * made in between by another processor is never overwritten. `mutate` may run again
+   * on a fresher copy after a conflict; returning null leaves the job as stored.
+   * @returns The saved job, or null if the job does not exist or nothing was saved
+   */
+  update(jobId: string, mutate: (job: Job) => Job | null): Promise<Job | null>;
   findById(jobId: string): Promise<Job | null>;
+  /** The jobs of `jobIds` that exist, in the order of `jobIds`, read in one round trip */
+  findByIds(jobIds: string[]): Promise<Job[]>;
   findAll(): Promise<Job[]>;
   findByStatus(status: JobStatus): Promise<Job[]>;
-  getNextEligible(): Promise<Job | null>;
+  /** Jobs of `type` submitted with `uniqueKey` as their unique, debounce or throttle key */
+  findByUniqueKey(type: string, uniqueKey: string): Promise<Job[]>;
+  /** Jobs that list `jobId` among their dependencies, in submission order */
+  findDependents(jobId: string): Promise<Job[]>;
+  /**
+   * The PENDING job to run next. Implementations shared by several processors claim
+   * it, so it is not returned again until it is saved or the claim expires.
+   * @param excludedTypes - Job types to skip, e.g. those at their concurrency or rate limit
+   */
+  getNextEligible(excludedTypes?: string[]): Promise<Job | null>;
+  /** Timestamp (ms) at which the next delayed (or claimed but abandoned) job can be claimed */
+  getNextEligibleAt(): Promise<number | undefined>;
+  /** Timestamp (ms) at which the earliest unstarted job with a deadline expires */
+  getNextExpiresAt(): Promise<number | undefined>;
+  /**
+   * Takes the BLOCKED or PENDING jobs whose deadline is at or before `now` out of
+   * the queue and returns them; the caller is expected to move them to EXPIRED
+   */
+  takeExpiredJobs(now: number): Promise<Job[]>;
+  /**
+   * Takes the RUNNING jobs whose processor stopped without finishing them and returns
+   * them; the caller is expected to retry or fail them. Implementations shared by
+   * several processors lease RUNNING jobs and return those whose lease ran out.
+   */
+  takeAbandonedJobs(now: number): Promise<Job[]>;
+  /**
+   * Extends the lease on RUNNING jobs their processor is still executing
+   * @returns Those of the jobs with a cancellation request, for the processor to apply
+   */
+  renewLeases(jobIds: string[]): Promise<Job[]>;
   getJobCounts(): Promise<Record<JobStatus, number>>;
   exists(jobId: string): Promise<boolean>;
   count(): Promise<number>;
-}
\ No newline at end of file
+  /**
+   * Registers a listener called whenever a job saved through this repository enters
+   * (or re-enters) PENDING
+   * @returns Function that removes the listener
+   */
+  onJobPending(listener: () => void): () => void;
+  /**
+   * Registers a listener called once per job saved through this repository, when it
+   * reaches a terminal status
+   * @returns Function that removes the listener
+   */
+  onJobFinished(listener: (job: Job) => void): () => void;
+}
@@ -0,0 +1,16 @@
+import { Schedule, ScheduleFilter } from '../entities/Schedule';
+
+
+export interface ScheduleRepository {
+  save(schedule: Schedule): Promise<Schedule>;
+  /**
+   * Replaces a schedule with `mutate(schedule)` atomically, so instances sharing the
+   * schedule cannot both fire the same run; null leaves it as is
+   * @returns The stored schedule, or null when it is missing or was left as is
+   */
+  update(id: string, mutate: (schedule: Schedule) => Schedule | null): Promise<Schedule | null>;
+  findById(id: string): Promise<Schedule | null>;
+  findAll(filter?: ScheduleFilter): Promise<Schedule[]>;
+  delete(id: string): Promise<boolean>;
+  count(): Promise<number>;
+}
@@ -0,0 +1,9 @@
+import { Workflow } from '../entities/Workflow';
+
+
+export interface WorkflowRepository {
+  save(workflow: Workflow): Promise<Workflow>;
+  findById(id: string): Promise<Workflow | null>;
+  findAll(): Promise<Workflow[]>;
+  count(): Promise<number>;
+}
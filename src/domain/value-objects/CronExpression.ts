@@ -0,0 +1,50 @@
+import { CronExpressionParser } from 'cron-parser';
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+export function validateTimezone(timezone: string): void {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+  } catch {
+    throw new Error(`Timezone '${timezone}' is not a valid IANA timezone`);
+  }
+}
+
+export function validateCronExpression(expression: string): void {
+  try {
+    CronExpressionParser.parse(expression);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Cron expression '${expression}' is invalid: ${reason}`);
+  }
+}
+
+/**
+ * Fire times (ms) strictly after `after`, in order
+ * @param expression - Standard 5-field cron expression (an optional leading seconds field is accepted)
+ * @param timezone - IANA timezone the expression is evaluated in
+ * @param after - Timestamp (ms) to start from
+ * @param count - Maximum number of fire times to return
+ * @param until - Optional inclusive upper bound (ms)
+ */
+export function getFireTimes(
+  expression: string,
+  timezone: string,
+  after: number,
+  count: number,
+  until?: number
+): number[] {
+  const interval = CronExpressionParser.parse(expression, {
+    currentDate: new Date(after),
+    endDate: until !== undefined ? new Date(until) : undefined,
+    tz: timezone,
+  });
+
+  const fireTimes: number[] = [];
+
+  while (fireTimes.length < count && interval.hasNext()) {
+    fireTimes.push(interval.next().getTime());
+  }
+
+  return fireTimes;
+}
@@ -0,0 +1,81 @@
+/**
+ * When the parent of a fan-out stops waiting for its children:
+ * - fail_fast: the first child that does not complete fails the parent
+ * - best_effort: every child runs to a terminal status and all results are reduced
+ * - min_success_ratio: like best_effort, but at least `min_success_ratio` of the
+ *   children must complete; the parent fails as soon as that becomes impossible
+ */
+export type FanInStrategy = 'fail_fast' | 'best_effort' | 'min_success_ratio';
+
+export const FAN_IN_STRATEGIES: FanInStrategy[] = ['fail_fast', 'best_effort', 'min_success_ratio'];
+
+export interface FanInPolicy {
+  strategy: FanInStrategy;
+  /** Fraction of children (0, 1] that must complete; only for `min_success_ratio` */
+  min_success_ratio?: number;
+}
+
+export const DEFAULT_FAN_IN_POLICY: FanInPolicy = {
+  strategy: 'fail_fast',
+};
+
+/**
+ * Children spawned by a map step and how many of them finished so far
+ */
+export interface FanOutProgress {
+  child_ids: string[];
+  completed: number;
+  /** Children that reached a terminal status other than COMPLETED */
+  failed: number;
+}
+
+/**
+ * - waiting: keep waiting for children
+ * - reduce: the policy is met; run the reduce step
+ * - fail: the policy can no longer be met
+ */
+export type FanInDecision = 'waiting' | 'reduce' | 'fail';
+
+export function normalizeFanInPolicy(policy?: Partial<FanInPolicy>): FanInPolicy {
+  const strategy = policy?.strategy ?? DEFAULT_FAN_IN_POLICY.strategy;
+
+  if (!FAN_IN_STRATEGIES.includes(strategy)) {
+    throw new Error(`Fan-in strategy must be one of: ${FAN_IN_STRATEGIES.join(', ')}`);
+  }
+
+  if (strategy !== 'min_success_ratio') {
+    if (policy?.min_success_ratio !== undefined) {
+      throw new Error('Fan-in min_success_ratio is only allowed with the min_success_ratio strategy');
+    }
+
+    return { strategy };
+  }
+
+  const ratio = policy?.min_success_ratio;
+
+  if (typeof ratio !== 'number' || !(ratio > 0 && ratio <= 1)) {
+    throw new Error('Fan-in min_success_ratio must be a number in (0, 1]');
+  }
+
+  return { strategy, min_success_ratio: ratio };
+}
+
+export function evaluateFanIn(policy: FanInPolicy, progress: FanOutProgress): FanInDecision {
+  const total = progress.child_ids.length;
+  const finished = progress.completed + progress.failed;
+
+  switch (policy.strategy) {
+    case 'fail_fast':
+      if (progress.failed > 0) {
+        return 'fail';
+      }
+      break;
+    case 'min_success_ratio':
+      if (total - progress.failed < Math.ceil(policy.min_success_ratio! * total)) {
+        return 'fail';
+      }
+      break;
+  }
+
+  return finished >= total ? 'reduce' : 'waiting';
+}
@@ -1,26 +1,235 @@
+import { RetryPolicy, DEFAULT_RETRY_POLICY, normalizeRetryPolicy } from './RetryPolicy';
+import { DEFAULT_PRIORITY, validatePriority } from './JobPriority';
+import { DEFAULT_FAN_IN_POLICY, FanInPolicy, normalizeFanInPolicy } from './FanOut';
+import {
+  KeyedWindow,
+  UniqueScope,
+  Uniqueness,
+  normalizeKeyedWindow,
+  normalizeUniqueness,
+} from './UniqueKey';
+
 export interface JobConfig {
   /**
    * Delay in milliseconds before the job should start executing
    * @default 0
    */
   delay?: number;
+  /**
+   * Absolute time (epoch ms) at which the job becomes eligible; mutually exclusive with `delay`
+   * @default undefined
+   */
+  run_at?: number;
+  /**
+   * Absolute deadline (epoch ms) by which the job must have started; mutually exclusive with `ttl`
+   * @default undefined (no deadline)
+   */
+  expires_at?: number;
+  /**
+   * Milliseconds after submission by which the job must have started; mutually exclusive with `expires_at`
+   * @default undefined (no deadline)
+   */
+  ttl?: number;
+  /**
+   * Maximum execution time in milliseconds of a single attempt
+   * @default the service-wide default (DEFAULT_JOB_TIMEOUT unless configured)
+   */
+  timeout?: number;
+  /**
+   * Scheduling priority between -100 and 100; higher values run first
+   * @default 0
+   */
+  priority?: number;
+  /**
+   * Retry policy applied when an attempt fails
+   * @default DEFAULT_RETRY_POLICY (single attempt)
+   */
+  retry?: Partial<RetryPolicy>;
+  /**
+   * How a map-reduce job's children settle the reduce step
+   * @default DEFAULT_FAN_IN_POLICY (fail_fast)
+   */
+  fan_in?: Partial<FanInPolicy>;
+  /**
+   * Deduplication key; submitting a job whose type and key match an existing job
+   * within `unique_scope` returns that job instead of creating a new one
+   * @default undefined (no deduplication)
+   */
+  unique_key?: string;
+  /**
+   * @default 'pending'
+   */
+  unique_scope?: UniqueScope;
+  /**
+   * Window in milliseconds for the `ttl` scope, counted from the existing job's creation
+   */
+  unique_ttl?: number;
+  /**
+   * Coalesces submissions with the same key into the PENDING job, which runs `window` ms
+   * after the last of them; mutually exclusive with `delay`, `run_at`, `throttle` and `unique_key`
+   * @default undefined
+   */
+  debounce?: Partial<KeyedWindow>;
+  /**
+   * Drops submissions less than `window` ms after the last job with the same key;
+   * mutually exclusive with `debounce` and `unique_key`
+   * @default undefined
+   */
+  throttle?: Partial<KeyedWindow>;
 }
 
-export const DEFAULT_JOB_CONFIG: Required<JobConfig> = {
+export interface NormalizedJobConfig extends Partial<Uniqueness> {
+  delay: number;
+  run_at?: number;
+  /** Deadline resolved from `expires_at` or `ttl` */
+  expires_at?: number;
+  ttl?: number;
+  timeout?: number;
+  priority: number;
+  retry: RetryPolicy;
+  fan_in: FanInPolicy;
+  debounce?: KeyedWindow;
+  throttle?: KeyedWindow;
+}
+
+export const DEFAULT_JOB_CONFIG: NormalizedJobConfig = {
   delay: 0,
+  priority: DEFAULT_PRIORITY,
+  retry: DEFAULT_RETRY_POLICY,
+  fan_in: DEFAULT_FAN_IN_POLICY,
 };
 
+/** Execution timeout of jobs without `config.timeout`, unless the service configures another one */
+export const DEFAULT_JOB_TIMEOUT = 5 * 60 * 1000;
+
+/** How far in the past `run_at` may be (clock skew); such jobs run immediately */
+export const RUN_AT_PAST_TOLERANCE = 60 * 1000;
+
+/** How far in the future `run_at` may be */
+export const RUN_AT_MAX_HORIZON = 365 * 24 * 60 * 60 * 1000;
+
 /**
  * Validates and normalizes job configuration
  * @param config - Raw configuration object
+ * @param now - Reference time (ms) for validating `run_at`
  * @returns Normalized configuration with defaults
  */
-export function normalizeJobConfig(config?: JobConfig): Required<JobConfig> {
-  const delay = config?.delay ?? DEFAULT_JOB_CONFIG.delay;
+export function normalizeJobConfig(config?: JobConfig, now: number = Date.now()): NormalizedJobConfig {
+  const keyed = normalizeKeyedWindows(config);
+
+  if (keyed.debounce && (config?.delay !== undefined || config?.run_at !== undefined)) {
+    throw new Error('Debounce cannot be combined with delay or run_at');
+  }
+
+  // The debounce window is the job's delay, so pushing it back reuses `eligible_at`
+  const delay = keyed.debounce?.window ?? config?.delay ?? DEFAULT_JOB_CONFIG.delay;
 
   if (delay < 0) {
     throw new Error('Delay must be a non-negative number');
   }
 
-  return { delay };
-}
\ No newline at end of file
+  const priority = config?.priority ?? DEFAULT_JOB_CONFIG.priority;
+  validatePriority(priority);
+
+  const retry = normalizeRetryPolicy(config?.retry);
+  const fan_in = normalizeFanInPolicy(config?.fan_in);
+  const uniqueness = normalizeUniqueness(config);
+
+  if (config?.run_at !== undefined) {
+    if (config.delay !== undefined) {
+      throw new Error('Delay and run_at are mutually exclusive');
+    }
+
+    validateRunAt(config.run_at, now);
+  }
+
+  const deadline = normalizeDeadline(config, config?.run_at ?? now + delay, now);
+
+  if (config?.timeout !== undefined) {
+    validateTimeout(config.timeout);
+  }
+
+  return {
+    delay,
+    ...(config?.run_at !== undefined && { run_at: config.run_at }),
+    ...deadline,
+    ...(config?.timeout !== undefined && { timeout: config.timeout }),
+    priority,
+    retry,
+    fan_in,
+    ...uniqueness,
+    ...keyed,
+  };
+}
+
+/**
+ * Resolves `ttl` into an absolute `expires_at`, which must fall after the job's start time
+ */
+function normalizeDeadline(
+  config: JobConfig | undefined,
+  startAt: number,
+  now: number
+): Pick<NormalizedJobConfig, 'expires_at' | 'ttl'> {
+  if (config?.expires_at === undefined && config?.ttl === undefined) {
+    return {};
+  }
+
+  if (config.expires_at !== undefined && config.ttl !== undefined) {
+    throw new Error('Expires at and ttl are mutually exclusive');
+  }
+
+  if (config.ttl !== undefined && (!Number.isInteger(config.ttl) || config.ttl <= 0)) {
+    throw new Error('TTL must be a positive integer (milliseconds)');
+  }
+
+  if (config.expires_at !== undefined && (!Number.isInteger(config.expires_at) || config.expires_at < 0)) {
+    throw new Error('Expires at must be a timestamp in milliseconds');
+  }
+
+  const expires_at = config.expires_at ?? now + config.ttl!;
+
+  if (expires_at <= startAt) {
+    throw new Error('Expires at must be later than the time the job becomes eligible');
+  }
+
+  return config.ttl !== undefined ? { expires_at, ttl: config.ttl } : { expires_at };
+}
+
+function normalizeKeyedWindows(config?: JobConfig): Pick<NormalizedJobConfig, 'debounce' | 'throttle'> {
+  const debounce = normalizeKeyedWindow('debounce', config?.debounce);
+  const throttle = normalizeKeyedWindow('throttle', config?.throttle);
+
+  if (debounce && throttle) {
+    throw new Error('Debounce and throttle are mutually exclusive');
+  }
+
+  if ((debounce || throttle) && config?.unique_key !== undefined) {
+    throw new Error(`${debounce ? 'Debounce' : 'Throttle'} cannot be combined with unique_key`);
+  }
+
+  return debounce ? { debounce } : throttle ? { throttle } : {};
+}
+
+export function validateTimeout(timeout: number): void {
+  if (!Number.isInteger(timeout) || timeout <= 0) {
+    throw new Error('Timeout must be a positive integer (milliseconds)');
+  }
+}
+
+function validateRunAt(runAt: number, now: number): void {
+  if (!Number.isInteger(runAt) || runAt < 0) {
+    throw new Error('Run at must be a timestamp in milliseconds');
+  }
+
+  if (runAt < now - RUN_AT_PAST_TOLERANCE) {
+    throw new Error(
+      `Run at must not be more than ${RUN_AT_PAST_TOLERANCE}ms in the past`
+    );
+  }
+
+  if (runAt > now + RUN_AT_MAX_HORIZON) {
+    throw new Error(
+      `Run at must be within ${RUN_AT_MAX_HORIZON / (24 * 60 * 60 * 1000)} days from now`
+    );
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * What happens to a dependent job when this parent ends without completing
+ * (failed, cancelled or skipped):
+ * - cancel: the dependent job is cancelled
+ * - skip: the dependent job is marked skipped
+ */
+export type DependencyFailurePolicy = 'cancel' | 'skip';
+
+export const DEPENDENCY_FAILURE_POLICIES: readonly DependencyFailurePolicy[] = ['cancel', 'skip'];
+
+export const DEFAULT_DEPENDENCY_FAILURE_POLICY: DependencyFailurePolicy = 'cancel';
+
+export interface JobDependency {
+  job_id: string;
+  on_failure: DependencyFailurePolicy;
+}
+
+/**
+ * Validates dependency edges and fills in the default failure policy
+ */
+export function normalizeDependencies(
+  dependencies: Array<{ job_id: string; on_failure?: DependencyFailurePolicy }> = []
+): JobDependency[] {
+  const seen = new Set<string>();
+
+  return dependencies.map((dependency) => {
+    if (!dependency.job_id) {
+      throw new Error('Dependency job_id cannot be empty');
+    }
+
+    if (seen.has(dependency.job_id)) {
+      throw new Error(`Dependency on job ${dependency.job_id} is listed more than once`);
+    }
+    seen.add(dependency.job_id);
+
+    const on_failure = dependency.on_failure ?? DEFAULT_DEPENDENCY_FAILURE_POLICY;
+
+    if (!DEPENDENCY_FAILURE_POLICIES.includes(on_failure)) {
+      throw new Error(
+        `Dependency on_failure must be one of: ${DEPENDENCY_FAILURE_POLICIES.join(', ')}`
+      );
+    }
+
+    return { job_id: dependency.job_id, on_failure };
+  });
+}
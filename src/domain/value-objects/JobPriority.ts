@@ -0,0 +1,50 @@
+export const MIN_PRIORITY = -100;
+export const MAX_PRIORITY = 100;
+export const DEFAULT_PRIORITY = 0;
+
+export function validatePriority(priority: number): void {
+  if (!Number.isInteger(priority) || priority < MIN_PRIORITY || priority > MAX_PRIORITY) {
+    throw new Error(
+      `Priority must be an integer between ${MIN_PRIORITY} and ${MAX_PRIORITY}`
+    );
+  }
+}
+
+/**
+ * Priority used for ordering once aging is applied.
+ * Every `agingInterval` ms spent waiting since `waitingSince` adds one priority level,
+ * so low-priority jobs eventually overtake a steady stream of higher-priority ones.
+ * @param priority - Configured priority (higher runs first)
+ * @param waitingSince - Timestamp (ms) the job became eligible
+ * @param now - Current timestamp (ms)
+ * @param agingInterval - Milliseconds per priority level; undefined disables aging
+ */
+export function effectivePriority(
+  priority: number,
+  waitingSince: number,
+  now: number,
+  agingInterval?: number
+): number {
+  if (!agingInterval) {
+    return priority;
+  }
+
+  return priority + Math.max(0, now - waitingSince) / agingInterval;
+}
+
+/**
+ * Time-independent ordering key equivalent to `effectivePriority` for waiting jobs.
+ * `effectivePriority = priorityRank + now / agingInterval`, and the `now` term is the
+ * same for every job, so ranks can be stored in a heap without ever being recomputed.
+ */
+export function priorityRank(
+  priority: number,
+  waitingSince: number,
+  agingInterval?: number
+): number {
+  if (!agingInterval) {
+    return priority;
+  }
+
+  return priority - waitingSince / agingInterval;
+}
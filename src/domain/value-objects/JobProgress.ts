@@ -0,0 +1,38 @@
+/**
+ * Latest progress reported by the handler of a running job
+ */
+export interface JobProgress {
+  /** Completion between 0 and 100 */
+  percent: number;
+  message?: string;
+  data?: Record<string, any>;
+  updated_at: number;
+}
+
+export const MAX_PROGRESS_MESSAGE_LENGTH = 1000;
+
+export function createJobProgress(
+  percent: number,
+  message?: string,
+  data?: Record<string, any>,
+  now: number = Date.now()
+): JobProgress {
+  if (typeof percent !== 'number' || !(percent >= 0 && percent <= 100)) {
+    throw new Error('Progress percent must be a number between 0 and 100');
+  }
+
+  if (message !== undefined && (typeof message !== 'string' || message.length > MAX_PROGRESS_MESSAGE_LENGTH)) {
+    throw new Error(`Progress message must be a string of at most ${MAX_PROGRESS_MESSAGE_LENGTH} characters`);
+  }
+
+  if (data !== undefined && (typeof data !== 'object' || data === null || Array.isArray(data))) {
+    throw new Error('Progress data must be an object');
+  }
+
+  return {
+    percent,
+    ...(message !== undefined && { message }),
+    ...(data !== undefined && { data }),
+    updated_at: now,
+  };
+}
@@ -1,9 +1,19 @@
 export enum JobStatus {
+  /** Waiting for the jobs it depends on to complete */
+  BLOCKED = 'blocked',
   PENDING = 'pending',
   RUNNING = 'running',
+  /** Ran its map step and waits for the child jobs it spawned */
+  WAITING = 'waiting',
   COMPLETED = 'completed',
   FAILED = 'failed',
   CANCELLED = 'cancelled',
+  /** Never ran because a dependency did not complete (`skip` edge policy) */
+  SKIPPED = 'skipped',
+  /** Never ran because its `expires_at` deadline passed first */
+  EXPIRED = 'expired',
+  /** Exceeded its execution timeout on the last allowed attempt */
+  TIMED_OUT = 'timed_out',
 }
 
 export function isValidJobStatus(status: string): status is JobStatus {
@@ -0,0 +1,55 @@
+export interface JobTypeLimit {
+  /**
+   * Maximum number of RUNNING jobs of this type
+   * @default unlimited
+   */
+  max_concurrent?: number;
+  /**
+   * Token bucket refill rate: job starts allowed per second
+   * @default unlimited
+   */
+  rate_per_second?: number;
+  /**
+   * Token bucket capacity (starts allowed in a burst)
+   * @default rate_per_second, rounded up
+   */
+  burst?: number;
+}
+
+/**
+ * Validates and normalizes a per-type limit
+ * @param type - Job type the limit applies to
+ * @param limit - Raw limit definition
+ * @returns Limit with burst defaulted when a rate is set
+ */
+export function normalizeJobTypeLimit(type: string, limit: JobTypeLimit): JobTypeLimit {
+  if (!limit || typeof limit !== 'object') {
+    throw new Error(`Limit for job type '${type}' must be an object`);
+  }
+
+  const { max_concurrent, rate_per_second, burst } = limit;
+
+  if (max_concurrent !== undefined && (!Number.isInteger(max_concurrent) || max_concurrent < 1)) {
+    throw new Error(`Limit max_concurrent for job type '${type}' must be a positive integer`);
+  }
+
+  if (rate_per_second !== undefined && (typeof rate_per_second !== 'number' || rate_per_second <= 0)) {
+    throw new Error(`Limit rate_per_second for job type '${type}' must be a positive number`);
+  }
+
+  if (burst !== undefined) {
+    if (rate_per_second === undefined) {
+      throw new Error(`Limit burst for job type '${type}' requires rate_per_second`);
+    }
+
+    if (!Number.isInteger(burst) || burst < 1) {
+      throw new Error(`Limit burst for job type '${type}' must be a positive integer`);
+    }
+  }
+
+  return {
+    max_concurrent,
+    rate_per_second,
+    burst: rate_per_second !== undefined ? burst ?? Math.ceil(rate_per_second) : undefined,
+  };
+}
@@ -0,0 +1,18 @@
+/**
+ * What to do with fire times that passed while the scheduler could not run them
+ * (service down, process suspended):
+ * - skip: drop them and wait for the next fire time
+ * - run_once: run a single job for all of them
+ * - run_all: run one job per missed fire time
+ */
+export type MissedRunPolicy = 'skip' | 'run_once' | 'run_all';
+
+export const MISSED_RUN_POLICIES: readonly MissedRunPolicy[] = ['skip', 'run_once', 'run_all'];
+
+export const DEFAULT_MISSED_RUN_POLICY: MissedRunPolicy = 'skip';
+
+export function validateMissedRunPolicy(policy: string): asserts policy is MissedRunPolicy {
+  if (!MISSED_RUN_POLICIES.includes(policy as MissedRunPolicy)) {
+    throw new Error(`Missed run policy must be one of: ${MISSED_RUN_POLICIES.join(', ')}`);
+  }
+}
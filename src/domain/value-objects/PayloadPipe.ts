@@ -0,0 +1,93 @@
+import { JobPayload } from './JobPayload';
+
+/**
+ * How the `SuccessResult.data` of a previous job is fed into a job's payload:
+ * - merge: result data fields are shallow-merged over the payload
+ * - template: `{{result}}` / `{{result.path.to.field}}` placeholders in payload strings are filled in
+ */
+export type PipeMode = 'merge' | 'template';
+
+export const PIPE_MODES: readonly PipeMode[] = ['merge', 'template'];
+
+export const DEFAULT_PIPE_MODE: PipeMode = 'merge';
+
+export interface PayloadPipe {
+  /** Job whose result is piped in; always one of the job's dependencies */
+  job_id: string;
+  mode: PipeMode;
+}
+
+export function validatePipeMode(mode: PipeMode): void {
+  if (!PIPE_MODES.includes(mode)) {
+    throw new Error(`Pipe mode must be one of: ${PIPE_MODES.join(', ')}`);
+  }
+}
+
+const PLACEHOLDER = /\{\{\s*result((?:\.\w+)*)\s*\}\}/g;
+const WHOLE_PLACEHOLDER = /^\{\{\s*result((?:\.\w+)*)\s*\}\}$/;
+
+/**
+ * Builds the payload of the next job from its template and the previous job's result data.
+ * In merge mode, non-object data is stored under `result`.
+ * In template mode, a string that is a single placeholder takes the value as is (keeping
+ * its type); placeholders inside longer strings are replaced with its text (JSON for objects).
+ */
+export function pipeResultData(payload: JobPayload, data: any, mode: PipeMode): JobPayload {
+  if (mode === 'merge') {
+    if (data === undefined || data === null) {
+      return payload;
+    }
+
+    const isObject = typeof data === 'object' && !Array.isArray(data);
+    return { ...payload, ...(isObject ? data : { result: data }) };
+  }
+
+  const render = (value: any): any => {
+    if (typeof value === 'string') {
+      const whole = value.match(WHOLE_PLACEHOLDER);
+
+      if (whole) {
+        return lookup(data, whole[1]);
+      }
+
+      return value.replace(PLACEHOLDER, (_match, path: string) => {
+        const found = lookup(data, path);
+        return typeof found === 'string' ? found : JSON.stringify(found);
+      });
+    }
+
+    if (Array.isArray(value)) {
+      return value.map(render);
+    }
+
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, nested]) => [key, render(nested)])
+      );
+    }
+
+    return value;
+  };
+
+  return render(payload);
+}
+
+function lookup(data: any, path: string): any {
+  const keys = path.split('.').filter((key) => key.length > 0);
+  const missing = new Error(`Result has no value at '${['result', ...keys].join('.')}'`);
+  let value = data;
+
+  for (const key of keys) {
+    if (value === null || typeof value !== 'object' || !(key in value)) {
+      throw missing;
+    }
+
+    value = value[key];
+  }
+
+  if (value === undefined) {
+    throw missing;
+  }
+
+  return value;
+}
@@ -0,0 +1,129 @@
+import { ErrorResult } from './JobResult';
+
+export type BackoffStrategy = 'fixed' | 'linear' | 'exponential';
+
+export const BACKOFF_STRATEGIES: BackoffStrategy[] = ['fixed', 'linear', 'exponential'];
+
+export interface RetryPolicy {
+  /**
+   * Total number of attempts, including the first execution
+   * @default 1 (no retries)
+   */
+  max_attempts: number;
+  /**
+   * How the delay grows between attempts
+   * @default 'exponential'
+   */
+  backoff: BackoffStrategy;
+  /**
+   * Base delay in milliseconds before the first retry
+   * @default 1000
+   */
+  initial_delay: number;
+  /**
+   * Upper bound in milliseconds for any computed delay
+   * @default 60000
+   */
+  max_delay: number;
+  /**
+   * Randomization factor between 0 and 1 (0.2 = ±20% of the delay)
+   * @default 0
+   */
+  jitter: number;
+  /**
+   * ErrorResult codes that may be retried
+   * @default [408, 429, 500, 502, 503, 504]
+   */
+  retryable_codes: number[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  max_attempts: 1,
+  backoff: 'exponential',
+  initial_delay: 1000,
+  max_delay: 60000,
+  jitter: 0,
+  retryable_codes: [408, 429, 500, 502, 503, 504],
+};
+
+/**
+ * Validates and normalizes a retry policy
+ * @param policy - Raw (partial) retry policy
+ * @returns Normalized policy with defaults
+ */
+export function normalizeRetryPolicy(policy?: Partial<RetryPolicy>): RetryPolicy {
+  const initial_delay = policy?.initial_delay ?? DEFAULT_RETRY_POLICY.initial_delay;
+
+  const normalized: RetryPolicy = {
+    max_attempts: policy?.max_attempts ?? DEFAULT_RETRY_POLICY.max_attempts,
+    backoff: policy?.backoff ?? DEFAULT_RETRY_POLICY.backoff,
+    initial_delay,
+    max_delay: policy?.max_delay ?? Math.max(DEFAULT_RETRY_POLICY.max_delay, initial_delay),
+    jitter: policy?.jitter ?? DEFAULT_RETRY_POLICY.jitter,
+    retryable_codes: [
+      ...(policy?.retryable_codes ?? DEFAULT_RETRY_POLICY.retryable_codes),
+    ],
+  };
+
+  if (!Number.isInteger(normalized.max_attempts) || normalized.max_attempts < 1) {
+    throw new Error('Retry max_attempts must be a positive integer');
+  }
+
+  if (!BACKOFF_STRATEGIES.includes(normalized.backoff)) {
+    throw new Error(`Retry backoff must be one of: ${BACKOFF_STRATEGIES.join(', ')}`);
+  }
+
+  if (normalized.initial_delay < 0) {
+    throw new Error('Retry initial_delay must be a non-negative number');
+  }
+
+  if (normalized.max_delay < normalized.initial_delay) {
+    throw new Error('Retry max_delay must be greater than or equal to initial_delay');
+  }
+
+  if (normalized.jitter < 0 || normalized.jitter > 1) {
+    throw new Error('Retry jitter must be between 0 and 1');
+  }
+
+  if (!normalized.retryable_codes.every((code) => Number.isInteger(code))) {
+    throw new Error('Retry retryable_codes must be a list of integers');
+  }
+
+  return normalized;
+}
+
+/**
+ * Computes how long to wait before the next attempt
+ * @param policy - Normalized retry policy
+ * @param attempt - Number of the attempt that just failed (1-based)
+ * @param random - Source of randomness for jitter
+ */
+export function computeRetryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  random: () => number = Math.random
+): number {
+  let delay: number;
+
+  switch (policy.backoff) {
+    case 'fixed':
+      delay = policy.initial_delay;
+      break;
+    case 'linear':
+      delay = policy.initial_delay * attempt;
+      break;
+    case 'exponential':
+      delay = policy.initial_delay * Math.pow(2, attempt - 1);
+      break;
+  }
+
+  if (policy.jitter > 0) {
+    delay = delay * (1 + policy.jitter * (random() * 2 - 1));
+  }
+
+  return Math.round(Math.min(Math.max(delay, 0), policy.max_delay));
+}
+
+export function isRetryableError(policy: RetryPolicy, error: ErrorResult): boolean {
+  return policy.retryable_codes.includes(error.code);
+}
@@ -0,0 +1,114 @@
+/**
+ * Which existing job with the same type and `unique_key` a new submission collapses into:
+ * - pending: one that has not started yet (BLOCKED or PENDING)
+ * - pending_or_running: one that has not finished yet (also RUNNING or WAITING)
+ * - ttl: any job created less than `unique_ttl` ms ago, whatever its status
+ */
+export type UniqueScope = 'pending' | 'pending_or_running' | 'ttl';
+
+export const UNIQUE_SCOPES: UniqueScope[] = ['pending', 'pending_or_running', 'ttl'];
+
+export const DEFAULT_UNIQUE_SCOPE: UniqueScope = 'pending';
+
+export const MAX_UNIQUE_KEY_LENGTH = 255;
+
+export interface Uniqueness {
+  unique_key: string;
+  unique_scope: UniqueScope;
+  unique_ttl?: number;
+}
+
+/**
+ * Validates the deduplication settings of a job config
+ * @returns The normalized settings, or undefined when the job has no unique key
+ */
+export function normalizeUniqueness(config?: Partial<Uniqueness>): Uniqueness | undefined {
+  if (config?.unique_key === undefined) {
+    if (config?.unique_scope !== undefined || config?.unique_ttl !== undefined) {
+      throw new Error('Unique scope and ttl require a unique_key');
+    }
+
+    return undefined;
+  }
+
+  const key = config.unique_key;
+
+  if (typeof key !== 'string' || key.length === 0 || key.length > MAX_UNIQUE_KEY_LENGTH) {
+    throw new Error(
+      `Unique key must be a non-empty string of at most ${MAX_UNIQUE_KEY_LENGTH} characters`
+    );
+  }
+
+  const scope = config.unique_scope ?? DEFAULT_UNIQUE_SCOPE;
+
+  if (!UNIQUE_SCOPES.includes(scope)) {
+    throw new Error(`Unique scope must be one of: ${UNIQUE_SCOPES.join(', ')}`);
+  }
+
+  if (scope !== 'ttl') {
+    if (config.unique_ttl !== undefined) {
+      throw new Error('Unique ttl is only allowed with the ttl scope');
+    }
+
+    return { unique_key: key, unique_scope: scope };
+  }
+
+  const ttl = config.unique_ttl;
+
+  if (typeof ttl !== 'number' || !Number.isInteger(ttl) || ttl <= 0) {
+    throw new Error('Unique ttl must be a positive integer (milliseconds)');
+  }
+
+  return { unique_key: key, unique_scope: scope, unique_ttl: ttl };
+}
+
+/**
+ * Key and window of a debounced or throttled job:
+ * - debounce: a submission while a PENDING job has the key replaces that job's payload
+ *   and pushes its `eligible_at` back to `window` ms from now
+ * - throttle: a submission less than `window` ms after the last job with the key is dropped
+ */
+export interface KeyedWindow {
+  key: string;
+  window: number;
+}
+
+export type KeyedWindowMode = 'debounce' | 'throttle';
+
+/**
+ * Validates a debounce or throttle setting
+ */
+export function normalizeKeyedWindow(mode: KeyedWindowMode, value?: Partial<KeyedWindow>): KeyedWindow | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const name = mode === 'debounce' ? 'Debounce' : 'Throttle';
+
+  if (
+    typeof value.key !== 'string' ||
+    value.key.length === 0 ||
+    value.key.length > MAX_UNIQUE_KEY_LENGTH
+  ) {
+    throw new Error(
+      `${name} key must be a non-empty string of at most ${MAX_UNIQUE_KEY_LENGTH} characters`
+    );
+  }
+
+  if (typeof value.window !== 'number' || !Number.isInteger(value.window) || value.window <= 0) {
+    throw new Error(`${name} window must be a positive integer (milliseconds)`);
+  }
+
+  return { key: value.key, window: value.window };
+}
+
+/**
+ * The key under which a job's unique, debounce or throttle matches are looked up
+ */
+export function coalescingKey(config: {
+  unique_key?: string;
+  debounce?: KeyedWindow;
+  throttle?: KeyedWindow;
+}): string | undefined {
+  return config.unique_key ?? config.debounce?.key ?? config.throttle?.key;
+}
@@ -1,3 +1,5 @@
+// Load .env before any module reads process.env (the worker singleton does on import)
+import 'dotenv/config';
 import { startServer } from './infrastructure/http/server';
 
 console.log('='.repeat(50));
@@ -0,0 +1,97 @@
+import { Job } from '../../domain/entities/Job';
+import { JobExecutionContext, JobHandler } from '../../domain/interfaces/JobHandler.interface';
+import {
+  JobResult,
+  createSuccessResult,
+  createErrorResult,
+} from '../../domain/value-objects/JobResult';
+
+/**
+ * Demo handler that sleeps 100-2000ms and fails 10% of the time.
+ * Register it explicitly for the job types you want to simulate.
+ */
+export class SimulatedJobHandler implements JobHandler {
+  private readonly MIN_EXECUTION_TIME = 100; // milliseconds
+  private readonly MAX_EXECUTION_TIME = 2000; // milliseconds
+  private readonly FAILURE_RATE = 0.1; // 10% failure rate
+
+  async handle(job: Job, context?: JobExecutionContext): Promise<JobResult> {
+    context?.logger.info(`Processing ${job.type} job`);
+    await this.simulateExecution(context?.signal);
+
+    if (this.shouldFail()) {
+      const message = this.generateFailureMessage(job.type);
+      context?.logger.error(message);
+
+      return createErrorResult(
+        message,
+        this.generateErrorCode(),
+        { jobType: job.type, timestamp: Date.now() }
+      );
+    }
+
+    return createSuccessResult(
+      this.generateSuccessMessage(job.type),
+      { jobType: job.type, processedAt: Date.now() }
+    );
+  }
+
+  /**
+   * Sleeps for a random execution time, stopping early when the execution is aborted
+   */
+  private async simulateExecution(signal?: AbortSignal): Promise<void> {
+    const executionTime = this.generateExecutionTime();
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(resolve, executionTime);
+
+      signal?.addEventListener(
+        'abort',
+        () => {
+          clearTimeout(timer);
+          reject(signal.reason);
+        },
+        { once: true }
+      );
+    });
+  }
+
+  private generateExecutionTime(): number {
+    return (
+      Math.floor(
+        Math.random() * (this.MAX_EXECUTION_TIME - this.MIN_EXECUTION_TIME + 1)
+      ) + this.MIN_EXECUTION_TIME
+    );
+  }
+
+  private shouldFail(): boolean {
+    return Math.random() < this.FAILURE_RATE;
+  }
+
+  private generateSuccessMessage(jobType: string): string {
+    const messages: Record<string, string> = {
+      email: 'Email sent successfully!',
+      sms: 'SMS sent successfully!',
+      notification: 'Notification delivered successfully!',
+      webhook: 'Webhook called successfully!',
+    };
+
+    return messages[jobType] || `Job of type '${jobType}' completed successfully!`;
+  }
+
+  private generateFailureMessage(jobType: string): string {
+    const messages: Record<string, string> = {
+      email: 'Failed to call SMTP service',
+      sms: 'Failed to call SMS gateway',
+      notification: 'Failed to deliver notification',
+      webhook: 'Failed to call webhook endpoint',
+    };
+
+    return messages[jobType] || `Failed to execute job of type '${jobType}'`;
+  }
+
+  private generateErrorCode(): number {
+    const errorCodes = [500, 502, 503, 504];
+    return errorCodes[Math.floor(Math.random() * errorCodes.length)];
+  }
+}
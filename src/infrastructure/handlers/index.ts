@@ -0,0 +1 @@
+export * from './SimulatedJobHandler';
\ No newline at end of file
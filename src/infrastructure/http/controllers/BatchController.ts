@@ -0,0 +1,102 @@
+import { GetBatchUseCase, SubmitBatchUseCase } from "../../../application/usecases";
+import { JobHandlerRegistry } from "../../../application/services/JobHandlerRegistry";
+import { DependencyResolver } from "../../../application/services/DependencyResolver";
+import { BatchRepository, JobRepository } from "../../../domain";
+import { BatchResponseDTO, SubmitBatchDTO } from "../dto";
+import { Request, Response } from "express";
+
+export class BatchController {
+  private submitBatchUseCase: SubmitBatchUseCase;
+  private getBatchUseCase: GetBatchUseCase;
+
+  constructor(
+    repository: JobRepository,
+    batchRepository: BatchRepository,
+    handlerRegistry: JobHandlerRegistry,
+    dependencyResolver: DependencyResolver
+  ) {
+    this.submitBatchUseCase = new SubmitBatchUseCase(
+      repository,
+      batchRepository,
+      handlerRegistry,
+      dependencyResolver
+    );
+    this.getBatchUseCase = new GetBatchUseCase(repository, batchRepository);
+  }
+
+  submitBatch = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { data, errors } = SubmitBatchDTO.fromRequestBody(req.body);
+
+      const submission = await this.submitBatchUseCase.execute(data, errors);
+
+      if (!submission.batch && submission.deduplicated.length > 0) {
+        // Every valid item matched an existing job
+        res.status(200).json({
+          deduplicated: submission.deduplicated,
+          errors: submission.errors,
+        });
+        return;
+      }
+
+      if (!submission.batch) {
+        res.status(400).json(BatchResponseDTO.fromErrors(submission.errors));
+        return;
+      }
+
+      res.status(201).json({
+        ...BatchResponseDTO.fromBatch(submission.batch, submission.jobs),
+        errors: submission.errors,
+        deduplicated: submission.deduplicated,
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  getBatch = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = req.params.id;
+      SubmitBatchDTO.validateBatchId(id);
+
+      const { batch, jobs } = await this.getBatchUseCase.execute(id);
+
+      res.status(200).json(BatchResponseDTO.fromBatch(batch, jobs));
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  private handleError(error: any, res: Response): void {
+    console.error('Error in BatchController:', error);
+
+    if (
+      error.message.includes('must be') ||
+      error.message.includes('must contain') ||
+      error.message.includes('required') ||
+      error.message.includes('cannot be empty') ||
+      error.message.startsWith('Callback:') ||
+      error.message.includes('Unknown job type') ||
+      error.message.includes('UUID')
+    ) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: error.message,
+      });
+      return;
+    }
+
+    if (error.message.includes('not found')) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: error.message,
+      });
+      return;
+    }
+
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'An unexpected error occurred',
+    });
+  }
+}
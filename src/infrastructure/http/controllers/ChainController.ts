@@ -0,0 +1,115 @@
+import {
+  CancelChainUseCase,
+  GetChainUseCase,
+  SubmitChainUseCase,
+} from "../../../application/usecases";
+import { JobHandlerRegistry } from "../../../application/services/JobHandlerRegistry";
+import { DependencyResolver } from "../../../application/services/DependencyResolver";
+import { ChainRepository, JobRepository } from "../../../domain";
+import { ChainResponseDTO, SubmitChainDTO } from "../dto";
+import { Request, Response } from "express";
+
+export class ChainController {
+  private submitChainUseCase: SubmitChainUseCase;
+  private getChainUseCase: GetChainUseCase;
+  private cancelChainUseCase: CancelChainUseCase;
+
+  constructor(
+    repository: JobRepository,
+    chainRepository: ChainRepository,
+    handlerRegistry: JobHandlerRegistry,
+    dependencyResolver: DependencyResolver
+  ) {
+    this.submitChainUseCase = new SubmitChainUseCase(
+      repository,
+      chainRepository,
+      handlerRegistry,
+      dependencyResolver
+    );
+    this.getChainUseCase = new GetChainUseCase(repository, chainRepository);
+    this.cancelChainUseCase = new CancelChainUseCase(
+      repository,
+      chainRepository,
+      dependencyResolver
+    );
+  }
+
+  submitChain = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const chainData = SubmitChainDTO.fromRequestBody(req.body);
+
+      const { chain, jobs } = await this.submitChainUseCase.execute(chainData);
+
+      res.status(201).json(ChainResponseDTO.fromChain(chain, jobs));
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  getChain = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = req.params.id;
+      SubmitChainDTO.validateChainId(id);
+
+      const { chain, jobs } = await this.getChainUseCase.execute(id);
+
+      res.status(200).json(ChainResponseDTO.fromChain(chain, jobs));
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  cancelChain = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = req.params.id;
+      SubmitChainDTO.validateChainId(id);
+
+      const { chain, jobs } = await this.cancelChainUseCase.execute(id);
+
+      res.status(200).json(ChainResponseDTO.fromChain(chain, jobs));
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  private handleError(error: any, res: Response): void {
+    console.error('Error in ChainController:', error);
+
+    if (
+      error.message.includes('must be') ||
+      error.message.includes('must contain') ||
+      error.message.includes('required') ||
+      error.message.includes('cannot be empty') ||
+      error.message.startsWith('Step ') ||
+      error.message.includes('Unknown job type') ||
+      error.message.includes('UUID')
+    ) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: error.message,
+      });
+      return;
+    }
+
+    if (error.message.includes('not found')) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: error.message,
+      });
+      return;
+    }
+
+    if (error.message.includes('Cannot cancel')) {
+      res.status(409).json({
+        error: 'Conflict',
+        message: error.message,
+      });
+      return;
+    }
+
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'An unexpected error occurred',
+    });
+  }
+}
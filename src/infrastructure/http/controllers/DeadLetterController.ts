@@ -0,0 +1,122 @@
+import {
+  GetDeadLetterUseCase,
+  ListDeadLettersUseCase,
+  PurgeDeadLettersUseCase,
+  ReplayDeadLetterUseCase,
+} from "../../../application/usecases";
+import { JobHandlerRegistry } from "../../../application/services/JobHandlerRegistry";
+import { DeadLetterRepository, JobRepository } from "../../../domain";
+import { DeadLetterQueryDTO, JobResponseDTO, SubmitJobDTO } from "../dto";
+import { Request, Response } from "express";
+
+export class DeadLetterController {
+  private listDeadLettersUseCase: ListDeadLettersUseCase;
+  private getDeadLetterUseCase: GetDeadLetterUseCase;
+  private replayDeadLetterUseCase: ReplayDeadLetterUseCase;
+  private purgeDeadLettersUseCase: PurgeDeadLettersUseCase;
+
+  constructor(
+    repository: JobRepository,
+    deadLetterRepository: DeadLetterRepository,
+    handlerRegistry: JobHandlerRegistry
+  ) {
+    this.listDeadLettersUseCase = new ListDeadLettersUseCase(deadLetterRepository);
+    this.getDeadLetterUseCase = new GetDeadLetterUseCase(deadLetterRepository);
+    this.replayDeadLetterUseCase = new ReplayDeadLetterUseCase(
+      repository,
+      deadLetterRepository,
+      handlerRegistry
+    );
+    this.purgeDeadLettersUseCase = new PurgeDeadLettersUseCase(deadLetterRepository);
+  }
+
+  listDeadLetters = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const filter = DeadLetterQueryDTO.fromQuery(req.query);
+
+      const deadLetters = await this.listDeadLettersUseCase.execute(filter);
+
+      res.status(200).json({
+        total: deadLetters.length,
+        dead_letters: deadLetters.map((deadLetter) => JobResponseDTO.fromDeadLetter(deadLetter)),
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  getDeadLetter = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = req.params.id;
+      SubmitJobDTO.validateJobId(id);
+
+      const deadLetter = await this.getDeadLetterUseCase.execute(id);
+
+      res.status(200).json(JobResponseDTO.fromDeadLetter(deadLetter));
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  replayDeadLetter = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = req.params.id;
+      SubmitJobDTO.validateJobId(id);
+
+      const job = await this.replayDeadLetterUseCase.execute(id);
+
+      res.status(201).json(JobResponseDTO.fromJob(job));
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  purgeDeadLetters = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const filter = DeadLetterQueryDTO.fromQuery(req.query);
+
+      const purged = await this.purgeDeadLettersUseCase.execute(filter);
+
+      res.status(200).json({ purged });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  private handleError(error: any, res: Response): void {
+    console.error('Error in DeadLetterController:', error);
+
+    if (
+      error.message.includes('must be') ||
+      error.message.includes('Unknown job type') ||
+      error.message.includes('UUID')
+    ) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: error.message,
+      });
+      return;
+    }
+
+    if (error.message.includes('not found')) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: error.message,
+      });
+      return;
+    }
+
+    if (error.message.includes('Cannot replay')) {
+      res.status(409).json({
+        error: 'Conflict',
+        message: error.message,
+      });
+      return;
+    }
+
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'An unexpected error occurred',
+    });
+  }
+}
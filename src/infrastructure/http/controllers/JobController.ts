@@ -1,27 +1,83 @@
-import { CancelJobUseCase, GetJobStatusUseCase, SubmitJobUseCase } from "../../../application/usecases";
-import { Job, JobRepository } from "../../../domain";
-import { SubmitJobDTO } from "../dto";
+import {
+  CancelJobUseCase,
+  FollowJobLogsUseCase,
+  GetJobLogsUseCase,
+  GetJobStatusUseCase,
+  SubmitJobUseCase,
+} from "../../../application/usecases";
+import { JobHandlerRegistry } from "../../../application/services/JobHandlerRegistry";
+import { DependencyResolver } from "../../../application/services/DependencyResolver";
+import { IdempotencyKeyStore } from "../../../application/services/IdempotencyKeyStore";
+import { JobExecutor } from "../../../application/services/JobExecutor";
+import { JobLogStore } from "../../../application/services/JobLogStore";
+import { JobStatus } from "../../../domain/value-objects/JobStatus";
+import { JobRepository } from "../../../domain";
+import { JobLogQueryDTO, JobResponseDTO, SubmitJobDTO } from "../dto";
 import { Request, Response } from "express";
 
 export class JobController {
   private submitJobUseCase: SubmitJobUseCase;
   private getJobStatusUseCase: GetJobStatusUseCase;
   private cancelJobUseCase: CancelJobUseCase;
-
-  constructor(repository: JobRepository) {
-    this.submitJobUseCase = new SubmitJobUseCase(repository);
+  private getJobLogsUseCase: GetJobLogsUseCase;
+  private followJobLogsUseCase: FollowJobLogsUseCase;
+
+  constructor(
+    repository: JobRepository,
+    handlerRegistry: JobHandlerRegistry,
+    dependencyResolver: DependencyResolver,
+    private readonly idempotencyKeyStore: IdempotencyKeyStore,
+    executor: JobExecutor,
+    logStore: JobLogStore
+  ) {
+    this.submitJobUseCase = new SubmitJobUseCase(repository, handlerRegistry, dependencyResolver);
     this.getJobStatusUseCase = new GetJobStatusUseCase(repository);
-    this.cancelJobUseCase = new CancelJobUseCase(repository);
+    this.cancelJobUseCase = new CancelJobUseCase(repository, dependencyResolver, executor);
+    this.getJobLogsUseCase = new GetJobLogsUseCase(repository, logStore);
+    this.followJobLogsUseCase = new FollowJobLogsUseCase(repository, logStore);
   }
 
   submitJob = async (req: Request, res: Response): Promise<void> => {
+    const idempotencyKey = req.header('Idempotency-Key');
+    let claimed = false;
+    let submitted = false;
+
     try {
+      // An invalid body is rejected before it can take the key
       const jobData = SubmitJobDTO.fromRequestBody(req.body);
 
-      const job = await this.submitJobUseCase.execute(jobData);
+      if (idempotencyKey !== undefined) {
+        const claim = await this.idempotencyKeyStore.claim(idempotencyKey, req.body);
+
+        if (claim.status === 'replay') {
+          res.set('Idempotent-Replayed', 'true');
+          res.status(claim.response.status_code).json(claim.response.body);
+          return;
+        }
+
+        claimed = true;
+      }
 
-      res.status(201).json(this.formatJobResponse(job));
+      const { job, deduplicated } = await this.submitJobUseCase.execute(jobData);
+      submitted = true;
+
+      // A deduplicated submission returns the existing job without creating anything
+      const statusCode = deduplicated ? 200 : 201;
+      const body = { ...JobResponseDTO.fromJob(job), deduplicated };
+
+      if (claimed) {
+        await this.idempotencyKeyStore.complete(idempotencyKey!, { status_code: statusCode, body });
+      }
+
+      res.status(statusCode).json(body);
     } catch (error) {
+      // A submission that failed may be retried with the same key. Once the job exists, the
+      // key stays claimed even if its response could not be recorded, so a retry cannot
+      // create it twice.
+      if (claimed && !submitted) {
+        await this.idempotencyKeyStore.release(idempotencyKey!).catch(() => undefined);
+      }
+
       this.handleError(error, res);
     }
   };
@@ -33,45 +89,77 @@ export class JobController {
 
       const job = await this.getJobStatusUseCase.execute(jobId);
 
-      res.status(200).json(this.formatJobResponse(job));
+      res.status(200).json(JobResponseDTO.fromJob(job));
     } catch (error) {
       this.handleError(error, res);
     }
   };
 
+  getJobLogs = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const jobId = req.params.id;
+      SubmitJobDTO.validateJobId(jobId);
+      const query = JobLogQueryDTO.fromQuery(req.query);
+
+      if (!query.follow) {
+        const page = await this.getJobLogsUseCase.execute(jobId, query);
+
+        res.status(200).json({ job_id: jobId, logs: page.entries, next_after: page.next_after });
+        return;
+      }
+
+      // Newline-delimited JSON, one line per log entry, until the job finishes.
+      // Headers go out once the job is known to exist, so a missing job is still a 404.
+      const startStream = () => {
+        if (!res.headersSent) {
+          res.status(200);
+          res.set({ 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' });
+          res.flushHeaders();
+        }
+      };
+
+      const stop = await this.followJobLogsUseCase.execute(
+        jobId,
+        query.after,
+        (entry) => {
+          startStream();
+          res.write(`${JSON.stringify(entry)}\n`);
+        },
+        () => {
+          startStream();
+          res.end();
+        }
+      );
+
+      startStream();
+      res.on('close', stop);
+    } catch (error) {
+      if (res.headersSent) {
+        console.error('Error in JobController:', error);
+        res.end();
+        return;
+      }
+
+      this.handleError(error, res);
+    }
+  };
+
   cancelJob = async (req: Request, res: Response): Promise<void> => {
     try {
       const jobId = req.params.id;
       SubmitJobDTO.validateJobId(jobId);
 
-      const job = await this.cancelJobUseCase.execute(jobId);
+      const job = await this.cancelJobUseCase.execute(jobId, { force: req.query.force === 'true' });
+
+      // A running job is only asked to stop; it becomes CANCELLED once its handler does
+      const statusCode = job.status === JobStatus.RUNNING ? 202 : 200;
 
-      res.status(200).json(this.formatJobResponse(job));
+      res.status(statusCode).json(JobResponseDTO.fromJob(job));
     } catch (error) {
       this.handleError(error, res);
     }
   };
 
-  private formatJobResponse(job: Job) {
-    return {
-      id: job.id,
-      status: job.status,
-      execution_time: job.execution_time,
-      result: job.result,
-      data: {
-        type: job.type,
-        payload: job.payload,
-        config: {
-          delay: job.config.delay,
-        },
-      },
-      created_at: job.created_at,
-      eligible_at: job.eligible_at,
-      started_at: job.started_at,
-      finished_at: job.finished_at,
-    };
-  }
-
   private handleError(error: any, res: Response): void {
     console.error('Error in JobController:', error);
 
@@ -81,6 +169,20 @@ export class JobController {
       error.message.includes('cannot be empty') ||
       error.message.includes('Payload') ||
       error.message.includes('Delay') ||
+      error.message.includes('Run at') ||
+      error.message.includes('run_at') ||
+      error.message.includes('Expires at') ||
+      error.message.includes('TTL') ||
+      error.message.includes('Timeout') ||
+      error.message.includes('Retry') ||
+      error.message.includes('Fan-in') ||
+      error.message.includes('Unique') ||
+      error.message.includes('Debounce') ||
+      error.message.includes('Throttle') ||
+      error.message.includes('Priority') ||
+      error.message.includes('Dependency') ||
+      error.message.includes('Unknown dependency') ||
+      error.message.includes('Unknown job type') ||
       error.message.includes('UUID')
     ) {
       res.status(400).json({
@@ -90,6 +192,14 @@ export class JobController {
       return;
     }
 
+    if (error.message.includes('different request body')) {
+      res.status(422).json({
+        error: 'Unprocessable Entity',
+        message: error.message,
+      });
+      return;
+    }
+
     if (error.message.includes('not found')) {
       res.status(404).json({
         error: 'Not Found',
@@ -98,7 +208,11 @@ export class JobController {
       return;
     }
 
-    if (error.message.includes('Cannot cancel') || error.message.includes('Cannot start')) {
+    if (
+      error.message.includes('Cannot cancel') ||
+      error.message.includes('Cannot start') ||
+      error.message.includes('already being processed')
+    ) {
       res.status(409).json({
         error: 'Conflict',
         message: error.message,
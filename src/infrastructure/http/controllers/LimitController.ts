@@ -0,0 +1,26 @@
+import { GetJobTypeLimitsUseCase } from "../../../application/usecases";
+import { JobTypeLimiter } from "../../../application/services/JobTypeLimiter";
+import { Request, Response } from "express";
+
+export class LimitController {
+  private getJobTypeLimitsUseCase: GetJobTypeLimitsUseCase;
+
+  constructor(typeLimiter: JobTypeLimiter) {
+    this.getJobTypeLimitsUseCase = new GetJobTypeLimitsUseCase(typeLimiter);
+  }
+
+  listLimits = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const limits = await this.getJobTypeLimitsUseCase.execute();
+
+      res.status(200).json({ limits });
+    } catch (error) {
+      console.error('Error in LimitController:', error);
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'An unexpected error occurred',
+      });
+    }
+  };
+}
@@ -0,0 +1,195 @@
+import {
+  CreateScheduleUseCase,
+  DeleteScheduleUseCase,
+  GetScheduleUseCase,
+  GetUpcomingFireTimesUseCase,
+  ListSchedulesUseCase,
+  PauseScheduleUseCase,
+  ResumeScheduleUseCase,
+} from "../../../application/usecases";
+import { JobHandlerRegistry } from "../../../application/services/JobHandlerRegistry";
+import { Scheduler } from "../../../application/services/Scheduler";
+import { ScheduleRepository } from "../../../domain";
+import { CreateScheduleDTO, ScheduleResponseDTO } from "../dto";
+import { Request, Response } from "express";
+
+export class ScheduleController {
+  private createScheduleUseCase: CreateScheduleUseCase;
+  private listSchedulesUseCase: ListSchedulesUseCase;
+  private getScheduleUseCase: GetScheduleUseCase;
+  private getUpcomingFireTimesUseCase: GetUpcomingFireTimesUseCase;
+  private pauseScheduleUseCase: PauseScheduleUseCase;
+  private resumeScheduleUseCase: ResumeScheduleUseCase;
+  private deleteScheduleUseCase: DeleteScheduleUseCase;
+
+  constructor(
+    scheduleRepository: ScheduleRepository,
+    handlerRegistry: JobHandlerRegistry,
+    scheduler: Scheduler
+  ) {
+    this.createScheduleUseCase = new CreateScheduleUseCase(
+      scheduleRepository,
+      handlerRegistry,
+      scheduler
+    );
+    this.listSchedulesUseCase = new ListSchedulesUseCase(scheduleRepository);
+    this.getScheduleUseCase = new GetScheduleUseCase(scheduleRepository);
+    this.getUpcomingFireTimesUseCase = new GetUpcomingFireTimesUseCase(scheduleRepository);
+    this.pauseScheduleUseCase = new PauseScheduleUseCase(scheduleRepository, scheduler);
+    this.resumeScheduleUseCase = new ResumeScheduleUseCase(scheduleRepository, scheduler);
+    this.deleteScheduleUseCase = new DeleteScheduleUseCase(scheduleRepository, scheduler);
+  }
+
+  createSchedule = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const scheduleData = CreateScheduleDTO.fromRequestBody(req.body);
+
+      const schedule = await this.createScheduleUseCase.execute(scheduleData);
+
+      res.status(201).json(ScheduleResponseDTO.fromSchedule(schedule));
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  listSchedules = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const filter = CreateScheduleDTO.fromQuery(req.query);
+
+      const schedules = await this.listSchedulesUseCase.execute(filter);
+
+      res.status(200).json({
+        total: schedules.length,
+        schedules: schedules.map((schedule) => ScheduleResponseDTO.fromSchedule(schedule)),
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  getSchedule = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = req.params.id;
+      CreateScheduleDTO.validateScheduleId(id);
+
+      const schedule = await this.getScheduleUseCase.execute(id);
+
+      res.status(200).json(ScheduleResponseDTO.fromSchedule(schedule));
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  getUpcomingFireTimes = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = req.params.id;
+      CreateScheduleDTO.validateScheduleId(id);
+      const count = CreateScheduleDTO.parseUpcomingCount(req.query);
+
+      const fireTimes = await this.getUpcomingFireTimesUseCase.execute(id, count);
+
+      res.status(200).json({
+        id,
+        upcoming: fireTimes.map((fireTime) => ({
+          timestamp: fireTime,
+          iso: new Date(fireTime).toISOString(),
+        })),
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  pauseSchedule = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = req.params.id;
+      CreateScheduleDTO.validateScheduleId(id);
+
+      const schedule = await this.pauseScheduleUseCase.execute(id);
+
+      res.status(200).json(ScheduleResponseDTO.fromSchedule(schedule));
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  resumeSchedule = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = req.params.id;
+      CreateScheduleDTO.validateScheduleId(id);
+
+      const schedule = await this.resumeScheduleUseCase.execute(id);
+
+      res.status(200).json(ScheduleResponseDTO.fromSchedule(schedule));
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  deleteSchedule = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = req.params.id;
+      CreateScheduleDTO.validateScheduleId(id);
+
+      await this.deleteScheduleUseCase.execute(id);
+
+      res.status(204).send();
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  private handleError(error: any, res: Response): void {
+    console.error('Error in ScheduleController:', error);
+
+    if (
+      error.message.includes('must be') ||
+      error.message.includes('required') ||
+      error.message.includes('cannot be empty') ||
+      error.message.includes('Payload') ||
+      error.message.includes('Delay') ||
+      error.message.includes('Run at') ||
+      error.message.includes('run_at') ||
+      error.message.includes('Expires at') ||
+      error.message.includes('TTL') ||
+      error.message.includes('Timeout') ||
+      error.message.includes('Retry') ||
+      error.message.includes('Fan-in') ||
+      error.message.includes('Unique') ||
+      error.message.includes('Debounce') ||
+      error.message.includes('Throttle') ||
+      error.message.includes('Priority') ||
+      error.message.includes('Cron expression') ||
+      error.message.includes('Timezone') ||
+      error.message.includes('Unknown job type') ||
+      error.message.includes('UUID')
+    ) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: error.message,
+      });
+      return;
+    }
+
+    if (error.message.includes('not found')) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: error.message,
+      });
+      return;
+    }
+
+    if (error.message.includes('Cannot pause') || error.message.includes('Cannot resume')) {
+      res.status(409).json({
+        error: 'Conflict',
+        message: error.message,
+      });
+      return;
+    }
+
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'An unexpected error occurred',
+    });
+  }
+}
@@ -0,0 +1,87 @@
+import { GetWorkflowUseCase, SubmitWorkflowUseCase } from "../../../application/usecases";
+import { JobHandlerRegistry } from "../../../application/services/JobHandlerRegistry";
+import { DependencyResolver } from "../../../application/services/DependencyResolver";
+import { JobRepository, WorkflowRepository } from "../../../domain";
+import { SubmitWorkflowDTO, WorkflowResponseDTO } from "../dto";
+import { Request, Response } from "express";
+
+export class WorkflowController {
+  private submitWorkflowUseCase: SubmitWorkflowUseCase;
+  private getWorkflowUseCase: GetWorkflowUseCase;
+
+  constructor(
+    repository: JobRepository,
+    workflowRepository: WorkflowRepository,
+    handlerRegistry: JobHandlerRegistry,
+    dependencyResolver: DependencyResolver
+  ) {
+    this.submitWorkflowUseCase = new SubmitWorkflowUseCase(
+      repository,
+      workflowRepository,
+      handlerRegistry,
+      dependencyResolver
+    );
+    this.getWorkflowUseCase = new GetWorkflowUseCase(repository, workflowRepository);
+  }
+
+  submitWorkflow = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const workflowData = SubmitWorkflowDTO.fromRequestBody(req.body);
+
+      const { workflow, jobs } = await this.submitWorkflowUseCase.execute(workflowData);
+
+      res.status(201).json(WorkflowResponseDTO.fromWorkflow(workflow, jobs));
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  getWorkflow = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = req.params.id;
+      SubmitWorkflowDTO.validateWorkflowId(id);
+
+      const { workflow, jobs } = await this.getWorkflowUseCase.execute(id);
+
+      res.status(200).json(WorkflowResponseDTO.fromWorkflow(workflow, jobs));
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  };
+
+  private handleError(error: any, res: Response): void {
+    console.error('Error in WorkflowController:', error);
+
+    if (
+      error.message.includes('must be') ||
+      error.message.includes('must contain') ||
+      error.message.includes('required') ||
+      error.message.includes('cannot be empty') ||
+      error.message.includes("Step '") ||
+      error.message.includes('used more than once') ||
+      error.message.includes('unknown step') ||
+      error.message.includes('dependency cycle') ||
+      error.message.includes('Unknown job type') ||
+      error.message.includes('UUID')
+    ) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: error.message,
+      });
+      return;
+    }
+
+    if (error.message.includes('not found')) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: error.message,
+      });
+      return;
+    }
+
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'An unexpected error occurred',
+    });
+  }
+}
@@ -0,0 +1,139 @@
+import { Request, Response } from 'express';
+import { JobController } from '../JobController';
+import { JobHandlerRegistry } from '../../../../application/services/JobHandlerRegistry';
+import { DependencyResolver } from '../../../../application/services/DependencyResolver';
+import { IdempotencyKeyStore } from '../../../../application/services/IdempotencyKeyStore';
+import { InMemoryJobRepository } from '../../../repositories/InMemoryJobRepository';
+import { InMemoryIdempotencyKeyRepository } from '../../../repositories/InMemoryIdempotencyKeyRepository';
+
+jest.mock('uuid', () => {
+  let counter = 0;
+  return {
+    v4: jest.fn(() => `test-uuid-${String(counter++ % 10000).padStart(4, '0')}`),
+  };
+});
+
+interface SentResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: any;
+}
+
+describe('JobController', () => {
+  const body = { type: 'email', payload: { to: 'user@example.com' } };
+
+  let jobs: InMemoryJobRepository;
+  let keys: IdempotencyKeyStore;
+  let controller: JobController;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation();
+
+    jobs = new InMemoryJobRepository();
+    keys = new IdempotencyKeyStore(new InMemoryIdempotencyKeyRepository());
+
+    const registry = new JobHandlerRegistry();
+    registry.register('email', { handle: jest.fn() });
+
+    controller = new JobController(
+      jobs,
+      registry,
+      new DependencyResolver(jobs),
+      keys,
+      {} as any,
+      {} as any
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  async function submit(requestBody: unknown, key?: string): Promise<SentResponse> {
+    const sent: SentResponse = { status: 0, headers: {}, body: undefined };
+    const req = {
+      body: requestBody,
+      header: (name: string) => (name === 'Idempotency-Key' ? key : undefined),
+    };
+    const res = {
+      status: (status: number) => {
+        sent.status = status;
+        return res;
+      },
+      set: (name: string, value: string) => {
+        sent.headers[name] = value;
+        return res;
+      },
+      json: (json: unknown) => {
+        sent.body = json;
+        return res;
+      },
+    };
+
+    await controller.submitJob(req as unknown as Request, res as unknown as Response);
+    return sent;
+  }
+
+  it('should replay the response of a request retried with the same key', async () => {
+    const first = await submit(body, 'key-1');
+    const retry = await submit({ payload: { to: 'user@example.com' }, type: 'email' }, 'key-1');
+
+    expect(first.status).toBe(201);
+    expect(retry).toEqual({
+      status: 201,
+      headers: { 'Idempotent-Replayed': 'true' },
+      body: first.body,
+    });
+    expect(await jobs.count()).toBe(1);
+  });
+
+  it('should reject a key reused with a different body', async () => {
+    await submit(body, 'key-1');
+
+    const reused = await submit({ ...body, payload: { to: 'other@example.com' } }, 'key-1');
+
+    expect(reused.status).toBe(422);
+    expect(await jobs.count()).toBe(1);
+  });
+
+  it('should reject a retry while the first request is in flight', async () => {
+    let finishSave!: () => void;
+    const saveFinished = new Promise<void>((resolve) => (finishSave = resolve));
+    const save = jobs.save.bind(jobs);
+    const saveStarted = new Promise<void>((resolve) => {
+      jest.spyOn(jobs, 'save').mockImplementationOnce(async (job) => {
+        resolve();
+        await saveFinished;
+        return save(job);
+      });
+    });
+
+    const first = submit(body, 'key-1');
+    await saveStarted;
+    const retry = await submit(body, 'key-1');
+    finishSave();
+
+    expect(retry.status).toBe(409);
+    expect((await first).status).toBe(201);
+    expect(await jobs.count()).toBe(1);
+  });
+
+  it('should reject an invalid body without using the key', async () => {
+    const invalid = await submit({ type: 'email' }, 'key-1');
+    const valid = await submit(body, 'key-1');
+
+    expect(invalid.status).toBe(400);
+    expect(valid.status).toBe(201);
+  });
+
+  it('should keep the key of a created job whose response could not be recorded', async () => {
+    jest.spyOn(keys, 'complete').mockRejectedValueOnce(new Error('Storage unavailable'));
+
+    const failed = await submit(body, 'key-1');
+    const retry = await submit(body, 'key-1');
+
+    expect(failed.status).toBe(500);
+    expect(retry.status).toBe(409);
+    expect(await jobs.count()).toBe(1);
+  });
+});
@@ -1 +1,7 @@
-export * from './JobController';
\ No newline at end of file
+export * from './JobController';
+export * from './DeadLetterController';
+export * from './LimitController';
+export * from './ScheduleController';
+export * from './WorkflowController';
+export * from './ChainController';
+export * from './BatchController';
\ No newline at end of file
@@ -0,0 +1,35 @@
+import { Batch, BatchFactory, BatchItemError, Job, JobStatus } from "../../../domain";
+
+export class BatchResponseDTO {
+  /**
+   * Members are summarized as counts and ids; fetch individual jobs through GET /jobs/:id
+   */
+  static fromBatch(batch: Batch, jobs: Job[]) {
+    const counts = {} as Record<JobStatus, number>;
+    for (const status of Object.values(JobStatus)) {
+      counts[status] = 0;
+    }
+    for (const job of jobs) {
+      counts[job.status]++;
+    }
+
+    return {
+      id: batch.id,
+      status: BatchFactory.getStatus(batch),
+      total: batch.job_ids.length,
+      counts,
+      callback_job_id: batch.callback_job_id,
+      created_at: batch.created_at,
+      finished_at: batch.finished_at,
+      job_ids: batch.job_ids,
+    };
+  }
+
+  static fromErrors(errors: BatchItemError[]) {
+    return {
+      error: 'Bad Request',
+      message: `Batch rejected: ${errors.length} invalid item${errors.length === 1 ? '' : 's'}`,
+      errors,
+    };
+  }
+}
@@ -0,0 +1,39 @@
+import { Chain, ChainFactory, Job, JobStatus } from "../../../domain";
+import { JobResponseDTO } from "./JobResponseDTO";
+
+export class ChainResponseDTO {
+  static fromChain(chain: Chain, jobs: Job[]) {
+    const jobsById = new Map(jobs.map((job) => [job.id, job]));
+
+    return {
+      id: chain.id,
+      name: chain.name,
+      status: ChainFactory.getStatus(chain, jobs),
+      current_step: ChainResponseDTO.getCurrentStep(chain, jobsById),
+      created_at: chain.created_at,
+      cancelled_at: chain.cancelled_at,
+      steps: chain.job_ids.map((jobId, index) => {
+        const job = jobsById.get(jobId);
+
+        return {
+          index,
+          job_id: jobId,
+          status: job?.status,
+          pipe: job?.pipe?.mode,
+          job: job ? JobResponseDTO.fromJob(job) : undefined,
+        };
+      }),
+    };
+  }
+
+  /**
+   * Index of the first step that has not completed, or null when every step completed
+   */
+  private static getCurrentStep(chain: Chain, jobsById: Map<string, Job>): number | null {
+    const index = chain.job_ids.findIndex(
+      (jobId) => jobsById.get(jobId)?.status !== JobStatus.COMPLETED
+    );
+
+    return index === -1 ? null : index;
+  }
+}
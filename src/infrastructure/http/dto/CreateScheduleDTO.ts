@@ -0,0 +1,90 @@
+import { MISSED_RUN_POLICIES, ScheduleData, ScheduleFilter, ScheduleStatus } from "../../../domain";
+import { SubmitJobDTO } from "./SubmitJobDTO";
+
+export class CreateScheduleDTO {
+  static readonly MAX_UPCOMING = 100;
+
+  static fromRequestBody(body: any): ScheduleData {
+    if (!body || typeof body !== 'object') {
+      throw new Error('Request body must be a valid object');
+    }
+
+    if (!body.cron || typeof body.cron !== 'string') {
+      throw new Error('Field "cron" is required and must be a string');
+    }
+
+    if (body.timezone !== undefined && (typeof body.timezone !== 'string' || body.timezone.trim().length === 0)) {
+      throw new Error('Field "timezone" must be a non-empty string');
+    }
+
+    if (!body.job_type || typeof body.job_type !== 'string') {
+      throw new Error('Field "job_type" is required and must be a string');
+    }
+
+    if (body.job_type.trim().length === 0) {
+      throw new Error('Field "job_type" cannot be empty');
+    }
+
+    if (!body.payload || typeof body.payload !== 'object') {
+      throw new Error('Field "payload" is required and must be an object');
+    }
+
+    if (body.missed_run_policy !== undefined && !MISSED_RUN_POLICIES.includes(body.missed_run_policy)) {
+      throw new Error(
+        `Field "missed_run_policy" must be one of: ${MISSED_RUN_POLICIES.join(', ')}`
+      );
+    }
+
+    return {
+      cron: body.cron.trim(),
+      timezone: body.timezone?.trim(),
+      job_type: body.job_type.trim(),
+      payload: body.payload,
+      config: SubmitJobDTO.parseConfig(body.config),
+      missed_run_policy: body.missed_run_policy,
+    };
+  }
+
+  static fromQuery(query: any): ScheduleFilter {
+    const filter: ScheduleFilter = {};
+
+    if (query?.status !== undefined) {
+      if (!Object.values(ScheduleStatus).includes(query.status)) {
+        throw new Error(
+          `Query parameter "status" must be one of: ${Object.values(ScheduleStatus).join(', ')}`
+        );
+      }
+      filter.status = query.status;
+    }
+
+    return filter;
+  }
+
+  static parseUpcomingCount(query: any): number {
+    if (query?.count === undefined) {
+      return 5;
+    }
+
+    const count = Number(query.count);
+
+    if (!Number.isInteger(count) || count < 1 || count > CreateScheduleDTO.MAX_UPCOMING) {
+      throw new Error(
+        `Query parameter "count" must be an integer between 1 and ${CreateScheduleDTO.MAX_UPCOMING}`
+      );
+    }
+
+    return count;
+  }
+
+  static validateScheduleId(id: string): void {
+    if (!id || typeof id !== 'string') {
+      throw new Error('Schedule ID must be a valid string');
+    }
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+    if (!uuidRegex.test(id)) {
+      throw new Error('Schedule ID must be a valid UUID');
+    }
+  }
+}
@@ -0,0 +1,25 @@
+import { DeadLetterFilter } from "../../../domain";
+
+export class DeadLetterQueryDTO {
+  static fromQuery(query: any): DeadLetterFilter {
+    const filter: DeadLetterFilter = {};
+
+    if (query?.type !== undefined) {
+      if (typeof query.type !== 'string' || query.type.trim().length === 0) {
+        throw new Error('Query parameter "type" must be a non-empty string');
+      }
+      filter.type = query.type.trim();
+    }
+
+    if (query?.before !== undefined) {
+      const before = Number(query.before);
+
+      if (typeof query.before !== 'string' || !Number.isFinite(before) || before < 0) {
+        throw new Error('Query parameter "before" must be a timestamp in milliseconds');
+      }
+      filter.before = before;
+    }
+
+    return filter;
+  }
+}
@@ -0,0 +1,46 @@
+export const DEFAULT_JOB_LOG_PAGE_SIZE = 100;
+export const MAX_JOB_LOG_PAGE_SIZE = 1000;
+
+export interface JobLogQuery {
+  after?: number;
+  limit: number;
+  follow: boolean;
+}
+
+export class JobLogQueryDTO {
+  static fromQuery(query: any): JobLogQuery {
+    const result: JobLogQuery = { limit: DEFAULT_JOB_LOG_PAGE_SIZE, follow: false };
+
+    if (query?.after !== undefined) {
+      const after = Number(query.after);
+
+      if (typeof query.after !== 'string' || !Number.isInteger(after) || after < 0) {
+        throw new Error('Query parameter "after" must be a non-negative integer');
+      }
+      result.after = after;
+    }
+
+    if (query?.limit !== undefined) {
+      const limit = Number(query.limit);
+
+      if (
+        typeof query.limit !== 'string' ||
+        !Number.isInteger(limit) ||
+        limit < 1 ||
+        limit > MAX_JOB_LOG_PAGE_SIZE
+      ) {
+        throw new Error(`Query parameter "limit" must be an integer between 1 and ${MAX_JOB_LOG_PAGE_SIZE}`);
+      }
+      result.limit = limit;
+    }
+
+    if (query?.follow !== undefined) {
+      if (query.follow !== 'true' && query.follow !== 'false') {
+        throw new Error('Query parameter "follow" must be true or false');
+      }
+      result.follow = query.follow === 'true';
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,61 @@
+import { DeadLetter, Job } from "../../../domain";
+
+export class JobResponseDTO {
+  static fromJob(job: Job) {
+    return {
+      id: job.id,
+      status: job.status,
+      execution_time: job.execution_time,
+      result: job.result,
+      data: {
+        type: job.type,
+        payload: job.payload,
+        config: {
+          delay: job.config.delay,
+          run_at: job.config.run_at,
+          expires_at: job.config.expires_at,
+          ttl: job.config.ttl,
+          timeout: job.config.timeout,
+          priority: job.config.priority,
+          retry: job.config.retry,
+          fan_in: job.config.fan_in,
+          unique_key: job.config.unique_key,
+          unique_scope: job.config.unique_scope,
+          unique_ttl: job.config.unique_ttl,
+          debounce: job.config.debounce,
+          throttle: job.config.throttle,
+        },
+      },
+      progress: job.progress,
+      cancel_request: job.cancel_request,
+      attempts: job.attempts,
+      attempt_history: job.attempt_history,
+      replayed_from: job.replayed_from,
+      depends_on: job.depends_on,
+      pipe: job.pipe,
+      workflow_id: job.workflow_id,
+      chain_id: job.chain_id,
+      batch_id: job.batch_id,
+      parent_id: job.parent_id,
+      fan_out: job.fan_out && {
+        ...job.fan_out,
+        pending: job.fan_out.child_ids.length - job.fan_out.completed - job.fan_out.failed,
+      },
+      created_at: job.created_at,
+      eligible_at: job.eligible_at,
+      started_at: job.started_at,
+      finished_at: job.finished_at,
+    };
+  }
+
+  static fromDeadLetter(deadLetter: DeadLetter) {
+    return {
+      id: deadLetter.id,
+      reason: deadLetter.reason,
+      attempt_history: deadLetter.attempt_history,
+      dead_lettered_at: deadLetter.dead_lettered_at,
+      replayed_job_ids: deadLetter.replayed_job_ids,
+      job: JobResponseDTO.fromJob(deadLetter.job),
+    };
+  }
+}
@@ -0,0 +1,21 @@
+import { Schedule } from "../../../domain";
+
+export class ScheduleResponseDTO {
+  static fromSchedule(schedule: Schedule) {
+    return {
+      id: schedule.id,
+      status: schedule.status,
+      cron: schedule.cron,
+      timezone: schedule.timezone,
+      job_type: schedule.job_type,
+      payload: schedule.payload,
+      config: schedule.config,
+      missed_run_policy: schedule.missed_run_policy,
+      next_run_at: schedule.next_run_at,
+      last_run_at: schedule.last_run_at,
+      last_job_id: schedule.last_job_id,
+      created_at: schedule.created_at,
+      updated_at: schedule.updated_at,
+    };
+  }
+}
@@ -0,0 +1,68 @@
+import { BatchData, BatchItemError, MAX_BATCH_SIZE } from "../../../domain";
+import { SubmitJobDTO } from "./SubmitJobDTO";
+
+export class SubmitBatchDTO {
+  /**
+   * Validates each item through SubmitJobDTO; invalid items are returned as errors
+   * with their position instead of failing the whole request
+   */
+  static fromRequestBody(body: any): { data: BatchData; errors: BatchItemError[] } {
+    if (!body || typeof body !== 'object') {
+      throw new Error('Request body must be a valid object');
+    }
+
+    if (!Array.isArray(body.jobs) || body.jobs.length === 0) {
+      throw new Error('Field "jobs" is required and must be a non-empty array');
+    }
+
+    if (body.jobs.length > MAX_BATCH_SIZE) {
+      throw new Error(`Field "jobs" must contain at most ${MAX_BATCH_SIZE} items`);
+    }
+
+    if (body.atomic !== undefined && typeof body.atomic !== 'boolean') {
+      throw new Error('Field "atomic" must be a boolean');
+    }
+
+    const data: BatchData = {
+      items: [],
+      callback: SubmitBatchDTO.parseCallback(body.callback),
+      atomic: body.atomic,
+    };
+    const errors: BatchItemError[] = [];
+
+    body.jobs.forEach((item: any, index: number) => {
+      try {
+        data.items.push({ index, data: SubmitJobDTO.fromRequestBody(item) });
+      } catch (error) {
+        errors.push({ index, message: (error as Error).message });
+      }
+    });
+
+    return { data, errors };
+  }
+
+  private static parseCallback(callback: any): BatchData['callback'] {
+    if (callback === undefined) {
+      return undefined;
+    }
+
+    try {
+      const { type, payload, config } = SubmitJobDTO.fromRequestBody(callback);
+      return { type, payload, config };
+    } catch (error) {
+      throw new Error(`Callback: ${(error as Error).message}`);
+    }
+  }
+
+  static validateBatchId(id: string): void {
+    if (!id || typeof id !== 'string') {
+      throw new Error('Batch ID must be a valid string');
+    }
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+    if (!uuidRegex.test(id)) {
+      throw new Error('Batch ID must be a valid UUID');
+    }
+  }
+}
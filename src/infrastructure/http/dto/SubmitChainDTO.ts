@@ -0,0 +1,71 @@
+import { ChainData, ChainStepData, PIPE_MODES } from "../../../domain";
+import { SubmitJobDTO } from "./SubmitJobDTO";
+
+export class SubmitChainDTO {
+  static fromRequestBody(body: any): ChainData {
+    if (!body || typeof body !== 'object') {
+      throw new Error('Request body must be a valid object');
+    }
+
+    if (body.name !== undefined && typeof body.name !== 'string') {
+      throw new Error('Field "name" must be a string');
+    }
+
+    if (!Array.isArray(body.steps) || body.steps.length === 0) {
+      throw new Error('Field "steps" is required and must be a non-empty array');
+    }
+
+    return {
+      name: body.name,
+      pipe: SubmitChainDTO.parsePipe(body.pipe),
+      steps: body.steps.map((step: any, index: number) => SubmitChainDTO.parseStep(step, index)),
+    };
+  }
+
+  private static parseStep(step: any, index: number): ChainStepData {
+    try {
+      if (!step || typeof step !== 'object') {
+        throw new Error('Request body must be a valid object');
+      }
+
+      const jobData = SubmitJobDTO.fromRequestBody({
+        type: step.type,
+        payload: step.payload,
+        config: step.config,
+      });
+
+      return {
+        type: jobData.type,
+        payload: jobData.payload,
+        config: jobData.config,
+        pipe: SubmitChainDTO.parsePipe(step.pipe),
+      };
+    } catch (error) {
+      throw new Error(`Step ${index}: ${(error as Error).message}`);
+    }
+  }
+
+  private static parsePipe(pipe: any): ChainData['pipe'] {
+    if (pipe === undefined) {
+      return undefined;
+    }
+
+    if (!PIPE_MODES.includes(pipe)) {
+      throw new Error(`Field "pipe" must be one of: ${PIPE_MODES.join(', ')}`);
+    }
+
+    return pipe;
+  }
+
+  static validateChainId(id: string): void {
+    if (!id || typeof id !== 'string') {
+      throw new Error('Chain ID must be a valid string');
+    }
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+    if (!uuidRegex.test(id)) {
+      throw new Error('Chain ID must be a valid UUID');
+    }
+  }
+}
@@ -1,4 +1,14 @@
-import { JobConfig, JobData } from "../../../domain";
+import {
+  BACKOFF_STRATEGIES,
+  DEPENDENCY_FAILURE_POLICIES,
+  FAN_IN_STRATEGIES,
+  FanInPolicy,
+  JobConfig,
+  JobData,
+  KeyedWindow,
+  RetryPolicy,
+  UNIQUE_SCOPES,
+} from "../../../domain";
 
 export class SubmitJobDTO {
   static fromRequestBody(body: any): JobData {
@@ -18,30 +28,249 @@ export class SubmitJobDTO {
       throw new Error('Field "payload" is required and must be an object');
     }
 
-    let config: JobConfig | undefined = undefined;
-    if (body.config !== undefined) {
-      if (typeof body.config !== 'object' || body.config === null) {
-        throw new Error('Field "config" must be an object');
+    return {
+      type: body.type.trim(),
+      payload: body.payload,
+      config: SubmitJobDTO.parseConfig(body.config),
+      depends_on: SubmitJobDTO.parseDependencies(body.depends_on),
+    };
+  }
+
+  /**
+   * Accepts job ids, or `{ job_id, on_failure }` objects for a per-edge failure policy
+   */
+  private static parseDependencies(dependsOn: any): JobData['depends_on'] {
+    if (dependsOn === undefined) {
+      return undefined;
+    }
+
+    if (!Array.isArray(dependsOn)) {
+      throw new Error('Field "depends_on" must be an array');
+    }
+
+    return dependsOn.map((dependency: any) => {
+      const edge = typeof dependency === 'string' ? { job_id: dependency } : dependency;
+
+      if (!edge || typeof edge !== 'object' || typeof edge.job_id !== 'string') {
+        throw new Error('Field "depends_on" must contain job ids or { job_id, on_failure } objects');
       }
 
-      if (body.config.delay !== undefined) {
-        if (typeof body.config.delay !== 'number') {
-          throw new Error('Field "config.delay" must be a number');
-        }
+      SubmitJobDTO.validateJobId(edge.job_id);
+
+      if (edge.on_failure !== undefined && !DEPENDENCY_FAILURE_POLICIES.includes(edge.on_failure)) {
+        throw new Error(
+          `Field "depends_on[].on_failure" must be one of: ${DEPENDENCY_FAILURE_POLICIES.join(', ')}`
+        );
+      }
+
+      return { job_id: edge.job_id, on_failure: edge.on_failure };
+    });
+  }
+
+  /**
+   * Validates the shape of a request's "config" field
+   */
+  static parseConfig(rawConfig: any): JobConfig | undefined {
+    if (rawConfig === undefined) {
+      return undefined;
+    }
+
+    if (typeof rawConfig !== 'object' || rawConfig === null) {
+      throw new Error('Field "config" must be an object');
+    }
+
+    const config: JobConfig = {};
+
+    if (rawConfig.delay !== undefined) {
+      if (typeof rawConfig.delay !== 'number') {
+        throw new Error('Field "config.delay" must be a number');
+      }
+
+      if (rawConfig.delay < 0) {
+        throw new Error('Field "config.delay" must be non-negative');
+      }
+
+      config.delay = rawConfig.delay;
+    }
+
+    if (rawConfig.run_at !== undefined) {
+      if (rawConfig.delay !== undefined) {
+        throw new Error('Fields "config.delay" and "config.run_at" are mutually exclusive');
+      }
+
+      config.run_at = SubmitJobDTO.parseTimestamp('run_at', rawConfig.run_at);
+    }
+
+    if (rawConfig.expires_at !== undefined) {
+      config.expires_at = SubmitJobDTO.parseTimestamp('expires_at', rawConfig.expires_at);
+    }
+
+    if (rawConfig.ttl !== undefined) {
+      if (typeof rawConfig.ttl !== 'number') {
+        throw new Error('Field "config.ttl" must be a number');
+      }
+
+      config.ttl = rawConfig.ttl;
+    }
+
+    if (rawConfig.timeout !== undefined) {
+      if (typeof rawConfig.timeout !== 'number') {
+        throw new Error('Field "config.timeout" must be a number');
+      }
+
+      config.timeout = rawConfig.timeout;
+    }
+
+    if (rawConfig.priority !== undefined) {
+      if (!Number.isInteger(rawConfig.priority)) {
+        throw new Error('Field "config.priority" must be an integer');
+      }
+
+      config.priority = rawConfig.priority;
+    }
+
+    if (rawConfig.retry !== undefined) {
+      config.retry = SubmitJobDTO.parseRetryPolicy(rawConfig.retry);
+    }
+
+    if (rawConfig.fan_in !== undefined) {
+      config.fan_in = SubmitJobDTO.parseFanInPolicy(rawConfig.fan_in);
+    }
+
+    if (rawConfig.unique_key !== undefined) {
+      if (typeof rawConfig.unique_key !== 'string' || rawConfig.unique_key.length === 0) {
+        throw new Error('Field "config.unique_key" must be a non-empty string');
+      }
+      config.unique_key = rawConfig.unique_key;
+    }
 
-        if (body.config.delay < 0) {
-          throw new Error('Field "config.delay" must be non-negative');
+    if (rawConfig.unique_scope !== undefined) {
+      if (!UNIQUE_SCOPES.includes(rawConfig.unique_scope)) {
+        throw new Error(
+          `Field "config.unique_scope" must be one of: ${UNIQUE_SCOPES.join(', ')}`
+        );
+      }
+      config.unique_scope = rawConfig.unique_scope;
+    }
+
+    if (rawConfig.unique_ttl !== undefined) {
+      if (typeof rawConfig.unique_ttl !== 'number') {
+        throw new Error('Field "config.unique_ttl" must be a number');
+      }
+      config.unique_ttl = rawConfig.unique_ttl;
+    }
+
+    if (rawConfig.debounce !== undefined) {
+      config.debounce = SubmitJobDTO.parseKeyedWindow('debounce', rawConfig.debounce);
+    }
+
+    if (rawConfig.throttle !== undefined) {
+      config.throttle = SubmitJobDTO.parseKeyedWindow('throttle', rawConfig.throttle);
+    }
+
+    return config;
+  }
+
+  /**
+   * Accepts epoch milliseconds or an ISO-8601 date-time with an explicit offset
+   */
+  private static parseTimestamp(field: string, value: any): number {
+    if (typeof value === 'number') {
+      if (!Number.isInteger(value) || value < 0) {
+        throw new Error(`Field "config.${field}" must be a non-negative integer (epoch ms)`);
+      }
+      return value;
+    }
+
+    const isoRegex = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/i;
+
+    if (typeof value !== 'string' || !isoRegex.test(value) || Number.isNaN(Date.parse(value))) {
+      throw new Error(
+        `Field "config.${field}" must be epoch milliseconds or an ISO-8601 date-time with offset`
+      );
+    }
+
+    return Date.parse(value);
+  }
+
+  private static parseRetryPolicy(retry: any): Partial<RetryPolicy> {
+    if (typeof retry !== 'object' || retry === null || Array.isArray(retry)) {
+      throw new Error('Field "config.retry" must be an object');
+    }
+
+    const policy: Partial<RetryPolicy> = {};
+
+    for (const field of ['max_attempts', 'initial_delay', 'max_delay', 'jitter'] as const) {
+      if (retry[field] !== undefined) {
+        if (typeof retry[field] !== 'number') {
+          throw new Error(`Field "config.retry.${field}" must be a number`);
         }
+        policy[field] = retry[field];
+      }
+    }
 
-        config = { delay: body.config.delay };
+    if (retry.backoff !== undefined) {
+      if (!BACKOFF_STRATEGIES.includes(retry.backoff)) {
+        throw new Error(
+          `Field "config.retry.backoff" must be one of: ${BACKOFF_STRATEGIES.join(', ')}`
+        );
       }
+      policy.backoff = retry.backoff;
     }
 
-    return {
-      type: body.type.trim(),
-      payload: body.payload,
-      config,
-    };
+    if (retry.retryable_codes !== undefined) {
+      if (
+        !Array.isArray(retry.retryable_codes) ||
+        !retry.retryable_codes.every((code: unknown) => Number.isInteger(code))
+      ) {
+        throw new Error('Field "config.retry.retryable_codes" must be an array of integers');
+      }
+      policy.retryable_codes = retry.retryable_codes;
+    }
+
+    return policy;
+  }
+
+  private static parseFanInPolicy(fanIn: any): Partial<FanInPolicy> {
+    if (typeof fanIn !== 'object' || fanIn === null || Array.isArray(fanIn)) {
+      throw new Error('Field "config.fan_in" must be an object');
+    }
+
+    const policy: Partial<FanInPolicy> = {};
+
+    if (fanIn.strategy !== undefined) {
+      if (!FAN_IN_STRATEGIES.includes(fanIn.strategy)) {
+        throw new Error(
+          `Field "config.fan_in.strategy" must be one of: ${FAN_IN_STRATEGIES.join(', ')}`
+        );
+      }
+      policy.strategy = fanIn.strategy;
+    }
+
+    if (fanIn.min_success_ratio !== undefined) {
+      if (typeof fanIn.min_success_ratio !== 'number') {
+        throw new Error('Field "config.fan_in.min_success_ratio" must be a number');
+      }
+      policy.min_success_ratio = fanIn.min_success_ratio;
+    }
+
+    return policy;
+  }
+
+  private static parseKeyedWindow(field: string, value: any): Partial<KeyedWindow> {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new Error(`Field "config.${field}" must be an object`);
+    }
+
+    if (typeof value.key !== 'string' || value.key.length === 0) {
+      throw new Error(`Field "config.${field}.key" must be a non-empty string`);
+    }
+
+    if (typeof value.window !== 'number') {
+      throw new Error(`Field "config.${field}.window" must be a number`);
+    }
+
+    return { key: value.key, window: value.window };
   }
 
   static validateJobId(id: string): void {
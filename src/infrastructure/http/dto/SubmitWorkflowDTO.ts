@@ -0,0 +1,92 @@
+import { DEPENDENCY_FAILURE_POLICIES, WorkflowData, WorkflowStepData } from "../../../domain";
+import { SubmitJobDTO } from "./SubmitJobDTO";
+
+export class SubmitWorkflowDTO {
+  static fromRequestBody(body: any): WorkflowData {
+    if (!body || typeof body !== 'object') {
+      throw new Error('Request body must be a valid object');
+    }
+
+    if (body.name !== undefined && typeof body.name !== 'string') {
+      throw new Error('Field "name" must be a string');
+    }
+
+    if (!Array.isArray(body.steps) || body.steps.length === 0) {
+      throw new Error('Field "steps" is required and must be a non-empty array');
+    }
+
+    return {
+      name: body.name,
+      steps: body.steps.map((step: any) => SubmitWorkflowDTO.parseStep(step)),
+    };
+  }
+
+  private static parseStep(step: any): WorkflowStepData {
+    if (!step || typeof step !== 'object') {
+      throw new Error('Field "steps" must contain objects');
+    }
+
+    if (!step.key || typeof step.key !== 'string') {
+      throw new Error('Field "steps[].key" is required and must be a string');
+    }
+
+    try {
+      const jobData = SubmitJobDTO.fromRequestBody({
+        type: step.type,
+        payload: step.payload,
+        config: step.config,
+      });
+
+      return {
+        key: step.key,
+        type: jobData.type,
+        payload: jobData.payload,
+        config: jobData.config,
+        depends_on: SubmitWorkflowDTO.parseDependencies(step.depends_on),
+      };
+    } catch (error) {
+      throw new Error(`Step '${step.key}': ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Accepts step keys, or `{ key, on_failure }` objects for a per-edge failure policy
+   */
+  private static parseDependencies(dependsOn: any): WorkflowStepData['depends_on'] {
+    if (dependsOn === undefined) {
+      return undefined;
+    }
+
+    if (!Array.isArray(dependsOn)) {
+      throw new Error('Field "depends_on" must be an array');
+    }
+
+    return dependsOn.map((dependency: any) => {
+      const edge = typeof dependency === 'string' ? { key: dependency } : dependency;
+
+      if (!edge || typeof edge !== 'object' || typeof edge.key !== 'string') {
+        throw new Error('Field "depends_on" must contain step keys or { key, on_failure } objects');
+      }
+
+      if (edge.on_failure !== undefined && !DEPENDENCY_FAILURE_POLICIES.includes(edge.on_failure)) {
+        throw new Error(
+          `Field "depends_on[].on_failure" must be one of: ${DEPENDENCY_FAILURE_POLICIES.join(', ')}`
+        );
+      }
+
+      return { key: edge.key, on_failure: edge.on_failure };
+    });
+  }
+
+  static validateWorkflowId(id: string): void {
+    if (!id || typeof id !== 'string') {
+      throw new Error('Workflow ID must be a valid string');
+    }
+
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+    if (!uuidRegex.test(id)) {
+      throw new Error('Workflow ID must be a valid UUID');
+    }
+  }
+}
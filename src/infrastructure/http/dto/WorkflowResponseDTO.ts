@@ -0,0 +1,37 @@
+import { Job, JobStatus, Workflow, WorkflowFactory } from "../../../domain";
+import { JobResponseDTO } from "./JobResponseDTO";
+
+export class WorkflowResponseDTO {
+  static fromWorkflow(workflow: Workflow, jobs: Job[]) {
+    const jobsById = new Map(jobs.map((job) => [job.id, job]));
+    const keysByJobId = new Map(workflow.steps.map((step) => [step.job_id, step.key]));
+
+    const counts = {} as Record<JobStatus, number>;
+    for (const status of Object.values(JobStatus)) {
+      counts[status] = jobs.filter((job) => job.status === status).length;
+    }
+
+    return {
+      id: workflow.id,
+      name: workflow.name,
+      status: WorkflowFactory.getStatus(jobs),
+      counts,
+      created_at: workflow.created_at,
+      steps: workflow.steps.map((step) => {
+        const job = jobsById.get(step.job_id);
+
+        return {
+          key: step.key,
+          job_id: step.job_id,
+          status: job?.status,
+          depends_on: (job?.depends_on ?? []).map((dependency) => ({
+            key: keysByJobId.get(dependency.job_id),
+            job_id: dependency.job_id,
+            on_failure: dependency.on_failure,
+          })),
+          job: job ? JobResponseDTO.fromJob(job) : undefined,
+        };
+      }),
+    };
+  }
+}
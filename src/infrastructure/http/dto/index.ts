@@ -1 +1,12 @@
-export * from './SubmitJobDTO';
\ No newline at end of file
+export * from './SubmitJobDTO';
+export * from './JobResponseDTO';
+export * from './DeadLetterQueryDTO';
+export * from './JobLogQueryDTO';
+export * from './CreateScheduleDTO';
+export * from './ScheduleResponseDTO';
+export * from './SubmitWorkflowDTO';
+export * from './WorkflowResponseDTO';
+export * from './SubmitChainDTO';
+export * from './ChainResponseDTO';
+export * from './SubmitBatchDTO';
+export * from './BatchResponseDTO';
\ No newline at end of file
@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { BatchRepository, JobRepository } from '../../../domain';
+import { JobHandlerRegistry } from '../../../application/services/JobHandlerRegistry';
+import { DependencyResolver } from '../../../application/services/DependencyResolver';
+import { BatchController } from '../controllers';
+
+export function createBatchRoutes(
+  repository: JobRepository,
+  batchRepository: BatchRepository,
+  handlerRegistry: JobHandlerRegistry,
+  dependencyResolver: DependencyResolver
+): Router {
+  const router = Router();
+  const controller = new BatchController(
+    repository,
+    batchRepository,
+    handlerRegistry,
+    dependencyResolver
+  );
+
+  router.post('/batches', controller.submitBatch);
+
+  router.get('/batches/:id', controller.getBatch);
+
+  return router;
+}
@@ -0,0 +1,28 @@
+import { Router } from 'express';
+import { ChainRepository, JobRepository } from '../../../domain';
+import { JobHandlerRegistry } from '../../../application/services/JobHandlerRegistry';
+import { DependencyResolver } from '../../../application/services/DependencyResolver';
+import { ChainController } from '../controllers';
+
+export function createChainRoutes(
+  repository: JobRepository,
+  chainRepository: ChainRepository,
+  handlerRegistry: JobHandlerRegistry,
+  dependencyResolver: DependencyResolver
+): Router {
+  const router = Router();
+  const controller = new ChainController(
+    repository,
+    chainRepository,
+    handlerRegistry,
+    dependencyResolver
+  );
+
+  router.post('/chains', controller.submitChain);
+
+  router.get('/chains/:id', controller.getChain);
+
+  router.delete('/chains/:id', controller.cancelChain);
+
+  return router;
+}
@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import { DeadLetterRepository, JobRepository } from '../../../domain';
+import { JobHandlerRegistry } from '../../../application/services/JobHandlerRegistry';
+import { DeadLetterController } from '../controllers';
+
+export function createDeadLetterRoutes(
+  repository: JobRepository,
+  deadLetterRepository: DeadLetterRepository,
+  handlerRegistry: JobHandlerRegistry
+): Router {
+  const router = Router();
+  const controller = new DeadLetterController(repository, deadLetterRepository, handlerRegistry);
+
+  router.get('/dead-letters', controller.listDeadLetters);
+
+  router.delete('/dead-letters', controller.purgeDeadLetters);
+
+  router.get('/dead-letters/:id', controller.getDeadLetter);
+
+  router.post('/dead-letters/:id/replay', controller.replayDeadLetter);
+
+  return router;
+}
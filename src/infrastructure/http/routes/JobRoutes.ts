@@ -1,15 +1,36 @@
 import { Router } from 'express';
 import { JobRepository } from '../../../domain';
+import { JobHandlerRegistry } from '../../../application/services/JobHandlerRegistry';
+import { DependencyResolver } from '../../../application/services/DependencyResolver';
+import { IdempotencyKeyStore } from '../../../application/services/IdempotencyKeyStore';
+import { JobExecutor } from '../../../application/services/JobExecutor';
+import { JobLogStore } from '../../../application/services/JobLogStore';
 import { JobController } from '../controllers';
 
-export function createJobRoutes(repository: JobRepository): Router {
+export function createJobRoutes(
+  repository: JobRepository,
+  handlerRegistry: JobHandlerRegistry,
+  dependencyResolver: DependencyResolver,
+  idempotencyKeyStore: IdempotencyKeyStore,
+  executor: JobExecutor,
+  logStore: JobLogStore
+): Router {
   const router = Router();
-  const controller = new JobController(repository);
+  const controller = new JobController(
+    repository,
+    handlerRegistry,
+    dependencyResolver,
+    idempotencyKeyStore,
+    executor,
+    logStore
+  );
 
   router.post('/jobs', controller.submitJob);
 
   router.get('/jobs/:id', controller.getJobStatus);
 
+  router.get('/jobs/:id/logs', controller.getJobLogs);
+
   router.delete('/jobs/:id', controller.cancelJob);
 
   return router;
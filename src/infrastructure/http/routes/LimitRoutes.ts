@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { JobTypeLimiter } from '../../../application/services/JobTypeLimiter';
+import { LimitController } from '../controllers';
+
+export function createLimitRoutes(typeLimiter: JobTypeLimiter): Router {
+  const router = Router();
+  const controller = new LimitController(typeLimiter);
+
+  router.get('/limits', controller.listLimits);
+
+  return router;
+}
@@ -0,0 +1,30 @@
+import { Router } from 'express';
+import { ScheduleRepository } from '../../../domain';
+import { JobHandlerRegistry } from '../../../application/services/JobHandlerRegistry';
+import { Scheduler } from '../../../application/services/Scheduler';
+import { ScheduleController } from '../controllers';
+
+export function createScheduleRoutes(
+  scheduleRepository: ScheduleRepository,
+  handlerRegistry: JobHandlerRegistry,
+  scheduler: Scheduler
+): Router {
+  const router = Router();
+  const controller = new ScheduleController(scheduleRepository, handlerRegistry, scheduler);
+
+  router.post('/schedules', controller.createSchedule);
+
+  router.get('/schedules', controller.listSchedules);
+
+  router.get('/schedules/:id', controller.getSchedule);
+
+  router.get('/schedules/:id/upcoming', controller.getUpcomingFireTimes);
+
+  router.post('/schedules/:id/pause', controller.pauseSchedule);
+
+  router.post('/schedules/:id/resume', controller.resumeSchedule);
+
+  router.delete('/schedules/:id', controller.deleteSchedule);
+
+  return router;
+}
@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { JobRepository, WorkflowRepository } from '../../../domain';
+import { JobHandlerRegistry } from '../../../application/services/JobHandlerRegistry';
+import { DependencyResolver } from '../../../application/services/DependencyResolver';
+import { WorkflowController } from '../controllers';
+
+export function createWorkflowRoutes(
+  repository: JobRepository,
+  workflowRepository: WorkflowRepository,
+  handlerRegistry: JobHandlerRegistry,
+  dependencyResolver: DependencyResolver
+): Router {
+  const router = Router();
+  const controller = new WorkflowController(
+    repository,
+    workflowRepository,
+    handlerRegistry,
+    dependencyResolver
+  );
+
+  router.post('/workflows', controller.submitWorkflow);
+
+  router.get('/workflows/:id', controller.getWorkflow);
+
+  return router;
+}
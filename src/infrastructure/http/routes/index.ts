@@ -1 +1,7 @@
-export * from './JobRoutes';
\ No newline at end of file
+export * from './JobRoutes';
+export * from './DeadLetterRoutes';
+export * from './LimitRoutes';
+export * from './ScheduleRoutes';
+export * from './WorkflowRoutes';
+export * from './ChainRoutes';
+export * from './BatchRoutes';
\ No newline at end of file
@@ -1,16 +1,48 @@
 import express, { Application } from 'express';
 import { jobWorker } from '../../application/services';
-import dotenv from 'dotenv';
-import { createJobRoutes } from './routes';
-
-dotenv.config();
+import {
+  createBatchRoutes,
+  createChainRoutes,
+  createDeadLetterRoutes,
+  createJobRoutes,
+  createLimitRoutes,
+  createScheduleRoutes,
+  createWorkflowRoutes,
+} from './routes';
+import { SimulatedJobHandler } from '../handlers';
 
 const PORT = process.env.PORT || 52646;
+const BODY_LIMIT = process.env.BODY_LIMIT || '10mb';
+
+/**
+ * Registers the simulated handler for every type listed in SIMULATED_JOB_TYPES
+ * (comma separated). Intended for demos; real handlers are registered in code.
+ */
+function registerSimulatedHandlers(): void {
+  const types = (process.env.SIMULATED_JOB_TYPES || '')
+    .split(',')
+    .map((type) => type.trim())
+    .filter((type) => type.length > 0);
+
+  const registry = jobWorker.getHandlerRegistry();
+  const handler = new SimulatedJobHandler();
+
+  for (const type of types) {
+    if (!registry.hasHandler(type)) {
+      registry.register(type, handler);
+    }
+  }
+
+  if (types.length > 0) {
+    console.log(`Simulated handlers registered for: ${types.join(', ')}`);
+  }
+}
 
 export function createApp(): Application {
   const app = express();
 
-  app.use(express.json());
+  // Batches of thousands of jobs exceed express' 100kb default
+  app.use(express.json({ limit: BODY_LIMIT }));
   app.use(express.urlencoded({ extended: true })); 
 
   app.use((req, res, next) => {
@@ -24,14 +56,63 @@ export function createApp(): Application {
       timestamp: new Date().toISOString(),
       worker: {
         running: jobWorker.isRunning(),
+        ...jobWorker.getStats(),
       },
     });
   });
 
   const repository = jobWorker.getRepository();
-  const jobRoutes = createJobRoutes(repository);
+  const jobRoutes = createJobRoutes(
+    repository,
+    jobWorker.getHandlerRegistry(),
+    jobWorker.getDependencyResolver(),
+    jobWorker.getIdempotencyKeyStore(),
+    jobWorker.getExecutor(),
+    jobWorker.getJobLogStore()
+  );
   app.use('/', jobRoutes);
 
+  const workflowRoutes = createWorkflowRoutes(
+    repository,
+    jobWorker.getWorkflowRepository(),
+    jobWorker.getHandlerRegistry(),
+    jobWorker.getDependencyResolver()
+  );
+  app.use('/', workflowRoutes);
+
+  const chainRoutes = createChainRoutes(
+    repository,
+    jobWorker.getChainRepository(),
+    jobWorker.getHandlerRegistry(),
+    jobWorker.getDependencyResolver()
+  );
+  app.use('/', chainRoutes);
+
+  const batchRoutes = createBatchRoutes(
+    repository,
+    jobWorker.getBatchRepository(),
+    jobWorker.getHandlerRegistry(),
+    jobWorker.getDependencyResolver()
+  );
+  app.use('/', batchRoutes);
+
+  const deadLetterRoutes = createDeadLetterRoutes(
+    repository,
+    jobWorker.getDeadLetterRepository(),
+    jobWorker.getHandlerRegistry()
+  );
+  app.use('/', deadLetterRoutes);
+
+  const limitRoutes = createLimitRoutes(jobWorker.getTypeLimiter());
+  app.use('/', limitRoutes);
+
+  const scheduleRoutes = createScheduleRoutes(
+    jobWorker.getScheduleRepository(),
+    jobWorker.getHandlerRegistry(),
+    jobWorker.getScheduler()
+  );
+  app.use('/', scheduleRoutes);
+
   app.use((req, res) => {
     res.status(404).json({
       error: 'Not Found',
@@ -43,6 +124,8 @@ export function createApp(): Application {
 }
 
 export function startServer(): void {
+  registerSimulatedHandlers();
+
   const app = createApp();
 
   console.log('Initializing JobWorker...');
@@ -60,10 +143,16 @@ export function startServer(): void {
     server.close(() => {
       console.log('HTTP server closed');
 
-      jobWorker.stop();
-
-      console.log('Shutdown complete');
-      process.exit(0);
+      jobWorker
+        .close()
+        .then(() => {
+          console.log('Shutdown complete');
+          process.exit(0);
+        })
+        .catch((error) => {
+          console.error('Error closing job storage:', error);
+          process.exit(1);
+        });
     });
 
     setTimeout(() => {
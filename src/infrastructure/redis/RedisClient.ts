@@ -0,0 +1,280 @@
+import * as net from 'net';
+
+export type RedisArgument = string | number;
+
+/** Error replies nested in an array (e.g. in an EXEC result) are kept as Error values */
+export type RedisReply = string | number | null | Error | RedisReply[];
+
+export interface RedisTransactionStep<T> {
+  /** Commands run in MULTI/EXEC; none means the watched state needs no change */
+  commands: RedisArgument[][];
+  result: T;
+}
+
+interface PendingReply {
+  resolve(reply: RedisReply): void;
+  reject(error: Error): void;
+}
+
+/**
+ * Minimal RESP2 client over a single connection. Commands are pipelined and their
+ * replies matched in order; commands issued while connecting are buffered by the
+ * socket. A lost connection fails the commands in flight, and the next command
+ * reconnects.
+ */
+export class RedisClient {
+  private static readonly MAX_TRANSACTION_ATTEMPTS = 50;
+  private socket?: net.Socket;
+  private buffer: Buffer = Buffer.alloc(0);
+  private pending: PendingReply[] = [];
+  private transactions: Promise<unknown> = Promise.resolve();
+  private readonly host: string;
+  private readonly port: number;
+  private readonly username?: string;
+  private readonly password?: string;
+  private readonly database?: string;
+
+  /**
+   * @param url - redis://[[username]:password@]host[:port][/database]
+   */
+  constructor(url: string) {
+    const parsed = new URL(url);
+
+    if (parsed.protocol !== 'redis:') {
+      throw new Error(`Redis URL must start with redis:// (got '${url}')`);
+    }
+
+    this.host = parsed.hostname || 'localhost';
+    this.port = parsed.port ? Number(parsed.port) : 6379;
+    this.username = parsed.username ? decodeURIComponent(parsed.username) : undefined;
+    this.password = parsed.password ? decodeURIComponent(parsed.password) : undefined;
+    this.database = parsed.pathname.slice(1) || undefined;
+  }
+
+  command(...args: RedisArgument[]): Promise<RedisReply> {
+    const socket = this.socket && !this.socket.destroyed ? this.socket : this.connect();
+
+    return this.send(socket, args);
+  }
+
+  /**
+   * Runs the commands in a MULTI/EXEC block, after any WATCH issued on this connection
+   * @returns Their replies, or null when a watched key changed and nothing was run
+   */
+  async exec(commands: RedisArgument[][]): Promise<RedisReply[] | null> {
+    const replies = await Promise.all([
+      this.command('MULTI'),
+      ...commands.map((args) => this.command(...args)),
+      this.command('EXEC'),
+    ]);
+    const results = replies[replies.length - 1] as RedisReply[] | null;
+    const error = results?.find((reply): reply is Error => reply instanceof Error);
+
+    if (error) {
+      throw error;
+    }
+
+    return results;
+  }
+
+  /**
+   * Runs `step`, then its commands in MULTI/EXEC, starting over while a key it watched
+   * was changed by someone else. WATCH state belongs to the connection, so transactions
+   * run one at a time, and the connection should not be used for anything else.
+   */
+  transaction<T>(step: (tx: RedisClient) => Promise<RedisTransactionStep<T>>): Promise<T> {
+    const run = this.transactions.then(async () => {
+      for (let attempt = 1; attempt <= RedisClient.MAX_TRANSACTION_ATTEMPTS; attempt++) {
+        let outcome: RedisTransactionStep<T>;
+
+        try {
+          outcome = await step(this);
+        } catch (error) {
+          await this.command('UNWATCH').catch(() => undefined);
+          throw error;
+        }
+
+        if (outcome.commands.length === 0) {
+          await this.command('UNWATCH');
+          return outcome.result;
+        }
+
+        if ((await this.exec(outcome.commands)) !== null) {
+          return outcome.result;
+        }
+      }
+
+      throw new Error(
+        `Redis transaction still conflicted after ${RedisClient.MAX_TRANSACTION_ATTEMPTS} attempts`
+      );
+    });
+
+    this.transactions = run.catch(() => undefined);
+
+    return run;
+  }
+
+  async close(): Promise<void> {
+    const socket = this.socket;
+    this.socket = undefined;
+
+    if (!socket || socket.destroyed) {
+      return;
+    }
+
+    await new Promise<void>((resolve) => {
+      socket.once('close', () => resolve());
+      socket.end();
+    });
+  }
+
+  private connect(): net.Socket {
+    const socket = net.connect(this.port, this.host);
+
+    socket.setNoDelay(true);
+    socket.on('data', (chunk) => {
+      try {
+        this.receive(chunk);
+      } catch (error) {
+        this.fail(socket, error as Error);
+      }
+    });
+    socket.on('error', (error) => this.fail(socket, error));
+    socket.on('close', () => this.fail(socket, new Error('Redis connection closed')));
+
+    this.socket = socket;
+    this.buffer = Buffer.alloc(0);
+
+    // A rejected handshake ends the connection, failing everything queued behind it
+    const handshake: RedisArgument[][] = [];
+
+    if (this.password !== undefined) {
+      handshake.push(
+        this.username !== undefined
+          ? ['AUTH', this.username, this.password]
+          : ['AUTH', this.password]
+      );
+    }
+
+    if (this.database !== undefined) {
+      handshake.push(['SELECT', this.database]);
+    }
+
+    handshake.forEach((args) => {
+      this.send(socket, args).catch((error) => this.fail(socket, error));
+    });
+
+    return socket;
+  }
+
+  private send(socket: net.Socket, args: RedisArgument[]): Promise<RedisReply> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      socket.write(RedisClient.encode(args));
+    });
+  }
+
+  private receive(chunk: Buffer): void {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+    let parsed = RedisClient.parse(this.buffer, 0);
+
+    while (parsed) {
+      const [reply, offset] = parsed;
+      const pending = this.pending.shift();
+
+      this.buffer = this.buffer.subarray(offset);
+
+      if (reply instanceof Error) {
+        pending?.reject(reply);
+      } else {
+        pending?.resolve(reply);
+      }
+
+      parsed = RedisClient.parse(this.buffer, 0);
+    }
+  }
+
+  private fail(socket: net.Socket, error: Error): void {
+    if (this.socket === socket) {
+      this.socket = undefined;
+    }
+
+    socket.destroy();
+
+    const pending = this.pending;
+    this.pending = [];
+    pending.forEach(({ reject }) => reject(error));
+  }
+
+  private static encode(args: RedisArgument[]): Buffer {
+    const parts = args.map((arg) => {
+      const value = Buffer.from(String(arg), 'utf8');
+      return Buffer.concat([Buffer.from(`$${value.length}\r\n`), value, Buffer.from('\r\n')]);
+    });
+
+    return Buffer.concat([Buffer.from(`*${args.length}\r\n`), ...parts]);
+  }
+
+  /**
+   * @returns The reply starting at `offset` and the offset after it, or undefined
+   * if the buffer does not hold all of it yet
+   */
+  private static parse(buffer: Buffer, offset: number): [RedisReply, number] | undefined {
+    const lineEnd = buffer.indexOf('\r\n', offset);
+
+    if (lineEnd === -1) {
+      return undefined;
+    }
+
+    const line = buffer.toString('utf8', offset + 1, lineEnd);
+    const next = lineEnd + 2;
+
+    switch (String.fromCharCode(buffer[offset])) {
+      case '+':
+        return [line, next];
+      case '-':
+        return [new Error(line), next];
+      case ':':
+        return [Number(line), next];
+      case '$': {
+        const length = Number(line);
+
+        if (length === -1) {
+          return [null, next];
+        }
+
+        if (next + length + 2 > buffer.length) {
+          return undefined;
+        }
+
+        return [buffer.toString('utf8', next, next + length), next + length + 2];
+      }
+      case '*': {
+        const count = Number(line);
+
+        if (count === -1) {
+          return [null, next];
+        }
+
+        const items: RedisReply[] = [];
+        let cursor = next;
+
+        for (let i = 0; i < count; i++) {
+          const item = RedisClient.parse(buffer, cursor);
+
+          if (!item) {
+            return undefined;
+          }
+
+          items.push(item[0]);
+          cursor = item[1];
+        }
+
+        return [items, cursor];
+      }
+      default:
+        throw new Error(`Unexpected Redis reply type '${buffer.toString('utf8', offset, offset + 1)}'`);
+    }
+  }
+}
@@ -0,0 +1,292 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Job } from '../../domain/entities/Job';
+import { JobStatus } from '../../domain/value-objects/JobStatus';
+import { coalescingKey } from '../../domain/value-objects/UniqueKey';
+import { JobQueueOptions } from '../../application/services/JobQueue';
+import { InMemoryJobRepository } from './InMemoryJobRepository';
+import { WriteAheadLog } from './WriteAheadLog';
+
+export interface FileJobRepositoryOptions extends JobQueueOptions {
+  /** Directory holding the snapshot and the write-ahead log; created if missing */
+  directory: string;
+  /**
+   * Log records after which the jobs are compacted into a new snapshot
+   * @default 1000
+   */
+  snapshotEvery?: number;
+  /**
+   * Flush every log record to disk before the save completes
+   * @default true
+   */
+  fsync?: boolean;
+}
+
+interface Snapshot {
+  version: 1;
+  /** Last log segment whose records the snapshot covers */
+  segment: number;
+  jobs: Job[];
+}
+
+const SNAPSHOT_FILE = 'jobs.snapshot.json';
+const SEGMENT_FILE = /^jobs\.(\d+)\.wal$/;
+
+/**
+ * Job repository that survives restarts. Jobs are kept and indexed in memory like
+ * `InMemoryJobRepository`; every save is first appended to a write-ahead log and only
+ * applied once the record is on disk. Concurrent saves share one fsync (group commit).
+ *
+ * The log is split into numbered segments. A compaction switches new records to the
+ * next segment, writes a snapshot in the background and then deletes the segments
+ * it covers. On construction, the snapshot and then the newer segments are replayed.
+ *
+ * Changes must go through the repository: edits made on `getQueue()` are not logged.
+ */
+export class FileJobRepository extends InMemoryJobRepository {
+  private readonly DEFAULT_SNAPSHOT_EVERY = 1000;
+  private readonly directory: string;
+  private readonly snapshotPath: string;
+  private readonly snapshotEvery: number;
+  private readonly fsync?: boolean;
+  private segment: number = 1;
+  private log: WriteAheadLog<Job>;
+  /** Resolved once every record of the previous segment is written */
+  private previousSegment: Promise<void> = Promise.resolve();
+  /** Jobs whose latest record is being written, and not applied yet */
+  private readonly unapplied: Map<string, Job> = new Map();
+  private compaction?: Promise<void>;
+  /** RUNNING jobs recovered from disk, whose processor stopped with the previous process */
+  private abandoned: Set<string> = new Set();
+
+  constructor(options: FileJobRepositoryOptions) {
+    super({ priorityAgingInterval: options.priorityAgingInterval });
+
+    this.snapshotEvery = options.snapshotEvery ?? this.DEFAULT_SNAPSHOT_EVERY;
+
+    if (!Number.isInteger(this.snapshotEvery) || this.snapshotEvery <= 0) {
+      throw new Error('Snapshot interval must be a positive integer (log records)');
+    }
+
+    fs.mkdirSync(options.directory, { recursive: true });
+    this.directory = options.directory;
+    this.snapshotPath = path.join(options.directory, SNAPSHOT_FILE);
+    this.fsync = options.fsync;
+    this.log = this.recover();
+  }
+
+  /**
+   * Appends the job to the log, then applies it once the record is written
+   */
+  async save(job: Job): Promise<Job> {
+    const log = this.log;
+    this.unapplied.set(job.id, job);
+
+    try {
+      // A record must not be applied before those of the previous segment
+      await Promise.all([log.append(job), this.previousSegment]);
+    } finally {
+      if (this.unapplied.get(job.id) === job) {
+        this.unapplied.delete(job.id);
+      }
+    }
+
+    await super.save(job);
+
+    if (log === this.log && log.size >= this.snapshotEvery && !this.compaction) {
+      this.compact().catch((error) => console.error('Error compacting the job store:', error));
+    }
+
+    return job;
+  }
+
+  /**
+   * Reads the job as last saved, including a record still being written, so two
+   * updates of the same job never start from the same version
+   */
+  async update(jobId: string, mutate: (job: Job) => Job | null): Promise<Job | null> {
+    const stored = this.unapplied.get(jobId) ?? this.getQueue().getJobById(jobId);
+    const updated = stored ? mutate(stored) : null;
+
+    return updated ? this.save(updated) : null;
+  }
+
+  /**
+   * The RUNNING jobs recovered on construction, handed out once
+   */
+  async takeAbandonedJobs(_now: number): Promise<Job[]> {
+    const jobs = [...this.abandoned]
+      .map((jobId) => this.getQueue().getJobById(jobId))
+      .filter((job): job is Job => job?.status === JobStatus.RUNNING);
+
+    this.abandoned.clear();
+
+    return jobs;
+  }
+
+  /**
+   * Writes every job to a new snapshot and deletes the log segments it covers.
+   * Saves go on during the compaction; they are appended to the next segment.
+   */
+  compact(): Promise<void> {
+    const previous = this.compaction ?? Promise.resolve();
+
+    const compaction = previous.then(() => this.writeSnapshot());
+    this.compaction = compaction.finally(() => {
+      if (this.compaction === compaction) {
+        this.compaction = undefined;
+      }
+    });
+
+    return compaction;
+  }
+
+  /**
+   * Waits for pending writes and the running compaction, then closes the log
+   */
+  async close(): Promise<void> {
+    await this.compaction;
+    await this.log.close();
+  }
+
+  async clear(): Promise<void> {
+    super.clear();
+    this.unapplied.clear();
+    this.abandoned.clear();
+    await this.compact();
+  }
+
+  /**
+   * Includes the records still being written, like `update`
+   */
+  protected findStoredByUniqueKey(type: string, uniqueKey: string): Job[] {
+    const jobs = new Map(
+      super.findStoredByUniqueKey(type, uniqueKey).map((job) => [job.id, job])
+    );
+
+    this.unapplied.forEach((job, jobId) => {
+      if (job.type === type && coalescingKey(job.config) === uniqueKey) {
+        jobs.set(jobId, job);
+      }
+    });
+
+    return [...jobs.values()];
+  }
+
+  private async writeSnapshot(): Promise<void> {
+    const segment = this.segment;
+    const previousLog = this.log;
+
+    this.segment++;
+    this.log = this.openSegment(this.segment);
+    this.previousSegment = previousLog
+      .close()
+      .catch((error) => console.error('Error closing a write-ahead log segment:', error));
+
+    // Records of the previous segment that are still being written belong to the snapshot too
+    const jobs = new Map(this.getQueue().listJobs().map((job) => [job.id, job]));
+    this.unapplied.forEach((job, jobId) => jobs.set(jobId, job));
+
+    const snapshot: Snapshot = { version: 1, segment, jobs: [...jobs.values()] };
+    const tmpPath = `${this.snapshotPath}.tmp`;
+
+    // Replace the snapshot atomically, so a crash leaves either the old or the new one
+    const file = await fs.promises.open(tmpPath, 'w');
+    try {
+      await file.writeFile(JSON.stringify(snapshot));
+      await file.sync();
+    } finally {
+      await file.close();
+    }
+    await fs.promises.rename(tmpPath, this.snapshotPath);
+
+    // The rename is only durable once the directory entry is flushed
+    const dir = await fs.promises.open(this.directory, 'r');
+    try {
+      await dir.sync();
+    } finally {
+      await dir.close();
+    }
+
+    await this.previousSegment;
+    await Promise.all(
+      this.listSegments()
+        .filter((n) => n <= segment)
+        .map((n) => fs.promises.rm(this.segmentPath(n), { force: true }))
+    );
+  }
+
+  /**
+   * Loads the snapshot, replays the newer segments and reopens the last one for appending
+   */
+  private recover(): WriteAheadLog<Job> {
+    const queue = this.getQueue();
+    const jobs = new Map<string, Job>();
+    let snapshotSegment = 0;
+
+    if (fs.existsSync(this.snapshotPath)) {
+      const snapshot: Snapshot = JSON.parse(fs.readFileSync(this.snapshotPath, 'utf8'));
+
+      if (snapshot.version !== 1) {
+        throw new Error(`Unsupported job snapshot version ${snapshot.version}`);
+      }
+
+      snapshot.jobs.forEach((job) => jobs.set(job.id, job));
+      snapshotSegment = snapshot.segment;
+    }
+
+    // Segments the snapshot covers are left over from a compaction cut short by a crash
+    const segments = this.listSegments().filter((n) => n > snapshotSegment);
+    this.segment = segments.length > 0 ? segments[segments.length - 1] : snapshotSegment + 1;
+
+    const log = new WriteAheadLog<Job>(this.segmentPath(this.segment), { fsync: this.fsync });
+
+    for (const n of segments) {
+      const { records, discardedBytes } =
+        n === this.segment ? log.open() : WriteAheadLog.read<Job>(this.segmentPath(n));
+
+      if (discardedBytes > 0) {
+        console.warn(`Discarded ${discardedBytes} bytes of a torn write-ahead log record`);
+      }
+
+      // Records hold whole jobs, so the last one of each job wins
+      records.forEach((job) => jobs.set(job.id, job));
+    }
+
+    if (segments.length === 0) {
+      log.open();
+    }
+
+    jobs.forEach((job) => {
+      queue.addJob(job);
+
+      if (job.status === JobStatus.RUNNING) {
+        this.abandoned.add(job.id);
+      }
+    });
+
+    console.log(`Recovered ${jobs.size} jobs from ${this.directory}`);
+
+    return log;
+  }
+
+  private openSegment(n: number): WriteAheadLog<Job> {
+    const log = new WriteAheadLog<Job>(this.segmentPath(n), { fsync: this.fsync });
+    log.open();
+    return log;
+  }
+
+  private segmentPath(n: number): string {
+    return path.join(this.directory, `jobs.${n}.wal`);
+  }
+
+  /** Numbers of the log segments on disk, in ascending order */
+  private listSegments(): number[] {
+    return fs
+      .readdirSync(this.directory)
+      .map((file) => SEGMENT_FILE.exec(file))
+      .filter((match): match is RegExpExecArray => match !== null)
+      .map((match) => Number(match[1]))
+      .sort((a, b) => a - b);
+  }
+}
@@ -0,0 +1,307 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  RecordCollection,
+  RecordCollectionOptions,
+  RecordListOptions,
+  RecordStore,
+} from './RecordStore';
+import { WriteAheadLog } from './WriteAheadLog';
+
+export interface FileRecordStoreOptions {
+  /** Directory holding the record log; created if missing */
+  directory: string;
+  /**
+   * Flush every log record to disk before the change completes
+   * @default true
+   */
+  fsync?: boolean;
+}
+
+interface RecordChange {
+  collection: string;
+  id: string;
+  /** Null when the record was deleted */
+  record: unknown;
+}
+
+const LOG_FILE = 'records.wal';
+/** Log records below which the log is never rewritten */
+const COMPACT_AFTER = 1000;
+
+/**
+ * Record store for file storage. Records are kept in memory; every change is first
+ * appended to a write-ahead log (`records.wal`) and only applied once the record is
+ * written, with concurrent changes sharing one fsync. Once the log holds more than
+ * twice as many records as there are live ones, it is rewritten with only the live
+ * ones and swapped in atomically. On construction, the log is replayed.
+ *
+ * Like `FileJobRepository`, a directory serves one process at a time.
+ */
+export class FileRecordStore implements RecordStore {
+  private readonly directory: string;
+  private readonly logPath: string;
+  private readonly fsync?: boolean;
+  private log: WriteAheadLog<RecordChange>;
+  private readonly collections: Map<string, Map<string, unknown>> = new Map();
+  /** Latest change of each record that is being written, and not applied yet */
+  private readonly unapplied: Map<string, Map<string, unknown>> = new Map();
+  private compaction?: Promise<void>;
+  private static readonly NO_RECORDS: ReadonlyMap<string, unknown> = new Map();
+
+  constructor(options: FileRecordStoreOptions) {
+    fs.mkdirSync(options.directory, { recursive: true });
+    this.directory = options.directory;
+    this.logPath = path.join(options.directory, LOG_FILE);
+    this.fsync = options.fsync;
+    this.log = this.recover();
+  }
+
+  collection<T>(name: string, { expiresAt }: RecordCollectionOptions<T> = {}): RecordCollection<T> {
+    return {
+      get: async (id) => (this.records(this.collections, name).get(id) as T) ?? null,
+      list: async (options) => this.list<T>(name, options),
+      put: (id, record) => this.write({ collection: name, id, record }),
+      putIfAbsent: async (id, record) => {
+        if (this.current(name, id) !== null) {
+          return false;
+        }
+
+        await this.write({ collection: name, id, record });
+        return true;
+      },
+      update: async (id, mutate) => {
+        const stored = this.current(name, id) as T | null;
+        const updated = stored !== null ? mutate(stored) : null;
+
+        if (updated === null) {
+          return null;
+        }
+
+        await this.write({ collection: name, id, record: updated });
+        return updated;
+      },
+      delete: async (id) => {
+        if (this.current(name, id) === null) {
+          return false;
+        }
+
+        await this.write({ collection: name, id, record: null });
+        return true;
+      },
+      // Records are in memory already, so checking each of them costs no read
+      deleteExpired: async (now) => {
+        if (!expiresAt) {
+          return 0;
+        }
+
+        const expired = this.ids(name).filter(
+          (id) => expiresAt(this.current(name, id) as T) <= now
+        );
+
+        await Promise.all(expired.map((id) => this.write({ collection: name, id, record: null })));
+        return expired.length;
+      },
+      clear: async () => {
+        const live = this.ids(name);
+
+        await Promise.all(live.map((id) => this.write({ collection: name, id, record: null })));
+        return live.length;
+      },
+      count: async () => this.records(this.collections, name).size,
+    };
+  }
+
+  /**
+   * Waits for pending writes and the running compaction, then closes the log
+   */
+  async close(): Promise<void> {
+    while (this.compaction) {
+      await this.compaction;
+    }
+
+    await this.log.close();
+  }
+
+  /**
+   * Appends the change to the log, then applies it once the record is written
+   */
+  private async write(change: RecordChange): Promise<void> {
+    let unapplied = this.unapplied.get(change.collection);
+
+    if (!unapplied) {
+      unapplied = new Map();
+      this.unapplied.set(change.collection, unapplied);
+    }
+
+    unapplied.set(change.id, change.record);
+
+    try {
+      // Changes made during a compaction go to the rewritten log
+      while (this.compaction) {
+        await this.compaction;
+      }
+
+      await this.log.append(change);
+    } finally {
+      if (unapplied.get(change.id) === change.record) {
+        unapplied.delete(change.id);
+      }
+
+      if (unapplied.size === 0) {
+        this.unapplied.delete(change.collection);
+      }
+    }
+
+    this.apply(change);
+
+    if (!this.compaction && this.log.size >= COMPACT_AFTER && this.log.size > 2 * this.size()) {
+      this.compaction = this.compact()
+        .catch((error) => console.error('Error compacting the record store:', error))
+        .finally(() => {
+          this.compaction = undefined;
+        });
+    }
+  }
+
+  /**
+   * Rewrites the log with one record per live record. A crash leaves either the old
+   * or the new log, since the new one replaces it by a rename.
+   */
+  private async compact(): Promise<void> {
+    await this.log.close();
+
+    try {
+      const tmpPath = `${this.logPath}.tmp`;
+      await fs.promises.rm(tmpPath, { force: true });
+
+      const rewritten = new WriteAheadLog<RecordChange>(tmpPath, { fsync: this.fsync });
+      rewritten.open();
+
+      // Changes still being written belong to the new log too
+      const changes: RecordChange[] = [];
+      const names = new Set([...this.collections.keys(), ...this.unapplied.keys()]);
+
+      for (const collection of names) {
+        const ids = new Set([
+          ...this.records(this.collections, collection).keys(),
+          ...this.records(this.unapplied, collection).keys(),
+        ]);
+
+        ids.forEach((id) => {
+          const record = this.current(collection, id);
+
+          if (record !== null) {
+            changes.push({ collection, id, record });
+          }
+        });
+      }
+
+      await Promise.all(changes.map((change) => rewritten.append(change)));
+      await rewritten.close();
+      await fs.promises.rename(tmpPath, this.logPath);
+
+      // The rename is only durable once the directory entry is flushed
+      const dir = await fs.promises.open(this.directory, 'r');
+      try {
+        await dir.sync();
+      } finally {
+        await dir.close();
+      }
+    } finally {
+      this.log = this.openLog();
+    }
+  }
+
+  /**
+   * Replays the log and reopens it for appending
+   */
+  private recover(): WriteAheadLog<RecordChange> {
+    const log = new WriteAheadLog<RecordChange>(this.logPath, { fsync: this.fsync });
+    const { records, discardedBytes } = log.open();
+
+    if (discardedBytes > 0) {
+      console.warn(`Discarded ${discardedBytes} bytes of a torn write-ahead log record`);
+    }
+
+    records.forEach((change) => this.apply(change));
+
+    return log;
+  }
+
+  private openLog(): WriteAheadLog<RecordChange> {
+    const log = new WriteAheadLog<RecordChange>(this.logPath, { fsync: this.fsync });
+    log.open();
+    return log;
+  }
+
+  private apply(change: RecordChange): void {
+    const records = this.collections.get(change.collection) ?? new Map<string, unknown>();
+
+    if (change.record === null) {
+      records.delete(change.id);
+    } else {
+      records.set(change.id, change.record);
+    }
+
+    if (records.size > 0) {
+      this.collections.set(change.collection, records);
+    } else {
+      this.collections.delete(change.collection);
+    }
+  }
+
+  /**
+   * The record as last changed, including a change still being written, so two
+   * read-modify-write changes never start from the same version
+   */
+  private current(collection: string, id: string): unknown {
+    const unapplied = this.records(this.unapplied, collection);
+
+    return unapplied.has(id)
+      ? unapplied.get(id)
+      : (this.records(this.collections, collection).get(id) ?? null);
+  }
+
+  /**
+   * Ids of the live records, including changes still being written
+   */
+  private ids(collection: string): string[] {
+    const ids = new Set([
+      ...this.records(this.collections, collection).keys(),
+      ...this.records(this.unapplied, collection).keys(),
+    ]);
+
+    return [...ids].filter((id) => this.current(collection, id) !== null);
+  }
+
+  private list<T>(collection: string, options: RecordListOptions = {}): T[] {
+    const records = this.records(this.collections, collection);
+    const ids = [...records.keys()]
+      .filter((id) => options.after === undefined || FileRecordStore.compare(id, options.after) > 0)
+      .sort(FileRecordStore.compare)
+      .slice(0, options.limit);
+
+    return ids.map((id) => records.get(id) as T);
+  }
+
+  private size(): number {
+    let size = 0;
+    this.collections.forEach((records) => {
+      size += records.size;
+    });
+    return size;
+  }
+
+  private records(
+    collections: Map<string, Map<string, unknown>>,
+    collection: string
+  ): ReadonlyMap<string, unknown> {
+    return collections.get(collection) ?? FileRecordStore.NO_RECORDS;
+  }
+
+  /** Same order as the other stores: ids compared as UTF-8 bytes */
+  private static compare(a: string, b: string): number {
+    return Buffer.compare(Buffer.from(a), Buffer.from(b));
+  }
+}
@@ -0,0 +1,46 @@
+import { Batch } from '../../domain/entities/Batch';
+import { BatchRepository } from '../../domain';
+
+export class InMemoryBatchRepository implements BatchRepository {
+  private batches: Map<string, Batch>;
+
+  constructor() {
+    this.batches = new Map();
+  }
+
+  async save(batch: Batch): Promise<Batch> {
+    this.batches.set(batch.id, batch);
+    return batch;
+  }
+
+  async update(id: string, mutate: (batch: Batch) => Batch | null): Promise<Batch | null> {
+    const stored = this.batches.get(id);
+    const updated = stored ? mutate(stored) : null;
+
+    if (updated) {
+      this.batches.set(id, updated);
+    }
+
+    return updated;
+  }
+
+  async findById(id: string): Promise<Batch | null> {
+    return this.batches.get(id) || null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.batches.delete(id);
+  }
+
+  async findAll(): Promise<Batch[]> {
+    return Array.from(this.batches.values()).sort((a, b) => a.created_at - b.created_at);
+  }
+
+  async count(): Promise<number> {
+    return this.batches.size;
+  }
+
+  clear(): void {
+    this.batches.clear();
+  }
+}
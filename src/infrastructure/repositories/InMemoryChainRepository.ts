@@ -0,0 +1,31 @@
+import { Chain } from '../../domain/entities/Chain';
+import { ChainRepository } from '../../domain';
+
+export class InMemoryChainRepository implements ChainRepository {
+  private chains: Map<string, Chain>;
+
+  constructor() {
+    this.chains = new Map();
+  }
+
+  async save(chain: Chain): Promise<Chain> {
+    this.chains.set(chain.id, chain);
+    return chain;
+  }
+
+  async findById(id: string): Promise<Chain | null> {
+    return this.chains.get(id) || null;
+  }
+
+  async findAll(): Promise<Chain[]> {
+    return Array.from(this.chains.values()).sort((a, b) => a.created_at - b.created_at);
+  }
+
+  async count(): Promise<number> {
+    return this.chains.size;
+  }
+
+  clear(): void {
+    this.chains.clear();
+  }
+}
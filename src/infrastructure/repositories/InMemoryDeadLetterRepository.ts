@@ -0,0 +1,51 @@
+import { DeadLetter, DeadLetterFilter } from '../../domain/entities/DeadLetter';
+import { DeadLetterFactory } from '../../domain/factories/DeadLetterFactory';
+import { DeadLetterRepository } from '../../domain';
+
+export class InMemoryDeadLetterRepository implements DeadLetterRepository {
+  private deadLetters: Map<string, DeadLetter>;
+
+  constructor() {
+    this.deadLetters = new Map();
+  }
+
+  async save(deadLetter: DeadLetter): Promise<DeadLetter> {
+    this.deadLetters.set(deadLetter.id, deadLetter);
+    return deadLetter;
+  }
+
+  async findById(id: string): Promise<DeadLetter | null> {
+    return this.deadLetters.get(id) || null;
+  }
+
+  async findAll(filter?: DeadLetterFilter): Promise<DeadLetter[]> {
+    return Array.from(this.deadLetters.values())
+      .filter((deadLetter) => DeadLetterFactory.matches(deadLetter, filter))
+      .sort((a, b) => a.dead_lettered_at - b.dead_lettered_at);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.deadLetters.delete(id);
+  }
+
+  async purge(filter?: DeadLetterFilter): Promise<number> {
+    let purged = 0;
+
+    for (const deadLetter of Array.from(this.deadLetters.values())) {
+      if (DeadLetterFactory.matches(deadLetter, filter)) {
+        this.deadLetters.delete(deadLetter.id);
+        purged++;
+      }
+    }
+
+    return purged;
+  }
+
+  async count(): Promise<number> {
+    return this.deadLetters.size;
+  }
+
+  clear(): void {
+    this.deadLetters.clear();
+  }
+}
@@ -0,0 +1,51 @@
+import { IdempotencyKey } from '../../domain/entities/IdempotencyKey';
+import { IdempotencyKeyRepository } from '../../domain';
+
+export class InMemoryIdempotencyKeyRepository implements IdempotencyKeyRepository {
+  private records: Map<string, IdempotencyKey>;
+
+  constructor() {
+    this.records = new Map();
+  }
+
+  async create(record: IdempotencyKey): Promise<boolean> {
+    const existing = this.records.get(record.key);
+
+    if (existing && existing.expires_at > record.created_at) {
+      return false;
+    }
+
+    this.records.set(record.key, record);
+    return true;
+  }
+
+  async save(record: IdempotencyKey): Promise<IdempotencyKey> {
+    this.records.set(record.key, record);
+    return record;
+  }
+
+  async findByKey(key: string): Promise<IdempotencyKey | null> {
+    return this.records.get(key) || null;
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.records.delete(key);
+  }
+
+  async deleteExpired(now: number): Promise<number> {
+    let deleted = 0;
+
+    for (const record of Array.from(this.records.values())) {
+      if (record.expires_at <= now) {
+        this.records.delete(record.key);
+        deleted++;
+      }
+    }
+
+    return deleted;
+  }
+
+  clear(): void {
+    this.records.clear();
+  }
+}
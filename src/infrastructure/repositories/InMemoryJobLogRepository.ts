@@ -0,0 +1,63 @@
+import { JobLogEntry, JobLogUsage, jobLogEntrySize } from '../../domain/entities/JobLog';
+import { JobLogRepository } from '../../domain';
+
+interface JobLog {
+  entries: JobLogEntry[];
+  bytes: number;
+}
+
+export class InMemoryJobLogRepository implements JobLogRepository {
+  private logs: Map<string, JobLog>;
+
+  constructor() {
+    this.logs = new Map();
+  }
+
+  async append(entry: JobLogEntry): Promise<JobLogEntry> {
+    let log = this.logs.get(entry.job_id);
+
+    if (!log) {
+      log = { entries: [], bytes: 0 };
+      this.logs.set(entry.job_id, log);
+    }
+
+    log.entries.push(entry);
+    log.bytes += jobLogEntrySize(entry);
+
+    return entry;
+  }
+
+  async findByJobId(jobId: string, options: { after?: number; limit: number }): Promise<JobLogEntry[]> {
+    const entries = this.logs.get(jobId)?.entries ?? [];
+    const after = options.after ?? 0;
+
+    // Sequences are appended in order, so the first line after the cursor can be found by bisection
+    let low = 0;
+    let high = entries.length;
+
+    while (low < high) {
+      const mid = (low + high) >> 1;
+
+      if (entries[mid].sequence <= after) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    return entries.slice(low, low + options.limit);
+  }
+
+  async getUsage(jobId: string): Promise<JobLogUsage> {
+    const log = this.logs.get(jobId);
+
+    return {
+      last_sequence: log?.entries[log.entries.length - 1]?.sequence ?? 0,
+      bytes: log?.bytes ?? 0,
+    };
+  }
+
+  clear(): void {
+    this.logs.clear();
+  }
+}
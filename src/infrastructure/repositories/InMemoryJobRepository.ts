@@ -1,13 +1,14 @@
 import { Job } from '../../domain/entities/Job';
 import { JobStatus } from '../../domain/value-objects/JobStatus';
-import { JobQueue } from '../../application/services/JobQueue';
-import { JobRepository } from '../../domain';
+import { JobQueue, JobQueueOptions } from '../../application/services/JobQueue';
+import { JobCollapse, JobInsertion, JobRepository } from '../../domain';
+import { planInsert } from './JobInsertPlan';
 
 export class InMemoryJobRepository implements JobRepository {
   private jobQueue: JobQueue;
 
-  constructor() {
-    this.jobQueue = new JobQueue();
+  constructor(options: JobQueueOptions = {}) {
+    this.jobQueue = new JobQueue(options);
   }
 
   async save(job: Job): Promise<Job> {
@@ -20,11 +21,35 @@ export class InMemoryJobRepository implements JobRepository {
     return job;
   }
 
+  async update(jobId: string, mutate: (job: Job) => Job | null): Promise<Job | null> {
+    const stored = this.jobQueue.getJobById(jobId);
+    const updated = stored ? mutate(stored) : null;
+
+    return updated ? this.save(updated) : null;
+  }
+
+  async insert(jobs: Job[], collapse: JobCollapse): Promise<JobInsertion[]> {
+    const plan = planInsert(
+      jobs,
+      (type, uniqueKey) => this.findStoredByUniqueKey(type, uniqueKey),
+      collapse
+    );
+
+    // Every save starts before the first one yields, so no other insert plans in between
+    await Promise.all(plan.writes.map((job) => this.save(job)));
+
+    return plan.insertions;
+  }
+
   async findById(jobId: string): Promise<Job | null> {
     const job = this.jobQueue.getJobById(jobId);
     return job || null;
   }
 
+  async findByIds(jobIds: string[]): Promise<Job[]> {
+    return jobIds.flatMap((jobId) => this.jobQueue.getJobById(jobId) ?? []);
+  }
+
   async findAll(): Promise<Job[]> {
     return this.jobQueue.listJobs();
   }
@@ -33,11 +58,51 @@ export class InMemoryJobRepository implements JobRepository {
     return this.jobQueue.listJobs({ status });
   }
 
-  async getNextEligible(): Promise<Job | null> {
-    const job = this.jobQueue.getNextEligibleJob();
+  async findByUniqueKey(type: string, uniqueKey: string): Promise<Job[]> {
+    return this.jobQueue.getJobsByUniqueKey(type, uniqueKey);
+  }
+
+  async findDependents(jobId: string): Promise<Job[]> {
+    return this.jobQueue.getDependents(jobId);
+  }
+
+  async getNextEligible(excludedTypes?: string[]): Promise<Job | null> {
+    const job = this.jobQueue.getNextEligibleJob(
+      excludedTypes && ((type) => !excludedTypes.includes(type))
+    );
     return job || null;
   }
 
+  async getNextEligibleAt(): Promise<number | undefined> {
+    return this.jobQueue.getNextEligibleAt();
+  }
+
+  async getNextExpiresAt(): Promise<number | undefined> {
+    return this.jobQueue.getNextExpiresAt();
+  }
+
+  async takeExpiredJobs(now: number): Promise<Job[]> {
+    return this.jobQueue.takeExpiredJobs(now);
+  }
+
+  /**
+   * Jobs kept in memory never outlive their processor
+   */
+  async takeAbandonedJobs(_now: number): Promise<Job[]> {
+    return [];
+  }
+
+  /**
+   * Jobs kept in memory hold no lease; the cancellation requests are still reported
+   */
+  async renewLeases(jobIds: string[]): Promise<Job[]> {
+    return jobIds
+      .map((jobId) => this.jobQueue.getJobById(jobId))
+      .filter(
+        (job): job is Job => job?.status === JobStatus.RUNNING && job.cancel_request !== undefined
+      );
+  }
+
   async getJobCounts(): Promise<Record<JobStatus, number>> {
     return this.jobQueue.getJobCounts();
   }
@@ -50,6 +115,14 @@ export class InMemoryJobRepository implements JobRepository {
     return this.jobQueue.getTotalJobs();
   }
 
+  onJobPending(listener: () => void): () => void {
+    return this.jobQueue.onJobPending(listener);
+  }
+
+  onJobFinished(listener: (job: Job) => void): () => void {
+    return this.jobQueue.onJobFinished(listener);
+  }
+
   getQueue(): JobQueue {
     return this.jobQueue;
   }
@@ -57,4 +130,11 @@ export class InMemoryJobRepository implements JobRepository {
   clear(): void {
     this.jobQueue.clear();
   }
+
+  /**
+   * Jobs of a type with a unique, debounce or throttle key, as last saved
+   */
+  protected findStoredByUniqueKey(type: string, uniqueKey: string): Job[] {
+    return this.jobQueue.getJobsByUniqueKey(type, uniqueKey);
+  }
 }
\ No newline at end of file
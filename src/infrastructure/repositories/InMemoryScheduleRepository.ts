@@ -0,0 +1,51 @@
+import { Schedule, ScheduleFilter } from '../../domain/entities/Schedule';
+import { ScheduleRepository } from '../../domain';
+
+export class InMemoryScheduleRepository implements ScheduleRepository {
+  private schedules: Map<string, Schedule>;
+
+  constructor() {
+    this.schedules = new Map();
+  }
+
+  async save(schedule: Schedule): Promise<Schedule> {
+    this.schedules.set(schedule.id, schedule);
+    return schedule;
+  }
+
+  async update(
+    id: string,
+    mutate: (schedule: Schedule) => Schedule | null
+  ): Promise<Schedule | null> {
+    const stored = this.schedules.get(id);
+    const updated = stored ? mutate(stored) : null;
+
+    if (updated) {
+      this.schedules.set(id, updated);
+    }
+
+    return updated;
+  }
+
+  async findById(id: string): Promise<Schedule | null> {
+    return this.schedules.get(id) || null;
+  }
+
+  async findAll(filter?: ScheduleFilter): Promise<Schedule[]> {
+    return Array.from(this.schedules.values())
+      .filter((schedule) => !filter?.status || schedule.status === filter.status)
+      .sort((a, b) => a.created_at - b.created_at);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.schedules.delete(id);
+  }
+
+  async count(): Promise<number> {
+    return this.schedules.size;
+  }
+
+  clear(): void {
+    this.schedules.clear();
+  }
+}
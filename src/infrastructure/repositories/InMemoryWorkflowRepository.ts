@@ -0,0 +1,31 @@
+import { Workflow } from '../../domain/entities/Workflow';
+import { WorkflowRepository } from '../../domain';
+
+export class InMemoryWorkflowRepository implements WorkflowRepository {
+  private workflows: Map<string, Workflow>;
+
+  constructor() {
+    this.workflows = new Map();
+  }
+
+  async save(workflow: Workflow): Promise<Workflow> {
+    this.workflows.set(workflow.id, workflow);
+    return workflow;
+  }
+
+  async findById(id: string): Promise<Workflow | null> {
+    return this.workflows.get(id) || null;
+  }
+
+  async findAll(): Promise<Workflow[]> {
+    return Array.from(this.workflows.values()).sort((a, b) => a.created_at - b.created_at);
+  }
+
+  async count(): Promise<number> {
+    return this.workflows.size;
+  }
+
+  clear(): void {
+    this.workflows.clear();
+  }
+}
@@ -0,0 +1,44 @@
+import { Job } from '../../domain/entities/Job';
+import { JobFactory } from '../../domain/factories/JobFactory';
+import { JobStatus } from '../../domain/value-objects/JobStatus';
+
+/**
+ * Pending and finished listeners of a repository that does not keep a `JobQueue`.
+ * They only hear about the saves made through that repository instance, not those
+ * of other processes sharing its storage.
+ */
+export class JobEventListeners {
+  private readonly pendingListeners: Set<() => void> = new Set();
+  private readonly finishedListeners: Set<(job: Job) => void> = new Set();
+
+  onJobPending(listener: () => void): () => void {
+    this.pendingListeners.add(listener);
+    return () => {
+      this.pendingListeners.delete(listener);
+    };
+  }
+
+  onJobFinished(listener: (job: Job) => void): () => void {
+    this.finishedListeners.add(listener);
+    return () => {
+      this.finishedListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Notifies the listeners of a saved job, like `JobQueue` does
+   * @param previousStatus - Status the job was stored with, undefined if it is new
+   */
+  saved(job: Job, previousStatus?: JobStatus): void {
+    const wasTerminal =
+      previousStatus !== undefined && JobFactory.isTerminal({ ...job, status: previousStatus });
+
+    if (JobFactory.isTerminal(job) && !wasTerminal) {
+      this.finishedListeners.forEach((listener) => listener(job));
+    }
+
+    if (job.status === JobStatus.PENDING) {
+      this.pendingListeners.forEach((listener) => listener());
+    }
+  }
+}
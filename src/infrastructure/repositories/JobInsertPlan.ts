@@ -0,0 +1,60 @@
+import { Job } from '../../domain/entities/Job';
+import { coalescingKey } from '../../domain/value-objects/UniqueKey';
+import { JobCollapse, JobInsertion } from '../../domain';
+
+export interface JobInsertPlan {
+  /** The jobs to create and the stored jobs they changed, in the order to write them */
+  writes: Job[];
+  insertions: JobInsertion[];
+}
+
+/**
+ * Decides what `JobRepository.insert` writes, without writing anything; repositories
+ * run it in the transaction that writes the plan, on the jobs read in that transaction
+ * @param findStored - The stored jobs of a type with a unique, debounce or throttle key
+ */
+export function planInsert(
+  jobs: Job[],
+  findStored: (type: string, uniqueKey: string) => Job[],
+  collapse: JobCollapse
+): JobInsertPlan {
+  /** Every job the plan read or changed, as last changed */
+  const latest = new Map<string, Job>();
+  /** Jobs the plan creates, by type and key */
+  const created = new Map<string, Job[]>();
+  const written = new Set<string>();
+  const outcomes: Array<{ id: string; collapsed: boolean }> = [];
+
+  for (const job of jobs) {
+    const uniqueKey = coalescingKey(job.config);
+    const key = JSON.stringify([job.type, uniqueKey]);
+    const candidates =
+      uniqueKey === undefined
+        ? []
+        : [...findStored(job.type, uniqueKey), ...(created.get(key) ?? [])].map(
+            (candidate) => latest.get(candidate.id) ?? candidate
+          );
+    const match = uniqueKey === undefined ? undefined : collapse(job, candidates);
+
+    if (!match) {
+      latest.set(job.id, job);
+      written.add(job.id);
+      created.set(key, [...(created.get(key) ?? []), job]);
+      outcomes.push({ id: job.id, collapsed: false });
+      continue;
+    }
+
+    // A changed copy (e.g. a debounced job) must be written over the candidate
+    if (!candidates.includes(match)) {
+      written.add(match.id);
+    }
+
+    latest.set(match.id, match);
+    outcomes.push({ id: match.id, collapsed: true });
+  }
+
+  return {
+    writes: [...written].map((id) => latest.get(id)!),
+    insertions: outcomes.map(({ id, collapsed }) => ({ job: latest.get(id)!, collapsed })),
+  };
+}
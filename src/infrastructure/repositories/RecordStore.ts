@@ -0,0 +1,59 @@
+export interface RecordListOptions {
+  /** Only records whose id sorts after this one */
+  after?: string;
+  limit?: number;
+}
+
+export interface RecordCollectionOptions<T> {
+  /**
+   * Timestamp (ms) at which a record expires; the store may drop it from then on, and
+   * `deleteExpired` does. Records of other collections never expire.
+   */
+  expiresAt?: (record: T) => number;
+}
+
+/**
+ * Records of one kind, stored as JSON under a string id
+ */
+export interface RecordCollection<T> {
+  get(id: string): Promise<T | null>;
+  /** Records in ascending id order (compared as UTF-8 bytes) */
+  list(options?: RecordListOptions): Promise<T[]>;
+  put(id: string, record: T): Promise<void>;
+  /**
+   * Stores the record unless its id exists, atomically for every process sharing the store
+   * @returns Whether the record was stored
+   */
+  putIfAbsent(id: string, record: T): Promise<boolean>;
+  /**
+   * Replaces a record with `mutate(record)`, atomically for every process sharing the
+   * store; `mutate` may run more than once, and returning null leaves the record as is
+   * @returns The stored record, or null when it is missing or was left as is
+   */
+  update(id: string, mutate: (record: T) => T | null): Promise<T | null>;
+  delete(id: string): Promise<boolean>;
+  /**
+   * Removes the records expired at `now` through an index of the store, without
+   * reading the others
+   * @returns How many were removed
+   */
+  deleteExpired(now: number): Promise<number>;
+  /** Removes every record and returns how many were removed */
+  clear(): Promise<number>;
+  count(): Promise<number>;
+}
+
+/**
+ * Storage for the records kept next to the jobs (dead letters, workflows, batches...),
+ * so they follow the job storage: durable with file storage, and shared between the
+ * instances of a sqlite or redis deployment
+ */
+export interface RecordStore {
+  /**
+   * @param name - Collection name, e.g. 'dead-letters'; part of the stored keys, so it
+   * must not change between releases
+   * @param options - The same for every use of the collection
+   */
+  collection<T>(name: string, options?: RecordCollectionOptions<T>): RecordCollection<T>;
+  close(): Promise<void>;
+}
@@ -0,0 +1,611 @@
+import { Job } from '../../domain/entities/Job';
+import { JobStatus } from '../../domain/value-objects/JobStatus';
+import { priorityRank } from '../../domain/value-objects/JobPriority';
+import { coalescingKey } from '../../domain/value-objects/UniqueKey';
+import { JobCollapse, JobInsertion, JobRepository } from '../../domain';
+import { JobFactory } from '../../domain/factories/JobFactory';
+import { RedisArgument, RedisClient } from '../redis/RedisClient';
+import { JobEventListeners } from './JobEventListeners';
+import { planInsert } from './JobInsertPlan';
+
+export interface RedisJobRepositoryOptions {
+  /** redis://[[username]:password@]host[:port][/database] */
+  url: string;
+  /**
+   * Prefix of every key, so several queues can share a database
+   * @default 'jobqueue'
+   */
+  keyPrefix?: string;
+  /**
+   * Milliseconds a job returned by `getNextEligible` or `takeExpiredJobs` stays
+   * claimed, and a RUNNING job stays leased between two renewals; if it is not saved
+   * or renewed by then (e.g. the process died), it goes back to the queue, or is
+   * taken as abandoned
+   * @default 30000
+   */
+  claimTimeout?: number;
+  /**
+   * Milliseconds of waiting that raise a job's priority by one level; every process
+   * sharing the queue must use the same value
+   * @default undefined (no aging, strict priority order)
+   */
+  priorityAgingInterval?: number;
+}
+
+/** A PENDING job's place in the ready set of its type */
+interface ReadyEntry {
+  type: string;
+  /** Negated priority rank, so the lowest score runs first */
+  score: number;
+  /** Ties are broken by member, which sorts by `created_at`, then insertion order */
+  member: string;
+}
+
+interface StoredJob {
+  job: Job;
+  sequence: number;
+}
+
+/** Due delayed jobs (and abandoned claims) moved back to the queue per claim */
+const PROMOTE_BATCH = 100;
+
+/**
+ * Job repository stored in Redis, so several service instances can share one queue.
+ * Keys, all under `keyPrefix`:
+ * - `job:<id>`: the job as JSON
+ * - `ids`, `status:<status>`, `unique:<type and key>`, `dependents:<id>`: sorted sets of
+ *   job ids by insertion order
+ * - `delayed`: ids of PENDING jobs saved before their `eligible_at`, by `eligible_at`;
+ *   moved to `ready:<type>` once due
+ * - `ready:<type>`: eligible job entries by priority rank, listed in `ready-types`;
+ *   jobs saved once eligible are added directly
+ * - `claimed`: ids of jobs handed to a processor, by claim deadline
+ * - `running`: ids of RUNNING jobs, by the deadline of their processor's lease
+ * - `expiring`: ids of unclaimed BLOCKED or PENDING jobs that never started, by `expires_at`
+ * Every change runs as a WATCH/MULTI/EXEC transaction that is retried when another
+ * process changed what it read, so no job is ever claimed twice.
+ */
+export class RedisJobRepository implements JobRepository {
+  private readonly DEFAULT_KEY_PREFIX = 'jobqueue';
+  private readonly DEFAULT_CLAIM_TIMEOUT = 30000;
+  private readonly client: RedisClient;
+  /** WATCH state belongs to a connection, so transactions get their own */
+  private readonly transactionClient: RedisClient;
+  private readonly keyPrefix: string;
+  private readonly claimTimeout: number;
+  private readonly priorityAgingInterval?: number;
+  private readonly listeners: JobEventListeners = new JobEventListeners();
+
+  constructor(options: RedisJobRepositoryOptions) {
+    this.keyPrefix = options.keyPrefix ?? this.DEFAULT_KEY_PREFIX;
+    this.claimTimeout = options.claimTimeout ?? this.DEFAULT_CLAIM_TIMEOUT;
+    this.priorityAgingInterval = options.priorityAgingInterval;
+
+    if (!Number.isInteger(this.claimTimeout) || this.claimTimeout <= 0) {
+      throw new Error('Claim timeout must be a positive integer (milliseconds)');
+    }
+
+    if (this.priorityAgingInterval !== undefined && !(this.priorityAgingInterval > 0)) {
+      throw new Error('Priority aging interval must be a positive number');
+    }
+
+    this.client = new RedisClient(options.url);
+    this.transactionClient = new RedisClient(options.url);
+  }
+
+  async save(job: Job): Promise<Job> {
+    const jobKey = this.key('job', job.id);
+
+    const previousStatus = await this.transactionClient.transaction(async (tx) => {
+      await tx.command('WATCH', jobKey);
+
+      const stored = await this.load(tx, job.id);
+      const sequence =
+        stored?.sequence ?? ((await tx.command('INCR', this.key('sequence'))) as number);
+
+      return {
+        commands: this.write(job, sequence, stored),
+        result: stored?.job.status,
+      };
+    });
+
+    this.listeners.saved(job, previousStatus);
+
+    return job;
+  }
+
+  async update(jobId: string, mutate: (job: Job) => Job | null): Promise<Job | null> {
+    const outcome = await this.transactionClient.transaction(async (tx) => {
+      await tx.command('WATCH', this.key('job', jobId));
+
+      const stored = await this.load(tx, jobId);
+      const updated = stored ? mutate(stored.job) : null;
+
+      if (!stored || !updated) {
+        return { commands: [], result: null };
+      }
+
+      return {
+        commands: this.write(updated, stored.sequence, stored),
+        result: { job: updated, previousStatus: stored.job.status },
+      };
+    });
+
+    if (!outcome) {
+      return null;
+    }
+
+    this.listeners.saved(outcome.job, outcome.previousStatus);
+
+    return outcome.job;
+  }
+
+  /**
+   * Watches the key sets of the jobs and every job in them, so the insert is retried
+   * when another process adds or changes a job with one of the keys
+   */
+  async insert(jobs: Job[], collapse: JobCollapse): Promise<JobInsertion[]> {
+    const uniqueKeys = new Set<string>();
+
+    jobs.forEach((job) => {
+      const uniqueKey = coalescingKey(job.config);
+
+      if (uniqueKey !== undefined) {
+        uniqueKeys.add(this.uniqueKey(job.type, uniqueKey));
+      }
+    });
+
+    const keys = [...uniqueKeys];
+
+    const outcome = await this.transactionClient.transaction(async (tx) => {
+      if (keys.length > 0) {
+        await tx.command('WATCH', ...keys);
+      }
+
+      const members = (await Promise.all(
+        keys.map((key) => tx.command('ZRANGE', key, 0, -1))
+      )) as string[][];
+      const candidateIds = members.flat();
+
+      if (candidateIds.length > 0) {
+        await tx.command('WATCH', ...candidateIds.map((id) => this.key('job', id)));
+      }
+
+      const stored = new Map(
+        (await this.loadMany(tx, candidateIds)).map((entry) => [entry.job.id, entry])
+      );
+      const plan = planInsert(
+        jobs,
+        (type, uniqueKey) =>
+          (members[keys.indexOf(this.uniqueKey(type, uniqueKey))] ?? [])
+            .filter((id) => stored.has(id))
+            .map((id) => stored.get(id)!.job),
+        collapse
+      );
+      const commands: RedisArgument[][] = [];
+      const saved: Array<{ job: Job; previousStatus?: JobStatus }> = [];
+
+      for (const job of plan.writes) {
+        const previous = stored.get(job.id);
+        const sequence =
+          previous?.sequence ?? ((await tx.command('INCR', this.key('sequence'))) as number);
+
+        commands.push(...this.write(job, sequence, previous));
+        saved.push({ job, previousStatus: previous?.job.status });
+      }
+
+      return { commands, result: { insertions: plan.insertions, saved } };
+    });
+
+    outcome.saved.forEach(({ job, previousStatus }) => this.listeners.saved(job, previousStatus));
+
+    return outcome.insertions;
+  }
+
+  async findById(jobId: string): Promise<Job | null> {
+    const data = (await this.client.command('GET', this.key('job', jobId))) as string | null;
+
+    return data ? JSON.parse(data) : null;
+  }
+
+  async findByIds(jobIds: string[]): Promise<Job[]> {
+    return this.findMany(jobIds);
+  }
+
+  async findAll(): Promise<Job[]> {
+    return this.findBySortedSet(this.key('ids'));
+  }
+
+  async findByStatus(status: JobStatus): Promise<Job[]> {
+    return this.findBySortedSet(this.key('status', status));
+  }
+
+  async findByUniqueKey(type: string, uniqueKey: string): Promise<Job[]> {
+    return this.findBySortedSet(this.uniqueKey(type, uniqueKey));
+  }
+
+  async findDependents(jobId: string): Promise<Job[]> {
+    return this.findBySortedSet(this.key('dependents', jobId));
+  }
+
+  /**
+   * Claims and returns the eligible PENDING job with the highest (aged) priority,
+   * oldest first on ties. Due delayed jobs and abandoned claims are moved back to
+   * the queue on the way. The job keeps its status; the claim lasts until it is
+   * saved or `claimTimeout` passes.
+   */
+  async getNextEligible(excludedTypes: string[] = []): Promise<Job | null> {
+    const delayedKey = this.key('delayed');
+    const claimedKey = this.key('claimed');
+    const readyTypesKey = this.key('ready-types');
+
+    return this.transactionClient.transaction(async (tx) => {
+      const now = Date.now();
+      await tx.command('WATCH', delayedKey, claimedKey, readyTypesKey);
+
+      const [dueIds, abandonedIds, readyTypes] = (await Promise.all([
+        tx.command('ZRANGEBYSCORE', delayedKey, '-inf', now, 'LIMIT', 0, PROMOTE_BATCH),
+        tx.command('ZRANGEBYSCORE', claimedKey, '-inf', now, 'LIMIT', 0, PROMOTE_BATCH),
+        tx.command('SMEMBERS', readyTypesKey),
+      ])) as string[][];
+      const [due, abandoned] = await Promise.all([
+        this.loadMany(tx, dueIds),
+        this.loadMany(tx, abandonedIds),
+      ]);
+      // An abandoned PENDING job was eligible when it was claimed, so it is due as well
+      const promoted = [...due, ...abandoned.filter(({ job }) => job.status === JobStatus.PENDING)]
+        .map(({ job, sequence }) => this.readyEntry(job, sequence));
+      const types = Array.from(
+        new Set([...readyTypes, ...promoted.map((entry) => entry.type)])
+      ).filter((type) => !excludedTypes.includes(type));
+
+      if (types.length > 0) {
+        await tx.command('WATCH', ...types.map((type) => this.key('ready', type)));
+      }
+
+      const heads = (await Promise.all(
+        types.map((type) => tx.command('ZRANGE', this.key('ready', type), 0, 0, 'WITHSCORES'))
+      )) as string[][];
+      const candidates: ReadyEntry[] = promoted.filter((entry) => types.includes(entry.type));
+
+      heads.forEach(([member, score], i) => {
+        if (member !== undefined) {
+          candidates.push({ type: types[i], score: Number(score), member });
+        }
+      });
+
+      const next = candidates.reduce<ReadyEntry | undefined>(
+        (best, entry) => (!best || RedisJobRepository.compare(entry, best) < 0 ? entry : best),
+        undefined
+      );
+      const nextId = next && RedisJobRepository.memberId(next.member);
+      const loaded = [...due, ...abandoned].find(({ job }) => job.id === nextId);
+      const nextJob =
+        nextId !== undefined ? loaded?.job ?? (await this.load(tx, nextId))?.job : undefined;
+
+      const commands: RedisArgument[][] = [];
+
+      if (dueIds.length > 0) {
+        commands.push(['ZREM', delayedKey, ...dueIds]);
+      }
+
+      if (abandonedIds.length > 0) {
+        commands.push(['ZREM', claimedKey, ...abandonedIds]);
+        abandoned
+          .filter(({ job }) => JobFactory.canExpire(job))
+          .forEach(({ job }) => {
+            commands.push(['ZADD', this.key('expiring'), job.config.expires_at!, job.id]);
+          });
+      }
+
+      promoted.forEach((entry) => {
+        commands.push(['ZADD', this.key('ready', entry.type), entry.score, entry.member]);
+        commands.push(['SADD', readyTypesKey, entry.type]);
+      });
+
+      if (next && nextJob) {
+        commands.push(['ZREM', this.key('ready', next.type), next.member]);
+        commands.push(['ZREM', this.key('expiring'), nextJob.id]);
+        commands.push(['ZADD', claimedKey, now + this.claimTimeout, nextJob.id]);
+      }
+
+      return { commands, result: nextJob ?? null };
+    });
+  }
+
+  async getNextEligibleAt(): Promise<number | undefined> {
+    const heads = (await Promise.all([
+      this.client.command('ZRANGE', this.key('delayed'), 0, 0, 'WITHSCORES'),
+      this.client.command('ZRANGE', this.key('claimed'), 0, 0, 'WITHSCORES'),
+    ])) as string[][];
+    const times = heads.filter((head) => head.length > 0).map(([, score]) => Number(score));
+
+    return times.length > 0 ? Math.min(...times) : undefined;
+  }
+
+  async getNextExpiresAt(): Promise<number | undefined> {
+    const [, score] = (await this.client.command(
+      'ZRANGE',
+      this.key('expiring'),
+      0,
+      0,
+      'WITHSCORES'
+    )) as string[];
+
+    return score !== undefined ? Number(score) : undefined;
+  }
+
+  /**
+   * Claims the expired jobs it returns, so no other caller expires or starts them
+   */
+  async takeExpiredJobs(now: number): Promise<Job[]> {
+    const expiringKey = this.key('expiring');
+
+    return this.transactionClient.transaction(async (tx) => {
+      await tx.command('WATCH', expiringKey);
+
+      const ids = (await tx.command('ZRANGEBYSCORE', expiringKey, '-inf', now)) as string[];
+      const expired = await this.loadMany(tx, ids);
+
+      if (ids.length === 0) {
+        return { commands: [], result: [] };
+      }
+
+      const commands: RedisArgument[][] = [['ZREM', expiringKey, ...ids]];
+
+      expired.forEach(({ job, sequence }) => {
+        commands.push(['ZREM', this.key('delayed'), job.id]);
+        commands.push(['ZREM', this.key('ready', job.type), this.readyEntry(job, sequence).member]);
+        commands.push(['ZADD', this.key('claimed'), now + this.claimTimeout, job.id]);
+      });
+
+      return { commands, result: expired.map(({ job }) => job) };
+    });
+  }
+
+  /**
+   * Leases the abandoned jobs it returns again, so no other caller takes them too
+   */
+  async takeAbandonedJobs(now: number): Promise<Job[]> {
+    const runningKey = this.key('running');
+
+    return this.transactionClient.transaction(async (tx) => {
+      await tx.command('WATCH', runningKey);
+
+      const ids = (await tx.command('ZRANGEBYSCORE', runningKey, '-inf', now)) as string[];
+      const abandoned = (await this.loadMany(tx, ids)).filter(
+        ({ job }) => job.status === JobStatus.RUNNING
+      );
+
+      if (ids.length === 0) {
+        return { commands: [], result: [] };
+      }
+
+      const commands: RedisArgument[][] = [['ZREM', runningKey, ...ids]];
+
+      abandoned.forEach(({ job }) => {
+        commands.push(['ZADD', runningKey, now + this.claimTimeout, job.id]);
+      });
+
+      return { commands, result: abandoned.map(({ job }) => job) };
+    });
+  }
+
+  async renewLeases(jobIds: string[]): Promise<Job[]> {
+    if (jobIds.length === 0) {
+      return [];
+    }
+
+    const until = Date.now() + this.claimTimeout;
+
+    // XX: a job saved in another status since has left the set, and stays out of it
+    await this.client.command(
+      'ZADD',
+      this.key('running'),
+      'XX',
+      ...jobIds.flatMap((jobId) => [until, jobId])
+    );
+
+    const data = (await this.client.command(
+      'MGET',
+      ...jobIds.map((jobId) => this.key('job', jobId))
+    )) as Array<string | null>;
+
+    return data
+      .filter((entry): entry is string => entry !== null)
+      .map((entry) => JSON.parse(entry) as Job)
+      .filter((job) => job.status === JobStatus.RUNNING && job.cancel_request !== undefined);
+  }
+
+  async getJobCounts(): Promise<Record<JobStatus, number>> {
+    const statuses = Object.values(JobStatus);
+    const sizes = (await Promise.all(
+      statuses.map((status) => this.client.command('ZCARD', this.key('status', status)))
+    )) as number[];
+    const counts = {} as Record<JobStatus, number>;
+
+    statuses.forEach((status, i) => {
+      counts[status] = sizes[i];
+    });
+
+    return counts;
+  }
+
+  async exists(jobId: string): Promise<boolean> {
+    return (await this.client.command('EXISTS', this.key('job', jobId))) === 1;
+  }
+
+  async count(): Promise<number> {
+    return (await this.client.command('ZCARD', this.key('ids'))) as number;
+  }
+
+  onJobPending(listener: () => void): () => void {
+    return this.listeners.onJobPending(listener);
+  }
+
+  onJobFinished(listener: (job: Job) => void): () => void {
+    return this.listeners.onJobFinished(listener);
+  }
+
+  async close(): Promise<void> {
+    await Promise.all([this.client.close(), this.transactionClient.close()]);
+  }
+
+  /**
+   * Deletes every key under the prefix
+   */
+  async clear(): Promise<void> {
+    let cursor = '0';
+
+    do {
+      const [nextCursor, keys] = (await this.client.command(
+        'SCAN',
+        cursor,
+        'MATCH',
+        `${this.keyPrefix}:*`,
+        'COUNT',
+        1000
+      )) as [string, string[]];
+
+      if (keys.length > 0) {
+        await this.client.command('DEL', ...keys);
+      }
+
+      cursor = nextCursor;
+    } while (cursor !== '0');
+  }
+
+  /**
+   * Commands storing a job over its previous version, if any
+   */
+  private write(job: Job, sequence: number, stored?: StoredJob): RedisArgument[][] {
+    const uniqueKey = coalescingKey(job.config);
+
+    return [
+      // Saving a job also releases any claim on it
+      ...(stored
+        ? this.unindex(stored.job, sequence)
+        : [
+            ['ZADD', this.key('ids'), sequence, job.id],
+            ...(uniqueKey !== undefined
+              ? [['ZADD', this.uniqueKey(job.type, uniqueKey), sequence, job.id]]
+              : []),
+            ...job.depends_on.map((dependency) => [
+              'ZADD',
+              this.key('dependents', dependency.job_id),
+              sequence,
+              job.id,
+            ]),
+          ]),
+      ['SET', this.key('job', job.id), JSON.stringify(job)],
+      ...this.index(job, sequence),
+    ];
+  }
+
+  /**
+   * Commands adding a stored job to the indexes of its current status
+   */
+  private index(job: Job, sequence: number): RedisArgument[][] {
+    const commands: RedisArgument[][] = [
+      ['ZADD', this.key('status', job.status), sequence, job.id],
+    ];
+    if (JobFactory.canExpire(job)) {
+      commands.push(['ZADD', this.key('expiring'), job.config.expires_at!, job.id]);
+    }
+
+    // Eligible jobs go straight to their ready set, so they compete by priority with
+    // the queued ones instead of waiting to be promoted behind older delayed jobs
+    if (job.status === JobStatus.PENDING && job.eligible_at > Date.now()) {
+      commands.push(['ZADD', this.key('delayed'), job.eligible_at, job.id]);
+    } else if (job.status === JobStatus.PENDING) {
+      const entry = this.readyEntry(job, sequence);
+      commands.push(['ZADD', this.key('ready', entry.type), entry.score, entry.member]);
+      commands.push(['SADD', this.key('ready-types'), entry.type]);
+    }
+
+    if (job.status === JobStatus.RUNNING) {
+      commands.push(['ZADD', this.key('running'), Date.now() + this.claimTimeout, job.id]);
+    }
+
+    return commands;
+  }
+
+  /**
+   * Commands removing a stored job from every index its status may have put it in
+   */
+  private unindex(job: Job, sequence: number): RedisArgument[][] {
+    return [
+      ['ZREM', this.key('status', job.status), job.id],
+      ['ZREM', this.key('delayed'), job.id],
+      ['ZREM', this.key('ready', job.type), this.readyEntry(job, sequence).member],
+      ['ZREM', this.key('claimed'), job.id],
+      ['ZREM', this.key('expiring'), job.id],
+      ['ZREM', this.key('running'), job.id],
+    ];
+  }
+
+  /**
+   * Same ordering as `JobQueue`: priority rank, then `created_at`, then insertion order
+   */
+  private readyEntry(job: Job, sequence: number): ReadyEntry {
+    return {
+      type: job.type,
+      score: -priorityRank(job.config.priority, job.eligible_at, this.priorityAgingInterval),
+      member: [
+        String(job.created_at).padStart(16, '0'),
+        String(sequence).padStart(16, '0'),
+        job.id,
+      ].join(':'),
+    };
+  }
+
+  private async load(client: RedisClient, jobId: string): Promise<StoredJob | undefined> {
+    const [data, sequence] = (await Promise.all([
+      client.command('GET', this.key('job', jobId)),
+      client.command('ZSCORE', this.key('ids'), jobId),
+    ])) as Array<string | null>;
+
+    return data !== null && sequence !== null
+      ? { job: JSON.parse(data), sequence: Number(sequence) }
+      : undefined;
+  }
+
+  private async loadMany(client: RedisClient, jobIds: string[]): Promise<StoredJob[]> {
+    const stored = await Promise.all(jobIds.map((jobId) => this.load(client, jobId)));
+
+    return stored.filter((entry): entry is StoredJob => entry !== undefined);
+  }
+
+  private async findBySortedSet(key: string): Promise<Job[]> {
+    return this.findMany((await this.client.command('ZRANGE', key, 0, -1)) as string[]);
+  }
+
+  private async findMany(ids: string[]): Promise<Job[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const data = (await this.client.command(
+      'MGET',
+      ...ids.map((id) => this.key('job', id))
+    )) as Array<string | null>;
+
+    return data.filter((entry): entry is string => entry !== null).map((entry) => JSON.parse(entry));
+  }
+
+  private key(...parts: string[]): string {
+    return [this.keyPrefix, ...parts].join(':');
+  }
+
+  private uniqueKey(type: string, uniqueKey: string): string {
+    return this.key('unique', JSON.stringify([type, uniqueKey]));
+  }
+
+  private static compare(a: ReadyEntry, b: ReadyEntry): number {
+    return a.score - b.score || (a.member < b.member ? -1 : a.member > b.member ? 1 : 0);
+  }
+
+  private static memberId(member: string): string {
+    return member.split(':').slice(2).join(':');
+  }
+}
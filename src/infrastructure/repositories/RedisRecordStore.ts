@@ -0,0 +1,160 @@
+import { RedisArgument, RedisClient } from '../redis/RedisClient';
+import {
+  RecordCollection,
+  RecordCollectionOptions,
+  RecordListOptions,
+  RecordStore,
+} from './RecordStore';
+
+export interface RedisRecordStoreOptions {
+  /** redis://[[username]:password@]host[:port][/database] */
+  url: string;
+  /**
+   * Prefix of every key, usually the one the jobs are stored under
+   * @default 'jobqueue'
+   */
+  keyPrefix?: string;
+}
+
+/**
+ * Record store in Redis. Keys, all under `keyPrefix`:
+ * - `record:<collection>:<id>`: the record as JSON
+ * - `records:<collection>`: sorted set of the collection's ids, all scored 0 so they
+ *   are ordered (and paged with ZRANGEBYLEX) by id
+ * - `expiring:<collection>`: ids of expiring records by expiry; the record keys
+ *   themselves expire then too (PEXPIREAT), and `deleteExpired` drops the ids
+ * Changes that read first run as WATCH/MULTI/EXEC transactions retried on conflict,
+ * so they are atomic for every instance sharing the server.
+ */
+export class RedisRecordStore implements RecordStore {
+  private readonly DEFAULT_KEY_PREFIX = 'jobqueue';
+  private readonly client: RedisClient;
+  /** WATCH state belongs to a connection, so transactions get their own */
+  private readonly transactionClient: RedisClient;
+  private readonly keyPrefix: string;
+
+  constructor(options: RedisRecordStoreOptions) {
+    this.keyPrefix = options.keyPrefix ?? this.DEFAULT_KEY_PREFIX;
+    this.client = new RedisClient(options.url);
+    this.transactionClient = new RedisClient(options.url);
+  }
+
+  collection<T>(name: string, { expiresAt }: RecordCollectionOptions<T> = {}): RecordCollection<T> {
+    const idsKey = this.key('records', name);
+    const expiringKey = this.key('expiring', name);
+    const recordKey = (id: string) => this.key('record', name, id);
+    // SET clears the expiry of a key, so every write sets it again
+    const write = (id: string, record: T): RedisArgument[][] => [
+      ['SET', recordKey(id), JSON.stringify(record)],
+      ['ZADD', idsKey, 0, id],
+      ...(expiresAt
+        ? [
+            ['PEXPIREAT', recordKey(id), expiresAt(record)],
+            ['ZADD', expiringKey, expiresAt(record), id],
+          ]
+        : []),
+    ];
+
+    return {
+      get: async (id) => {
+        const data = (await this.client.command('GET', recordKey(id))) as string | null;
+
+        return data !== null ? JSON.parse(data) : null;
+      },
+      list: (options) => this.list<T>(name, options),
+      put: async (id, record) => {
+        await this.client.exec(write(id, record));
+      },
+      putIfAbsent: (id, record) =>
+        this.transactionClient.transaction(async (tx) => {
+          await tx.command('WATCH', recordKey(id));
+
+          if (((await tx.command('EXISTS', recordKey(id))) as number) > 0) {
+            return { commands: [], result: false };
+          }
+
+          return { commands: write(id, record), result: true };
+        }),
+      update: (id, mutate) =>
+        this.transactionClient.transaction(async (tx) => {
+          await tx.command('WATCH', recordKey(id));
+
+          const data = (await tx.command('GET', recordKey(id))) as string | null;
+          const updated = data !== null ? mutate(JSON.parse(data)) : null;
+
+          return {
+            commands: updated !== null ? write(id, updated) : [],
+            result: updated,
+          };
+        }),
+      delete: async (id) => {
+        const [deleted] = (await this.client.exec([
+          ['DEL', recordKey(id)],
+          ['ZREM', idsKey, id],
+          ['ZREM', expiringKey, id],
+        ])) as number[];
+
+        return deleted > 0;
+      },
+      deleteExpired: (now) =>
+        this.transactionClient.transaction(async (tx) => {
+          await tx.command('WATCH', expiringKey);
+
+          const ids = (await tx.command('ZRANGEBYSCORE', expiringKey, '-inf', now)) as string[];
+
+          return {
+            commands:
+              ids.length > 0
+                ? [
+                    ['DEL', ...ids.map(recordKey)],
+                    ['ZREM', idsKey, ...ids],
+                    ['ZREM', expiringKey, ...ids],
+                  ]
+                : [],
+            result: ids.length,
+          };
+        }),
+      clear: () =>
+        this.transactionClient.transaction(async (tx) => {
+          await tx.command('WATCH', idsKey);
+
+          const ids = (await tx.command('ZRANGE', idsKey, 0, -1)) as string[];
+
+          return {
+            commands: ids.length > 0 ? [['DEL', idsKey, expiringKey, ...ids.map(recordKey)]] : [],
+            result: ids.length,
+          };
+        }),
+      count: async () => (await this.client.command('ZCARD', idsKey)) as number,
+    };
+  }
+
+  async close(): Promise<void> {
+    await Promise.all([this.client.close(), this.transactionClient.close()]);
+  }
+
+  private async list<T>(collection: string, options: RecordListOptions = {}): Promise<T[]> {
+    const ids = (await this.client.command(
+      'ZRANGEBYLEX',
+      this.key('records', collection),
+      options.after !== undefined ? `(${options.after}` : '-',
+      '+',
+      ...(options.limit !== undefined ? ['LIMIT', 0, options.limit] : [])
+    )) as string[];
+
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const data = (await this.client.command(
+      'MGET',
+      ...ids.map((id) => this.key('record', collection, id))
+    )) as Array<string | null>;
+
+    return data.filter((entry): entry is string => entry !== null).map((entry) => JSON.parse(entry));
+  }
+
+  private key(...parts: string[]): string {
+    return [this.keyPrefix, ...parts].join(':');
+  }
+}
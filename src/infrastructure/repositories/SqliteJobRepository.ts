@@ -0,0 +1,402 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { Job } from '../../domain/entities/Job';
+import { JobStatus } from '../../domain/value-objects/JobStatus';
+import { coalescingKey } from '../../domain/value-objects/UniqueKey';
+import { JobCollapse, JobInsertion, JobRepository } from '../../domain';
+import { JobEventListeners } from './JobEventListeners';
+import { planInsert } from './JobInsertPlan';
+import { getSchemaVersions, migrate } from './SqliteMigrations';
+
+export interface SqliteJobRepositoryOptions {
+  /** Database file (its directory is created if missing), or ':memory:' for a private in-memory database */
+  filename: string;
+  /**
+   * Milliseconds a job returned by `getNextEligible` stays claimed, and a RUNNING job
+   * stays leased between two renewals; if it is not saved or renewed by then (e.g. the
+   * process died), it can be claimed again, or is taken as abandoned
+   * @default 30000
+   */
+  claimTimeout?: number;
+  /**
+   * Milliseconds of waiting that raise a job's priority by one level
+   * @default undefined (no aging, strict priority order)
+   */
+  priorityAgingInterval?: number;
+}
+
+/**
+ * Job repository stored in a SQLite database, for single-node deployments that
+ * need durability and ad-hoc queries. Each job is one row: the columns that are
+ * filtered or sorted on, plus the whole job as JSON. Several processes may share
+ * the database file: `getNextEligible` claims the job it returns in a write
+ * transaction, so no two callers are handed the same job. A RUNNING job is leased
+ * to its processor until `claimed_until`, which the processor keeps renewing.
+ */
+export class SqliteJobRepository implements JobRepository {
+  private readonly DEFAULT_CLAIM_TIMEOUT = 30000;
+  private readonly db: Database.Database;
+  private readonly claimTimeout: number;
+  private readonly priorityAgingInterval?: number;
+  private readonly listeners: JobEventListeners = new JobEventListeners();
+
+  constructor(options: SqliteJobRepositoryOptions) {
+    this.claimTimeout = options.claimTimeout ?? this.DEFAULT_CLAIM_TIMEOUT;
+    this.priorityAgingInterval = options.priorityAgingInterval;
+
+    if (!Number.isInteger(this.claimTimeout) || this.claimTimeout <= 0) {
+      throw new Error('Claim timeout must be a positive integer (milliseconds)');
+    }
+
+    if (this.priorityAgingInterval !== undefined && !(this.priorityAgingInterval > 0)) {
+      throw new Error('Priority aging interval must be a positive number');
+    }
+
+    if (options.filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(options.filename), { recursive: true });
+    }
+
+    this.db = new Database(options.filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+
+    migrate(this.db);
+  }
+
+  async save(job: Job): Promise<Job> {
+    const previousStatus = this.db.transaction(() => this.write(job)).immediate();
+
+    this.listeners.saved(job, previousStatus);
+
+    return job;
+  }
+
+  async update(jobId: string, mutate: (job: Job) => Job | null): Promise<Job | null> {
+    const apply = this.db.transaction(() => {
+      const stored = this.findStored(jobId);
+      const updated = stored ? mutate(stored) : null;
+
+      return updated ? { job: updated, previousStatus: this.write(updated) } : null;
+    });
+    const outcome = apply.immediate();
+
+    if (!outcome) {
+      return null;
+    }
+
+    this.listeners.saved(outcome.job, outcome.previousStatus);
+
+    return outcome.job;
+  }
+
+  async insert(jobs: Job[], collapse: JobCollapse): Promise<JobInsertion[]> {
+    const apply = this.db.transaction(() => {
+      const plan = planInsert(
+        jobs,
+        (type, uniqueKey) => this.selectByUniqueKey(type, uniqueKey),
+        collapse
+      );
+
+      return {
+        insertions: plan.insertions,
+        saved: plan.writes.map((job) => ({ job, previousStatus: this.write(job) })),
+      };
+    });
+    // IMMEDIATE takes the write lock before reading, so two inserts never see the same jobs
+    const outcome = apply.immediate();
+
+    outcome.saved.forEach(({ job, previousStatus }) => this.listeners.saved(job, previousStatus));
+
+    return outcome.insertions;
+  }
+
+  async findById(jobId: string): Promise<Job | null> {
+    return this.findStored(jobId);
+  }
+
+  async findByIds(jobIds: string[]): Promise<Job[]> {
+    return this.selectJobs(
+      `SELECT jobs.data FROM json_each(?) AS ids
+       JOIN jobs ON jobs.id = ids.value
+       ORDER BY ids.key`,
+      JSON.stringify(jobIds)
+    );
+  }
+
+  async findAll(): Promise<Job[]> {
+    return this.selectJobs('SELECT data FROM jobs ORDER BY rowid');
+  }
+
+  async findByStatus(status: JobStatus): Promise<Job[]> {
+    return this.selectJobs('SELECT data FROM jobs WHERE status = ? ORDER BY rowid', status);
+  }
+
+  async findByUniqueKey(type: string, uniqueKey: string): Promise<Job[]> {
+    return this.selectByUniqueKey(type, uniqueKey);
+  }
+
+  async findDependents(jobId: string): Promise<Job[]> {
+    return this.selectJobs(
+      `SELECT jobs.data FROM job_dependencies
+       JOIN jobs ON jobs.id = job_dependencies.job_id
+       WHERE job_dependencies.dependency_id = ?
+       ORDER BY jobs.rowid`,
+      jobId
+    );
+  }
+
+  /**
+   * Claims and returns the eligible PENDING job with the highest (aged) priority,
+   * oldest first on ties. The job keeps its status; the claim lasts until it is
+   * saved or `claimTimeout` passes.
+   */
+  async getNextEligible(excludedTypes: string[] = []): Promise<Job | null> {
+    const claim = this.db.transaction((now: number) => {
+      const row = this.db
+        .prepare(
+          `SELECT id, data FROM jobs
+           WHERE status = @pending
+             AND eligible_at <= @now
+             AND (claimed_until IS NULL OR claimed_until <= @now)
+             AND type NOT IN (SELECT value FROM json_each(@excluded))
+           ORDER BY ${this.priorityAgingInterval ? 'priority - eligible_at * 1.0 / @aging' : 'priority'} DESC,
+             created_at ASC, rowid ASC
+           LIMIT 1`
+        )
+        .get({
+          pending: JobStatus.PENDING,
+          now,
+          excluded: JSON.stringify(excludedTypes),
+          // Same ordering as `priorityRank`
+          ...(this.priorityAgingInterval && { aging: this.priorityAgingInterval }),
+        }) as { id: string; data: string } | undefined;
+
+      if (!row) {
+        return null;
+      }
+
+      this.db
+        .prepare('UPDATE jobs SET claimed_until = ? WHERE id = ?')
+        .run(now + this.claimTimeout, row.id);
+
+      return JSON.parse(row.data) as Job;
+    });
+
+    // IMMEDIATE takes the write lock before reading, so concurrent claimers queue up
+    return claim.immediate(Date.now());
+  }
+
+  async getNextEligibleAt(): Promise<number | undefined> {
+    const row = this.db
+      .prepare(
+        `SELECT MIN(MAX(eligible_at, COALESCE(claimed_until, 0))) AS at FROM jobs
+         WHERE status = @pending AND MAX(eligible_at, COALESCE(claimed_until, 0)) > @now`
+      )
+      .get({ pending: JobStatus.PENDING, now: Date.now() }) as { at: number | null };
+
+    return row.at ?? undefined;
+  }
+
+  async getNextExpiresAt(): Promise<number | undefined> {
+    const row = this.db
+      .prepare(
+        `SELECT MIN(expires_at) AS at FROM jobs
+         WHERE status IN (@blocked, @pending)
+           AND expires_at IS NOT NULL
+           AND (claimed_until IS NULL OR claimed_until <= @now)`
+      )
+      .get({ blocked: JobStatus.BLOCKED, pending: JobStatus.PENDING, now: Date.now() }) as {
+      at: number | null;
+    };
+
+    return row.at ?? undefined;
+  }
+
+  /**
+   * Claims the expired jobs it returns, so no other caller expires or starts them
+   */
+  async takeExpiredJobs(now: number): Promise<Job[]> {
+    const take = this.db.transaction(() => {
+      const rows = this.db
+        .prepare(
+          `SELECT id, data FROM jobs
+           WHERE status IN (@blocked, @pending)
+             AND expires_at <= @now
+             AND (claimed_until IS NULL OR claimed_until <= @now)
+           ORDER BY expires_at`
+        )
+        .all({ blocked: JobStatus.BLOCKED, pending: JobStatus.PENDING, now }) as Array<{
+        id: string;
+        data: string;
+      }>;
+      const claim = this.db.prepare('UPDATE jobs SET claimed_until = ? WHERE id = ?');
+
+      rows.forEach((row) => claim.run(now + this.claimTimeout, row.id));
+
+      return rows.map((row) => JSON.parse(row.data) as Job);
+    });
+
+    return take.immediate();
+  }
+
+  /**
+   * Claims the RUNNING jobs whose lease ran out (or that were saved RUNNING before
+   * leases existed), so no other caller takes them too
+   */
+  async takeAbandonedJobs(now: number): Promise<Job[]> {
+    const take = this.db.transaction(() => {
+      const rows = this.db
+        .prepare(
+          `SELECT id, data FROM jobs
+           WHERE status = @running AND (claimed_until IS NULL OR claimed_until <= @now)
+           ORDER BY claimed_until`
+        )
+        .all({ running: JobStatus.RUNNING, now }) as Array<{ id: string; data: string }>;
+      const claim = this.db.prepare('UPDATE jobs SET claimed_until = ? WHERE id = ?');
+
+      rows.forEach((row) => claim.run(now + this.claimTimeout, row.id));
+
+      return rows.map((row) => JSON.parse(row.data) as Job);
+    });
+
+    return take.immediate();
+  }
+
+  async renewLeases(jobIds: string[]): Promise<Job[]> {
+    const params = { running: JobStatus.RUNNING, ids: JSON.stringify(jobIds) };
+
+    this.db
+      .prepare(
+        `UPDATE jobs SET claimed_until = @until
+         WHERE status = @running AND id IN (SELECT value FROM json_each(@ids))`
+      )
+      .run({ ...params, until: Date.now() + this.claimTimeout });
+
+    return this.selectJobs(
+      `SELECT data FROM jobs
+       WHERE status = @running AND id IN (SELECT value FROM json_each(@ids))
+         AND json_extract(data, '$.cancel_request') IS NOT NULL`,
+      params
+    );
+  }
+
+  async getJobCounts(): Promise<Record<JobStatus, number>> {
+    const counts = {} as Record<JobStatus, number>;
+
+    for (const status of Object.values(JobStatus)) {
+      counts[status] = 0;
+    }
+
+    const rows = this.db
+      .prepare('SELECT status, COUNT(*) AS count FROM jobs GROUP BY status')
+      .all() as Array<{ status: JobStatus; count: number }>;
+
+    rows.forEach((row) => {
+      counts[row.status] = row.count;
+    });
+
+    return counts;
+  }
+
+  async exists(jobId: string): Promise<boolean> {
+    return this.db.prepare('SELECT 1 FROM jobs WHERE id = ?').get(jobId) !== undefined;
+  }
+
+  async count(): Promise<number> {
+    return (this.db.prepare('SELECT COUNT(*) AS count FROM jobs').get() as { count: number }).count;
+  }
+
+  onJobPending(listener: () => void): () => void {
+    return this.listeners.onJobPending(listener);
+  }
+
+  onJobFinished(listener: (job: Job) => void): () => void {
+    return this.listeners.onJobFinished(listener);
+  }
+
+  /**
+   * Versions of the applied migrations, oldest first
+   */
+  getSchemaVersions(): number[] {
+    return getSchemaVersions(this.db);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  clear(): void {
+    this.db.prepare('DELETE FROM job_dependencies').run();
+    this.db.prepare('DELETE FROM jobs').run();
+  }
+
+  /**
+   * Upserts a job; must run inside a transaction
+   * @returns The status the job had before, if it existed
+   */
+  private write(job: Job): JobStatus | undefined {
+    const previous = this.db.prepare('SELECT status FROM jobs WHERE id = ?').get(job.id) as
+      | { status: JobStatus }
+      | undefined;
+
+    // Saving a job releases any claim on it; a RUNNING job is leased instead
+    this.db
+      .prepare(
+        `INSERT INTO jobs (id, type, status, priority, created_at, eligible_at, expires_at, unique_key, claimed_until, data)
+         VALUES (@id, @type, @status, @priority, @created_at, @eligible_at, @expires_at, @unique_key, @claimed_until, @data)
+         ON CONFLICT (id) DO UPDATE SET
+           status = excluded.status,
+           priority = excluded.priority,
+           eligible_at = excluded.eligible_at,
+           expires_at = excluded.expires_at,
+           claimed_until = excluded.claimed_until,
+           data = excluded.data`
+      )
+      .run({
+        id: job.id,
+        type: job.type,
+        status: job.status,
+        priority: job.config.priority,
+        created_at: job.created_at,
+        eligible_at: job.eligible_at,
+        // Only deadlines that still apply, so expiry queries need no other check
+        expires_at: job.attempts === 0 ? job.config.expires_at ?? null : null,
+        unique_key: coalescingKey(job.config) ?? null,
+        claimed_until: job.status === JobStatus.RUNNING ? Date.now() + this.claimTimeout : null,
+        data: JSON.stringify(job),
+      });
+
+    // `depends_on` is fixed when a job is created
+    if (!previous) {
+      const edge = this.db.prepare(
+        'INSERT OR IGNORE INTO job_dependencies (dependency_id, job_id) VALUES (?, ?)'
+      );
+      job.depends_on.forEach((dependency) => edge.run(dependency.job_id, job.id));
+    }
+
+    return previous?.status;
+  }
+
+  private findStored(jobId: string): Job | null {
+    const row = this.db.prepare('SELECT data FROM jobs WHERE id = ?').get(jobId) as
+      | { data: string }
+      | undefined;
+
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  private selectByUniqueKey(type: string, uniqueKey: string): Job[] {
+    return this.selectJobs(
+      'SELECT data FROM jobs WHERE type = ? AND unique_key = ? ORDER BY rowid',
+      type,
+      uniqueKey
+    );
+  }
+
+  private selectJobs(sql: string, ...params: unknown[]): Job[] {
+    return (this.db.prepare(sql).all(...params) as Array<{ data: string }>).map((row) =>
+      JSON.parse(row.data)
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import Database from 'better-sqlite3';
+
+interface Migration {
+  version: number;
+  description: string;
+  sql: string;
+}
+
+/**
+ * Applied in order, each in its own transaction; never edit one that has shipped,
+ * add a new version instead
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create jobs, job_dependencies and records tables',
+    sql: `
+      CREATE TABLE jobs (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        status TEXT NOT NULL,
+        priority INTEGER NOT NULL,
+        created_at INTEGER NOT NULL,
+        eligible_at INTEGER NOT NULL,
+        expires_at INTEGER,
+        unique_key TEXT,
+        claimed_until INTEGER,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_jobs_status_eligible_at ON jobs (status, eligible_at);
+      CREATE INDEX idx_jobs_type_status ON jobs (type, status);
+      CREATE INDEX idx_jobs_unique_key ON jobs (type, unique_key) WHERE unique_key IS NOT NULL;
+      CREATE INDEX idx_jobs_status_expires_at ON jobs (status, expires_at) WHERE expires_at IS NOT NULL;
+
+      CREATE TABLE job_dependencies (
+        dependency_id TEXT NOT NULL,
+        job_id TEXT NOT NULL,
+        PRIMARY KEY (dependency_id, job_id)
+      );
+
+      CREATE TABLE records (
+        collection TEXT NOT NULL,
+        id TEXT NOT NULL,
+        expires_at INTEGER,
+        data TEXT NOT NULL,
+        PRIMARY KEY (collection, id)
+      ) WITHOUT ROWID;
+      CREATE INDEX idx_records_expires_at ON records (collection, expires_at)
+        WHERE expires_at IS NOT NULL;
+    `,
+  },
+];
+
+/**
+ * Versions of the applied migrations, oldest first
+ */
+export function getSchemaVersions(db: Database.Database): number[] {
+  return (
+    db.prepare('SELECT version FROM schema_migrations ORDER BY version').all() as Array<{
+      version: number;
+    }>
+  ).map((row) => row.version);
+}
+
+/**
+ * Applies the missing migrations. Every connection runs this when it opens, so each
+ * migration checks again inside its transaction that no other connection applied it.
+ */
+export function migrate(db: Database.Database): void {
+  db.exec(
+    `CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      description TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
+    )`
+  );
+
+  const applied = new Set(getSchemaVersions(db));
+
+  for (const migration of MIGRATIONS) {
+    if (applied.has(migration.version)) {
+      continue;
+    }
+
+    db.transaction(() => {
+      if (db.prepare('SELECT 1 FROM schema_migrations WHERE version = ?').get(migration.version)) {
+        return;
+      }
+
+      db.exec(migration.sql);
+      db.prepare(
+        'INSERT INTO schema_migrations (version, description, applied_at) VALUES (?, ?, ?)'
+      ).run(migration.version, migration.description, Date.now());
+    }).immediate();
+  }
+}
@@ -0,0 +1,123 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import {
+  RecordCollection,
+  RecordCollectionOptions,
+  RecordListOptions,
+  RecordStore,
+} from './RecordStore';
+import { migrate } from './SqliteMigrations';
+
+export interface SqliteRecordStoreOptions {
+  /** Database file (its directory is created if missing), or ':memory:' for a private in-memory database */
+  filename: string;
+}
+
+/**
+ * Record store in the `records` table of a SQLite database, usually the one the jobs
+ * are stored in; each record is one row holding its JSON, and its expiry in an indexed
+ * column. Read-modify-write changes run in immediate transactions, so they are atomic
+ * for every process sharing the file.
+ */
+export class SqliteRecordStore implements RecordStore {
+  private readonly db: Database.Database;
+
+  constructor(options: SqliteRecordStoreOptions) {
+    if (options.filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(options.filename), { recursive: true });
+    }
+
+    this.db = new Database(options.filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+
+    migrate(this.db);
+  }
+
+  collection<T>(name: string, { expiresAt }: RecordCollectionOptions<T> = {}): RecordCollection<T> {
+    const expiry = (record: T) => expiresAt?.(record) ?? null;
+
+    return {
+      get: async (id) => this.get<T>(name, id),
+      list: async (options) => this.list<T>(name, options),
+      put: async (id, record) => this.write(name, id, record, expiry(record)),
+      putIfAbsent: async (id, record) =>
+        this.db
+          .prepare(
+            'INSERT OR IGNORE INTO records (collection, id, expires_at, data) VALUES (?, ?, ?, ?)'
+          )
+          .run(name, id, expiry(record), JSON.stringify(record)).changes > 0,
+      update: async (id, mutate) => {
+        const apply = this.db.transaction(() => {
+          const stored = this.get<T>(name, id);
+          const updated = stored !== null ? mutate(stored) : null;
+
+          if (updated !== null) {
+            this.write(name, id, updated, expiry(updated));
+          }
+
+          return updated;
+        });
+
+        return apply.immediate();
+      },
+      delete: async (id) =>
+        this.db.prepare('DELETE FROM records WHERE collection = ? AND id = ?').run(name, id)
+          .changes > 0,
+      deleteExpired: async (now) =>
+        this.db
+          .prepare('DELETE FROM records WHERE collection = ? AND expires_at <= ?')
+          .run(name, now).changes,
+      clear: async () =>
+        this.db.prepare('DELETE FROM records WHERE collection = ?').run(name).changes,
+      count: async () =>
+        (
+          this.db
+            .prepare('SELECT COUNT(*) AS count FROM records WHERE collection = ?')
+            .get(name) as { count: number }
+        ).count,
+    };
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+
+  private get<T>(collection: string, id: string): T | null {
+    const row = this.db
+      .prepare('SELECT data FROM records WHERE collection = ? AND id = ?')
+      .get(collection, id) as { data: string } | undefined;
+
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  private list<T>(collection: string, options: RecordListOptions = {}): T[] {
+    // Text compares as bytes (BINARY collation), and a negative LIMIT means none
+    const rows = this.db
+      .prepare(
+        `SELECT data FROM records
+         WHERE collection = @collection AND (@after IS NULL OR id > @after)
+         ORDER BY id
+         LIMIT @limit`
+      )
+      .all({
+        collection,
+        after: options.after ?? null,
+        limit: options.limit ?? -1,
+      }) as Array<{ data: string }>;
+
+    return rows.map((row) => JSON.parse(row.data));
+  }
+
+  private write(collection: string, id: string, record: unknown, expiresAt: number | null): void {
+    this.db
+      .prepare(
+        `INSERT INTO records (collection, id, expires_at, data) VALUES (?, ?, ?, ?)
+         ON CONFLICT (collection, id) DO UPDATE SET
+           expires_at = excluded.expires_at,
+           data = excluded.data`
+      )
+      .run(collection, id, expiresAt, JSON.stringify(record));
+  }
+}
@@ -0,0 +1,39 @@
+import { Batch } from '../../domain/entities/Batch';
+import { BatchRepository } from '../../domain';
+import { RecordCollection, RecordStore } from './RecordStore';
+
+/**
+ * Batches kept in the record store of the job storage
+ */
+export class StoredBatchRepository implements BatchRepository {
+  private readonly batches: RecordCollection<Batch>;
+
+  constructor(store: RecordStore) {
+    this.batches = store.collection('batches');
+  }
+
+  async save(batch: Batch): Promise<Batch> {
+    await this.batches.put(batch.id, batch);
+    return batch;
+  }
+
+  async update(id: string, mutate: (batch: Batch) => Batch | null): Promise<Batch | null> {
+    return this.batches.update(id, mutate);
+  }
+
+  async findById(id: string): Promise<Batch | null> {
+    return this.batches.get(id);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.batches.delete(id);
+  }
+
+  async findAll(): Promise<Batch[]> {
+    return (await this.batches.list()).sort((a, b) => a.created_at - b.created_at);
+  }
+
+  async count(): Promise<number> {
+    return this.batches.count();
+  }
+}
@@ -0,0 +1,31 @@
+import { Chain } from '../../domain/entities/Chain';
+import { ChainRepository } from '../../domain';
+import { RecordCollection, RecordStore } from './RecordStore';
+
+/**
+ * Chains kept in the record store of the job storage
+ */
+export class StoredChainRepository implements ChainRepository {
+  private readonly chains: RecordCollection<Chain>;
+
+  constructor(store: RecordStore) {
+    this.chains = store.collection('chains');
+  }
+
+  async save(chain: Chain): Promise<Chain> {
+    await this.chains.put(chain.id, chain);
+    return chain;
+  }
+
+  async findById(id: string): Promise<Chain | null> {
+    return this.chains.get(id);
+  }
+
+  async findAll(): Promise<Chain[]> {
+    return (await this.chains.list()).sort((a, b) => a.created_at - b.created_at);
+  }
+
+  async count(): Promise<number> {
+    return this.chains.count();
+  }
+}
@@ -0,0 +1,47 @@
+import { DeadLetter, DeadLetterFilter } from '../../domain/entities/DeadLetter';
+import { DeadLetterFactory } from '../../domain/factories/DeadLetterFactory';
+import { DeadLetterRepository } from '../../domain';
+import { RecordCollection, RecordStore } from './RecordStore';
+
+/**
+ * Dead-letter queue kept in the record store of the job storage
+ */
+export class StoredDeadLetterRepository implements DeadLetterRepository {
+  private readonly deadLetters: RecordCollection<DeadLetter>;
+
+  constructor(store: RecordStore) {
+    this.deadLetters = store.collection('dead-letters');
+  }
+
+  async save(deadLetter: DeadLetter): Promise<DeadLetter> {
+    await this.deadLetters.put(deadLetter.id, deadLetter);
+    return deadLetter;
+  }
+
+  async findById(id: string): Promise<DeadLetter | null> {
+    return this.deadLetters.get(id);
+  }
+
+  async findAll(filter?: DeadLetterFilter): Promise<DeadLetter[]> {
+    return (await this.deadLetters.list())
+      .filter((deadLetter) => DeadLetterFactory.matches(deadLetter, filter))
+      .sort((a, b) => a.dead_lettered_at - b.dead_lettered_at);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.deadLetters.delete(id);
+  }
+
+  async purge(filter?: DeadLetterFilter): Promise<number> {
+    const deleted = await Promise.all(
+      (await this.findAll(filter)).map((deadLetter) => this.deadLetters.delete(deadLetter.id))
+    );
+
+    // Entries purged meanwhile by another instance are not counted twice
+    return deleted.filter(Boolean).length;
+  }
+
+  async count(): Promise<number> {
+    return this.deadLetters.count();
+  }
+}
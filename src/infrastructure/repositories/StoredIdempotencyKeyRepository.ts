@@ -0,0 +1,46 @@
+import { IdempotencyKey } from '../../domain/entities/IdempotencyKey';
+import { IdempotencyKeyRepository } from '../../domain';
+import { RecordCollection, RecordStore } from './RecordStore';
+
+/**
+ * Idempotency keys kept in the record store of the job storage, so a retry sent to
+ * another instance, or after a restart, is still recognized
+ */
+export class StoredIdempotencyKeyRepository implements IdempotencyKeyRepository {
+  private readonly records: RecordCollection<IdempotencyKey>;
+
+  constructor(store: RecordStore) {
+    this.records = store.collection('idempotency-keys', {
+      expiresAt: (record) => record.expires_at,
+    });
+  }
+
+  async create(record: IdempotencyKey): Promise<boolean> {
+    if (await this.records.putIfAbsent(record.key, record)) {
+      return true;
+    }
+
+    const replaced = await this.records.update(record.key, (existing) =>
+      existing.expires_at <= record.created_at ? record : null
+    );
+
+    return replaced !== null;
+  }
+
+  async save(record: IdempotencyKey): Promise<IdempotencyKey> {
+    await this.records.put(record.key, record);
+    return record;
+  }
+
+  async findByKey(key: string): Promise<IdempotencyKey | null> {
+    return this.records.get(key);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.records.delete(key);
+  }
+
+  async deleteExpired(now: number): Promise<number> {
+    return this.records.deleteExpired(now);
+  }
+}
@@ -0,0 +1,46 @@
+import { JobLogEntry, JobLogUsage, jobLogEntrySize } from '../../domain/entities/JobLog';
+import { JobLogRepository } from '../../domain';
+import { RecordCollection, RecordStore } from './RecordStore';
+
+/** Sequences are zero-padded in ids, so ids sort like the sequences they hold */
+const SEQUENCE_DIGITS = 10;
+
+/**
+ * Job logs kept in the record store of the job storage, one collection per job
+ * holding its lines by sequence
+ */
+export class StoredJobLogRepository implements JobLogRepository {
+  constructor(private readonly store: RecordStore) {}
+
+  async append(entry: JobLogEntry): Promise<JobLogEntry> {
+    await this.lines(entry.job_id).put(StoredJobLogRepository.lineId(entry.sequence), entry);
+    return entry;
+  }
+
+  async findByJobId(
+    jobId: string,
+    options: { after?: number; limit: number }
+  ): Promise<JobLogEntry[]> {
+    return this.lines(jobId).list({
+      after: StoredJobLogRepository.lineId(options.after ?? 0),
+      limit: options.limit,
+    });
+  }
+
+  async getUsage(jobId: string): Promise<JobLogUsage> {
+    const entries = await this.lines(jobId).list();
+
+    return {
+      last_sequence: entries[entries.length - 1]?.sequence ?? 0,
+      bytes: entries.reduce((bytes, entry) => bytes + jobLogEntrySize(entry), 0),
+    };
+  }
+
+  private lines(jobId: string): RecordCollection<JobLogEntry> {
+    return this.store.collection<JobLogEntry>(`job-logs:${jobId}`);
+  }
+
+  private static lineId(sequence: number): string {
+    return String(sequence).padStart(SEQUENCE_DIGITS, '0');
+  }
+}
@@ -0,0 +1,44 @@
+import { Schedule, ScheduleFilter } from '../../domain/entities/Schedule';
+import { ScheduleRepository } from '../../domain';
+import { RecordCollection, RecordStore } from './RecordStore';
+
+/**
+ * Schedules kept in the record store of the job storage
+ */
+export class StoredScheduleRepository implements ScheduleRepository {
+  private readonly schedules: RecordCollection<Schedule>;
+
+  constructor(store: RecordStore) {
+    this.schedules = store.collection('schedules');
+  }
+
+  async save(schedule: Schedule): Promise<Schedule> {
+    await this.schedules.put(schedule.id, schedule);
+    return schedule;
+  }
+
+  async update(
+    id: string,
+    mutate: (schedule: Schedule) => Schedule | null
+  ): Promise<Schedule | null> {
+    return this.schedules.update(id, mutate);
+  }
+
+  async findById(id: string): Promise<Schedule | null> {
+    return this.schedules.get(id);
+  }
+
+  async findAll(filter?: ScheduleFilter): Promise<Schedule[]> {
+    return (await this.schedules.list())
+      .filter((schedule) => !filter?.status || schedule.status === filter.status)
+      .sort((a, b) => a.created_at - b.created_at);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.schedules.delete(id);
+  }
+
+  async count(): Promise<number> {
+    return this.schedules.count();
+  }
+}
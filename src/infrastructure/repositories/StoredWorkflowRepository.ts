@@ -0,0 +1,31 @@
+import { Workflow } from '../../domain/entities/Workflow';
+import { WorkflowRepository } from '../../domain';
+import { RecordCollection, RecordStore } from './RecordStore';
+
+/**
+ * Workflows kept in the record store of the job storage
+ */
+export class StoredWorkflowRepository implements WorkflowRepository {
+  private readonly workflows: RecordCollection<Workflow>;
+
+  constructor(store: RecordStore) {
+    this.workflows = store.collection('workflows');
+  }
+
+  async save(workflow: Workflow): Promise<Workflow> {
+    await this.workflows.put(workflow.id, workflow);
+    return workflow;
+  }
+
+  async findById(id: string): Promise<Workflow | null> {
+    return this.workflows.get(id);
+  }
+
+  async findAll(): Promise<Workflow[]> {
+    return (await this.workflows.list()).sort((a, b) => a.created_at - b.created_at);
+  }
+
+  async count(): Promise<number> {
+    return this.workflows.count();
+  }
+}
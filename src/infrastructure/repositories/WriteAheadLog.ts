@@ -0,0 +1,213 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import { promisify } from 'util';
+
+/** Record header: payload length and checksum, both UInt32BE */
+const HEADER_SIZE = 8;
+
+const write = promisify(fs.write);
+const fdatasync = promisify(fs.fdatasync);
+const close = promisify(fs.close);
+
+export interface WriteAheadLogOptions {
+  /**
+   * Flush appended records to disk before their `append` resolves
+   * @default true
+   */
+  fsync?: boolean;
+}
+
+export interface WriteAheadLogReplay<T> {
+  records: T[];
+  /** Bytes of a torn or corrupt tail that were cut off */
+  discardedBytes: number;
+}
+
+interface PendingRecord {
+  frame: Buffer;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Append-only file of JSON records, each framed by its length and a checksum, so
+ * a record torn by a crash is detected and dropped on the next `open`.
+ *
+ * Appends are group-committed: records appended while a write is in progress are
+ * queued and written (and flushed) together by the next one, so concurrent appends
+ * share a single fsync.
+ */
+export class WriteAheadLog<T> {
+  private fd?: number;
+  private readonly fsync: boolean;
+  private recordCount: number = 0;
+  private queued: PendingRecord[] = [];
+  private flushing?: Promise<void>;
+  private failure?: Error;
+
+  constructor(
+    private readonly path: string,
+    options: WriteAheadLogOptions = {}
+  ) {
+    this.fsync = options.fsync ?? true;
+  }
+
+  /** Records appended since the log was opened */
+  get size(): number {
+    return this.recordCount;
+  }
+
+  /**
+   * Reads every intact record of a log file without opening it for appending
+   */
+  static read<T>(path: string): WriteAheadLogReplay<T> {
+    const { records, discardedBytes } = WriteAheadLog.parse<T>(path);
+    return { records, discardedBytes };
+  }
+
+  /**
+   * Reads every intact record and cuts the file after the last one, so new
+   * records never follow a torn one
+   */
+  open(): WriteAheadLogReplay<T> {
+    const { records, discardedBytes, intactBytes } = WriteAheadLog.parse<T>(this.path);
+
+    this.fd = fs.openSync(this.path, 'a');
+
+    if (discardedBytes > 0) {
+      fs.ftruncateSync(this.fd, intactBytes);
+      fs.fsyncSync(this.fd);
+    }
+
+    this.recordCount = records.length;
+
+    return { records, discardedBytes };
+  }
+
+  /**
+   * Queues a record for the next group write
+   * @returns Promise resolved once the record is written (and flushed, with `fsync`)
+   */
+  append(record: T): Promise<void> {
+    this.getFd();
+
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+
+    const payload = Buffer.from(JSON.stringify(record), 'utf8');
+    const header = Buffer.alloc(HEADER_SIZE);
+    header.writeUInt32BE(payload.length, 0);
+    header.writeUInt32BE(WriteAheadLog.checksum(payload), 4);
+
+    this.recordCount++;
+
+    return new Promise((resolve, reject) => {
+      this.queued.push({ frame: Buffer.concat([header, payload]), resolve, reject });
+      this.flushing ??= this.flush();
+    });
+  }
+
+  /**
+   * Waits for every record appended so far to be written
+   */
+  async drain(): Promise<void> {
+    await this.flushing;
+  }
+
+  /**
+   * Closes the file once every appended record is written
+   */
+  async close(): Promise<void> {
+    while (this.flushing) {
+      await this.flushing;
+    }
+
+    if (this.fd !== undefined) {
+      const fd = this.fd;
+      this.fd = undefined;
+      await close(fd);
+    }
+  }
+
+  /**
+   * Writes the queued records in groups until none is left. After a failed write the
+   * file may end with a partial group, so every later append is refused: a record
+   * written after a torn one would be dropped on the next `open`.
+   */
+  private async flush(): Promise<void> {
+    while (this.queued.length > 0) {
+      const group = this.queued;
+      this.queued = [];
+
+      try {
+        if (this.failure) {
+          throw this.failure;
+        }
+
+        const data = Buffer.concat(group.map((record) => record.frame));
+        let offset = 0;
+
+        while (offset < data.length) {
+          const { bytesWritten } = await write(this.getFd(), data, offset, data.length - offset);
+          offset += bytesWritten;
+        }
+
+        if (this.fsync) {
+          await fdatasync(this.getFd());
+        }
+
+        group.forEach((record) => record.resolve());
+      } catch (error) {
+        this.failure ??= error as Error;
+        group.forEach((record) => record.reject(error as Error));
+      }
+    }
+
+    this.flushing = undefined;
+  }
+
+  private getFd(): number {
+    if (this.fd === undefined) {
+      throw new Error(`Write-ahead log ${this.path} is not open`);
+    }
+
+    return this.fd;
+  }
+
+  private static parse<T>(path: string): WriteAheadLogReplay<T> & { intactBytes: number } {
+    const data = fs.existsSync(path) ? fs.readFileSync(path) : Buffer.alloc(0);
+    const records: T[] = [];
+    let offset = 0;
+
+    while (offset + HEADER_SIZE <= data.length) {
+      const length = data.readUInt32BE(offset);
+      const checksum = data.readUInt32BE(offset + 4);
+      const end = offset + HEADER_SIZE + length;
+
+      if (end > data.length) {
+        break;
+      }
+
+      const payload = data.subarray(offset + HEADER_SIZE, end);
+
+      if (WriteAheadLog.checksum(payload) !== checksum) {
+        break;
+      }
+
+      try {
+        records.push(JSON.parse(payload.toString('utf8')));
+      } catch {
+        break;
+      }
+
+      offset = end;
+    }
+
+    return { records, discardedBytes: data.length - offset, intactBytes: offset };
+  }
+
+  private static checksum(payload: Buffer): number {
+    return createHash('sha256').update(payload).digest().readUInt32BE(0);
+  }
+}
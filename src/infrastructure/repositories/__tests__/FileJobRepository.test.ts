@@ -0,0 +1,287 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createSuccessResult, Job, JobFactory, JobStatus } from '../../../domain';
+import { JobWorker } from '../../../application/services/JobWorker';
+import { FileJobRepository } from '../FileJobRepository';
+
+jest.mock('uuid', () => {
+  let counter = 0;
+  return {
+    v4: jest.fn(() => `test-uuid-${String(counter++ % 10000).padStart(4, '0')}`),
+  };
+});
+
+describe('FileJobRepository', () => {
+  let directory: string;
+  let repositories: FileJobRepository[];
+
+  const walPath = (segment = 1) => path.join(directory, `jobs.${segment}.wal`);
+
+  // Instances are only closed after each test, so a reopen behaves like a restart after a crash
+  const open = (options: { snapshotEvery?: number; fsync?: boolean } = {}) => {
+    const repository = new FileJobRepository({ directory, fsync: false, ...options });
+    repositories.push(repository);
+    return repository;
+  };
+
+  const createJob = (n: number, config = {}) =>
+    JobFactory.createJob({ type: 'email', payload: { n }, config });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'job-store-'));
+    repositories = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(repositories.map((repository) => repository.close()));
+    fs.rmSync(directory, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('should recover saved jobs after a restart', async () => {
+    const repository = open();
+    const job = createJob(1);
+    await repository.save(job);
+    const completed = JobFactory.completeJob(JobFactory.startJob(job), createSuccessResult('Sent'));
+    await repository.save(completed);
+    await repository.save(createJob(2));
+
+    const recovered = open();
+
+    expect(await recovered.count()).toBe(2);
+    expect(await recovered.findById(job.id)).toEqual(completed);
+    expect((await recovered.getNextEligible())?.payload).toEqual({ n: 2 });
+  });
+
+  it('should apply a save only once its record is written', async () => {
+    const repository = open();
+    const job = createJob(1);
+
+    const saving = repository.save(job);
+
+    expect(await repository.findById(job.id)).toBeNull();
+
+    await saving;
+
+    expect(await repository.findById(job.id)).toEqual(job);
+    expect(await open().findById(job.id)).toEqual(job);
+  });
+
+  it('should write concurrent saves together and apply them in order', async () => {
+    const repository = open({ fsync: true });
+    const jobs = Array.from({ length: 20 }, (_, n) => createJob(n));
+    const cancelled = JobFactory.cancelJob(jobs[0]);
+
+    await Promise.all([...jobs.map((job) => repository.save(job)), repository.save(cancelled)]);
+
+    expect(await repository.findById(jobs[0].id)).toEqual(cancelled);
+
+    const recovered = open();
+
+    expect(await recovered.count()).toBe(jobs.length);
+    expect(await recovered.findById(jobs[0].id)).toEqual(cancelled);
+  });
+
+  it('should compact the log into a snapshot', async () => {
+    const repository = open({ snapshotEvery: 3 });
+
+    for (let n = 1; n <= 4; n++) {
+      await repository.save(createJob(n));
+    }
+    await repository.close();
+
+    expect(fs.existsSync(path.join(directory, 'jobs.snapshot.json'))).toBe(true);
+    expect(fs.existsSync(walPath(1))).toBe(false);
+    expect(fs.statSync(walPath(2)).size).toBeGreaterThan(0);
+    expect(await open().count()).toBe(4);
+  });
+
+  it('should keep saving while a snapshot is written', async () => {
+    const repository = open();
+    const job = createJob(1);
+    await repository.save(job);
+
+    const compaction = repository.compact();
+    const cancelled = JobFactory.cancelJob(job);
+    await Promise.all([repository.save(cancelled), repository.save(createJob(2))]);
+    await compaction;
+
+    const recovered = open();
+
+    expect(await recovered.count()).toBe(2);
+    expect(await recovered.findById(job.id)).toEqual(cancelled);
+  });
+
+  it('should replay every segment when a crash cut a compaction short', async () => {
+    const repository = new FileJobRepository({ directory, fsync: false });
+    await repository.save(createJob(1));
+
+    // The snapshot is never put in place, as if the process died while writing it
+    const stalled = new Promise<void>((resolve) => {
+      jest.spyOn(fs.promises, 'rename').mockImplementation(() => {
+        resolve();
+        return new Promise(() => {});
+      });
+    });
+    void repository.compact();
+    await stalled;
+    await repository.save(createJob(2));
+
+    expect(fs.existsSync(walPath(1))).toBe(true);
+    expect(fs.existsSync(walPath(2))).toBe(true);
+    expect(await open().count()).toBe(2);
+  });
+
+  it('should drop a record torn mid-write and keep the ones before it', async () => {
+    const repository = open();
+    const jobs: Job[] = [];
+
+    for (let n = 1; n <= 3; n++) {
+      jobs.push(createJob(n));
+      await repository.save(jobs[n - 1]);
+    }
+
+    fs.truncateSync(walPath(), fs.statSync(walPath()).size - 10);
+
+    const recovered = open();
+
+    expect(await recovered.count()).toBe(2);
+    expect(await recovered.exists(jobs[2].id)).toBe(false);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('torn write-ahead log record'));
+
+    // Writes after recovery land after the last intact record
+    await recovered.save(jobs[2]);
+    expect(await open().count()).toBe(3);
+  });
+
+  it('should drop a record whose header was only partly written', async () => {
+    const repository = open();
+    await repository.save(createJob(1));
+    const intactSize = fs.statSync(walPath()).size;
+    await repository.save(createJob(2));
+
+    fs.truncateSync(walPath(), intactSize + 3);
+
+    expect(await open().count()).toBe(1);
+  });
+
+  it('should drop a record whose checksum does not match', async () => {
+    const repository = open();
+    await repository.save(createJob(1));
+    await repository.save(createJob(2));
+
+    const data = fs.readFileSync(walPath());
+    data[data.length - 2] ^= 0xff;
+    fs.writeFileSync(walPath(), data);
+
+    expect(await open().count()).toBe(1);
+  });
+
+  it('should hand out the jobs that were running when the process stopped once', async () => {
+    const repository = open();
+    const running = JobFactory.startJob(createJob(1));
+    await repository.save(running);
+    await repository.save(createJob(2));
+
+    const recovered = open();
+
+    expect(await recovered.takeAbandonedJobs(Date.now())).toEqual([running]);
+    expect(await recovered.takeAbandonedJobs(Date.now())).toEqual([]);
+  });
+
+  it('should dead-letter an interrupted job and release its dependents after a restart', async () => {
+    const repository = open();
+    const running = JobFactory.startJob(createJob(1));
+    const dependent = JobFactory.createJob({
+      type: 'email',
+      payload: { n: 2 },
+      depends_on: [{ job_id: running.id, on_failure: 'cancel' }],
+    });
+    await repository.save(running);
+    await repository.save(dependent);
+
+    const worker = new JobWorker({ repository: open() });
+    worker.getHandlerRegistry().register('email', { handle: jest.fn() });
+    worker.start();
+
+    for (let i = 0; i < 100; i++) {
+      if ((await worker.getRepository().findById(dependent.id))?.status !== JobStatus.BLOCKED) {
+        break;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    worker.stop();
+
+    expect((await worker.getRepository().findById(running.id))?.result).toMatchObject({
+      message: 'Job was interrupted before it finished',
+      code: 503,
+    });
+    expect(await worker.getDeadLetterRepository().findById(running.id)).not.toBeNull();
+    expect((await worker.getRepository().findById(dependent.id))?.status).toBe(
+      JobStatus.CANCELLED
+    );
+  });
+
+  it('should keep the dead letters of a file-backed worker across a restart', async () => {
+    const handle = jest.fn(async () => {
+      throw new Error('SMTP down');
+    });
+    const worker = new JobWorker({ storage: { type: 'file', directory, fsync: false } });
+    worker.getHandlerRegistry().register('email', { handle });
+    const job = createJob(1, { retry: { max_attempts: 1 } });
+
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    worker.start();
+    await worker.getRepository().save(job);
+
+    for (let i = 0; i < 100 && !(await worker.getDeadLetterRepository().count()); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    await worker.close();
+
+    const restarted = new JobWorker({ storage: { type: 'file', directory, fsync: false } });
+
+    expect((await restarted.getDeadLetterRepository().findById(job.id))?.reason).toMatchObject({
+      message: 'SMTP down',
+    });
+    await restarted.close();
+  });
+
+  it('should keep the job logs of a file-backed worker across a restart', async () => {
+    const worker = new JobWorker({ storage: { type: 'file', directory, fsync: false } });
+    const logStore = worker.getJobLogStore();
+
+    for (let n = 1; n <= 12; n++) {
+      await logStore.append('job-1', 1, 'info', `line ${n}`);
+    }
+    await worker.close();
+
+    const restarted = new JobWorker({ storage: { type: 'file', directory, fsync: false } });
+    const logs = restarted.getJobLogRepository();
+
+    expect(await logs.getUsage('job-1')).toEqual({ last_sequence: 12, bytes: 75 });
+    expect(
+      (await logs.findByJobId('job-1', { after: 9, limit: 2 })).map((entry) => entry.message)
+    ).toEqual(['line 10', 'line 11']);
+    await restarted.close();
+  });
+
+  it('should close the storage a worker opened, but not a repository passed to it', async () => {
+    const repository = open();
+    const owning = new JobWorker({ storage: { type: 'file', directory, fsync: false } });
+    const borrowing = new JobWorker({ repository });
+    const closed = jest.spyOn(FileJobRepository.prototype, 'close');
+
+    owning.start();
+    await owning.close();
+    await borrowing.close();
+
+    expect(owning.isRunning()).toBe(false);
+    expect(closed.mock.instances).toEqual([owning.getRepository()]);
+    expect(await repository.save(createJob(1))).toMatchObject({ payload: { n: 1 } });
+  });
+});
@@ -0,0 +1,108 @@
+import { createErrorResult, DeadLetterFactory, JobFactory } from '../../../domain';
+import { InMemoryDeadLetterRepository } from '../InMemoryDeadLetterRepository';
+
+jest.mock('uuid', () => {
+  let counter = 0;
+  return {
+    v4: jest.fn(() => `test-uuid-${String(counter++ % 10000).padStart(4, '0')}`),
+  };
+});
+
+
+describe('InMemoryDeadLetterRepository', () => {
+  let repository: InMemoryDeadLetterRepository;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2024-01-01'));
+    repository = new InMemoryDeadLetterRepository();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  function createDeadLetter(type: string) {
+    const job = JobFactory.createJob({ type, payload: { to: 'test@example.com' } });
+    const failedJob = JobFactory.failJob(
+      JobFactory.startJob(job),
+      createErrorResult('Failed', 500)
+    );
+    return DeadLetterFactory.fromJob(failedJob);
+  }
+
+  describe('save and findById', () => {
+    it('should store and return a dead letter', async () => {
+      const deadLetter = createDeadLetter('email');
+
+      await repository.save(deadLetter);
+
+      expect(await repository.findById(deadLetter.id)).toEqual(deadLetter);
+      expect(await repository.count()).toBe(1);
+    });
+
+    it('should return null for unknown ids', async () => {
+      expect(await repository.findById('non-existent-id')).toBeNull();
+    });
+  });
+
+  describe('findAll', () => {
+    it('should return entries in dead-letter order', async () => {
+      const first = createDeadLetter('email');
+      jest.advanceTimersByTime(10);
+      const second = createDeadLetter('sms');
+
+      await repository.save(second);
+      await repository.save(first);
+
+      const all = await repository.findAll();
+
+      expect(all.map((d) => d.id)).toEqual([first.id, second.id]);
+    });
+
+    it('should filter by job type', async () => {
+      await repository.save(createDeadLetter('email'));
+      await repository.save(createDeadLetter('sms'));
+
+      const emails = await repository.findAll({ type: 'email' });
+
+      expect(emails).toHaveLength(1);
+      expect(emails[0].job.type).toBe('email');
+    });
+  });
+
+  describe('purge', () => {
+    it('should remove everything without a filter', async () => {
+      await repository.save(createDeadLetter('email'));
+      await repository.save(createDeadLetter('sms'));
+
+      expect(await repository.purge()).toBe(2);
+      expect(await repository.count()).toBe(0);
+    });
+
+    it('should only remove entries older than "before"', async () => {
+      const old = createDeadLetter('email');
+      await repository.save(old);
+
+      jest.advanceTimersByTime(1000);
+      const recent = createDeadLetter('email');
+      await repository.save(recent);
+
+      const purged = await repository.purge({ before: recent.dead_lettered_at });
+
+      expect(purged).toBe(1);
+      expect(await repository.findById(old.id)).toBeNull();
+      expect(await repository.findById(recent.id)).toEqual(recent);
+    });
+  });
+
+  describe('delete', () => {
+    it('should delete a single entry', async () => {
+      const deadLetter = createDeadLetter('email');
+      await repository.save(deadLetter);
+
+      expect(await repository.delete(deadLetter.id)).toBe(true);
+      expect(await repository.delete(deadLetter.id)).toBe(false);
+    });
+  });
+});
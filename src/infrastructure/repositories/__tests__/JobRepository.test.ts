@@ -0,0 +1,691 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  createErrorResult,
+  createSuccessResult,
+  Job,
+  JobFactory,
+  JobRepository,
+  JobStatus,
+} from '../../../domain';
+import { InMemoryJobRepository } from '../InMemoryJobRepository';
+import { FileJobRepository } from '../FileJobRepository';
+import { SqliteJobRepository } from '../SqliteJobRepository';
+import { RedisJobRepository } from '../RedisJobRepository';
+import { startTestRedis, TestRedis } from './support/RespStandIn';
+
+jest.mock('uuid', () => {
+  let counter = 0;
+  return {
+    v4: jest.fn(() => `test-uuid-${String(counter++ % 10000).padStart(4, '0')}`),
+  };
+});
+
+let redis: TestRedis;
+let redisKeyspace = 0;
+const fileDirectories: string[] = [];
+
+beforeAll(async () => {
+  redis = await startTestRedis();
+});
+
+afterAll(async () => {
+  await redis.stop();
+  fileDirectories.forEach((directory) => fs.rmSync(directory, { recursive: true, force: true }));
+});
+
+/**
+ * Behavior every JobRepository implementation must share
+ */
+describe.each<[string, () => JobRepository]>([
+  ['InMemoryJobRepository', () => new InMemoryJobRepository()],
+  [
+    'FileJobRepository',
+    () => {
+      const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'job-contract-'));
+      fileDirectories.push(directory);
+      return new FileJobRepository({ directory, fsync: false });
+    },
+  ],
+  ['SqliteJobRepository', () => new SqliteJobRepository({ filename: ':memory:' })],
+  [
+    'RedisJobRepository',
+    () =>
+      new RedisJobRepository({
+        url: redis.url,
+        keyPrefix: `test:${process.pid}:${redisKeyspace++}`,
+      }),
+  ],
+])('%s', (_name, createRepository) => {
+  let repository: JobRepository;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    repository = createRepository();
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+
+    if (repository instanceof FileJobRepository) {
+      await repository.close();
+    }
+
+    if (repository instanceof SqliteJobRepository) {
+      repository.close();
+    }
+
+    if (repository instanceof RedisJobRepository) {
+      await repository.clear();
+      await repository.close();
+    }
+  });
+
+  describe('save', () => {
+    it('should save a new job', async () => {
+      const job = JobFactory.createJob({
+        type: 'email',
+        payload: { to: 'test@example.com' },
+      });
+
+      const savedJob = await repository.save(job);
+
+      expect(savedJob).toEqual(job);
+      expect(await repository.exists(job.id)).toBe(true);
+    });
+
+    it('should update an existing job', async () => {
+      const job = JobFactory.createJob({
+        type: 'email',
+        payload: { to: 'test@example.com' },
+      });
+      await repository.save(job);
+
+      // Act - Update to RUNNING
+      const runningJob = JobFactory.startJob(job);
+      const updatedJob = await repository.save(runningJob);
+
+      expect(updatedJob.status).toBe(JobStatus.RUNNING);
+      const foundJob = await repository.findById(job.id);
+      expect(foundJob?.status).toBe(JobStatus.RUNNING);
+    });
+
+    it('should return the saved job', async () => {
+      const job = JobFactory.createJob({
+        type: 'sms',
+        payload: { to: '+1234567890' },
+      });
+
+      const result = await repository.save(job);
+
+      expect(result).toBe(job);
+    });
+  });
+
+  describe('update', () => {
+    it('should save what the mutation makes of the stored job', async () => {
+      const job = JobFactory.createJob({ type: 'email', payload: { n: 1 } });
+      await repository.save(job);
+
+      const updated = await repository.update(job.id, (stored) => ({
+        ...stored,
+        payload: { n: stored.payload.n + 1 },
+      }));
+
+      expect(updated?.payload).toEqual({ n: 2 });
+      expect(await repository.findById(job.id)).toEqual(updated);
+    });
+
+    it('should leave the job as stored when the mutation returns null', async () => {
+      const job = JobFactory.createJob({ type: 'email', payload: { n: 1 } });
+      await repository.save(job);
+
+      expect(await repository.update(job.id, () => null)).toBeNull();
+      expect(await repository.update('missing', (stored) => stored)).toBeNull();
+      expect(await repository.findById(job.id)).toEqual(job);
+    });
+  });
+
+  describe('insert', () => {
+    const findDuplicate = (job: Job, candidates: Job[]) => JobFactory.findDuplicate(job, candidates);
+    const createKeyedJob = (n: number, config = {}) =>
+      JobFactory.createJob({ type: 'email', payload: { n }, config });
+
+    it('should create only one job for concurrent inserts with the same key', async () => {
+      const insertions = await Promise.all(
+        [1, 2, 3].map((n) =>
+          repository.insert([createKeyedJob(n, { unique_key: 'welcome' })], findDuplicate)
+        )
+      );
+      const created = insertions.flat().filter((insertion) => !insertion.collapsed);
+
+      expect(created).toHaveLength(1);
+      expect(insertions.flat().every(({ job }) => job.id === created[0].job.id)).toBe(true);
+      expect(await repository.findByUniqueKey('email', 'welcome')).toEqual([created[0].job]);
+    });
+
+    it('should collapse jobs into earlier jobs of the same insert', async () => {
+      const first = createKeyedJob(1, { unique_key: 'welcome' });
+      const other = createKeyedJob(2);
+
+      const insertions = await repository.insert(
+        [first, other, createKeyedJob(3, { unique_key: 'welcome' })],
+        findDuplicate
+      );
+
+      expect(insertions).toEqual([
+        { job: first, collapsed: false },
+        { job: other, collapsed: false },
+        { job: first, collapsed: true },
+      ]);
+      expect(await repository.count()).toBe(2);
+    });
+
+    it('should save the changes collapse makes to a stored job', async () => {
+      const config = { debounce: { key: 'sync', window: 1000 } };
+      const existing = createKeyedJob(1, config);
+      await repository.save(existing);
+
+      const debounce = (job: Job, candidates: Job[]) => {
+        const duplicate = JobFactory.findDuplicate(job, candidates);
+        return duplicate && JobFactory.debounceJob(duplicate, job.payload);
+      };
+
+      const [insertion] = await repository.insert([createKeyedJob(2, config)], debounce);
+
+      expect(insertion.collapsed).toBe(true);
+      expect(insertion.job.id).toBe(existing.id);
+      expect(await repository.findById(existing.id)).toEqual(insertion.job);
+      expect(insertion.job.payload).toEqual({ n: 2 });
+      expect(await repository.count()).toBe(1);
+    });
+  });
+
+  describe('findById', () => {
+    it('should find a job by id', async () => {
+      const job = JobFactory.createJob({
+        type: 'email',
+        payload: { to: 'test@example.com' },
+      });
+      await repository.save(job);
+
+      const foundJob = await repository.findById(job.id);
+
+      expect(foundJob).toEqual(job);
+    });
+
+    it('should return null if job does not exist', async () => {
+      const foundJob = await repository.findById('non-existent-id');
+
+      expect(foundJob).toBeNull();
+    });
+  });
+
+  describe('findByIds', () => {
+    it('should find the existing jobs in the order of the ids', async () => {
+      const first = JobFactory.createJob({ type: 'email', payload: { n: 1 } });
+      const second = JobFactory.createJob({ type: 'email', payload: { n: 2 } });
+      await repository.save(first);
+      await repository.save(second);
+
+      expect(await repository.findByIds([second.id, 'non-existent-id', first.id])).toEqual([
+        second,
+        first,
+      ]);
+      expect(await repository.findByIds([])).toEqual([]);
+    });
+  });
+
+  describe('findAll', () => {
+    it('should return all jobs', async () => {
+      const job1 = JobFactory.createJob({
+        type: 'email',
+        payload: { to: 'test1@example.com' },
+      });
+      const job2 = JobFactory.createJob({
+        type: 'sms',
+        payload: { to: '+1234567890' },
+      });
+
+      await repository.save(job1);
+      await repository.save(job2);
+
+      const allJobs = await repository.findAll();
+
+      expect(allJobs).toHaveLength(2);
+      expect(allJobs).toContainEqual(job1);
+      expect(allJobs).toContainEqual(job2);
+    });
+
+    it('should return empty array if no jobs', async () => {
+      const allJobs = await repository.findAll();
+
+      expect(allJobs).toEqual([]);
+    });
+  });
+
+  describe('findByStatus', () => {
+    it('should filter jobs by status', async () => {
+      const job1 = JobFactory.createJob({
+        type: 'email',
+        payload: { to: 'test1@example.com' },
+      });
+      const job2 = JobFactory.createJob({
+        type: 'sms',
+        payload: { to: '+1234567890' },
+      });
+
+      await repository.save(job1);
+    
+      const runningJob = JobFactory.startJob(job2);
+      await repository.save(runningJob);
+
+      const pendingJobs = await repository.findByStatus(JobStatus.PENDING);
+      const runningJobs = await repository.findByStatus(JobStatus.RUNNING);
+
+      expect(pendingJobs).toHaveLength(1);
+      expect(pendingJobs[0].id).toBe(job1.id);
+      expect(runningJobs).toHaveLength(1);
+      expect(runningJobs[0].id).toBe(job2.id);
+    });
+
+    it('should return empty array if no jobs with status', async () => {
+      const job = JobFactory.createJob({
+        type: 'email',
+        payload: { to: 'test@example.com' },
+      });
+      await repository.save(job);
+
+      const completedJobs = await repository.findByStatus(JobStatus.COMPLETED);
+
+      expect(completedJobs).toEqual([]);
+    });
+  });
+
+  describe('findByUniqueKey', () => {
+    it('should find jobs of a type by their unique key', async () => {
+      const first = JobFactory.createJob({
+        type: 'email',
+        payload: { to: 'user1@example.com' },
+        config: { unique_key: 'welcome' },
+      });
+      const second = JobFactory.createJob({
+        type: 'email',
+        payload: { to: 'user2@example.com' },
+        config: { unique_key: 'welcome' },
+      });
+      const otherType = JobFactory.createJob({
+        type: 'sms',
+        payload: { to: 'user3@example.com' },
+        config: { unique_key: 'welcome' },
+      });
+
+      await repository.save(first);
+      await repository.save(second);
+      await repository.save(otherType);
+
+      const found = await repository.findByUniqueKey('email', 'welcome');
+
+      expect(found.map((job) => job.id)).toEqual([first.id, second.id]);
+      expect(await repository.findByUniqueKey('email', 'other')).toEqual([]);
+    });
+  });
+
+  describe('findDependents', () => {
+    it('should find the jobs depending on a job in submission order', async () => {
+      const parent = JobFactory.createJob({ type: 'email', payload: { n: 1 } });
+      const other = JobFactory.createJob({ type: 'email', payload: { n: 2 } });
+      const first = JobFactory.createJob({
+        type: 'email',
+        payload: { n: 3 },
+        depends_on: [{ job_id: parent.id }],
+      });
+      const second = JobFactory.createJob({
+        type: 'email',
+        payload: { n: 4 },
+        depends_on: [{ job_id: other.id }, { job_id: parent.id }],
+      });
+
+      for (const job of [parent, other, first, second]) {
+        await repository.save(job);
+      }
+      await repository.save(JobFactory.cancelJob(first));
+
+      const dependents = await repository.findDependents(parent.id);
+
+      expect(dependents.map((job) => job.id)).toEqual([first.id, second.id]);
+      expect(dependents[0].status).toBe(JobStatus.CANCELLED);
+      expect(await repository.findDependents(first.id)).toEqual([]);
+    });
+  });
+
+  describe('getNextEligible', () => {
+    it('should return next eligible job', async () => {
+      const job = JobFactory.createJob({
+        type: 'email',
+        payload: { to: 'test@example.com' },
+        config: { delay: 0 },
+      });
+      await repository.save(job);
+
+      const eligibleJob = await repository.getNextEligible();
+
+      expect(eligibleJob).toEqual(job);
+    });
+
+    it('should return null if no eligible jobs', async () => {
+      const job = JobFactory.createJob({
+        type: 'email',
+        payload: { to: 'test@example.com' },
+        config: { delay: 10000 },
+      });
+      await repository.save(job);
+
+      const eligibleJob = await repository.getNextEligible();
+
+      expect(eligibleJob).toBeNull();
+    });
+
+    it('should return oldest eligible job (FIFO)', async () => {
+      const job1 = JobFactory.createJob({
+        type: 'email',
+        payload: { to: 'test1@example.com' },
+        config: { delay: 0 },
+      });
+
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      const job2 = JobFactory.createJob({
+        type: 'sms',
+        payload: { to: '+1234567890' },
+        config: { delay: 0 },
+      });
+
+      await repository.save(job1);
+      await repository.save(job2);
+
+      const eligibleJob = await repository.getNextEligible();
+
+      expect(eligibleJob?.id).toBe(job1.id);
+    });
+
+    it('should return the highest priority job first', async () => {
+      const low = JobFactory.createJob({
+        type: 'email',
+        payload: { to: 'user4@example.com' },
+        config: { priority: 1 },
+      });
+      const high = JobFactory.createJob({
+        type: 'email',
+        payload: { to: 'user5@example.com' },
+        config: { priority: 8 },
+      });
+
+      await repository.save(low);
+      await repository.save(high);
+
+      const eligibleJob = await repository.getNextEligible();
+
+      expect(eligibleJob?.id).toBe(high.id);
+    });
+
+    it('should return a higher-priority job saved after many queued ones first', async () => {
+      // More than the delayed entries RedisJobRepository promotes per claim
+      for (let n = 0; n < 150; n++) {
+        await repository.save(JobFactory.createJob({ type: 'email', payload: { n } }));
+      }
+
+      const urgent = JobFactory.createJob({
+        type: 'email',
+        payload: { urgent: true },
+        config: { priority: 100 },
+      });
+      await repository.save(urgent);
+
+      expect((await repository.getNextEligible())?.id).toBe(urgent.id);
+    });
+
+    it('should return null if queue is empty', async () => {
+      const eligibleJob = await repository.getNextEligible();
+
+      expect(eligibleJob).toBeNull();
+    });
+
+    it('should skip excluded types', async () => {
+      const email = JobFactory.createJob({ type: 'email', payload: { to: 'user6@example.com' } });
+      const sms = JobFactory.createJob({ type: 'sms', payload: { to: '+1234567890' } });
+
+      await repository.save(email);
+      await repository.save(sms);
+
+      expect((await repository.getNextEligible(['email']))?.id).toBe(sms.id);
+      expect(await repository.getNextEligible(['email', 'sms'])).toBeNull();
+    });
+  });
+
+  describe('getNextEligibleAt', () => {
+    it('should return when the earliest delayed job becomes eligible', async () => {
+      const soon = JobFactory.createJob({
+        type: 'email',
+        payload: { to: 'user7@example.com' },
+        config: { delay: 5000 },
+      });
+      const later = JobFactory.createJob({
+        type: 'email',
+        payload: { to: 'user8@example.com' },
+        config: { delay: 60000 },
+      });
+
+      await repository.save(later);
+      await repository.save(soon);
+
+      expect(await repository.getNextEligibleAt()).toBe(soon.eligible_at);
+    });
+
+    it('should return undefined without delayed jobs', async () => {
+      expect(await repository.getNextEligibleAt()).toBeUndefined();
+    });
+  });
+
+  describe('expiring jobs', () => {
+    it('should hand out each job past its deadline once', async () => {
+      const job = JobFactory.createJob({
+        type: 'email',
+        payload: { to: 'user9@example.com' },
+        config: { ttl: 1000 },
+      });
+      await repository.save(job);
+      const expiresAt = job.config.expires_at!;
+
+      expect(await repository.getNextExpiresAt()).toBe(expiresAt);
+      expect(await repository.takeExpiredJobs(expiresAt - 1)).toEqual([]);
+      expect((await repository.takeExpiredJobs(expiresAt)).map((taken) => taken.id)).toEqual([
+        job.id,
+      ]);
+      expect(await repository.takeExpiredJobs(expiresAt)).toEqual([]);
+      expect(await repository.getNextExpiresAt()).toBeUndefined();
+    });
+
+    it('should not hand out jobs that already started', async () => {
+      const job = JobFactory.createJob({
+        type: 'email',
+        payload: { to: 'user9@example.com' },
+        config: { ttl: 1000 },
+      });
+      await repository.save(job);
+      await repository.save(
+        JobFactory.retryJob(JobFactory.startJob(job), createErrorResult('Busy', 503))
+      );
+
+      expect(await repository.getNextExpiresAt()).toBeUndefined();
+      expect(await repository.takeExpiredJobs(job.config.expires_at!)).toEqual([]);
+    });
+  });
+
+  describe('takeAbandonedJobs', () => {
+    it('should leave a running job whose lease is renewed to its processor', async () => {
+      const job = JobFactory.startJob(
+        JobFactory.createJob({ type: 'email', payload: { to: 'user10@example.com' } })
+      );
+      await repository.save(job);
+      await repository.renewLeases([job.id]);
+
+      expect(await repository.takeAbandonedJobs(Date.now())).toEqual([]);
+    });
+  });
+
+  describe('renewLeases', () => {
+    it('should return the renewed jobs with a cancellation request', async () => {
+      const [requested, other] = [1, 2].map((n) =>
+        JobFactory.startJob(JobFactory.createJob({ type: 'email', payload: { n } }))
+      );
+      await repository.save(JobFactory.requestCancellation(requested, true));
+      await repository.save(other);
+
+      const cancelled = await repository.renewLeases([requested.id, other.id]);
+
+      expect(cancelled.map((job) => job.id)).toEqual([requested.id]);
+      expect(cancelled[0].cancel_request?.force).toBe(true);
+    });
+  });
+
+  describe('listeners', () => {
+    it('should report jobs entering PENDING and finishing', async () => {
+      const pending = jest.fn();
+      const finished = jest.fn();
+      repository.onJobPending(pending);
+      const unsubscribe = repository.onJobFinished(finished);
+
+      const job = JobFactory.createJob({ type: 'email', payload: { to: 'user10@example.com' } });
+      await repository.save(job);
+      expect(pending).toHaveBeenCalledTimes(1);
+
+      const completedJob = JobFactory.completeJob(
+        JobFactory.startJob(job),
+        createSuccessResult('Success')
+      );
+      await repository.save(completedJob);
+      await repository.save(completedJob);
+      expect(finished).toHaveBeenCalledTimes(1);
+      expect(finished.mock.calls[0][0].id).toBe(job.id);
+
+      unsubscribe();
+      const other = JobFactory.createJob({ type: 'email', payload: { to: 'user11@example.com' } });
+      await repository.save(
+        JobFactory.completeJob(JobFactory.startJob(other), createSuccessResult('Success'))
+      );
+      expect(finished).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getJobCounts', () => {
+    it('should return counts of jobs by status', async () => {
+      const job1 = JobFactory.createJob({
+        type: 'email',
+        payload: { to: 'test1@example.com' },
+      });
+
+      const job2 = JobFactory.createJob({
+        type: 'sms',
+        payload: { to: '+1234567890' },
+      });
+
+      await repository.save(job1);
+
+      const runningJob = JobFactory.startJob(job2);
+      await repository.save(runningJob);
+
+      const counts = await repository.getJobCounts();
+
+      expect(counts[JobStatus.PENDING]).toBe(1);
+      expect(counts[JobStatus.RUNNING]).toBe(1);
+      expect(counts[JobStatus.COMPLETED]).toBe(0);
+      expect(counts[JobStatus.FAILED]).toBe(0);
+      expect(counts[JobStatus.CANCELLED]).toBe(0);
+    });
+
+    it('should return zero counts for empty repository', async () => {
+      const counts = await repository.getJobCounts();
+
+      expect(counts[JobStatus.PENDING]).toBe(0);
+      expect(counts[JobStatus.RUNNING]).toBe(0);
+      expect(counts[JobStatus.COMPLETED]).toBe(0);
+      expect(counts[JobStatus.FAILED]).toBe(0);
+      expect(counts[JobStatus.CANCELLED]).toBe(0);
+    });
+  });
+
+  describe('exists', () => {
+    it('should return true if job exists', async () => {
+      const job = JobFactory.createJob({
+        type: 'email',
+        payload: { to: 'test@example.com' },
+      });
+      await repository.save(job);
+
+      const exists = await repository.exists(job.id);
+
+      expect(exists).toBe(true);
+    });
+
+    it('should return false if job does not exist', async () => {
+      const exists = await repository.exists('non-existent-id');
+
+      expect(exists).toBe(false);
+    });
+  });
+
+  describe('count', () => {
+    it('should return total number of jobs', async () => {
+      const job1 = JobFactory.createJob({
+        type: 'email',
+        payload: { to: 'test1@example.com' },
+      });
+
+      const job2 = JobFactory.createJob({
+        type: 'sms',
+        payload: { to: '+1234567890' },
+      });
+
+      await repository.save(job1);
+      await repository.save(job2);
+
+      const count = await repository.count();
+
+      expect(count).toBe(2);
+    });
+
+    it('should return 0 for empty repository', async () => {
+      const count = await repository.count();
+
+      expect(count).toBe(0);
+    });
+  });
+
+  describe('job lifecycle', () => {
+    it('should handle complete job lifecycle', async () => {
+      const job = JobFactory.createJob({
+        type: 'email',
+        payload: { to: 'test@example.com' },
+      });
+      await repository.save(job);
+      expect((await repository.findById(job.id))?.status).toBe(JobStatus.PENDING);
+      const runningJob = JobFactory.startJob(job);
+      await repository.save(runningJob);
+      expect((await repository.findById(job.id))?.status).toBe(JobStatus.RUNNING);
+
+      const completedJob = JobFactory.completeJob(
+        runningJob,
+        createSuccessResult('Success')
+      );
+      await repository.save(completedJob);
+
+      const finalJob = await repository.findById(job.id);
+      expect(finalJob?.status).toBe(JobStatus.COMPLETED);
+      expect(finalJob?.result).toBeDefined();
+      expect(finalJob?.execution_time).toBeDefined();
+      expect(finalJob?.finished_at).toBeDefined();
+    });
+  });
+});
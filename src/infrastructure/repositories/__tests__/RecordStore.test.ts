@@ -0,0 +1,239 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RecordStore } from '../RecordStore';
+import { FileRecordStore } from '../FileRecordStore';
+import { SqliteRecordStore } from '../SqliteRecordStore';
+import { RedisRecordStore } from '../RedisRecordStore';
+import { startTestRedis, TestRedis } from './support/RespStandIn';
+
+interface Counter {
+  name: string;
+  n: number;
+}
+
+let redis: TestRedis;
+let redisKeyspace = 0;
+const directories: string[] = [];
+
+const createDirectory = () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'record-store-'));
+  directories.push(directory);
+  return directory;
+};
+
+beforeAll(async () => {
+  redis = await startTestRedis();
+});
+
+afterAll(async () => {
+  await redis.stop();
+  directories.forEach((directory) => fs.rmSync(directory, { recursive: true, force: true }));
+});
+
+/**
+ * Behavior every RecordStore implementation must share. Each case returns a function
+ * opening stores on one storage location; `shared` ones may be open several at a time.
+ */
+describe.each<[string, { shared: boolean; location: () => () => RecordStore }]>([
+  [
+    'FileRecordStore',
+    {
+      shared: false,
+      location: () => {
+        const directory = createDirectory();
+        return () => new FileRecordStore({ directory, fsync: false });
+      },
+    },
+  ],
+  [
+    'SqliteRecordStore',
+    {
+      shared: true,
+      location: () => {
+        const filename = path.join(createDirectory(), 'jobs.db');
+        return () => new SqliteRecordStore({ filename });
+      },
+    },
+  ],
+  [
+    'RedisRecordStore',
+    {
+      shared: true,
+      location: () => {
+        const keyPrefix = `test:${process.pid}:records:${redisKeyspace++}`;
+        return () => new RedisRecordStore({ url: redis.url, keyPrefix });
+      },
+    },
+  ],
+])('%s', (_name, { shared, location }) => {
+  let open: () => RecordStore;
+  let stores: RecordStore[];
+
+  const openStore = () => {
+    const store = open();
+    stores.push(store);
+    return store;
+  };
+
+  beforeEach(() => {
+    open = location();
+    stores = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(stores.map((store) => store.close()));
+  });
+
+  it('should store, replace and delete records', async () => {
+    const counters = openStore().collection<Counter>('counters');
+
+    await counters.put('a', { name: 'a', n: 1 });
+    await counters.put('a', { name: 'a', n: 2 });
+
+    expect(await counters.get('a')).toEqual({ name: 'a', n: 2 });
+    expect(await counters.count()).toBe(1);
+    expect(await counters.delete('a')).toBe(true);
+    expect(await counters.delete('a')).toBe(false);
+    expect(await counters.get('a')).toBeNull();
+    expect(await counters.count()).toBe(0);
+  });
+
+  it('should list records by id, after a cursor and up to a limit', async () => {
+    const counters = openStore().collection<Counter>('counters');
+
+    for (const name of ['0003', '0001', '0010', '0002']) {
+      await counters.put(name, { name, n: Number(name) });
+    }
+
+    expect((await counters.list()).map((counter) => counter.name)).toEqual([
+      '0001',
+      '0002',
+      '0003',
+      '0010',
+    ]);
+    expect((await counters.list({ after: '0001', limit: 2 })).map((counter) => counter.n)).toEqual(
+      [2, 3]
+    );
+    expect(await counters.list({ after: '0010' })).toEqual([]);
+  });
+
+  it('should keep collections apart', async () => {
+    const store = openStore();
+    const counters = store.collection<Counter>('counters');
+    const others = store.collection<Counter>('others');
+
+    await counters.put('a', { name: 'a', n: 1 });
+    await others.put('a', { name: 'other', n: 2 });
+    await others.put('b', { name: 'other', n: 3 });
+
+    expect(await counters.clear()).toBe(1);
+    expect(await counters.list()).toEqual([]);
+    expect(await others.count()).toBe(2);
+  });
+
+  it('should store a record only if its id is free', async () => {
+    const counters = openStore().collection<Counter>('counters');
+
+    const created = await Promise.all([
+      counters.putIfAbsent('a', { name: 'first', n: 1 }),
+      counters.putIfAbsent('a', { name: 'second', n: 2 }),
+    ]);
+
+    expect(created.sort()).toEqual([false, true]);
+    expect(await counters.count()).toBe(1);
+  });
+
+  it('should update a record, or leave it as is when the mutation returns null', async () => {
+    const counters = openStore().collection<Counter>('counters');
+    await counters.put('a', { name: 'a', n: 1 });
+
+    expect(await counters.update('a', (counter) => ({ ...counter, n: counter.n + 1 }))).toEqual({
+      name: 'a',
+      n: 2,
+    });
+    expect(await counters.update('a', () => null)).toBeNull();
+    expect(await counters.update('missing', (counter) => counter)).toBeNull();
+    expect(await counters.get('a')).toEqual({ name: 'a', n: 2 });
+  });
+
+  it('should apply concurrent updates one after the other', async () => {
+    const first = openStore();
+    const instances = shared ? [first, openStore(), openStore()] : [first];
+    await first.collection<Counter>('counters').put('a', { name: 'a', n: 0 });
+
+    await Promise.all(
+      instances.flatMap((store) =>
+        [1, 2, 3].map(() =>
+          store
+            .collection<Counter>('counters')
+            .update('a', (counter) => ({ ...counter, n: counter.n + 1 }))
+        )
+      )
+    );
+
+    expect(await first.collection<Counter>('counters').get('a')).toEqual({
+      name: 'a',
+      n: instances.length * 3,
+    });
+  });
+
+  it('should delete the records that expired, as of their last write', async () => {
+    const store = openStore();
+    const counters = store.collection<Counter>('counters', { expiresAt: (counter) => counter.n });
+    const others = store.collection<Counter>('others');
+    const now = Date.now() + 60 * 1000;
+
+    await counters.put('a', { name: 'a', n: now });
+    await counters.put('b', { name: 'b', n: now + 1000 });
+    await counters.putIfAbsent('c', { name: 'c', n: now });
+    await counters.update('c', (counter) => ({ ...counter, n: now + 2000 }));
+    await others.put('a', { name: 'other', n: 0 });
+
+    expect(await counters.deleteExpired(now)).toBe(1);
+    expect((await counters.list()).map((counter) => counter.name)).toEqual(['b', 'c']);
+    expect(await counters.deleteExpired(now)).toBe(0);
+    expect(await others.deleteExpired(now)).toBe(0);
+    expect(await others.count()).toBe(1);
+  });
+
+  it('should keep records across a restart', async () => {
+    const store = open();
+    await store.collection<Counter>('counters').put('a', { name: 'a', n: 1 });
+    await store.collection<Counter>('counters').put('b', { name: 'b', n: 2 });
+    await store.collection<Counter>('counters').delete('b');
+    await store.close();
+
+    const reopened = openStore().collection<Counter>('counters');
+
+    expect(await reopened.list()).toEqual([{ name: 'a', n: 1 }]);
+  });
+});
+
+describe('FileRecordStore', () => {
+  it('should rewrite the log with the live records once most of it is stale', async () => {
+    const directory = createDirectory();
+    const logPath = path.join(directory, 'records.wal');
+    const store = new FileRecordStore({ directory, fsync: false });
+    const counters = store.collection<Counter>('counters');
+
+    for (let n = 0; n < 1500; n++) {
+      await counters.put(`${n % 3}`, { name: `${n % 3}`, n });
+    }
+
+    const size = fs.statSync(logPath).size;
+    await store.close();
+
+    const reopened = new FileRecordStore({ directory, fsync: false });
+
+    // 1500 records take about 100 KB; the rewrite at 1000 left some 500
+    expect(size).toBeLessThan(50000);
+    expect(await reopened.collection<Counter>('counters').list()).toEqual([
+      { name: '0', n: 1497 },
+      { name: '1', n: 1498 },
+      { name: '2', n: 1499 },
+    ]);
+
+    await reopened.close();
+  });
+});
@@ -0,0 +1,258 @@
+import { createSuccessResult, Job, JobFactory, JobResult, JobStatus } from '../../../domain';
+import { JobWorker } from '../../../application/services/JobWorker';
+import { RedisJobRepository, RedisJobRepositoryOptions } from '../RedisJobRepository';
+import { startTestRedis, TestRedis } from './support/RespStandIn';
+
+jest.mock('uuid', () => {
+  let counter = 0;
+  return {
+    v4: jest.fn(() => `test-uuid-${String(counter++ % 10000).padStart(4, '0')}`),
+  };
+});
+
+describe('RedisJobRepository', () => {
+  let redis: TestRedis;
+  let keyPrefix: string;
+  let keyspace = 0;
+  let repositories: RedisJobRepository[];
+
+  const open = (options: Partial<RedisJobRepositoryOptions> = {}) => {
+    const repository = new RedisJobRepository({ url: redis.url, keyPrefix, ...options });
+    repositories.push(repository);
+    return repository;
+  };
+
+  const createJob = (n: number, config = {}) =>
+    JobFactory.createJob({ type: 'email', payload: { n }, config });
+
+  beforeAll(async () => {
+    redis = await startTestRedis();
+  });
+
+  afterAll(async () => {
+    await redis.stop();
+  });
+
+  beforeEach(() => {
+    keyPrefix = `test:${process.pid}:${keyspace++}`;
+    repositories = [];
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await repositories[0]?.clear();
+    await Promise.all(repositories.map((repository) => repository.close()));
+  });
+
+  it('should not hand the same job to two instances', async () => {
+    const first = open();
+    const second = open();
+    const jobs = [createJob(1), createJob(2), createJob(3)];
+
+    for (const job of jobs) {
+      await first.save(job);
+    }
+
+    const claimed = await Promise.all([
+      first.getNextEligible(),
+      second.getNextEligible(),
+      first.getNextEligible(),
+      second.getNextEligible(),
+    ]);
+
+    expect(claimed.map((job) => job?.id).sort()).toEqual(
+      [jobs[0].id, jobs[1].id, jobs[2].id, undefined].sort()
+    );
+  });
+
+  it('should create one job per unique key across instances', async () => {
+    const [first, second] = [open(), open()];
+    const findDuplicate = (job: Job, candidates: Job[]) => JobFactory.findDuplicate(job, candidates);
+
+    const insertions = await Promise.all(
+      [first, second, first, second].map((repository, n) =>
+        repository.insert([createJob(n, { unique_key: 'welcome' })], findDuplicate)
+      )
+    );
+    const created = insertions.flat().filter((insertion) => !insertion.collapsed);
+
+    expect(created).toHaveLength(1);
+    expect(await first.findByUniqueKey('email', 'welcome')).toEqual([created[0].job]);
+  });
+
+  it('should release the claim when the job is saved', async () => {
+    const repository = open();
+    const job = createJob(1);
+    await repository.save(job);
+
+    expect((await repository.getNextEligible())?.id).toBe(job.id);
+
+    await repository.save(job);
+
+    expect((await repository.getNextEligible())?.id).toBe(job.id);
+  });
+
+  it('should let an abandoned claim be taken again after the claim timeout', async () => {
+    const repository = open({ claimTimeout: 1000 });
+    const job = createJob(1);
+    await repository.save(job);
+    const now = Date.now();
+
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+    expect((await repository.getNextEligible())?.id).toBe(job.id);
+
+    jest.spyOn(Date, 'now').mockReturnValue(now + 999);
+    expect(await repository.getNextEligible()).toBeNull();
+    expect(await repository.getNextEligibleAt()).toBe(now + 1000);
+
+    jest.spyOn(Date, 'now').mockReturnValue(now + 1000);
+    expect((await open().getNextEligible())?.id).toBe(job.id);
+  });
+
+  it('should apply concurrent updates from several instances one after the other', async () => {
+    const instances = [open(), open(), open()];
+    const job = createJob(0);
+    await instances[0].save(job);
+
+    await Promise.all(
+      instances.flatMap((instance) =>
+        [1, 2].map(() =>
+          instance.update(job.id, (stored) => ({ ...stored, payload: { n: stored.payload.n + 1 } }))
+        )
+      )
+    );
+
+    expect((await instances[0].findById(job.id))?.payload).toEqual({ n: 6 });
+  });
+
+  it('should hand an expired job to one instance only', async () => {
+    const first = open();
+    const second = open();
+    const job = createJob(1, { ttl: 1000 });
+    await first.save(job);
+
+    const taken = await Promise.all([
+      first.takeExpiredJobs(job.config.expires_at!),
+      second.takeExpiredJobs(job.config.expires_at!),
+    ]);
+
+    expect(taken.flat().map((expired) => expired.id)).toEqual([job.id]);
+    expect(await first.getNextEligible()).toBeNull();
+  });
+
+  it('should let aged low-priority jobs overtake newer high-priority ones', async () => {
+    const repository = open({ priorityAgingInterval: 1000 });
+    const now = Date.now();
+
+    jest.spyOn(Date, 'now').mockReturnValue(now - 10000);
+    const old = createJob(1, { priority: 0 });
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+    const recent = createJob(2, { priority: 5 });
+
+    await repository.save(recent);
+    await repository.save(old);
+
+    expect((await repository.getNextEligible())?.id).toBe(old.id);
+  });
+
+  it('should share one queue between workers', async () => {
+    jest.spyOn(console, 'log').mockImplementation();
+    const executed: string[] = [];
+    const workers = [open(), open()].map((repository) => {
+      const worker = new JobWorker({ repository, pollInterval: 20, concurrency: 2 });
+      worker.getHandlerRegistry().register('email', {
+        handle: async (job: Job) => {
+          executed.push(job.id);
+          await new Promise((resolve) => setTimeout(resolve, 10));
+          return createSuccessResult('Sent');
+        },
+      });
+      return worker;
+    });
+    const jobs = Array.from({ length: 8 }, (_, n) => createJob(n));
+
+    workers.forEach((worker) => worker.start());
+
+    for (const job of jobs) {
+      await repositories[0].save(job);
+    }
+
+    for (let i = 0; i < 200; i++) {
+      const completed = await repositories[0].findByStatus(JobStatus.COMPLETED);
+
+      if (completed.length === jobs.length) {
+        break;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+
+    workers.forEach((worker) => worker.stop());
+
+    expect(executed.sort()).toEqual(jobs.map((job) => job.id).sort());
+    expect((await repositories[0].getJobCounts())[JobStatus.COMPLETED]).toBe(jobs.length);
+  });
+
+  it('should take over the running job of an instance that died mid-job', async () => {
+    jest.spyOn(console, 'log').mockImplementation();
+    const [first, second] = [open({ claimTimeout: 200 }), open({ claimTimeout: 200 })];
+    const dying = new JobWorker({ repository: first, heartbeatInterval: 50 });
+    const survivor = new JobWorker({ repository: second, pollInterval: 20, heartbeatInterval: 50 });
+    const job = createJob(1, { retry: { max_attempts: 2, initial_delay: 10 } });
+    const handle = jest.fn(async () => createSuccessResult('Sent'));
+    let finishHungJob = () => {};
+    const started = new Promise<void>((resolve) => {
+      dying.getHandlerRegistry().register('email', {
+        handle: () => {
+          resolve();
+          return new Promise<JobResult>((finish) => {
+            finishHungJob = () => finish(createSuccessResult('Sent late'));
+          });
+        },
+      });
+    });
+    survivor.getHandlerRegistry().register('email', { handle });
+
+    dying.start();
+
+    try {
+      await first.save(job);
+      await started;
+      survivor.start();
+
+      // The lease outlives the claim timeout while the heartbeat renews it
+      await new Promise((resolve) => setTimeout(resolve, 400));
+      expect((await second.findById(job.id))?.status).toBe(JobStatus.RUNNING);
+      expect(handle).not.toHaveBeenCalled();
+
+      // The first instance dies: no more heartbeats, and it never saves the job again
+      dying.stop();
+      jest.spyOn(first, 'renewLeases').mockResolvedValue([]);
+      jest.spyOn(first, 'save').mockImplementation(async (saved) => saved);
+
+      for (let i = 0; i < 200; i++) {
+        if ((await second.findById(job.id))?.status === JobStatus.COMPLETED) {
+          break;
+        }
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+
+      const completed = await second.findById(job.id);
+
+      expect(completed?.status).toBe(JobStatus.COMPLETED);
+      expect(completed?.attempt_history[0].result).toMatchObject({
+        message: 'Job was interrupted before it finished',
+        code: 503,
+      });
+      expect(handle).toHaveBeenCalledTimes(1);
+    } finally {
+      [dying, survivor].filter((worker) => worker.isRunning()).forEach((worker) => worker.stop());
+      finishHungJob();
+    }
+  });
+
+  it('should reject URLs of other protocols', () => {
+    expect(() => open({ url: 'http://localhost:6379' })).toThrow(
+      'Redis URL must start with redis://'
+    );
+  });
+});
@@ -0,0 +1,196 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Job, JobFactory, JobStatus } from '../../../domain';
+import { JobWorker } from '../../../application/services/JobWorker';
+import { SqliteJobRepository, SqliteJobRepositoryOptions } from '../SqliteJobRepository';
+
+jest.mock('uuid', () => {
+  let counter = 0;
+  return {
+    v4: jest.fn(() => `test-uuid-${String(counter++ % 10000).padStart(4, '0')}`),
+  };
+});
+
+describe('SqliteJobRepository', () => {
+  let directory: string;
+  let repositories: SqliteJobRepository[];
+
+  const open = (options: Partial<SqliteJobRepositoryOptions> = {}) => {
+    const repository = new SqliteJobRepository({
+      filename: path.join(directory, 'jobs.db'),
+      ...options,
+    });
+    repositories.push(repository);
+    return repository;
+  };
+
+  const createJob = (n: number, config = {}) =>
+    JobFactory.createJob({ type: 'email', payload: { n }, config });
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'job-sqlite-'));
+    repositories = [];
+  });
+
+  afterEach(() => {
+    repositories.forEach((repository) => repository.close());
+    fs.rmSync(directory, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('should apply each migration once', () => {
+    expect(open().getSchemaVersions()).toEqual([1]);
+    expect(open().getSchemaVersions()).toEqual([1]);
+  });
+
+  it('should keep jobs across connections', async () => {
+    const job = createJob(1);
+    await open().save(JobFactory.startJob(job));
+
+    const reopened = open();
+
+    expect((await reopened.findById(job.id))?.status).toBe(JobStatus.RUNNING);
+    expect(await reopened.count()).toBe(1);
+  });
+
+  it('should create one job per unique key across connections', async () => {
+    const [first, second] = [open(), open()];
+    const findDuplicate = (job: Job, candidates: Job[]) => JobFactory.findDuplicate(job, candidates);
+
+    const insertions = [
+      ...(await first.insert([createJob(1, { unique_key: 'welcome' })], findDuplicate)),
+      ...(await second.insert([createJob(2, { unique_key: 'welcome' })], findDuplicate)),
+    ];
+
+    expect(insertions.map((insertion) => insertion.collapsed)).toEqual([false, true]);
+    expect(insertions[1].job.id).toBe(insertions[0].job.id);
+    expect(await first.count()).toBe(1);
+  });
+
+  it('should not hand the same job to two connections', async () => {
+    const first = open();
+    const second = open();
+    const jobs = [createJob(1), createJob(2), createJob(3)];
+
+    for (const job of jobs) {
+      await first.save(job);
+    }
+
+    const claimed = [
+      await first.getNextEligible(),
+      await second.getNextEligible(),
+      await first.getNextEligible(),
+      await second.getNextEligible(),
+    ];
+
+    expect(claimed.map((job) => job?.id)).toEqual([jobs[0].id, jobs[1].id, jobs[2].id, undefined]);
+  });
+
+  it('should release the claim when the job is saved', async () => {
+    const repository = open();
+    const job = createJob(1);
+    await repository.save(job);
+
+    expect((await repository.getNextEligible())?.id).toBe(job.id);
+
+    // e.g. a processor that could not start the job puts it back
+    await repository.save(job);
+
+    expect((await repository.getNextEligible())?.id).toBe(job.id);
+  });
+
+  it('should let an abandoned claim be taken again after the claim timeout', async () => {
+    const repository = open({ claimTimeout: 1000 });
+    const job = createJob(1);
+    await repository.save(job);
+    const now = Date.now();
+
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+    expect((await repository.getNextEligible())?.id).toBe(job.id);
+
+    jest.spyOn(Date, 'now').mockReturnValue(now + 999);
+    expect(await repository.getNextEligible()).toBeNull();
+
+    jest.spyOn(Date, 'now').mockReturnValue(now + 1000);
+    expect((await repository.getNextEligible())?.id).toBe(job.id);
+  });
+
+  it('should hand a running job whose lease ran out to one connection', async () => {
+    const first = open({ claimTimeout: 1000 });
+    const second = open({ claimTimeout: 1000 });
+    const job = JobFactory.startJob(createJob(1));
+    const now = Date.now();
+
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+    await first.save(job);
+
+    jest.spyOn(Date, 'now').mockReturnValue(now + 999);
+    expect(await second.takeAbandonedJobs(now + 999)).toEqual([]);
+    await first.renewLeases([job.id]);
+
+    expect(await second.takeAbandonedJobs(now + 1998)).toEqual([]);
+    expect(await second.takeAbandonedJobs(now + 1999)).toEqual([job]);
+    expect(await first.takeAbandonedJobs(now + 1999)).toEqual([]);
+  });
+
+  it('should retry or fail the jobs that were running when a process stopped', async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    const crashed = open({ claimTimeout: 50 });
+    const retryable = JobFactory.startJob(
+      createJob(1, { retry: { max_attempts: 2, initial_delay: 60000 } })
+    );
+    const singleAttempt = JobFactory.startJob(createJob(2));
+    const dependent = JobFactory.createJob({
+      type: 'email',
+      payload: { n: 3 },
+      depends_on: [{ job_id: singleAttempt.id, on_failure: 'cancel' }],
+    });
+    await crashed.save(retryable);
+    await crashed.save(singleAttempt);
+    await crashed.save(dependent);
+
+    const worker = new JobWorker({ repository: open({ claimTimeout: 50 }), pollInterval: 20 });
+    worker.getHandlerRegistry().register('email', { handle: jest.fn() });
+    worker.start();
+
+    for (let i = 0; i < 100; i++) {
+      if ((await worker.getRepository().findById(dependent.id))?.status !== JobStatus.BLOCKED) {
+        break;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    worker.stop();
+
+    const repository = worker.getRepository();
+
+    expect((await repository.findById(retryable.id))?.status).toBe(JobStatus.PENDING);
+    expect((await repository.findById(singleAttempt.id))?.result).toMatchObject({
+      message: 'Job was interrupted before it finished',
+      code: 503,
+    });
+    expect(await worker.getDeadLetterRepository().findById(singleAttempt.id)).not.toBeNull();
+    expect((await repository.findById(dependent.id))?.status).toBe(JobStatus.CANCELLED);
+  });
+
+  it('should let aged low-priority jobs overtake newer high-priority ones', async () => {
+    const repository = open({ priorityAgingInterval: 1000 });
+    const now = Date.now();
+
+    jest.spyOn(Date, 'now').mockReturnValue(now - 10000);
+    const old = createJob(1, { priority: 0 });
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+    const recent = createJob(2, { priority: 5 });
+
+    await repository.save(recent);
+    await repository.save(old);
+
+    expect((await repository.getNextEligible())?.id).toBe(old.id);
+  });
+
+  it('should reject an invalid claim timeout', () => {
+    expect(() => open({ claimTimeout: 0 })).toThrow(
+      'Claim timeout must be a positive integer (milliseconds)'
+    );
+  });
+});
@@ -0,0 +1,489 @@
+import * as net from 'net';
+import { AddressInfo } from 'net';
+
+type StoredValue =
+  | { type: 'string'; value: string }
+  | { type: 'set'; members: Set<string> }
+  | { type: 'zset'; scores: Map<string, number> };
+
+class ReplyError {
+  constructor(readonly message: string) {}
+}
+
+/** Null array, as EXEC replies when a watched key changed */
+const ABORTED = Symbol('aborted');
+
+type Reply = string | number | null | ReplyError | typeof ABORTED | { status: string } | Reply[];
+
+interface Connection {
+  buffer: Buffer;
+  /** Commands queued since MULTI */
+  queued: string[][] | null;
+  /** Versions of the watched keys when WATCH was issued */
+  watched: Map<string, number>;
+}
+
+const OK = { status: 'OK' };
+
+/**
+ * In-process stand-in for redis-server, for tests. It speaks RESP2 and implements
+ * the commands `RedisJobRepository` and `RedisRecordStore` use. Like Redis, it runs
+ * one command at a time, so commands and MULTI/EXEC blocks are atomic; WATCH compares
+ * per-key versions.
+ */
+export class RespStandIn {
+  private readonly data: Map<string, StoredValue> = new Map();
+  private readonly versions: Map<string, number> = new Map();
+  /** Expiry timestamps (ms) of the keys with one */
+  private readonly expiries: Map<string, number> = new Map();
+  private readonly sockets: Set<net.Socket> = new Set();
+  private readonly server: net.Server;
+
+  private constructor() {
+    this.server = net.createServer((socket) => this.accept(socket));
+  }
+
+  static async start(): Promise<RespStandIn> {
+    const standIn = new RespStandIn();
+
+    await new Promise<void>((resolve) => standIn.server.listen(0, '127.0.0.1', resolve));
+
+    return standIn;
+  }
+
+  get url(): string {
+    return `redis://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    this.sockets.forEach((socket) => socket.destroy());
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  private accept(socket: net.Socket): void {
+    const connection: Connection = { buffer: Buffer.alloc(0), queued: null, watched: new Map() };
+
+    socket.setNoDelay(true);
+    this.sockets.add(socket);
+    socket.on('close', () => this.sockets.delete(socket));
+    socket.on('error', () => socket.destroy());
+    socket.on('data', (chunk) => {
+      connection.buffer = Buffer.concat([connection.buffer, chunk]);
+
+      let parsed = RespStandIn.parseCommand(connection.buffer);
+
+      while (parsed) {
+        const [args, offset] = parsed;
+        connection.buffer = connection.buffer.subarray(offset);
+        socket.write(RespStandIn.encode(this.handle(connection, args)));
+        parsed = RespStandIn.parseCommand(connection.buffer);
+      }
+    });
+  }
+
+  private handle(connection: Connection, args: string[]): Reply {
+    const name = args[0].toUpperCase();
+
+    if (connection.queued && !['EXEC', 'DISCARD', 'MULTI', 'WATCH'].includes(name)) {
+      connection.queued.push(args);
+      return { status: 'QUEUED' };
+    }
+
+    switch (name) {
+      case 'MULTI':
+        if (connection.queued) {
+          return new ReplyError('ERR MULTI calls can not be nested');
+        }
+        connection.queued = [];
+        return OK;
+      case 'EXEC': {
+        if (!connection.queued) {
+          return new ReplyError('ERR EXEC without MULTI');
+        }
+
+        const queued = connection.queued;
+        const aborted = Array.from(connection.watched).some(
+          ([key, version]) => this.version(key) !== version
+        );
+
+        connection.queued = null;
+        connection.watched.clear();
+
+        return aborted ? ABORTED : queued.map((command) => this.execute(command));
+      }
+      case 'DISCARD':
+        connection.queued = null;
+        connection.watched.clear();
+        return OK;
+      case 'WATCH':
+        if (connection.queued) {
+          return new ReplyError('ERR WATCH inside MULTI is not allowed');
+        }
+        args.slice(1).forEach((key) => connection.watched.set(key, this.version(key)));
+        return OK;
+      case 'UNWATCH':
+        connection.watched.clear();
+        return OK;
+      default:
+        return this.execute(args);
+    }
+  }
+
+  private execute(args: string[]): Reply {
+    const [name, ...rest] = args;
+
+    this.expire(Date.now());
+
+    try {
+      switch (name.toUpperCase()) {
+        case 'PING':
+          return { status: 'PONG' };
+        case 'AUTH':
+        case 'SELECT':
+          return OK;
+        case 'GET':
+          return this.getString(rest[0]);
+        case 'MGET':
+          return rest.map((key) => this.getString(key));
+        case 'SET':
+          this.write(rest[0], { type: 'string', value: rest[1] });
+          this.expiries.delete(rest[0]);
+          return OK;
+        case 'INCR': {
+          const value = Number(this.getString(rest[0]) ?? '0') + 1;
+          this.write(rest[0], { type: 'string', value: String(value) });
+          return value;
+        }
+        case 'EXISTS':
+          return rest.filter((key) => this.data.has(key)).length;
+        case 'DEL':
+          return rest.filter((key) => this.data.has(key) && this.write(key, undefined)).length;
+        case 'PEXPIREAT':
+          if (!this.data.has(rest[0])) {
+            return 0;
+          }
+          this.expiries.set(rest[0], Number(rest[1]));
+          return 1;
+        case 'SADD':
+          return this.updateSet(rest[0], (members) =>
+            rest.slice(1).filter((member) => !members.has(member) && members.add(member)).length
+          );
+        case 'SREM':
+          return this.updateSet(rest[0], (members) =>
+            rest.slice(1).filter((member) => members.delete(member)).length
+          );
+        case 'SMEMBERS':
+          return Array.from(this.get(rest[0], 'set')?.members ?? []);
+        case 'ZADD': {
+          // Of the flags, only XX (update existing members, add none) is supported
+          const existingOnly = rest[1]?.toUpperCase() === 'XX';
+          return this.updateSortedSet(rest[0], (scores) => {
+            let added = 0;
+            for (let i = existingOnly ? 2 : 1; i < rest.length; i += 2) {
+              if (existingOnly && !scores.has(rest[i + 1])) {
+                continue;
+              }
+              added += scores.has(rest[i + 1]) ? 0 : 1;
+              scores.set(rest[i + 1], RespStandIn.parseScore(rest[i]));
+            }
+            return added;
+          });
+        }
+        case 'ZREM':
+          return this.updateSortedSet(rest[0], (scores) =>
+            rest.slice(1).filter((member) => scores.delete(member)).length
+          );
+        case 'ZSCORE': {
+          const score = this.get(rest[0], 'zset')?.scores.get(rest[1]);
+          return score === undefined ? null : RespStandIn.formatScore(score);
+        }
+        case 'ZCARD':
+          return this.get(rest[0], 'zset')?.scores.size ?? 0;
+        case 'ZRANGE': {
+          const entries = this.sorted(rest[0]);
+          const start = RespStandIn.index(Number(rest[1]), entries.length);
+          const stop = RespStandIn.index(Number(rest[2]), entries.length);
+          return RespStandIn.range(entries.slice(start, stop + 1), rest.slice(3));
+        }
+        case 'ZRANGEBYSCORE': {
+          const min = RespStandIn.parseBound(rest[1]);
+          const max = RespStandIn.parseBound(rest[2]);
+          let entries = this.sorted(rest[0]).filter(
+            ([, score]) =>
+              (min.exclusive ? score > min.value : score >= min.value) &&
+              (max.exclusive ? score < max.value : score <= max.value)
+          );
+          const limit = rest.findIndex((arg) => arg.toUpperCase() === 'LIMIT');
+
+          if (limit !== -1) {
+            const offset = Number(rest[limit + 1]);
+            const count = Number(rest[limit + 2]);
+            entries = entries.slice(offset, count < 0 ? undefined : offset + count);
+          }
+
+          return RespStandIn.range(entries, rest.slice(3));
+        }
+        case 'ZRANGEBYLEX': {
+          // Meant for sorted sets whose members all have the same score, as in Redis
+          const within = (member: string, bound: string, side: 1 | -1) => {
+            if (bound === '-' || bound === '+') {
+              return (bound === '-') === (side === 1);
+            }
+
+            const order = side * Buffer.compare(Buffer.from(member), Buffer.from(bound.slice(1)));
+            return bound.startsWith('(') ? order > 0 : order >= 0;
+          };
+
+          let entries = this.sorted(rest[0]).filter(
+            ([member]) => within(member, rest[1], 1) && within(member, rest[2], -1)
+          );
+          const limit = rest.findIndex((arg) => arg.toUpperCase() === 'LIMIT');
+
+          if (limit !== -1) {
+            const offset = Number(rest[limit + 1]);
+            const count = Number(rest[limit + 2]);
+            entries = entries.slice(offset, count < 0 ? undefined : offset + count);
+          }
+
+          return entries.map(([member]) => member);
+        }
+        case 'SCAN': {
+          const match = rest.findIndex((arg) => arg.toUpperCase() === 'MATCH');
+          const pattern = match !== -1 ? RespStandIn.globToRegExp(rest[match + 1]) : /^/;
+          return ['0', Array.from(this.data.keys()).filter((key) => pattern.test(key))];
+        }
+        default:
+          return new ReplyError(`ERR unknown command '${name}'`);
+      }
+    } catch (error) {
+      return new ReplyError((error as Error).message);
+    }
+  }
+
+  /** Deletes the keys that expired by `now`, as Redis does lazily on access */
+  private expire(now: number): void {
+    this.expiries.forEach((expiresAt, key) => {
+      if (expiresAt <= now) {
+        this.write(key, undefined);
+      }
+    });
+  }
+
+  private version(key: string): number {
+    return this.versions.get(key) ?? 0;
+  }
+
+  /**
+   * Replaces or deletes a key and bumps its version
+   * @returns Whether the key existed
+   */
+  private write(key: string, value: StoredValue | undefined): boolean {
+    const existed = this.data.has(key);
+
+    if (value) {
+      this.data.set(key, value);
+    } else {
+      this.data.delete(key);
+      this.expiries.delete(key);
+    }
+
+    this.versions.set(key, this.version(key) + 1);
+
+    return existed;
+  }
+
+  private get<T extends StoredValue['type']>(
+    key: string,
+    type: T
+  ): Extract<StoredValue, { type: T }> | undefined {
+    const value = this.data.get(key);
+
+    if (value && value.type !== type) {
+      throw new Error('WRONGTYPE Operation against a key holding the wrong kind of value');
+    }
+
+    return value as Extract<StoredValue, { type: T }> | undefined;
+  }
+
+  private getString(key: string): string | null {
+    const value = this.data.get(key);
+    return value?.type === 'string' ? value.value : null;
+  }
+
+  private updateSet(key: string, update: (members: Set<string>) => number): number {
+    const members = new Set(this.get(key, 'set')?.members);
+    const changed = update(members);
+
+    if (changed > 0) {
+      this.write(key, members.size > 0 ? { type: 'set', members } : undefined);
+    }
+
+    return changed;
+  }
+
+  private updateSortedSet(key: string, update: (scores: Map<string, number>) => number): number {
+    const before = this.get(key, 'zset')?.scores;
+    const scores = new Map(before);
+    const result = update(scores);
+    const changed =
+      scores.size !== (before?.size ?? 0) ||
+      Array.from(scores).some(([member, score]) => before?.get(member) !== score);
+
+    if (changed) {
+      this.write(key, scores.size > 0 ? { type: 'zset', scores } : undefined);
+    }
+
+    return result;
+  }
+
+  /** Members ordered by score, then lexicographically like Redis */
+  private sorted(key: string): Array<[string, number]> {
+    return Array.from(this.get(key, 'zset')?.scores ?? []).sort(
+      ([memberA, scoreA], [memberB, scoreB]) =>
+        scoreA - scoreB || Buffer.compare(Buffer.from(memberA), Buffer.from(memberB))
+    );
+  }
+
+  private static range(entries: Array<[string, number]>, options: string[]): Reply {
+    const withScores = options.some((option) => option.toUpperCase() === 'WITHSCORES');
+
+    return entries.flatMap(([member, score]) =>
+      withScores ? [member, RespStandIn.formatScore(score)] : [member]
+    );
+  }
+
+  private static index(index: number, length: number): number {
+    return index < 0 ? Math.max(0, length + index) : index;
+  }
+
+  private static parseScore(value: string): number {
+    const score = RespStandIn.parseBound(value).value;
+
+    if (Number.isNaN(score)) {
+      throw new Error('ERR value is not a valid float');
+    }
+
+    return score;
+  }
+
+  private static parseBound(value: string): { value: number; exclusive: boolean } {
+    const exclusive = value.startsWith('(');
+    const raw = (exclusive ? value.slice(1) : value).toLowerCase();
+    const number =
+      raw === '-inf' ? -Infinity : raw === '+inf' || raw === 'inf' ? Infinity : Number(raw);
+
+    return { value: number, exclusive };
+  }
+
+  private static formatScore(score: number): string {
+    return Number.isFinite(score) ? String(score) : score > 0 ? 'inf' : '-inf';
+  }
+
+  private static globToRegExp(pattern: string): RegExp {
+    const source = pattern
+      .split('*')
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+
+    return new RegExp(`^${source}$`);
+  }
+
+  /**
+   * Reads one command, sent as an array of bulk strings
+   * @returns Its arguments and the offset after it, or undefined if incomplete
+   */
+  private static parseCommand(buffer: Buffer): [string[], number] | undefined {
+    let offset = 0;
+
+    const readLine = (): string | undefined => {
+      const end = buffer.indexOf('\r\n', offset);
+
+      if (end === -1) {
+        return undefined;
+      }
+
+      const line = buffer.toString('utf8', offset, end);
+      offset = end + 2;
+      return line;
+    };
+
+    const header = readLine();
+
+    if (header === undefined) {
+      return undefined;
+    }
+
+    const args: string[] = [];
+
+    for (let i = 0; i < Number(header.slice(1)); i++) {
+      const length = readLine();
+
+      if (length === undefined) {
+        return undefined;
+      }
+
+      const size = Number(length.slice(1));
+
+      if (offset + size + 2 > buffer.length) {
+        return undefined;
+      }
+
+      args.push(buffer.toString('utf8', offset, offset + size));
+      offset += size + 2;
+    }
+
+    return [args, offset];
+  }
+
+  private static encode(reply: Reply): Buffer {
+    if (reply === null) {
+      return Buffer.from('$-1\r\n');
+    }
+
+    if (reply === ABORTED) {
+      return Buffer.from('*-1\r\n');
+    }
+
+    if (reply instanceof ReplyError) {
+      return Buffer.from(`-${reply.message}\r\n`);
+    }
+
+    if (typeof reply === 'number') {
+      return Buffer.from(`:${reply}\r\n`);
+    }
+
+    if (typeof reply === 'string') {
+      const value = Buffer.from(reply, 'utf8');
+      return Buffer.concat([Buffer.from(`$${value.length}\r\n`), value, Buffer.from('\r\n')]);
+    }
+
+    if (Array.isArray(reply)) {
+      return Buffer.concat([
+        Buffer.from(`*${reply.length}\r\n`),
+        ...reply.map((item) => RespStandIn.encode(item)),
+      ]);
+    }
+
+    return Buffer.from(`+${reply.status}\r\n`);
+  }
+}
+
+export interface TestRedis {
+  url: string;
+  stop(): Promise<void>;
+}
+
+/**
+ * The redis-server at TEST_REDIS_URL when set, otherwise a fresh stand-in
+ */
+export async function startTestRedis(): Promise<TestRedis> {
+  const url = process.env.TEST_REDIS_URL;
+
+  if (url) {
+    return { url, stop: async () => {} };
+  }
+
+  const standIn = await RespStandIn.start();
+
+  return { url: standIn.url, stop: () => standIn.stop() };
+}